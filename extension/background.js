@@ -1,7 +1,20 @@
 // Pi-Browser Extension - Background Service Worker
 let ws = null;
 let connectedTabId = null;
-let isDebugging = false;
+
+// 에이전트가 알고 있는 탭과 마지막 확인 이후 변화 (takeTabChanges로 전달)
+const knownTabIds = new Set();
+const closingTabIds = new Set();
+let openedTabIds = [];
+let closedTabIds = [];
+
+// 탭별 마지막 스냅샷의 iframe 번호 → Chrome frameId (f1 → 12)
+const snapshotFrames = new Map();
+
+// set-of-marks 스크린샷의 최대 번호 수
+const MAX_MARKS = 100;
+// 드래그 중 중간 mouseMoved 수 (CDP 모드와 같음)
+const DRAG_STEPS = 10;
 
 // 서비스 워커 활성 유지를 위한 알람
 chrome.alarms.create("keepAlive", { periodInMinutes: 0.5 });
@@ -69,29 +82,81 @@ async function handleCommand(message) {
     case "selectTab":
       return await selectTab(params.tabId);
 
+    case "openTab":
+      return await openTab(params.url);
+
+    case "closeTab":
+      return await closeTab(params.tabId);
+
+    case "takeTabChanges":
+      return await takeTabChanges();
+
     case "navigate":
       return await navigate(params.url);
 
+    case "getPageInfo":
+      return await getPageInfo();
+
     case "screenshot":
-      return await takeScreenshot();
+      return await takeScreenshot(!!params.marks);
+
+    case "capturePage":
+      return await capturePage(params.format);
 
     case "snapshot":
-      return await getSnapshot();
+      return { elements: await snapshotAllFrames() };
 
     case "click":
-      return await clickElement(params.selector);
+      await callTarget("click", params.selector);
+      return { success: true };
 
     case "fill":
-      return await fillElement(params.selector, params.value);
+      await callTarget("fill", params.selector, params.value);
+      return { success: true };
 
     case "press":
       return await pressKey(params.key);
 
+    case "clickAt":
+      await clickAt(await getActiveTabId(), params.x, params.y);
+      return { success: true };
+
+    case "hover":
+      return await hoverAt(params.target);
+
+    case "drag":
+      return await dragBetween(params.from, params.to);
+
     case "scroll":
-      return await scroll(params.direction, params.amount);
+      return await callPage("scroll", params.direction, params.amount || 500);
+
+    case "stableSelector":
+      return { selector: await stableSelector(params.selector) };
+
+    case "describe":
+      return { element: await callTarget("describe", params.selector) };
+
+    case "describeAt":
+      return { element: await callPage("describeAt", params.x, params.y) };
 
     case "getText":
-      return await getPageText();
+      return { text: params.selector ? await callTarget("getText", params.selector) : await callPage("getText", "") };
+
+    case "waitFor":
+      if (params.type === "selector") {
+        const tabId = await getActiveTabId();
+        const { frameId, selector } = resolveFrameSelector(tabId, params.selector);
+        await callFrame(tabId, frameId, "waitFor", { ...params, selector }, params.timeout || 30000);
+      } else {
+        await callPage("waitFor", params, params.timeout || 30000);
+      }
+      return { success: true };
+
+    case "download":
+      return await downloadFile(params.selector, params.filename, params.timeout || 120000);
+
+    case "upload":
+      return await uploadFiles(params.selector, params.files);
 
     case "evaluate":
       return await evaluateScript(params.script);
@@ -101,30 +166,96 @@ async function handleCommand(message) {
   }
 }
 
+// 탭 정보 (active는 명령이 실행되는 탭인지)
+function toTabInfo(tab) {
+  return {
+    id: tab.id,
+    title: tab.title || "",
+    url: tab.url || tab.pendingUrl || "",
+    active: tab.id === connectedTabId,
+  };
+}
+
 // 탭 목록 가져오기
 async function getTabs() {
+  await getActiveTabId();
   const tabs = await chrome.tabs.query({});
-  return tabs.map((tab) => ({
-    id: tab.id,
-    title: tab.title,
-    url: tab.url,
-    active: tab.active,
-  }));
+  tabs.forEach((tab) => knownTabIds.add(tab.id));
+  return tabs.map(toTabInfo);
 }
 
 // 탭 선택
 async function selectTab(tabId) {
+  const tab = await chrome.tabs.update(tabId, { active: true });
+  await chrome.windows.update(tab.windowId, { focused: true });
   connectedTabId = tabId;
-  await chrome.tabs.update(tabId, { active: true });
-  return { success: true, tabId };
+  knownTabIds.add(tabId);
+  return toTabInfo(tab);
 }
 
+// 새 탭을 열고 명령 대상으로 전환
+async function openTab(url) {
+  const tab = await chrome.tabs.create({ url: url || "about:blank" });
+  connectedTabId = tab.id;
+  knownTabIds.add(tab.id);
+  if (url) await waitForPageLoad(tab.id);
+  return toTabInfo(await chrome.tabs.get(tab.id));
+}
+
+// 탭 닫기 (tabId가 없으면 현재 탭)
+async function closeTab(tabId) {
+  const target = tabId || (await getActiveTabId());
+  closingTabIds.add(target);
+  await chrome.tabs.remove(target);
+  return { success: true };
+}
+
+// 에이전트가 직접 열거나 닫지 않은 탭 변화 (팝업, target=_blank 링크)
+async function takeTabChanges() {
+  const opened = [];
+  for (const tabId of openedTabIds) {
+    let tab = await chrome.tabs.get(tabId).catch(() => null);
+    if (tab && tab.status !== "complete") {
+      await waitForPageLoad(tabId, 5000);
+      tab = await chrome.tabs.get(tabId).catch(() => null);
+    }
+    if (tab) opened.push(toTabInfo(tab));
+  }
+  const closed = closedTabIds;
+  openedTabIds = [];
+  closedTabIds = [];
+  return { opened, closed };
+}
+
+chrome.tabs.onCreated.addListener((tab) => {
+  if (tab.openerTabId === undefined) return;
+  if (tab.openerTabId !== connectedTabId && !knownTabIds.has(tab.openerTabId)) return;
+  knownTabIds.add(tab.id);
+  openedTabIds.push(tab.id);
+});
+
+// 페이지가 이동하면 iframe ref도 무효
+chrome.tabs.onUpdated.addListener((tabId, info) => {
+  if (info.status === "loading") snapshotFrames.delete(tabId);
+});
+
+chrome.tabs.onRemoved.addListener((tabId) => {
+  snapshotFrames.delete(tabId);
+  if (tabId === connectedTabId) connectedTabId = null;
+  if (closingTabIds.delete(tabId)) {
+    knownTabIds.delete(tabId);
+    return;
+  }
+  if (knownTabIds.delete(tabId)) closedTabIds.push(tabId);
+});
+
 // 페이지 이동
 async function navigate(url) {
   if (!connectedTabId) {
     // 새 탭 생성
     const tab = await chrome.tabs.create({ url });
     connectedTabId = tab.id;
+    knownTabIds.add(tab.id);
   } else {
     await chrome.tabs.update(connectedTabId, { url });
   }
@@ -136,11 +267,17 @@ async function navigate(url) {
   return { success: true, url: tab.url, title: tab.title };
 }
 
+// 현재 페이지 URL/제목
+async function getPageInfo() {
+  const tab = await chrome.tabs.get(await getActiveTabId());
+  return { url: tab.url, title: tab.title };
+}
+
 // 페이지 로드 대기
-function waitForPageLoad() {
+function waitForPageLoad(targetTabId = connectedTabId, timeoutMs = 30000) {
   return new Promise((resolve) => {
     const listener = (tabId, info) => {
-      if (tabId === connectedTabId && info.status === "complete") {
+      if (tabId === targetTabId && info.status === "complete") {
         chrome.tabs.onUpdated.removeListener(listener);
         setTimeout(resolve, 500); // 추가 대기
       }
@@ -150,19 +287,44 @@ function waitForPageLoad() {
     setTimeout(() => {
       chrome.tabs.onUpdated.removeListener(listener);
       resolve();
-    }, 30000);
+    }, timeoutMs);
   });
 }
 
-// 스크린샷
-async function takeScreenshot() {
-  await getActiveTabId();
+// 스크린샷 (CDP 모드와 같은 JPEG 형식, marks면 번호 상자를 그린 상태로 찍음)
+async function takeScreenshot(marks = false) {
+  const tabId = await getActiveTabId();
+  const tab = await chrome.tabs.get(tabId);
+  // chrome:// 같이 스크립트를 넣을 수 없는 페이지는 크기 조정 없이 찍음
+  const viewport = await callPage("viewport").catch(() => null);
+  const markList = marks ? await callPage("showMarks", MAX_MARKS) : undefined;
+
+  try {
+    const dataUrl = await chrome.tabs.captureVisibleTab(tab.windowId, {
+      format: "jpeg",
+      quality: 80,
+    });
+    return { image: await toCssPixels(dataUrl, viewport), marks: markList };
+  } finally {
+    if (marks) await callPage("hideMarks").catch(() => {});
+  }
+}
 
-  const dataUrl = await chrome.tabs.captureVisibleTab(null, {
-    format: "png",
-  });
+// captureVisibleTab은 기기 픽셀 크기이므로 좌표 도구(CSS 픽셀)와 맞도록 줄임
+async function toCssPixels(dataUrl, viewport) {
+  if (!viewport || viewport.dpr === 1) return dataUrl;
+
+  const bitmap = await createImageBitmap(await (await fetch(dataUrl)).blob());
+  const canvas = new OffscreenCanvas(viewport.width, viewport.height);
+  canvas.getContext("2d").drawImage(bitmap, 0, 0, viewport.width, viewport.height);
+  const blob = await canvas.convertToBlob({ type: "image/jpeg", quality: 0.8 });
 
-  return { image: dataUrl };
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:image/jpeg;base64,${btoa(binary)}`;
 }
 
 // 현재 활성 탭 ID 가져오기
@@ -172,221 +334,407 @@ async function getActiveTabId() {
   const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
   if (tab) {
     connectedTabId = tab.id;
+    knownTabIds.add(tab.id);
     return tab.id;
   }
   throw new Error("No active tab found");
 }
 
-// 페이지 스냅샷 (요소 정보)
-async function getSnapshot() {
-  const tabId = await getActiveTabId();
+// dom-helpers.js의 함수를 페이지(메인 프레임)에서 실행
+async function callPage(op, ...args) {
+  return callFrame(await getActiveTabId(), 0, op, ...args);
+}
+
+// dom-helpers.js의 함수를 특정 프레임에서 실행
+// 페이지 쪽 예외는 { error }로 받아서 다시 던짐
+async function callFrame(tabId, frameId, op, ...args) {
+  const target = { tabId, frameIds: [frameId] };
+
+  await chrome.scripting.executeScript({
+    target,
+    files: ["dom-helpers.js"],
+  });
 
   const results = await chrome.scripting.executeScript({
-    target: { tabId },
-    func: () => {
-      const elements = [];
-      const interactiveSelectors = [
-        "a",
-        "button",
-        "input",
-        "select",
-        "textarea",
-        '[role="button"]',
-        '[role="link"]',
-        '[role="textbox"]',
-        '[role="checkbox"]',
-        '[role="radio"]',
-        '[onclick]',
-        '[tabindex]',
-      ];
-
-      document.querySelectorAll(interactiveSelectors.join(",")).forEach((el, index) => {
-        const rect = el.getBoundingClientRect();
-        if (rect.width === 0 || rect.height === 0) return;
-        if (rect.top > window.innerHeight || rect.bottom < 0) return;
-
-        const text =
-          el.innerText?.trim().slice(0, 100) ||
-          el.value ||
-          el.placeholder ||
-          el.getAttribute("aria-label") ||
-          el.title ||
-          "";
-
-        elements.push({
-          ref: `ref_${index}`,
-          tag: el.tagName.toLowerCase(),
-          type: el.type || null,
-          text: text,
-          role: el.getAttribute("role"),
-          selector: generateSelector(el),
-          rect: {
-            x: Math.round(rect.x),
-            y: Math.round(rect.y),
-            width: Math.round(rect.width),
-            height: Math.round(rect.height),
-          },
-        });
-      });
-
-      function generateSelector(el) {
-        if (el.id) return `#${el.id}`;
-        if (el.name) return `[name="${el.name}"]`;
-
-        let path = el.tagName.toLowerCase();
-        if (el.className && typeof el.className === "string") {
-          const classes = el.className.trim().split(/\s+/).slice(0, 2).join(".");
-          if (classes) path += `.${classes}`;
-        }
-        return path;
+    target,
+    func: (name, fnArgs) => {
+      try {
+        return Promise.resolve(window.__piBrowser[name](...fnArgs)).then(
+          (value) => ({ value }),
+          (error) => ({ error: error.message })
+        );
+      } catch (error) {
+        return { error: error.message };
       }
-
-      return elements;
     },
+    args: [op, args],
   });
 
-  return { elements: results[0]?.result || [] };
+  const outcome = results[0]?.result;
+  if (!outcome) throw new Error(`Page script failed: ${op}`);
+  if (outcome.error) throw new Error(outcome.error);
+  return outcome.value;
+}
+
+// ref=f1:e3 → iframe의 frameId와 프레임 안 셀렉터(ref=e3), 나머지는 메인 프레임
+function resolveFrameSelector(tabId, selector) {
+  const match = String(selector).match(/^ref=(f\d+):(e\d+)$/);
+  if (!match) return { frameId: 0, selector };
+
+  const frameId = snapshotFrames.get(tabId)?.get(match[1]);
+  if (frameId === undefined) {
+    throw new Error(`Unknown ref: ${match[1]}:${match[2]}. Run browser_snapshot again to get fresh refs.`);
+  }
+  return { frameId, selector: `ref=${match[2]}` };
 }
 
-// 요소 클릭 (실제 마우스 이벤트 시뮬레이션)
-async function clickElement(selector) {
+// 셀렉터가 가리키는 프레임에서 실행 (첫 인자가 셀렉터인 명령)
+async function callTarget(op, selector, ...args) {
   const tabId = await getActiveTabId();
+  const resolved = resolveFrameSelector(tabId, selector);
+  return callFrame(tabId, resolved.frameId, op, resolved.selector, ...args);
+}
+
+// ref를 재실행용 role:"name"[n] 셀렉터로 변환 (iframe ref는 그대로)
+async function stableSelector(selector) {
+  const tabId = await getActiveTabId();
+  const resolved = resolveFrameSelector(tabId, selector);
+  if (resolved.frameId !== 0) return selector;
+  return callFrame(tabId, 0, "stableSelector", resolved.selector);
+}
 
+// 모든 프레임 스냅샷 (iframe 요소는 f1:e3 형식 ref와 프레임 URL 포함)
+async function snapshotAllFrames() {
+  const tabId = await getActiveTabId();
+  const target = { tabId, allFrames: true };
+
+  await chrome.scripting.executeScript({ target, files: ["dom-helpers.js"] });
   const results = await chrome.scripting.executeScript({
-    target: { tabId },
-    func: (sel) => {
-      const el = document.querySelector(sel);
-      if (!el) throw new Error(`Element not found: ${sel}`);
-
-      const rect = el.getBoundingClientRect();
-      const x = rect.left + rect.width / 2;
-      const y = rect.top + rect.height / 2;
-
-      // 마우스 이벤트 시퀀스
-      const events = ["mousedown", "mouseup", "click"];
-      for (const type of events) {
-        const event = new MouseEvent(type, {
-          bubbles: true,
-          cancelable: true,
-          view: window,
-          clientX: x,
-          clientY: y,
-        });
-        el.dispatchEvent(event);
+    target,
+    func: () => {
+      try {
+        return { url: location.href, elements: window.__piBrowser.snapshot() };
+      } catch (error) {
+        return { error: error.message };
       }
-
-      return { success: true };
     },
-    args: [selector],
   });
 
-  return results[0]?.result;
+  const main = results.find((r) => r.frameId === 0)?.result;
+  if (!main) throw new Error("Page script failed: snapshot");
+  if (main.error) throw new Error(main.error);
+
+  const elements = [...main.elements];
+  const frames = new Map();
+  for (const { frameId, result } of results) {
+    if (frameId === 0 || !result?.elements?.length) continue;
+    const name = `f${frames.size + 1}`;
+    frames.set(name, frameId);
+    for (const el of result.elements) {
+      elements.push({ ...el, ref: `${name}:${el.ref}`, frame: result.url });
+    }
+  }
+  snapshotFrames.set(tabId, frames);
+  return elements;
 }
 
-// 요소에 입력 (React/contenteditable 호환 - execCommand 사용)
-async function fillElement(selector, value) {
-  const tabId = await getActiveTabId();
+// ============================================================
+// chrome.debugger (실제 키보드/마우스 입력, 파일 업로드)
+// ============================================================
 
-  const results = await chrome.scripting.executeScript({
-    target: { tabId },
-    func: (sel, val) => {
-      // 셀렉터로 요소 찾기 또는 contenteditable 요소 찾기
-      let el = document.querySelector(sel);
-
-      // contenteditable 요소 찾기 (Threads, Facebook 등)
-      if (!el) {
-        el = document.querySelector('[contenteditable="true"]');
-      }
-      if (!el) {
-        el = document.querySelector('[role="textbox"]');
-      }
-      if (!el) throw new Error(`Element not found: ${sel}`);
+// 디버거가 붙어 있는 탭 (한 번 붙이면 탭이 바뀌거나 해제될 때까지 유지)
+let debuggerTabId = null;
 
-      el.focus();
+chrome.debugger.onDetach.addListener((source) => {
+  if (source.tabId === debuggerTabId) debuggerTabId = null;
+});
 
-      // 기존 내용 선택 후 삭제
-      document.execCommand('selectAll', false, null);
-      document.execCommand('delete', false, null);
+async function attachDebugger(tabId) {
+  if (debuggerTabId === tabId) return;
+  if (debuggerTabId !== null) {
+    await chrome.debugger.detach({ tabId: debuggerTabId }).catch(() => {});
+  }
+  await chrome.debugger.attach({ tabId }, "1.3");
+  debuggerTabId = tabId;
+}
 
-      // 텍스트 삽입
-      document.execCommand('insertText', false, val);
+function sendDebuggerCommand(tabId, method, params = {}) {
+  return chrome.debugger.sendCommand({ tabId }, method, params);
+}
 
-      return { success: true };
-    },
-    args: [selector, value],
+// 디버거 이벤트 한 번 대기
+function waitForDebuggerEvent(tabId, method, timeout) {
+  return new Promise((resolve, reject) => {
+    const listener = (source, eventMethod, params) => {
+      if (source.tabId !== tabId || eventMethod !== method) return;
+      clearTimeout(timer);
+      chrome.debugger.onEvent.removeListener(listener);
+      resolve(params);
+    };
+    const timer = setTimeout(() => {
+      chrome.debugger.onEvent.removeListener(listener);
+      reject(new Error(`Timeout waiting for ${method}`));
+    }, timeout);
+    chrome.debugger.onEvent.addListener(listener);
   });
+}
 
-  return results[0]?.result;
+// 보관용 페이지 캡처 (MHTML은 텍스트 그대로 돌려주고 서버에서 인코딩)
+async function capturePage(format) {
+  const tabId = await getActiveTabId();
+  await attachDebugger(tabId);
+
+  if (format === "png") {
+    const { cssContentSize } = await sendDebuggerCommand(tabId, "Page.getLayoutMetrics");
+    const { data } = await sendDebuggerCommand(tabId, "Page.captureScreenshot", {
+      format: "png",
+      captureBeyondViewport: true,
+      clip: { x: 0, y: 0, width: cssContentSize.width, height: cssContentSize.height, scale: 1 },
+    });
+    return { data, mimeType: "image/png" };
+  }
+
+  if (format === "pdf") {
+    try {
+      const { data } = await sendDebuggerCommand(tabId, "Page.printToPDF", { printBackground: true });
+      return { data, mimeType: "application/pdf" };
+    } catch (error) {
+      throw new Error(`PDF capture needs headless Chrome: ${error.message}`);
+    }
+  }
+
+  if (format === "mhtml") {
+    const { data } = await sendDebuggerCommand(tabId, "Page.captureSnapshot", { format: "mhtml" });
+    return { text: data, mimeType: "multipart/related" };
+  }
+
+  throw new Error(`Unknown page format: ${format}`);
 }
 
-// 키 입력
-async function pressKey(key) {
+const KEY_DEFINITIONS = {
+  Enter: { code: "Enter", keyCode: 13, text: "\r" },
+  Tab: { code: "Tab", keyCode: 9 },
+  Escape: { code: "Escape", keyCode: 27 },
+  Backspace: { code: "Backspace", keyCode: 8 },
+  Delete: { code: "Delete", keyCode: 46 },
+  Space: { code: "Space", keyCode: 32, text: " ", key: " " },
+  ArrowUp: { code: "ArrowUp", keyCode: 38 },
+  ArrowDown: { code: "ArrowDown", keyCode: 40 },
+  ArrowLeft: { code: "ArrowLeft", keyCode: 37 },
+  ArrowRight: { code: "ArrowRight", keyCode: 39 },
+  Home: { code: "Home", keyCode: 36 },
+  End: { code: "End", keyCode: 35 },
+  PageUp: { code: "PageUp", keyCode: 33 },
+  PageDown: { code: "PageDown", keyCode: 34 },
+};
+
+const MODIFIER_BITS = { Alt: 1, Control: 2, Meta: 4, Shift: 8 };
+
+// 키 입력 (Playwright 형식: "Enter", "a", "Control+A")
+async function pressKey(combo) {
   const tabId = await getActiveTabId();
+  await attachDebugger(tabId);
 
-  const results = await chrome.scripting.executeScript({
-    target: { tabId },
-    func: (k) => {
-      const keyMap = {
-        Enter: { key: "Enter", code: "Enter", keyCode: 13 },
-        Tab: { key: "Tab", code: "Tab", keyCode: 9 },
-        Escape: { key: "Escape", code: "Escape", keyCode: 27 },
-        ArrowUp: { key: "ArrowUp", code: "ArrowUp", keyCode: 38 },
-        ArrowDown: { key: "ArrowDown", code: "ArrowDown", keyCode: 40 },
-        Backspace: { key: "Backspace", code: "Backspace", keyCode: 8 },
-      };
-
-      const keyInfo = keyMap[k] || { key: k, code: k, keyCode: k.charCodeAt(0) };
-      const event = new KeyboardEvent("keydown", {
-        key: keyInfo.key,
-        code: keyInfo.code,
-        keyCode: keyInfo.keyCode,
-        bubbles: true,
-      });
-
-      document.activeElement?.dispatchEvent(event);
-      return { success: true };
-    },
-    args: [key],
+  const parts = combo.split("+");
+  const key = parts.pop();
+  const modifiers = parts.reduce((bits, m) => bits | (MODIFIER_BITS[m] || 0), 0);
+
+  const def = KEY_DEFINITIONS[key] || {
+    code: /^[a-z]$/i.test(key) ? `Key${key.toUpperCase()}` : /^\d$/.test(key) ? `Digit${key}` : key,
+    keyCode: key.length === 1 ? key.toUpperCase().charCodeAt(0) : 0,
+    text: key.length === 1 ? key : undefined,
+  };
+  // 수식키와 함께 누르면 문자 입력 없음
+  const text = modifiers & ~MODIFIER_BITS.Shift ? undefined : def.text;
+
+  const base = {
+    key: def.key || key,
+    code: def.code,
+    windowsVirtualKeyCode: def.keyCode,
+    nativeVirtualKeyCode: def.keyCode,
+    modifiers,
+  };
+
+  await sendDebuggerCommand(tabId, "Input.dispatchKeyEvent", {
+    ...base,
+    type: text ? "keyDown" : "rawKeyDown",
+    text,
+    unmodifiedText: text,
   });
+  await sendDebuggerCommand(tabId, "Input.dispatchKeyEvent", { ...base, type: "keyUp" });
+
+  return { success: true };
+}
 
-  return results[0]?.result;
+// 좌표 클릭 (사용자 입력으로 취급되어 파일 선택창 등이 열림)
+async function clickAt(tabId, x, y) {
+  await attachDebugger(tabId);
+  const base = { x, y, button: "left", clickCount: 1 };
+  await sendDebuggerCommand(tabId, "Input.dispatchMouseEvent", { ...base, type: "mouseMoved" });
+  await sendDebuggerCommand(tabId, "Input.dispatchMouseEvent", { ...base, type: "mousePressed" });
+  await sendDebuggerCommand(tabId, "Input.dispatchMouseEvent", { ...base, type: "mouseReleased" });
 }
 
-// 스크롤
-async function scroll(direction, amount = 500) {
+// 셀렉터(iframe ref 포함) 또는 { x, y }를 페이지 좌표로 (요소는 화면에 보이도록 스크롤)
+async function targetPoint(tabId, target) {
+  if (typeof target !== "string") return { x: target.x, y: target.y };
+
+  const { frameId, selector } = resolveFrameSelector(tabId, target);
+  const token = `pi-point-${Date.now()}`;
+  const marked = await callFrame(tabId, frameId, "markElement", selector, token);
+  try {
+    return frameId === 0 ? { x: marked.x, y: marked.y } : await markedNodeCenter(tabId, token);
+  } finally {
+    await callFrame(tabId, frameId, "unmarkElement", token).catch(() => {});
+  }
+}
+
+async function hoverAt(target) {
   const tabId = await getActiveTabId();
+  const { x, y } = await targetPoint(tabId, target);
+  await attachDebugger(tabId);
+  await sendDebuggerCommand(tabId, "Input.dispatchMouseEvent", { type: "mouseMoved", x, y, button: "none" });
+  return { success: true };
+}
 
-  const results = await chrome.scripting.executeScript({
-    target: { tabId },
-    func: (dir, amt) => {
-      const scrollMap = {
-        up: [0, -amt],
-        down: [0, amt],
-        left: [-amt, 0],
-        right: [amt, 0],
-      };
-      const [x, y] = scrollMap[dir] || [0, amt];
-      window.scrollBy(x, y);
-      return { success: true, scrollY: window.scrollY };
-    },
-    args: [direction, amount],
+// 마우스를 누른 채 이동 (슬라이더, 캔버스, 포인터 이벤트 기반 드래그)
+async function dragBetween(from, to) {
+  const tabId = await getActiveTabId();
+  const start = await targetPoint(tabId, from);
+  const end = await targetPoint(tabId, to);
+  await attachDebugger(tabId);
+
+  const mouse = (type, { x, y }, pressed) =>
+    sendDebuggerCommand(tabId, "Input.dispatchMouseEvent", {
+      type,
+      x,
+      y,
+      button: type === "mouseMoved" && !pressed ? "none" : "left",
+      buttons: pressed ? 1 : 0,
+      clickCount: 1,
+    });
+
+  await mouse("mouseMoved", start, false);
+  await mouse("mousePressed", start, true);
+  for (let i = 1; i <= DRAG_STEPS; i++) {
+    const point = { x: start.x + ((end.x - start.x) * i) / DRAG_STEPS, y: start.y + ((end.y - start.y) * i) / DRAG_STEPS };
+    await mouse("mouseMoved", point, true);
+  }
+  await mouse("mouseReleased", end, false);
+  return { success: true };
+}
+
+// markElement로 표시한 요소의 DOM 노드 (iframe 안의 요소도 찾음)
+async function findMarkedNode(tabId, token) {
+  await sendDebuggerCommand(tabId, "DOM.getDocument", { depth: -1, pierce: true });
+  const { searchId, resultCount } = await sendDebuggerCommand(tabId, "DOM.performSearch", {
+    query: `[data-pi-target="${token}"]`,
   });
+  try {
+    if (!resultCount) throw new Error("Target element not found");
+    const { nodeIds } = await sendDebuggerCommand(tabId, "DOM.getSearchResults", { searchId, fromIndex: 0, toIndex: 1 });
+    return nodeIds[0];
+  } finally {
+    await sendDebuggerCommand(tabId, "DOM.discardSearchResults", { searchId }).catch(() => {});
+  }
+}
 
-  return results[0]?.result;
+// markElement로 표시한 요소 중심의 메인 프레임 기준 좌표
+async function markedNodeCenter(tabId, token) {
+  await attachDebugger(tabId);
+  const nodeId = await findMarkedNode(tabId, token);
+  const { model } = await sendDebuggerCommand(tabId, "DOM.getBoxModel", { nodeId });
+  const quad = model.content;
+  return {
+    x: (quad[0] + quad[2] + quad[4] + quad[6]) / 4,
+    y: (quad[1] + quad[3] + quad[5] + quad[7]) / 4,
+  };
 }
 
-// 페이지 텍스트 가져오기
-async function getPageText() {
+// 파일 업로드 (input[type=file]에 직접 설정하거나 파일 선택창 가로채기)
+async function uploadFiles(selector, files) {
   const tabId = await getActiveTabId();
+  const { frameId, selector: frameSelector } = resolveFrameSelector(tabId, selector);
+  const token = `pi-upload-${Date.now()}`;
+  const target = await callFrame(tabId, frameId, "markElement", frameSelector, token);
+
+  try {
+    await attachDebugger(tabId);
+
+    // Strategy 1: input[type=file]
+    if (target.isFileInput) {
+      const nodeId = await findMarkedNode(tabId, token);
+      await sendDebuggerCommand(tabId, "DOM.setFileInputFiles", { files, nodeId });
+      return { method: "input" };
+    }
 
-  const results = await chrome.scripting.executeScript({
-    target: { tabId },
-    func: () => {
-      return document.body.innerText;
-    },
+    // iframe 안의 좌표는 프레임 기준이라 메인 프레임 좌표로 다시 계산
+    const { x, y } = frameId === 0 ? target : await markedNodeCenter(tabId, token);
+
+    // Strategy 2: click to open file chooser
+    await sendDebuggerCommand(tabId, "Page.enable");
+    await sendDebuggerCommand(tabId, "Page.setInterceptFileChooserDialog", { enabled: true });
+    try {
+      const opened = waitForDebuggerEvent(tabId, "Page.fileChooserOpened", 10000);
+      await clickAt(tabId, x, y);
+      const { backendNodeId } = await opened;
+      await sendDebuggerCommand(tabId, "DOM.setFileInputFiles", { files, backendNodeId });
+    } finally {
+      await sendDebuggerCommand(tabId, "Page.setInterceptFileChooserDialog", { enabled: false }).catch(() => {});
+    }
+    return { method: "chooser" };
+  } finally {
+    await callFrame(tabId, frameId, "unmarkElement", token).catch(() => {});
+  }
+}
+
+// ============================================================
+// 다운로드 (chrome.downloads)
+// ============================================================
+async function downloadFile(selector, filename, timeout) {
+  let downloadId = null;
+  let suggestedFilename = "";
+
+  // 저장 파일명 지정 (기본 다운로드 폴더 기준)
+  const onDeterminingFilename = (item, suggest) => {
+    if (downloadId !== null && item.id !== downloadId) {
+      suggest();
+      return;
+    }
+    downloadId = item.id;
+    suggestedFilename = item.filename;
+    suggest(filename ? { filename, conflictAction: "uniquify" } : undefined);
+  };
+
+  const completed = new Promise((resolve, reject) => {
+    const onChanged = (delta) => {
+      if (delta.id !== downloadId || !delta.state) return;
+      if (delta.state.current === "complete") {
+        cleanup();
+        resolve();
+      } else if (delta.state.current === "interrupted") {
+        cleanup();
+        reject(new Error("Download interrupted"));
+      }
+    };
+    const timer = setTimeout(() => {
+      cleanup();
+      reject(new Error(`Download timeout ${timeout}ms exceeded`));
+    }, timeout);
+    const cleanup = () => {
+      clearTimeout(timer);
+      chrome.downloads.onChanged.removeListener(onChanged);
+      chrome.downloads.onDeterminingFilename.removeListener(onDeterminingFilename);
+    };
+    chrome.downloads.onChanged.addListener(onChanged);
   });
 
-  return { text: results[0]?.result || "" };
+  chrome.downloads.onDeterminingFilename.addListener(onDeterminingFilename);
+  await callTarget("click", selector);
+  await completed;
+
+  const [item] = await chrome.downloads.search({ id: downloadId });
+  return { path: item.filename, suggestedFilename };
 }
 
 // 스크립트 실행
@@ -0,0 +1,379 @@
+// Pi-Browser Extension - 페이지에 주입되는 DOM 헬퍼
+// CDP 모드(Playwright)와 같은 셀렉터 형식을 지원: CSS 셀렉터, role:"name", role:"name"[n], role
+(() => {
+  if (window.__piBrowser) return;
+
+  const CANDIDATE_SELECTOR = [
+    "a[href]",
+    "button",
+    "input:not([type=hidden])",
+    "select",
+    "textarea",
+    "[role]",
+    '[contenteditable="true"]',
+    "[onclick]",
+    "[tabindex]",
+    "h1, h2, h3, h4, h5, h6",
+    "img[alt]",
+  ].join(",");
+
+  // set-of-marks 스크린샷에서 번호를 붙이는 요소 (CDP 모드의 SHOW_MARKS_SCRIPT와 같은 규칙)
+  const MARK_SELECTOR = [
+    "a[href]",
+    "button",
+    "input:not([type=hidden])",
+    "select",
+    "textarea",
+    "summary",
+    "canvas",
+    ...["button", "link", "checkbox", "radio", "tab", "menuitem", "option", "switch", "textbox", "combobox", "slider"].map(
+      (role) => `[role=${role}]`
+    ),
+    '[contenteditable=""]',
+    '[contenteditable="true"]',
+    "[onclick]",
+    '[tabindex]:not([tabindex="-1"])',
+  ].join(",");
+  const MARKS_LAYER_ID = "pi-browser-marks";
+
+  const INPUT_ROLES = {
+    button: "button",
+    submit: "button",
+    reset: "button",
+    image: "button",
+    checkbox: "checkbox",
+    radio: "radio",
+    search: "searchbox",
+    range: "slider",
+    number: "spinbutton",
+  };
+
+  // 명시적 role 또는 태그 기반 암묵적 role
+  function getRole(el) {
+    const explicit = el.getAttribute("role");
+    if (explicit) return explicit.split(/\s+/)[0];
+
+    const tag = el.tagName.toLowerCase();
+    if (tag === "a" && el.hasAttribute("href")) return "link";
+    if (tag === "button") return "button";
+    if (tag === "textarea") return "textbox";
+    if (/^h[1-6]$/.test(tag)) return "heading";
+    if (tag === "img") return "img";
+    if (tag === "select") return el.multiple || el.size > 1 ? "listbox" : "combobox";
+    if (tag === "input") {
+      const type = (el.getAttribute("type") || "text").toLowerCase();
+      if (type === "file") return "button";
+      return INPUT_ROLES[type] || "textbox";
+    }
+    if (el.isContentEditable) return "textbox";
+    return "generic";
+  }
+
+  function normalize(text) {
+    return String(text || "").replace(/\s+/g, " ").trim();
+  }
+
+  // 접근성 이름 (aria-label → aria-labelledby → label → 내용 → placeholder/title)
+  function getName(el) {
+    const ariaLabel = el.getAttribute("aria-label");
+    if (ariaLabel) return normalize(ariaLabel);
+
+    const labelledBy = el.getAttribute("aria-labelledby");
+    if (labelledBy) {
+      const text = labelledBy
+        .split(/\s+/)
+        .map((id) => document.getElementById(id)?.textContent || "")
+        .join(" ");
+      if (normalize(text)) return normalize(text);
+    }
+
+    const tag = el.tagName.toLowerCase();
+    if (tag === "input" || tag === "textarea" || tag === "select") {
+      if (el.labels && el.labels.length > 0) {
+        return normalize(Array.from(el.labels).map((l) => l.textContent).join(" "));
+      }
+      const type = (el.getAttribute("type") || "").toLowerCase();
+      if (["button", "submit", "reset"].includes(type)) {
+        return normalize(el.value || (type === "submit" ? "Submit" : type === "reset" ? "Reset" : ""));
+      }
+      if (type === "image") return normalize(el.alt);
+    } else if (tag === "img") {
+      return normalize(el.alt);
+    } else {
+      const text = normalize(el.innerText || el.textContent);
+      if (text) return text;
+      const img = el.querySelector("img[alt]");
+      if (img) return normalize(img.alt);
+    }
+
+    return normalize(el.placeholder || el.title || "");
+  }
+
+  function isVisible(el) {
+    const rect = el.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) return false;
+    const style = window.getComputedStyle(el);
+    return style.visibility !== "hidden" && style.display !== "none";
+  }
+
+  // role:"name"은 대소문자 무시 부분 일치 (Playwright getByRole exact:false와 동일)
+  function findByRole(role, name) {
+    const wanted = name === undefined ? null : normalize(name).toLowerCase();
+    for (const el of document.querySelectorAll(CANDIDATE_SELECTOR)) {
+      if (getRole(el) !== role || !isVisible(el)) continue;
+      if (wanted === null || getName(el).toLowerCase().includes(wanted)) return el;
+    }
+    return null;
+  }
+
+  // role:"name"[n]은 이름이 정확히 같은 n번째 요소 (Playwright getByRole exact:true + nth와 동일)
+  function findAllByExactRole(role, name) {
+    return Array.from(document.querySelectorAll(CANDIDATE_SELECTOR)).filter(
+      (el) => getRole(el) === role && isVisible(el) && getName(el) === name
+    );
+  }
+
+  function findElement(selector) {
+    // 마지막 스냅샷의 ref
+    const refMatch = selector.match(/^ref=(e\d+)$/);
+    if (refMatch) {
+      const el = document.querySelector(`[data-pi-ref="${refMatch[1]}"]`);
+      if (!el) throw new Error(`Unknown ref: ${refMatch[1]}. Run browser_snapshot again to get fresh refs.`);
+      return el;
+    }
+
+    const exactMatch = selector.match(/^(\w+):"([^"]*)"\[(\d+)\]$/);
+    if (exactMatch) return findAllByExactRole(exactMatch[1], exactMatch[2])[Number(exactMatch[3])] || null;
+
+    const roleMatch = selector.match(/^(\w+):"([^"]*)"$/);
+    if (roleMatch) return findByRole(roleMatch[1], roleMatch[2]);
+    if (/^\w+$/.test(selector)) return findByRole(selector);
+    return document.querySelector(selector);
+  }
+
+  function requireElement(selector) {
+    const el = findElement(selector);
+    if (!el) throw new Error(`Element not found: ${selector}`);
+    return el;
+  }
+
+  // 보이는 요소 목록 (문서 순서), 각 요소에 data-pi-ref 속성으로 ref 표시
+  function snapshot() {
+    document.querySelectorAll("[data-pi-ref]").forEach((el) => el.removeAttribute("data-pi-ref"));
+
+    const elements = [];
+    for (const el of document.querySelectorAll(CANDIDATE_SELECTOR)) {
+      if (!isVisible(el)) continue;
+      const role = getRole(el);
+      if (role === "generic") continue;
+      const name = getName(el);
+      if (!name && (role === "img" || role === "heading")) continue;
+
+      const ref = `e${elements.length + 1}`;
+      el.setAttribute("data-pi-ref", ref);
+      elements.push({ ref, role, name });
+    }
+    return elements;
+  }
+
+  // ref를 다음 실행에서도 찾을 수 있는 role:"name"[n]으로 변환
+  function stableSelector(selector) {
+    const el = requireElement(selector);
+    const role = getRole(el);
+    const name = getName(el);
+    if (name.includes('"')) return selector;
+    const nth = findAllByExactRole(role, name).indexOf(el);
+    return nth < 0 ? selector : `${role}:"${name}"[${nth}]`;
+  }
+
+  // 승인 정책 확인용 role과 이름 (요소가 없으면 null)
+  function describe(selector) {
+    const el = findElement(selector);
+    return el ? { role: getRole(el), name: getName(el) } : null;
+  }
+
+  // 좌표 클릭, 드래그 대상 (클릭할 수 있는 가장 가까운 조상, 없으면 null)
+  function describeAt(x, y) {
+    const hit = document.elementFromPoint(x, y);
+    const el = hit?.closest("button, a[href], input, select, textarea, summary, label, [role]") ?? hit;
+    return el ? { role: getRole(el), name: getName(el) } : null;
+  }
+
+  // 요소 클릭 (실제 마우스 이벤트 시뮬레이션)
+  function click(selector) {
+    const el = requireElement(selector);
+    el.scrollIntoView({ block: "center", inline: "center" });
+
+    const rect = el.getBoundingClientRect();
+    const x = rect.left + rect.width / 2;
+    const y = rect.top + rect.height / 2;
+
+    if (typeof el.focus === "function") el.focus();
+    for (const type of ["mousedown", "mouseup", "click"]) {
+      el.dispatchEvent(new MouseEvent(type, { bubbles: true, cancelable: true, view: window, clientX: x, clientY: y }));
+    }
+    return true;
+  }
+
+  // 요소에 입력 (React/contenteditable 호환 - execCommand 사용)
+  function fill(selector, value) {
+    let el = findElement(selector);
+
+    // contenteditable 요소 찾기 (Threads, Facebook 등)
+    if (!el) el = document.querySelector('[contenteditable="true"]');
+    if (!el) el = document.querySelector('[role="textbox"]');
+    if (!el) throw new Error(`Element not found: ${selector}`);
+
+    el.focus();
+
+    // 기존 내용 선택 후 삭제
+    document.execCommand("selectAll", false, null);
+    document.execCommand("delete", false, null);
+
+    // 텍스트 삽입
+    document.execCommand("insertText", false, value);
+    return true;
+  }
+
+  function scroll(direction, amount) {
+    const scrollMap = {
+      up: [0, -amount],
+      down: [0, amount],
+      left: [-amount, 0],
+      right: [amount, 0],
+    };
+    const [x, y] = scrollMap[direction] || [0, amount];
+    window.scrollBy(x, y);
+    return { scrollY: window.scrollY };
+  }
+
+  function getText(selector) {
+    if (selector) return requireElement(selector).textContent || "";
+    return document.body.innerText;
+  }
+
+  function isConditionMet(condition) {
+    switch (condition.type) {
+      case "text":
+        return document.body.innerText.toLowerCase().includes(normalize(condition.text).toLowerCase());
+      case "textGone":
+        return !document.body.innerText.toLowerCase().includes(normalize(condition.text).toLowerCase());
+      case "selector": {
+        const el = findElement(condition.selector);
+        return !!el && isVisible(el);
+      }
+      default:
+        throw new Error(`Unknown wait condition: ${condition.type}`);
+    }
+  }
+
+  // 조건이 만족될 때까지 200ms 간격으로 확인
+  function waitFor(condition, timeout) {
+    return new Promise((resolve, reject) => {
+      const start = Date.now();
+      const check = () => {
+        try {
+          if (isConditionMet(condition)) return resolve(true);
+        } catch (error) {
+          return reject(error);
+        }
+        if (Date.now() - start >= timeout) {
+          return reject(new Error(`Timeout ${timeout}ms exceeded waiting for ${condition.type}: ${condition.text || condition.selector}`));
+        }
+        setTimeout(check, 200);
+      };
+      check();
+    });
+  }
+
+  // 디버거 명령(DOM.performSearch)으로 찾을 수 있도록 요소에 임시 속성 표시
+  function markElement(selector, token) {
+    const el = requireElement(selector);
+    el.scrollIntoView({ block: "center", inline: "center" });
+    el.setAttribute("data-pi-target", token);
+
+    const rect = el.getBoundingClientRect();
+    return {
+      isFileInput: el.tagName === "INPUT" && String(el.type).toLowerCase() === "file",
+      x: rect.left + rect.width / 2,
+      y: rect.top + rect.height / 2,
+    };
+  }
+
+  function unmarkElement(token) {
+    document.querySelector(`[data-pi-target="${token}"]`)?.removeAttribute("data-pi-target");
+    return true;
+  }
+
+  // 뷰포트 안의 가려지지 않은 상호작용 요소에 번호 상자를 그리고 { label, role, name, x, y } 목록 반환
+  function showMarks(max) {
+    hideMarks();
+    const layer = document.createElement("div");
+    layer.id = MARKS_LAYER_ID;
+    layer.style.cssText = "position:fixed;inset:0;pointer-events:none;z-index:2147483647";
+    const marks = [];
+
+    for (const el of document.querySelectorAll(MARK_SELECTOR)) {
+      if (marks.length >= max) break;
+      const rect = el.getBoundingClientRect();
+      if (rect.width < 4 || rect.height < 4) continue;
+      if (rect.bottom <= 0 || rect.right <= 0 || rect.top >= innerHeight || rect.left >= innerWidth) continue;
+      if (!isVisible(el) || Number(window.getComputedStyle(el).opacity) === 0) continue;
+
+      const x = Math.round(Math.min(Math.max(rect.left + rect.width / 2, 0), innerWidth - 1));
+      const y = Math.round(Math.min(Math.max(rect.top + rect.height / 2, 0), innerHeight - 1));
+      // 다른 요소(모달, 고정 헤더)에 가려진 요소는 클릭할 수 없으므로 제외
+      const top = document.elementFromPoint(x, y);
+      if (top && top !== el && !el.contains(top) && !top.contains(el)) continue;
+
+      const label = marks.length + 1;
+      const role = getRole(el);
+      marks.push({ label, role: role === "generic" ? el.tagName.toLowerCase() : role, name: getName(el).slice(0, 80), x, y });
+
+      const box = document.createElement("div");
+      box.style.cssText =
+        `position:fixed;box-sizing:border-box;border:2px solid #ff2d55;` +
+        `left:${rect.left}px;top:${rect.top}px;width:${rect.width}px;height:${rect.height}px`;
+      const chip = document.createElement("span");
+      chip.textContent = String(label);
+      chip.style.cssText = "position:absolute;left:-2px;top:-2px;background:#ff2d55;color:#fff;font:bold 11px/14px sans-serif;padding:0 3px";
+      box.appendChild(chip);
+      layer.appendChild(box);
+    }
+
+    document.documentElement.appendChild(layer);
+    return marks;
+  }
+
+  function hideMarks() {
+    document.getElementById(MARKS_LAYER_ID)?.remove();
+    return true;
+  }
+
+  // 스크린샷을 CSS 픽셀 크기로 맞추기 위한 뷰포트 크기
+  function viewport() {
+    return { width: window.innerWidth, height: window.innerHeight, dpr: window.devicePixelRatio || 1 };
+  }
+
+  window.__piBrowser = {
+    getRole,
+    getName,
+    isVisible,
+    findElement,
+    requireElement,
+    snapshot,
+    stableSelector,
+    describe,
+    describeAt,
+    click,
+    fill,
+    scroll,
+    getText,
+    waitFor,
+    markElement,
+    unmarkElement,
+    showMarks,
+    hideMarks,
+    viewport,
+  };
+})();
@@ -0,0 +1,242 @@
+/**
+ * Context window management
+ * 긴 실행에서 ctx.messages가 모델의 컨텍스트 한도를 넘지 않도록 오래된 스크린샷/스냅샷을 지우고
+ * 한도에 가까워지면 오래된 턴을 모델로 요약
+ */
+
+import {
+  completeSimple,
+  type Api,
+  type AssistantMessage,
+  type Context,
+  type Message,
+  type Model,
+  type ToolResultMessage,
+} from "@mariozechner/pi-ai";
+
+// 모델 정보에 한도가 없을 때
+export const DEFAULT_CONTEXT_LIMIT = 32000;
+
+// 이 비율을 넘으면 오래된 턴을 요약
+const COMPACT_RATIO = 0.7;
+// 요약할 때 그대로 남기는 최근 AI 턴 수
+const KEEP_RECENT_TURNS = 4;
+// 이미지를 남기는 최근 도구 결과 수
+const KEEP_IMAGES = 1;
+// 토큰 수 추정에 쓰는 토큰 하나의 문자 수
+const CHARS_PER_TOKEN = 4;
+// 이미지 하나의 대략적인 토큰 수 (제공자마다 다르지만 보수적으로)
+const IMAGE_TOKENS = 1500;
+// 요약 입력에 넣는 도구 결과 길이
+const SUMMARY_RESULT_CHARS = 400;
+
+const PRUNED_IMAGE = "[Old screenshot removed to save context]";
+const PRUNED_SNAPSHOT = "[Old snapshot removed - its refs are no longer valid. Use the latest browser_snapshot]";
+
+const SUMMARY_PROMPT = `You summarize the progress of a browser automation agent so it can continue the task with less context.
+Write a concise summary in the task's language: pages visited (URLs), actions done, facts and data found so far (keep exact numbers, names, prices), what failed, and what is left to do.
+Do not invent anything. Do not include element refs - they expire.`;
+
+export interface ContextManagerOptions {
+  model: Model<Api>;
+  isOllama?: boolean;
+  // 지정하지 않으면 모델 정보의 contextWindow
+  contextLimit?: number;
+  // 요약 호출의 응답 (사용량 집계용)
+  onSummaryResponse?: (message: AssistantMessage) => void;
+}
+
+export interface CompactionResult {
+  before: number; // 추정 토큰 수
+  after: number;
+  summarized: number; // 요약으로 대체한 메시지 수
+}
+
+/**
+ * 모델의 입력 컨텍스트 한도 (Ollama 모델은 inputTokenLimit로 지정했을 수 있음)
+ */
+export function getContextLimit(model: Model<Api>): number {
+  const limits = model as Model<Api> & { inputTokenLimit?: number };
+  return limits.contextWindow || limits.inputTokenLimit || DEFAULT_CONTEXT_LIMIT;
+}
+
+/**
+ * 시스템 프롬프트, 도구 정의, 메시지의 토큰 수 추정 (문자 4개당 1토큰, 이미지는 고정값)
+ */
+export function estimateTokens(ctx: Context): number {
+  let chars = (ctx.systemPrompt?.length ?? 0) + JSON.stringify(ctx.tools ?? []).length;
+  let images = 0;
+
+  for (const message of ctx.messages) {
+    if (typeof message.content === "string") {
+      chars += message.content.length;
+      continue;
+    }
+    for (const block of message.content) {
+      if (block.type === "text") chars += block.text.length;
+      else if (block.type === "thinking") chars += block.thinking.length;
+      else if (block.type === "toolCall") chars += block.name.length + JSON.stringify(block.arguments).length;
+      else if (block.type === "image") images++;
+    }
+  }
+
+  return Math.ceil(chars / CHARS_PER_TOKEN) + images * IMAGE_TOKENS;
+}
+
+function toolResults(messages: Message[]): ToolResultMessage[] {
+  return messages.filter((m): m is ToolResultMessage => m.role === "toolResult");
+}
+
+/**
+ * 도구 호출 ID → 인자 (도구 결과에는 인자가 없으므로 AI 메시지에서 찾음)
+ */
+function toolCallArgs(messages: Message[]): Map<string, Record<string, unknown>> {
+  const args = new Map<string, Record<string, unknown>>();
+  for (const message of messages) {
+    if (message.role !== "assistant") continue;
+    for (const block of message.content) {
+      if (block.type === "toolCall") args.set(block.id, block.arguments);
+    }
+  }
+  return args;
+}
+
+/**
+ * 요약 입력용 대화 기록 (도구 결과는 앞부분만)
+ */
+function renderTranscript(messages: Message[], includeResults: boolean = true): string {
+  const lines: string[] = [];
+  for (const message of messages) {
+    if (message.role === "user") {
+      const text = typeof message.content === "string" ? message.content : "";
+      if (text) lines.push(`USER: ${text}`);
+    } else if (message.role === "assistant") {
+      for (const block of message.content) {
+        if (block.type === "text" && block.text.trim()) lines.push(`AI: ${block.text.trim()}`);
+        else if (block.type === "toolCall") lines.push(`CALL ${block.name}(${JSON.stringify(block.arguments)})`);
+      }
+    } else if (includeResults) {
+      const text = message.content
+        .filter((b) => b.type === "text")
+        .map((b) => (b as { text: string }).text)
+        .join("\n");
+      lines.push(`RESULT${message.isError ? " (error)" : ""}: ${text.slice(0, SUMMARY_RESULT_CHARS)}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+export class ContextManager {
+  private options: ContextManagerOptions;
+  private limit: number;
+  // 처음 미션 메시지와 지금까지의 요약 (다시 요약할 때 이전 요약도 포함)
+  private mission: string | null = null;
+  private summary: string = "";
+
+  constructor(options: ContextManagerOptions) {
+    this.options = options;
+    this.limit = options.contextLimit || getContextLimit(options.model);
+  }
+
+  /**
+   * 모델 호출 전에 ctx.messages 정리 (요약했으면 결과, 아니면 null)
+   */
+  async prepare(ctx: Context): Promise<CompactionResult | null> {
+    this.pruneImages(ctx.messages);
+    this.pruneSnapshots(ctx.messages);
+
+    const before = estimateTokens(ctx);
+    const reserve = Math.min(this.options.model.maxTokens || 4096, this.limit / 4);
+    if (before < (this.limit - reserve) * COMPACT_RATIO) {
+      return null;
+    }
+
+    const summarized = await this.summarizeOldTurns(ctx);
+    if (summarized === 0) return null;
+    return { before, after: estimateTokens(ctx), summarized };
+  }
+
+  /**
+   * 최근 KEEP_IMAGES개를 제외한 도구 결과의 이미지를 안내 문구로 대체
+   */
+  private pruneImages(messages: Message[]): void {
+    const withImages = toolResults(messages).filter((m) => m.content.some((b) => b.type === "image"));
+    for (const message of withImages.slice(0, -KEEP_IMAGES)) {
+      message.content = message.content.map((b) => (b.type === "image" ? { type: "text", text: PRUNED_IMAGE } : b));
+    }
+  }
+
+  /**
+   * 마지막 스냅샷(offset 0부터 이어지는 페이지 포함) 이전의 스냅샷 결과를 안내 문구로 대체
+   * 새 스냅샷을 찍으면 이전 ref는 어차피 무효
+   */
+  private pruneSnapshots(messages: Message[]): void {
+    const args = toolCallArgs(messages);
+    const snapshots = toolResults(messages).filter((m) => m.toolName === "browser_snapshot" && !m.isError);
+
+    let latestStart = -1;
+    snapshots.forEach((m, i) => {
+      if (!Number(args.get(m.toolCallId)?.offset)) latestStart = i;
+    });
+
+    for (const message of snapshots.slice(0, Math.max(0, latestStart))) {
+      message.content = [{ type: "text", text: PRUNED_SNAPSHOT }];
+    }
+  }
+
+  /**
+   * 첫 미션 메시지와 최근 턴만 남기고 그 사이를 요약해서 미션 메시지에 붙임
+   * 도구 결과가 자신을 호출한 AI 메시지와 떨어지지 않도록 AI 메시지 경계에서 자름
+   */
+  private async summarizeOldTurns(ctx: Context): Promise<number> {
+    const messages = ctx.messages;
+    const assistantIndexes = messages.flatMap((m, i) => (m.role === "assistant" ? [i] : []));
+    if (assistantIndexes.length <= KEEP_RECENT_TURNS) return 0;
+
+    const cut = assistantIndexes[assistantIndexes.length - KEEP_RECENT_TURNS];
+    const [first, ...rest] = messages.slice(0, cut);
+    if (first.role !== "user" || rest.length === 0) return 0;
+
+    this.mission ??= typeof first.content === "string" ? first.content : renderTranscript([first]);
+    this.summary = await this.summarize(rest);
+    const merged: Message = {
+      role: "user",
+      content: `${this.mission}\n\n[Progress so far - earlier turns were summarized to save context]\n${this.summary}`,
+      timestamp: first.timestamp,
+    };
+
+    messages.splice(0, cut, merged);
+    return rest.length;
+  }
+
+  /**
+   * 모델로 요약 (실패하면 호출한 도구 목록으로 대신함)
+   */
+  private async summarize(messages: Message[]): Promise<string> {
+    const earlier = this.summary ? `EARLIER SUMMARY:\n${this.summary}\n\n` : "";
+    // 요약 입력 자체가 한도를 넘지 않도록 최근 부분만 (한도의 절반)
+    const maxChars = (this.limit / 2) * CHARS_PER_TOKEN;
+    const transcript = (earlier + renderTranscript(messages)).slice(-maxChars);
+    try {
+      const { model, isOllama } = this.options;
+      const response = await completeSimple(
+        model,
+        {
+          systemPrompt: SUMMARY_PROMPT,
+          messages: [{ role: "user", content: transcript, timestamp: Date.now() }],
+        },
+        isOllama ? { apiKey: "ollama" } : undefined
+      );
+      this.options.onSummaryResponse?.(response);
+
+      const text = response.content
+        .filter((b) => b.type === "text")
+        .map((b) => (b as { text: string }).text)
+        .join("\n")
+        .trim();
+      if (response.stopReason !== "error" && text) return text;
+    } catch {}
+
+    return [this.summary, renderTranscript(messages, false)].filter(Boolean).join("\n");
+  }
+}
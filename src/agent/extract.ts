@@ -0,0 +1,119 @@
+/**
+ * Structured extraction (browser_extract)
+ * 미션/워크플로우가 준 JSON 스키마로 결과를 받아 검증하고 AgentRunResult.data로 돌려줌
+ */
+
+import { Type, type TSchema } from "@sinclair/typebox";
+import { validateToolArguments, type Tool } from "@mariozechner/pi-ai";
+import type { ToolResult } from "../browser/types.js";
+
+export const EXTRACT_TOOL_NAME = "browser_extract";
+
+// TypeBox 스키마 또는 워크플로우 JSON에 저장된 일반 JSON Schema
+export type OutputSchema = TSchema | Record<string, unknown>;
+
+// 결과를 제출하지 않고 끝내려 할 때 한 번 다시 요청하는 메시지
+export const EXTRACT_NUDGE = `아직 결과를 제출하지 않았습니다. ${EXTRACT_TOOL_NAME} 도구로 스키마에 맞는 JSON을 제출하세요.`;
+
+/**
+ * 시스템 프롬프트에 붙이는 추출 안내
+ */
+export function buildExtractInstructions(schema: OutputSchema): string {
+  return `OUTPUT: This task needs structured data. When you have it, call ${EXTRACT_TOOL_NAME} with "data" matching this JSON schema:
+${JSON.stringify(schema)}
+For long lists, submit the visible items with hasMore: true, then scroll or go to the next page and submit the rest.
+Numbers must be numbers (e.g. 12900, not "12,900원"). The run ends after the final submission.`;
+}
+
+function isArraySchema(schema: OutputSchema): boolean {
+  return (schema as { type?: unknown }).type === "array";
+}
+
+function validateData(tool: Tool, args: Record<string, unknown>): { data: unknown; hasMore?: boolean } {
+  return validateToolArguments(tool, { type: "toolCall", id: tool.name, name: tool.name, arguments: args });
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function mergeChunk(previous: unknown, next: unknown): unknown {
+  if (!isPlainObject(previous) || !isPlainObject(next)) return next;
+  const merged: Record<string, unknown> = { ...previous };
+  for (const [key, value] of Object.entries(next)) {
+    const prev = merged[key];
+    merged[key] = Array.isArray(prev) && Array.isArray(value) ? [...prev, ...value] : value;
+  }
+  return merged;
+}
+
+/**
+ * browser_extract 도구 정의 (스키마가 data 인자의 타입이 됨)
+ */
+export function createExtractTool(schema: OutputSchema): Tool {
+  return {
+    name: EXTRACT_TOOL_NAME,
+    description: "Submit the extracted data as JSON matching the required schema. Set hasMore: true to add more list items in another call",
+    parameters: Type.Object({
+      data: schema as TSchema,
+      hasMore: Type.Optional(
+        Type.Boolean({ description: "true if more list items remain on other pages or below the fold" })
+      ),
+    }),
+  };
+}
+
+/**
+ * browser_extract 호출을 모아서 검증
+ * hasMore로 나눠 받으면 배열은 이어 붙이고, 객체는 배열 속성만 이어 붙이고 나머지는 덮어씀
+ */
+export class ExtractionCollector {
+  private schema: OutputSchema;
+  private tool: Tool;
+  // 배열 스키마의 중간 제출은 항목 타입만 확인 (minItems 등은 마지막에)
+  private chunkTool: Tool;
+  private items: unknown[] = [];
+  private value: unknown = undefined;
+  private complete: boolean = false;
+
+  constructor(schema: OutputSchema) {
+    this.schema = schema;
+    this.tool = createExtractTool(schema);
+    this.chunkTool = isArraySchema(schema)
+      ? createExtractTool({ type: "array", items: (schema as { items?: unknown }).items ?? {} })
+      : this.tool;
+  }
+
+  get isComplete(): boolean {
+    return this.complete;
+  }
+
+  get data(): unknown {
+    return this.complete ? this.value : undefined;
+  }
+
+  /**
+   * 한 번의 browser_extract 호출 처리 (스키마 불일치면 모델이 고칠 수 있도록 예외)
+   */
+  submit(args: Record<string, unknown>): ToolResult {
+    const { data, hasMore } = validateData(this.chunkTool, args);
+
+    if (isArraySchema(this.schema)) {
+      this.items.push(...(data as unknown[]));
+      this.value = this.items;
+    } else {
+      this.value = mergeChunk(this.value, data);
+    }
+
+    if (hasMore) {
+      const count = isArraySchema(this.schema) ? ` (${this.items.length} items so far)` : "";
+      return { text: `Partial data received${count}. Continue and call ${EXTRACT_TOOL_NAME} again with the rest` };
+    }
+
+    // 나눠 받은 결과는 minItems 등 전체 제약을 다시 확인
+    validateData(this.tool, { data: this.value });
+
+    this.complete = true;
+    return { text: `Data accepted: ${JSON.stringify(this.value).slice(0, 500)}` };
+  }
+}
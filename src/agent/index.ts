@@ -0,0 +1,12 @@
+/**
+ * Agent module exports
+ */
+
+export * from "./types.js";
+export * from "./models.js";
+export * from "./prompts.js";
+export * from "./runner.js";
+export * from "./extract.js";
+export * from "./usage.js";
+export * from "./context.js";
+export * from "./trace.js";
@@ -0,0 +1,76 @@
+/**
+ * AI 모델 생성 및 설정 기반 모델 선택
+ */
+
+import { getModel, type Api, type Model } from "@mariozechner/pi-ai";
+
+export interface ResolvedModel {
+  model: Model<Api>;
+  isOllama: boolean;
+}
+
+// 웹 UI 설정(settings.ai)과 같은 형태
+export interface AiModelSettings {
+  provider?: string;
+  model?: string;
+  ollamaUrl?: string;
+}
+
+/**
+ * Ollama 모델 생성 (OpenAI 호환 API)
+ */
+export function createOllamaModel(modelId: string, baseUrl: string = "http://localhost:11434/v1"): Model<Api> {
+  return {
+    id: modelId,
+    name: `${modelId} (Ollama)`,
+    api: "openai",
+    provider: "ollama",
+    baseUrl,
+    reasoning: false,
+    input: ["text"],
+    output: ["text"],
+    // Ollama 서버의 컨텍스트 길이 (OpenAI 호환 API로는 바꿀 수 없어서 서버 설정을 따름)
+    inputTokenLimit: Number(process.env.OLLAMA_CONTEXT_LENGTH) || 8192,
+    outputTokenLimit: 8192,
+    cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 }, // 로컬 모델은 무료
+  } as unknown as Model<Api>;
+}
+
+/**
+ * Ollama URL 끝에 /v1 경로 보장
+ */
+export function normalizeOllamaUrl(url: string = "http://localhost:11434"): string {
+  return url.endsWith("/v1") ? url : url.replace(/\/$/, "") + "/v1";
+}
+
+/**
+ * 웹 UI 설정의 AI 모델 사용 (없거나 로드 실패 시 fallback)
+ */
+export function resolveAiModel(
+  ai: AiModelSettings | undefined,
+  fallback: ResolvedModel,
+  onLog?: (text: string) => void
+): ResolvedModel {
+  if (!ai?.provider) return fallback;
+
+  const provider = ai.provider;
+  const modelName = ai.model || "gemini-2.0-flash";
+
+  try {
+    if (provider === "ollama") {
+      const model = createOllamaModel(modelName, normalizeOllamaUrl(ai.ollamaUrl));
+      onLog?.(`[AI] Ollama: ${modelName}`);
+      return { model, isOllama: true };
+    }
+
+    const model = getModel(provider as any, modelName as any) as Model<Api> | undefined;
+    if (!model) {
+      throw new Error(`모델을 찾을 수 없음: ${provider}/${modelName}`);
+    }
+    onLog?.(`[AI] ${provider}/${modelName}`);
+    return { model, isOllama: false };
+  } catch (e) {
+    onLog?.(`[AI] 모델 로드 실패: ${(e as Error).message} - 기본 모델 사용`);
+    return fallback;
+  }
+}
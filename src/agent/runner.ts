@@ -0,0 +1,305 @@
+/**
+ * Agent runner
+ * streamSimple → toolCall → toolResult 루프를 한 곳에서 실행하고 이벤트로 알림
+ */
+
+import { streamSimple, type AssistantMessage, type Context } from "@mariozechner/pi-ai";
+import { executeBrowserTool } from "../browser/tools.js";
+import { ActionRecorder, type RecordedAction } from "../browser/replay.js";
+import { getSecretStore } from "../browser/secrets.js";
+import { NETWORK_TOOL_NAME, networkTool } from "../browser/network.js";
+import type { ToolResult } from "../browser/types.js";
+import { buildSystemPrompt } from "./prompts.js";
+import {
+  EXTRACT_NUDGE,
+  EXTRACT_TOOL_NAME,
+  ExtractionCollector,
+  buildExtractInstructions,
+  createExtractTool,
+  type OutputSchema,
+} from "./extract.js";
+import { UsageTracker, addUsage, emptyUsage, type UsageSummary } from "./usage.js";
+import { ContextManager } from "./context.js";
+import {
+  AgentRunnerOptions,
+  AgentRunResult,
+  AgentEvent,
+  AgentEventCallback,
+  DEFAULT_AGENT_MAX_TURNS,
+} from "./types.js";
+
+// 도구도 텍스트도 없는 응답이 나왔을 때 다시 요청하는 메시지
+const EMPTY_RESPONSE_NUDGE = "도구를 사용해서 작업을 수행하세요. 먼저 browser_navigate로 웹사이트에 접속하세요.";
+
+export class AgentRunner {
+  private options: AgentRunnerOptions;
+  private onEvent?: AgentEventCallback;
+  private aborted: boolean = false;
+  private extraction: ExtractionCollector | null;
+  private usage: UsageTracker;
+  private runUsage: UsageSummary = emptyUsage();
+  private context: ContextManager;
+
+  constructor(options: AgentRunnerOptions, onEvent?: AgentEventCallback) {
+    this.options = options;
+    this.onEvent = onEvent;
+    this.extraction = options.outputSchema ? new ExtractionCollector(options.outputSchema) : null;
+    this.usage = options.usage ?? new UsageTracker();
+    this.context = new ContextManager({
+      model: options.model,
+      isOllama: options.isOllama,
+      contextLimit: options.contextLimit,
+      onSummaryResponse: (message) => addUsage(this.runUsage, this.usage.record(message)),
+    });
+  }
+
+  /**
+   * Abort the run before the next turn
+   */
+  abort(): void {
+    this.aborted = true;
+  }
+
+  private emit(event: AgentEvent): void {
+    this.options.trace?.record(event);
+    this.onEvent?.(event);
+  }
+
+  private finish(outcome: Omit<AgentRunResult, "usage">): AgentRunResult {
+    // 결과는 텔레그램 답장, Notion 페이지로 나가므로 비밀 값이 섞였으면 가림
+    const secrets = this.options.secrets ?? getSecretStore();
+    const result: AgentRunResult = { ...outcome, text: secrets.redact(outcome.text), usage: this.runUsage };
+    if (result.error) result.error = secrets.redact(result.error);
+    if (result.status === "error" && result.error) {
+      this.emit({ type: "error", error: result.error });
+    }
+    this.emit({ type: "done", result });
+    return result;
+  }
+
+  /**
+   * Stream a single model response, forwarding text deltas
+   */
+  private async callModel(ctx: Context): Promise<AssistantMessage> {
+    const { model, isOllama } = this.options;
+    const s = streamSimple(model, ctx, isOllama ? { apiKey: "ollama" } : undefined);
+
+    for await (const event of s) {
+      if (event.type === "text_delta") {
+        this.emit({ type: "text_delta", delta: event.delta });
+      }
+    }
+
+    return s.result();
+  }
+
+  /**
+   * Execute one tool call and convert it to a toolResult message
+   */
+  private async executeToolCall(
+    ctx: Context,
+    call: { id: string; name: string; arguments: Record<string, unknown> }
+  ): Promise<void> {
+    const args = call.arguments || {};
+    this.emit({ type: "tool_start", toolCallId: call.id, name: call.name, args });
+
+    let result: ToolResult;
+    let isError = false;
+    try {
+      const { backend, recorder, policy, approve, urlGuard, secrets, network } = this.options;
+      const denied =
+        call.name === EXTRACT_TOOL_NAME ? null : ((await policy?.authorize(call.name, args, approve)) ?? null);
+      if (denied) {
+        result = { text: denied };
+        isError = true;
+      } else if (call.name === EXTRACT_TOOL_NAME && this.extraction) {
+        result = this.extraction.submit(args);
+      } else if (call.name === NETWORK_TOOL_NAME && network) {
+        result = network.query(args);
+      } else if (recorder) {
+        result = await recorder.execute(call.name, args, { urlGuard, secrets });
+      } else {
+        result = await executeBrowserTool(backend, call.name, args, { urlGuard, secrets });
+      }
+    } catch (error) {
+      result = { text: `Error: ${(error as Error).message}` };
+      isError = true;
+    }
+
+    this.emit({ type: "tool_result", toolCallId: call.id, name: call.name, result, isError });
+    await this.options.trace?.captureAfterTool(this.options.backend, call.id);
+
+    const content: Array<{ type: "text"; text: string } | { type: "image"; data: string; mimeType: string }> = [
+      { type: "text", text: result.text },
+    ];
+    if (result.image) {
+      content.push({ type: "image", data: result.image.data, mimeType: result.image.mimeType });
+    }
+
+    ctx.messages.push({
+      role: "toolResult",
+      toolCallId: call.id,
+      toolName: call.name,
+      content,
+      isError,
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * Run the agent loop until the model stops calling tools
+   */
+  async run(): Promise<AgentRunResult> {
+    const { mission, shouldStop, outputSchema } = this.options;
+    const maxTurns = this.options.maxTurns || DEFAULT_AGENT_MAX_TURNS;
+    const tools = [
+      ...this.options.tools,
+      ...(this.options.network ? [networkTool] : []),
+      ...(outputSchema ? [createExtractTool(outputSchema)] : []),
+    ];
+
+    let systemPrompt = this.options.systemPrompt || buildSystemPrompt(tools);
+    if (outputSchema) {
+      systemPrompt += `\n\n${buildExtractInstructions(outputSchema)}`;
+    }
+
+    const ctx: Context = {
+      systemPrompt,
+      messages: [{ role: "user", content: mission, timestamp: Date.now() }],
+      tools,
+    };
+
+    let lastText = "";
+    let nudged = false;
+    let extractNudged = false;
+
+    for (let turn = 0; turn < maxTurns; turn++) {
+      if (this.aborted || shouldStop?.()) {
+        return this.finish({ status: "stopped", text: lastText, turns: turn });
+      }
+
+      const overBudget = this.usage.checkBudget();
+      if (overBudget) {
+        return this.finish({ status: "error", text: lastText, turns: turn, error: overBudget });
+      }
+
+      this.emit({ type: "turn_start", turn: turn + 1, maxTurns });
+
+      const compaction = await this.context.prepare(ctx);
+      if (compaction) {
+        this.emit({ type: "context_compacted", ...compaction });
+      }
+
+      let response: AssistantMessage;
+      try {
+        response = await this.callModel(ctx);
+      } catch (error) {
+        return this.finish({ status: "error", text: lastText, turns: turn + 1, error: (error as Error).message });
+      }
+
+      // 오류 응답도 토큰을 썼을 수 있으므로 먼저 집계
+      addUsage(this.runUsage, this.usage.record(response));
+      this.emit({ type: "usage", usage: this.runUsage });
+
+      if (response.stopReason === "error" || response.stopReason === "aborted") {
+        return this.finish({
+          status: "error",
+          text: lastText,
+          turns: turn + 1,
+          error: response.errorMessage || "AI 응답 오류",
+        });
+      }
+
+      ctx.messages.push(response);
+
+      const text = response.content
+        .filter((b) => b.type === "text")
+        .map((b) => (b as { text: string }).text)
+        .join("\n")
+        .trim();
+      if (text) lastText = text;
+
+      const toolCalls = response.content.filter((b) => b.type === "toolCall");
+
+      if (toolCalls.length === 0) {
+        // 도구도 텍스트도 없으면 한 번만 다시 요청
+        if (!text && !nudged) {
+          nudged = true;
+          ctx.messages.push({ role: "user", content: EMPTY_RESPONSE_NUDGE, timestamp: Date.now() });
+          continue;
+        }
+        // 구조화된 결과가 필요한데 제출 없이 끝내려 하면 한 번 더 요청
+        if (this.extraction) {
+          if (!extractNudged) {
+            extractNudged = true;
+            ctx.messages.push({ role: "user", content: EXTRACT_NUDGE, timestamp: Date.now() });
+            continue;
+          }
+          return this.finish({
+            status: "error",
+            text: lastText,
+            turns: turn + 1,
+            error: `${EXTRACT_TOOL_NAME} 결과가 제출되지 않았습니다`,
+          });
+        }
+        return this.finish({ status: "completed", text: lastText, turns: turn + 1 });
+      }
+
+      for (const call of toolCalls) {
+        await this.executeToolCall(ctx, call as { id: string; name: string; arguments: Record<string, unknown> });
+      }
+
+      // 검증된 결과를 받으면 바로 종료
+      if (this.extraction?.isComplete) {
+        return this.finish({ status: "completed", text: lastText, turns: turn + 1, data: this.extraction.data });
+      }
+    }
+
+    return this.finish({ status: "max_turns", text: lastText, turns: maxTurns });
+  }
+}
+
+/**
+ * Workflow 단계 실행용 함수 생성 (ExecutorContext.runStepAgent 형태)
+ */
+export function createStepAgent(
+  base: Omit<AgentRunnerOptions, "mission" | "maxTurns" | "outputSchema" | "recorder">
+): (
+  prompt: string,
+  maxTurns: number,
+  onLog: (text: string) => void,
+  outputSchema?: OutputSchema
+) => Promise<{ success: boolean; result: string; data?: unknown; actions?: RecordedAction[]; usage?: UsageSummary }> {
+  return async (prompt, maxTurns, onLog, outputSchema) => {
+    // 단계마다 도구 호출을 기록해서 재생 스크립트로 저장할 수 있게 함
+    const recorder = new ActionRecorder(base.backend);
+    const runner = new AgentRunner({ ...base, mission: prompt, maxTurns, outputSchema, recorder }, (event) => {
+      if (event.type === "tool_start") {
+        onLog(`[TOOL] ${event.name}(${JSON.stringify(event.args)})`);
+      } else if (event.type === "tool_result") {
+        onLog(`${event.isError ? "[ERROR]" : "[OK]"} ${event.result.text.slice(0, 100)}`);
+      } else if (event.type === "context_compacted") {
+        onLog(`[CONTEXT] 이전 ${event.summarized}개 메시지 요약 (~${event.before} → ~${event.after} 토큰)`);
+      }
+    });
+
+    const result = await runner.run();
+    const { usage } = result;
+    if (result.status === "error") {
+      return { success: false, result: result.error || "AI 오류", usage };
+    }
+    if (result.status === "stopped") {
+      return { success: false, result: "중단됨", usage };
+    }
+    if (outputSchema && result.data === undefined) {
+      return { success: false, result: result.error || "구조화된 결과 없음 (최대 턴 도달)", usage };
+    }
+    return {
+      success: true,
+      result: result.text || (result.status === "max_turns" ? "최대 턴 도달" : "완료"),
+      data: result.data,
+      actions: recorder.actions,
+      usage,
+    };
+  };
+}
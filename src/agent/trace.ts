@@ -0,0 +1,344 @@
+/**
+ * Run traces
+ * 작업/워크플로우 실행마다 턴별 AI 텍스트, 도구 호출(인자, 결과, 오류, 걸린 시간)과 도구 실행 뒤 화면을
+ * ~/.pi-browser/data/traces/<id>/에 저장해서 웹 UI 타임라인에서 한 단계씩 다시 볼 수 있게 함
+ */
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { DATA_DIR } from "../data/index.js";
+import { getSecretStore } from "../browser/secrets.js";
+import type { BrowserBackend } from "../browser/types.js";
+import type { AgentEvent, AgentRunResult } from "./types.js";
+
+export const TRACES_DIR = path.join(DATA_DIR, "traces");
+export const PLAYWRIGHT_TRACE_FILE = "playwright.zip";
+
+const TRACE_FILE = "trace.json";
+const MAX_TRACES = 200; // 넘으면 오래된 것부터 삭제
+const MAX_RESULT_LENGTH = 20000;
+
+// 화면이 바뀌지 않는 도구는 실행 뒤 스크린샷을 찍지 않음 (browser_screenshot은 결과 이미지를 그대로 저장)
+const NO_SCREENSHOT_TOOLS = new Set([
+  "browser_screenshot",
+  "browser_snapshot",
+  "browser_get_text",
+  "browser_tabs_list",
+  "browser_save_page",
+  "browser_network",
+]);
+
+export type TraceSource = "cli" | "web" | "telegram" | "workflow";
+export type TraceStatus = "running" | "completed" | "failed" | "stopped";
+export type TraceLogLevel = "info" | "success" | "error" | "condition"; // 워크플로우 로그와 같음
+
+export type TraceEntry =
+  | { type: "turn"; at: number; turn: number; text: string; modelMs?: number; tokens?: number; cost?: number }
+  | {
+      type: "tool";
+      at: number;
+      id: string;
+      name: string;
+      args: Record<string, unknown>;
+      result?: string;
+      isError?: boolean;
+      durationMs?: number;
+      screenshot?: string; // 트레이스 폴더 안의 파일 이름
+    }
+  | { type: "log"; at: number; level: TraceLogLevel; message: string; stepId?: string; stepName?: string }
+  | { type: "context"; at: number; summarized: number; before: number; after: number }
+  | { type: "error"; at: number; error: string };
+
+export interface RunTrace {
+  version: 1;
+  id: string;
+  source: TraceSource;
+  title: string; // 미션 또는 워크플로우 이름
+  model?: string;
+  startedAt: number;
+  endedAt?: number;
+  status: TraceStatus;
+  result?: string;
+  error?: string;
+  playwrightTrace?: string; // CDP 모드 Playwright trace (npx playwright show-trace로 열기)
+  entries: TraceEntry[];
+}
+
+export interface TraceSummary extends Omit<RunTrace, "version" | "entries"> {
+  toolCalls: number;
+  errors: number;
+}
+
+export interface TraceStartOptions {
+  source: TraceSource;
+  title: string;
+  model?: string;
+  screenshots?: boolean; // 브라우저 도구 실행 뒤 화면 저장 (기본값: true)
+}
+
+export interface TraceOutcome {
+  status: Exclude<TraceStatus, "running">;
+  result?: string;
+  error?: string;
+}
+
+type ToolEntry = Extract<TraceEntry, { type: "tool" }>;
+type TurnEntry = Extract<TraceEntry, { type: "turn" }>;
+
+function imageExtension(mimeType: string): string {
+  return mimeType === "image/png" ? "png" : "jpg";
+}
+
+/**
+ * 실행 하나의 트레이스 (AgentRunnerOptions.trace로 넘기면 러너가 이벤트와 화면을 기록)
+ * 워크플로우는 여러 단계의 러너가 같은 트레이스에 이어서 기록
+ */
+export class TraceRecorder {
+  readonly id: string;
+  readonly dir: string;
+  private trace: RunTrace;
+  private screenshots: boolean;
+  private turn: TurnEntry | null = null;
+  private tools = new Map<string, ToolEntry>();
+  private usageBase = { tokens: 0, cost: 0 };
+  private shotCount = 0;
+
+  constructor(dir: string, id: string, options: TraceStartOptions) {
+    this.id = id;
+    this.dir = dir;
+    this.screenshots = options.screenshots !== false;
+    this.trace = {
+      version: 1,
+      id,
+      source: options.source,
+      title: options.title,
+      ...(options.model ? { model: options.model } : {}),
+      startedAt: Date.now(),
+      status: "running",
+      entries: [],
+    };
+    fs.mkdirSync(dir, { recursive: true });
+    this.save();
+  }
+
+  /**
+   * 러너 이벤트 기록 (턴이 시작할 때마다 파일에 저장해서 중간에 멈춘 실행도 남김)
+   */
+  record(event: AgentEvent): void {
+    const now = Date.now();
+    switch (event.type) {
+      case "turn_start":
+        // 새 러너(워크플로우의 다음 단계)는 사용량 합계가 0부터 다시 시작
+        if (event.turn === 1) this.usageBase = { tokens: 0, cost: 0 };
+        this.turn = { type: "turn", at: now, turn: event.turn, text: "" };
+        this.trace.entries.push(this.turn);
+        this.save();
+        break;
+      case "text_delta":
+        if (this.turn) this.turn.text += event.delta;
+        break;
+      case "usage":
+        if (this.turn) {
+          this.turn.modelMs = now - this.turn.at;
+          this.turn.tokens = event.usage.totalTokens - this.usageBase.tokens;
+          this.turn.cost = event.usage.cost - this.usageBase.cost;
+        }
+        this.usageBase = { tokens: event.usage.totalTokens, cost: event.usage.cost };
+        break;
+      case "tool_start": {
+        const entry: ToolEntry = { type: "tool", at: now, id: event.toolCallId, name: event.name, args: event.args };
+        this.tools.set(event.toolCallId, entry);
+        this.trace.entries.push(entry);
+        break;
+      }
+      case "tool_result": {
+        const entry = this.tools.get(event.toolCallId);
+        if (!entry) break;
+        entry.durationMs = now - entry.at;
+        entry.result = event.result.text.slice(0, MAX_RESULT_LENGTH);
+        if (event.isError) entry.isError = true;
+        if (event.result.image) {
+          entry.screenshot = this.writeImage(event.result.image.data, event.result.image.mimeType);
+        }
+        break;
+      }
+      case "context_compacted":
+        this.trace.entries.push({
+          type: "context",
+          at: now,
+          summarized: event.summarized,
+          before: event.before,
+          after: event.after,
+        });
+        break;
+      case "error":
+        this.trace.entries.push({ type: "error", at: now, error: event.error });
+        break;
+      case "done":
+        this.turn = null;
+        this.save();
+        break;
+    }
+  }
+
+  /**
+   * 워크플로우 로그 (단계 시작, 재시도, 재생 결과 등)
+   */
+  log(level: TraceLogLevel, message: string, step?: { stepId: string; stepName: string }): void {
+    this.trace.entries.push({ type: "log", at: Date.now(), level, message, ...step });
+  }
+
+  /**
+   * 도구 실행 뒤 화면을 찍어서 그 도구 호출에 붙임 (실패해도 실행은 계속)
+   */
+  async captureAfterTool(backend: BrowserBackend, toolCallId: string): Promise<void> {
+    const entry = this.tools.get(toolCallId);
+    if (!this.screenshots || !entry || entry.screenshot) return;
+    if (!entry.name.startsWith("browser_") || NO_SCREENSHOT_TOOLS.has(entry.name)) return;
+    try {
+      const shot = await backend.screenshot();
+      entry.screenshot = this.writeImage(shot.data, shot.mimeType);
+    } catch {
+      // 페이지가 닫혔거나 이동 중
+    }
+  }
+
+  /**
+   * Playwright trace를 저장할 경로 (트레이스에 파일 이름을 기록)
+   */
+  playwrightTracePath(): string {
+    this.trace.playwrightTrace = PLAYWRIGHT_TRACE_FILE;
+    return path.join(this.dir, PLAYWRIGHT_TRACE_FILE);
+  }
+
+  finish(outcome: TraceOutcome): void {
+    this.trace.status = outcome.status;
+    this.trace.endedAt = Date.now();
+    if (outcome.result) this.trace.result = outcome.result.slice(0, MAX_RESULT_LENGTH);
+    if (outcome.error) this.trace.error = outcome.error;
+    this.save();
+  }
+
+  private writeImage(data: string, mimeType: string): string {
+    this.shotCount++;
+    const filename = `${String(this.shotCount).padStart(4, "0")}.${imageExtension(mimeType)}`;
+    try {
+      fs.writeFileSync(path.join(this.dir, filename), Buffer.from(data, "base64"));
+    } catch {
+      // 디스크 오류로 실행을 멈추지 않음
+    }
+    return filename;
+  }
+
+  // 비밀 값은 도구 결과나 AI 텍스트에 섞여 있어도 가려서 저장
+  private save(): void {
+    try {
+      const json = getSecretStore().redact(JSON.stringify(this.trace, null, 2));
+      fs.writeFileSync(path.join(this.dir, TRACE_FILE), json);
+    } catch {
+      // 디스크 오류로 실행을 멈추지 않음
+    }
+  }
+}
+
+/**
+ * 트레이스 폴더 (<시각>-<출처>-<임의 값>/trace.json + 스크린샷)
+ */
+export class TraceStore {
+  private dir: string;
+
+  constructor(dir: string = TRACES_DIR) {
+    this.dir = dir;
+  }
+
+  /**
+   * 새 트레이스 시작 (오래된 트레이스는 MAX_TRACES개만 남기고 삭제)
+   */
+  start(options: TraceStartOptions): TraceRecorder {
+    this.prune(MAX_TRACES - 1);
+    const stamp = new Date().toISOString().replace(/[-:]/g, "").replace("T", "-").slice(0, 15);
+    const id = `${stamp}-${options.source}-${crypto.randomBytes(3).toString("hex")}`;
+    return new TraceRecorder(path.join(this.dir, id), id, options);
+  }
+
+  /**
+   * 최근 실행부터
+   */
+  list(limit = 100): TraceSummary[] {
+    return this.ids()
+      .reverse()
+      .slice(0, limit)
+      .flatMap((id) => {
+        const trace = this.load(id);
+        if (!trace) return [];
+        const { version, entries, ...summary } = trace;
+        const tools = entries.filter((e) => e.type === "tool");
+        return [{
+          ...summary,
+          toolCalls: tools.length,
+          errors: tools.filter((e) => e.isError).length + entries.filter((e) => e.type === "error").length,
+        }];
+      });
+  }
+
+  load(id: string): RunTrace | null {
+    const filePath = this.resolve(id, TRACE_FILE);
+    if (!filePath) return null;
+    try {
+      return JSON.parse(fs.readFileSync(filePath, "utf-8")) as RunTrace;
+    } catch {
+      return null;
+    }
+  }
+
+  remove(id: string): boolean {
+    if (!this.isValidId(id) || !fs.existsSync(path.join(this.dir, id))) return false;
+    fs.rmSync(path.join(this.dir, id), { recursive: true, force: true });
+    return true;
+  }
+
+  /**
+   * 트레이스 폴더 안의 파일 경로 (스크린샷, Playwright trace), 없거나 폴더 밖이면 null
+   */
+  resolve(id: string, filename: string): string | null {
+    if (!this.isValidId(id) || !/^[A-Za-z0-9_-]+\.[a-z]+$/.test(filename)) return null;
+    const filePath = path.join(this.dir, id, filename);
+    return fs.existsSync(filePath) ? filePath : null;
+  }
+
+  private ids(): string[] {
+    if (!fs.existsSync(this.dir)) return [];
+    return fs.readdirSync(this.dir).filter((id) => this.isValidId(id)).sort();
+  }
+
+  private prune(keep: number): void {
+    const ids = this.ids();
+    for (const id of ids.slice(0, Math.max(0, ids.length - keep))) {
+      fs.rmSync(path.join(this.dir, id), { recursive: true, force: true });
+    }
+  }
+
+  private isValidId(id: string): boolean {
+    return /^\d{8}-\d{6}-[a-z]+-[0-9a-f]+$/.test(id);
+  }
+}
+
+/**
+ * 에이전트 실행 결과를 트레이스 상태로 변환
+ */
+export function agentTraceOutcome(result: AgentRunResult): TraceOutcome {
+  if (result.status === "completed") return { status: "completed", result: result.text };
+  if (result.status === "stopped") return { status: "stopped", result: result.text };
+  return { status: "failed", result: result.text, error: result.error ?? "최대 턴 도달" };
+}
+
+let defaultStore: TraceStore | null = null;
+
+/**
+ * ~/.pi-browser/data/traces 저장소
+ */
+export function getTraceStore(): TraceStore {
+  defaultStore ??= new TraceStore();
+  return defaultStore;
+}
@@ -0,0 +1,91 @@
+/**
+ * Agent runner type definitions for pi-browser
+ */
+
+import type { Api, Model, Tool } from "@mariozechner/pi-ai";
+import type { BrowserBackend, ToolResult } from "../browser/types.js";
+import type { ActionRecorder } from "../browser/replay.js";
+import type { ApprovalHandler, PolicyEngine } from "../browser/policy.js";
+import type { UrlGuard } from "../browser/url-policy.js";
+import type { SecretStore } from "../browser/secrets.js";
+import type { NetworkRecorder } from "../browser/network.js";
+import type { OutputSchema } from "./extract.js";
+import type { TraceRecorder } from "./trace.js";
+import type { UsageSummary, UsageTracker } from "./usage.js";
+
+export interface AgentRunnerOptions {
+  mission: string;
+  model: Model<Api>;
+  tools: Tool[];
+  backend: BrowserBackend; // 도구 실행 대상 (CDP, Extension, 병렬 브라우저)
+  isOllama?: boolean;
+
+  // 지정하지 않으면 buildSystemPrompt(tools)
+  systemPrompt?: string;
+  maxTurns?: number; // 기본값: DEFAULT_AGENT_MAX_TURNS
+  // 컨텍스트 한도 (토큰), 지정하지 않으면 모델 정보에서 가져옴
+  contextLimit?: number;
+
+  // 지정하면 browser_extract 도구가 추가되고, 검증된 JSON을 제출해야 완료
+  outputSchema?: OutputSchema;
+
+  // 지정하면 성공한 브라우저 도구 호출을 재생 스크립트용으로 기록
+  recorder?: ActionRecorder;
+
+  // 사용량 기록과 예산 확인 (없으면 기록 없이 합계만 계산)
+  usage?: UsageTracker;
+
+  // 지정하면 위험한 도구 호출(발행, 결제, 삭제 등)은 approve로 승인받은 뒤 실행
+  // approve가 없으면 그런 호출은 차단됨
+  policy?: PolicyEngine;
+  approve?: ApprovalHandler;
+
+  // 지정하면 허용되지 않은 URL로의 이동을 도구 오류로 막음
+  urlGuard?: UrlGuard;
+
+  // 도구 결과와 최종 결과에서 가릴 비밀 값 (기본값: ~/.pi-browser 저장소)
+  secrets?: SecretStore;
+
+  // 지정하면 browser_network 도구가 추가되어 기록 중인 XHR/fetch 응답을 조회할 수 있음
+  network?: NetworkRecorder;
+
+  // 지정하면 턴별 AI 텍스트, 도구 호출과 결과, 도구 실행 뒤 화면을 트레이스로 저장
+  trace?: TraceRecorder;
+
+  // 매 턴 시작 전에 확인 (웹 UI 중지 버튼 등)
+  shouldStop?: () => boolean;
+}
+
+export const DEFAULT_AGENT_MAX_TURNS = 20;
+
+export type AgentRunStatus = "completed" | "stopped" | "max_turns" | "error";
+
+export interface AgentRunResult {
+  status: AgentRunStatus;
+  // 마지막 AI 텍스트 응답 (없으면 빈 문자열)
+  text: string;
+  turns: number;
+  error?: string;
+  // outputSchema로 검증된 browser_extract 결과
+  data?: unknown;
+  // 이 실행의 토큰/비용 합계
+  usage: UsageSummary;
+}
+
+export type AgentEvent =
+  | { type: "turn_start"; turn: number; maxTurns: number }
+  | { type: "text_delta"; delta: string }
+  | { type: "tool_start"; toolCallId: string; name: string; args: Record<string, unknown> }
+  | {
+      type: "tool_result";
+      toolCallId: string;
+      name: string;
+      result: ToolResult;
+      isError: boolean;
+    }
+  | { type: "usage"; usage: UsageSummary } // 모델 응답마다 이 실행의 누적 합계
+  | { type: "context_compacted"; before: number; after: number; summarized: number } // 추정 토큰 수
+  | { type: "done"; result: AgentRunResult }
+  | { type: "error"; error: string };
+
+export type AgentEventCallback = (event: AgentEvent) => void;
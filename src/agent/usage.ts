@@ -0,0 +1,235 @@
+/**
+ * Token usage and cost accounting
+ * AssistantMessage마다 usage를 실행 단위로 합산하고 ~/.pi-browser/usage.jsonl에 기록
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type { AssistantMessage } from "@mariozechner/pi-ai";
+
+export const USAGE_LOG_PATH = path.join(os.homedir(), ".pi-browser", "usage.jsonl");
+
+// 100만 토큰당 USD (pi-ai Model.cost와 같은 단위)
+export interface ModelPrice {
+  input: number;
+  output: number;
+  cacheRead?: number;
+  cacheWrite?: number;
+}
+
+// provider → 모델 ID → 가격 ("*"는 그 provider의 나머지 모델)
+export type PriceTable = Record<string, Record<string, ModelPrice>>;
+
+export interface BudgetLimits {
+  perRunUsd?: number; // 에이전트 실행 한 번 (워크플로우는 실행 전체)
+  dailyUsd?: number;
+  monthlyUsd?: number;
+}
+
+// 웹 UI 설정(settings.usage)과 같은 형태
+export interface UsageSettings {
+  prices?: PriceTable;
+  budget?: BudgetLimits;
+}
+
+export interface UsageTotals {
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+  totalTokens: number;
+  cost: number; // USD
+  calls: number; // 모델 응답 수
+}
+
+export interface UsageSummary extends UsageTotals {
+  byModel: Record<string, UsageTotals>; // "provider/model"
+}
+
+// usage.jsonl 한 줄 (모델 응답 하나)
+export interface UsageLogEntry extends Omit<UsageTotals, "calls"> {
+  timestamp: number;
+  source: string; // cli, web, workflow, telegram, parallel, replay
+  provider: string;
+  model: string;
+}
+
+function emptyTotals(): UsageTotals {
+  return { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, totalTokens: 0, cost: 0, calls: 0 };
+}
+
+function addTotals(target: UsageTotals, source: UsageTotals): void {
+  target.input += source.input;
+  target.output += source.output;
+  target.cacheRead += source.cacheRead;
+  target.cacheWrite += source.cacheWrite;
+  target.totalTokens += source.totalTokens;
+  target.cost += source.cost;
+  target.calls += source.calls;
+}
+
+export function emptyUsage(): UsageSummary {
+  return { ...emptyTotals(), byModel: {} };
+}
+
+/**
+ * source를 target에 더함 (모델별 합계 포함)
+ */
+export function addUsage(target: UsageSummary, source: UsageSummary): void {
+  addTotals(target, source);
+  for (const [key, totals] of Object.entries(source.byModel)) {
+    target.byModel[key] ??= emptyTotals();
+    addTotals(target.byModel[key], totals);
+  }
+}
+
+/**
+ * 한 줄 요약 (예: "12,345 tokens (in 10,000 / out 2,345) · $0.0123")
+ */
+export function formatUsage(totals: UsageTotals): string {
+  const n = (value: number) => value.toLocaleString("en-US");
+  return `${n(totals.totalTokens)} tokens (in ${n(totals.input)} / out ${n(totals.output)}) · $${totals.cost.toFixed(4)}`;
+}
+
+/**
+ * 설정에서 덮어쓴 가격 (없으면 null, pi-ai가 Model.cost로 계산한 비용 사용)
+ */
+export function findPrice(prices: PriceTable | undefined, provider: string, model: string): ModelPrice | null {
+  return prices?.[provider]?.[model] ?? prices?.[provider]?.["*"] ?? null;
+}
+
+function priceCost(price: ModelPrice, usage: AssistantMessage["usage"]): number {
+  return (
+    (price.input * usage.input +
+      price.output * usage.output +
+      (price.cacheRead ?? 0) * usage.cacheRead +
+      (price.cacheWrite ?? 0) * usage.cacheWrite) /
+    1_000_000
+  );
+}
+
+/**
+ * since 이후의 usage.jsonl 기록 (파일이 없으면 빈 배열)
+ */
+export function readUsageLog(since: number = 0, logPath: string = USAGE_LOG_PATH): UsageLogEntry[] {
+  if (!fs.existsSync(logPath)) return [];
+
+  const entries: UsageLogEntry[] = [];
+  for (const line of fs.readFileSync(logPath, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const entry = JSON.parse(line) as UsageLogEntry;
+      if (entry.timestamp >= since) entries.push(entry);
+    } catch {}
+  }
+  return entries;
+}
+
+/**
+ * 기록을 provider/model별로 합산
+ */
+export function summarizeUsageLog(entries: UsageLogEntry[]): UsageSummary {
+  const summary = emptyUsage();
+  for (const { timestamp, source, provider, model, ...totals } of entries) {
+    addUsage(summary, { ...totals, calls: 1, byModel: { [`${provider}/${model}`]: { ...totals, calls: 1 } } });
+  }
+  return summary;
+}
+
+export function startOfDay(now: Date = new Date()): number {
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+}
+
+export function startOfMonth(now: Date = new Date()): number {
+  return new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+}
+
+export interface UsageTrackerOptions extends UsageSettings {
+  source?: string; // 지정하면 usage.jsonl에 기록
+  logPath?: string;
+}
+
+/**
+ * 실행 하나의 사용량 집계와 예산 확인
+ * 워크플로우처럼 여러 AgentRunner가 하나의 실행이면 같은 추적기를 넘겨서 예산을 공유
+ */
+export class UsageTracker {
+  private options: UsageTrackerOptions;
+  private logPath: string;
+  private total: UsageSummary = emptyUsage();
+  // 이 실행 전까지 오늘/이번 달 사용한 비용 (예산이 있을 때만 읽음)
+  private spentToday: number = 0;
+  private spentThisMonth: number = 0;
+
+  constructor(options: UsageTrackerOptions = {}) {
+    this.options = options;
+    this.logPath = options.logPath || USAGE_LOG_PATH;
+
+    const { dailyUsd, monthlyUsd } = options.budget ?? {};
+    if (dailyUsd !== undefined || monthlyUsd !== undefined) {
+      const today = startOfDay();
+      for (const entry of readUsageLog(startOfMonth(), this.logPath)) {
+        this.spentThisMonth += entry.cost;
+        if (entry.timestamp >= today) this.spentToday += entry.cost;
+      }
+    }
+  }
+
+  get summary(): UsageSummary {
+    const copy = emptyUsage();
+    addUsage(copy, this.total);
+    return copy;
+  }
+
+  /**
+   * 모델 응답 하나를 집계하고 그 응답의 사용량을 돌려줌
+   */
+  record(message: AssistantMessage): UsageSummary {
+    const { usage, provider, model } = message;
+    const price = findPrice(this.options.prices, provider, model);
+    const cost = price ? priceCost(price, usage) : usage.cost?.total || 0;
+
+    const totals: UsageTotals = {
+      input: usage.input,
+      output: usage.output,
+      cacheRead: usage.cacheRead,
+      cacheWrite: usage.cacheWrite,
+      totalTokens: usage.totalTokens || usage.input + usage.output + usage.cacheRead + usage.cacheWrite,
+      cost: Number.isFinite(cost) ? cost : 0,
+      calls: 1,
+    };
+    const entry: UsageSummary = { ...totals, byModel: { [`${provider}/${model}`]: { ...totals } } };
+    addUsage(this.total, entry);
+
+    if (this.options.source) {
+      const { calls, ...logged } = totals;
+      const line: UsageLogEntry = { timestamp: Date.now(), source: this.options.source, provider, model, ...logged };
+      try {
+        fs.mkdirSync(path.dirname(this.logPath), { recursive: true });
+        fs.appendFileSync(this.logPath, JSON.stringify(line) + "\n");
+      } catch {}
+    }
+
+    return entry;
+  }
+
+  /**
+   * 넘은 예산이 있으면 이유, 없으면 null
+   */
+  checkBudget(): string | null {
+    const { perRunUsd, dailyUsd, monthlyUsd } = this.options.budget ?? {};
+    const cost = this.total.cost;
+
+    if (perRunUsd !== undefined && cost >= perRunUsd) {
+      return `실행당 예산 초과 ($${cost.toFixed(4)} / $${perRunUsd})`;
+    }
+    if (dailyUsd !== undefined && this.spentToday + cost >= dailyUsd) {
+      return `일일 예산 초과 ($${(this.spentToday + cost).toFixed(4)} / $${dailyUsd})`;
+    }
+    if (monthlyUsd !== undefined && this.spentThisMonth + cost >= monthlyUsd) {
+      return `월 예산 초과 ($${(this.spentThisMonth + cost).toFixed(4)} / $${monthlyUsd})`;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * Chrome Extension 백엔드 (Extension 모드, MCP 서버)
+ */
+
+import type { ExtensionBridge } from "./extension-bridge.js";
+import type {
+  BrowserBackend,
+  DownloadResult,
+  PageCapture,
+  PageCaptureFormat,
+  PageInfo,
+  Point,
+  PointerTarget,
+  Screenshot,
+  ScreenshotMark,
+  ScreenshotOptions,
+  ScrollDirection,
+  SnapshotElement,
+  TabChanges,
+  TabInfo,
+  UploadMethod,
+  WaitCondition,
+} from "./types.js";
+
+const SCROLL_AMOUNT = 500;
+const DOWNLOAD_TIMEOUT_MS = 120000;
+const CAPTURE_TIMEOUT_MS = 120000;
+
+// Extension은 Chrome 탭 ID(숫자)를 그대로 사용
+function toTabInfo(tab: any): TabInfo {
+  return { id: String(tab.id), url: tab.url, title: tab.title, active: tab.active };
+}
+
+function toChromeTabId(id: string): number {
+  const tabId = Number(id);
+  if (!Number.isInteger(tabId)) {
+    throw new Error(`Unknown tab: ${id}. Use browser_tabs_list to see open tabs.`);
+  }
+  return tabId;
+}
+
+export class ExtensionBackend implements BrowserBackend {
+  readonly mode = "extension" as const;
+  private bridge: ExtensionBridge;
+
+  constructor(bridge: ExtensionBridge) {
+    this.bridge = bridge;
+  }
+
+  async navigate(url: string): Promise<PageInfo> {
+    const result = await this.bridge.send("navigate", { url });
+    return { url: result.url, title: result.title };
+  }
+
+  async pageInfo(): Promise<PageInfo> {
+    const result = await this.bridge.send("getPageInfo");
+    return { url: result.url, title: result.title };
+  }
+
+  async click(selector: string): Promise<void> {
+    await this.bridge.send("click", { selector });
+  }
+
+  async fill(selector: string, text: string): Promise<void> {
+    await this.bridge.send("fill", { selector, value: text });
+  }
+
+  async press(key: string): Promise<void> {
+    await this.bridge.send("press", { key });
+  }
+
+  async clickAt(point: Point): Promise<void> {
+    await this.bridge.send("clickAt", { x: point.x, y: point.y });
+  }
+
+  async hover(target: PointerTarget): Promise<void> {
+    await this.bridge.send("hover", { target });
+  }
+
+  async drag(from: PointerTarget, to: PointerTarget): Promise<void> {
+    await this.bridge.send("drag", { from, to });
+  }
+
+  async screenshot(options: ScreenshotOptions = {}): Promise<Screenshot> {
+    const result = await this.bridge.send("screenshot", { marks: !!options.marks });
+    // Extension에서 data URL 형식으로 반환
+    const match = String(result.image).match(/^data:(image\/\w+);base64,(.*)$/);
+    if (!match) throw new Error("Invalid screenshot data");
+    const shot: Screenshot = { data: match[2], mimeType: match[1] };
+    return result.marks ? { ...shot, marks: result.marks as ScreenshotMark[] } : shot;
+  }
+
+  async capturePage(format: PageCaptureFormat): Promise<PageCapture> {
+    const result = await this.bridge.send("capturePage", { format }, CAPTURE_TIMEOUT_MS);
+    const data = typeof result.text === "string" ? Buffer.from(result.text).toString("base64") : String(result.data);
+    return { data, mimeType: result.mimeType };
+  }
+
+  async snapshot(): Promise<SnapshotElement[]> {
+    const result = await this.bridge.send("snapshot");
+    return result.elements as SnapshotElement[];
+  }
+
+  async scroll(direction: ScrollDirection): Promise<void> {
+    await this.bridge.send("scroll", { direction, amount: SCROLL_AMOUNT });
+  }
+
+  async getText(selector?: string): Promise<string> {
+    const result = await this.bridge.send("getText", selector ? { selector } : {});
+    return result.text as string;
+  }
+
+  async waitFor(condition: WaitCondition, timeoutMs: number): Promise<void> {
+    // 페이지 쪽 대기가 먼저 끝나도록 명령 타임아웃에 여유를 둠
+    await this.bridge.send("waitFor", { ...condition, timeout: timeoutMs }, timeoutMs + 5000);
+  }
+
+  async download(selector: string, filename?: string): Promise<DownloadResult> {
+    const result = await this.bridge.send("download", { selector, filename, timeout: DOWNLOAD_TIMEOUT_MS }, DOWNLOAD_TIMEOUT_MS + 5000);
+    return { path: result.path, suggestedFilename: result.suggestedFilename };
+  }
+
+  async upload(selector: string, filePaths: string[]): Promise<UploadMethod> {
+    const result = await this.bridge.send("upload", { selector, files: filePaths });
+    return result.method as UploadMethod;
+  }
+
+  async stableSelector(selector: string): Promise<string> {
+    if (!selector.startsWith("ref=")) return selector;
+    const result = await this.bridge.send("stableSelector", { selector });
+    return result.selector as string;
+  }
+
+  async describe(selector: string): Promise<Pick<SnapshotElement, "role" | "name"> | null> {
+    const result = await this.bridge.send("describe", { selector });
+    return (result.element as Pick<SnapshotElement, "role" | "name"> | null) ?? null;
+  }
+
+  async describeAt(point: Point): Promise<Pick<SnapshotElement, "role" | "name"> | null> {
+    const result = await this.bridge.send("describeAt", { x: point.x, y: point.y });
+    return (result.element as Pick<SnapshotElement, "role" | "name"> | null) ?? null;
+  }
+
+  async listTabs(): Promise<TabInfo[]> {
+    const tabs = await this.bridge.send("getTabs");
+    return (tabs as any[]).map(toTabInfo);
+  }
+
+  async openTab(url?: string): Promise<TabInfo> {
+    return toTabInfo(await this.bridge.send("openTab", { url }));
+  }
+
+  async switchTab(id: string): Promise<TabInfo> {
+    return toTabInfo(await this.bridge.send("selectTab", { tabId: toChromeTabId(id) }));
+  }
+
+  async closeTab(id?: string): Promise<void> {
+    await this.bridge.send("closeTab", id ? { tabId: toChromeTabId(id) } : {});
+  }
+
+  async takeTabChanges(): Promise<TabChanges> {
+    const result = await this.bridge.send("takeTabChanges");
+    return {
+      opened: (result.opened as any[]).map(toTabInfo),
+      closed: (result.closed as number[]).map(String),
+    };
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Chrome Extension WebSocket 브릿지
+ * 확장 프로그램(extension/background.js)이 ws://localhost:9876 으로 접속하면
+ * { id, command, params } 형식으로 명령을 보내고 { id, result | error } 응답을 받음
+ */
+
+import { WebSocketServer, WebSocket } from "ws";
+
+export const DEFAULT_EXTENSION_PORT = 9876;
+const COMMAND_TIMEOUT_MS = 60000;
+
+export interface ExtensionBridgeOptions {
+  port?: number;
+  // 연결/해제 시 호출 (웹 UI 상태 표시 등)
+  onStatusChange?: (connected: boolean) => void;
+}
+
+export class ExtensionBridge {
+  private port: number;
+  private onStatusChange?: (connected: boolean) => void;
+  private wss: WebSocketServer | null = null;
+  private client: WebSocket | null = null;
+  private messageId = 0;
+  private pendingRequests = new Map<number, { resolve: (v: any) => void; reject: (e: Error) => void }>();
+
+  constructor(options: ExtensionBridgeOptions = {}) {
+    this.port = options.port ?? DEFAULT_EXTENSION_PORT;
+    this.onStatusChange = options.onStatusChange;
+  }
+
+  get url(): string {
+    return `ws://localhost:${this.port}`;
+  }
+
+  isStarted(): boolean {
+    return this.wss !== null;
+  }
+
+  isConnected(): boolean {
+    return this.client !== null && this.client.readyState === WebSocket.OPEN;
+  }
+
+  /**
+   * WebSocket 서버 시작 (이미 시작되어 있으면 그대로 사용)
+   */
+  start(): Promise<void> {
+    if (this.wss) return Promise.resolve();
+
+    return new Promise((resolve, reject) => {
+      const wss = new WebSocketServer({ port: this.port });
+
+      wss.once("listening", () => {
+        this.wss = wss;
+        resolve();
+      });
+      wss.once("error", reject);
+
+      wss.on("connection", (ws) => {
+        this.client = ws;
+        this.onStatusChange?.(true);
+
+        ws.on("message", (data) => this.handleMessage(data.toString()));
+
+        ws.on("close", () => {
+          if (this.client !== ws) return;
+          this.client = null;
+          this.rejectAll(new Error("Extension 연결이 끊어졌습니다."));
+          this.onStatusChange?.(false);
+        });
+      });
+    });
+  }
+
+  /**
+   * 확장 프로그램이 연결될 때까지 대기 (연결되면 true)
+   */
+  async waitForConnection(timeoutMs: number): Promise<boolean> {
+    const start = Date.now();
+    while (!this.isConnected() && Date.now() - start < timeoutMs) {
+      await new Promise((r) => setTimeout(r, 500));
+    }
+    return this.isConnected();
+  }
+
+  /**
+   * 확장 프로그램에 명령 전송
+   */
+  send(command: string, params: Record<string, unknown> = {}, timeoutMs: number = COMMAND_TIMEOUT_MS): Promise<any> {
+    return new Promise((resolve, reject) => {
+      if (!this.client || !this.isConnected()) {
+        reject(new Error("Extension이 연결되지 않았습니다. Chrome에서 Pi-Browser 확장 프로그램을 확인하세요."));
+        return;
+      }
+
+      const id = ++this.messageId;
+      this.pendingRequests.set(id, { resolve, reject });
+
+      this.client.send(JSON.stringify({ id, command, params }));
+
+      // 타임아웃
+      setTimeout(() => {
+        if (this.pendingRequests.has(id)) {
+          this.pendingRequests.delete(id);
+          reject(new Error(`명령 타임아웃: ${command}`));
+        }
+      }, timeoutMs);
+    });
+  }
+
+  stop(): void {
+    this.rejectAll(new Error("Extension 서버가 종료되었습니다."));
+    this.client?.close();
+    this.client = null;
+    this.wss?.close();
+    this.wss = null;
+  }
+
+  private handleMessage(raw: string): void {
+    try {
+      const msg = JSON.parse(raw);
+      const pending = this.pendingRequests.get(msg.id);
+      if (!pending) return;
+
+      this.pendingRequests.delete(msg.id);
+      if (msg.error) {
+        pending.reject(new Error(msg.error));
+      } else {
+        pending.resolve(msg.result);
+      }
+    } catch (e) {
+      console.error("Extension 메시지 파싱 에러:", e);
+    }
+  }
+
+  private rejectAll(error: Error): void {
+    for (const pending of this.pendingRequests.values()) {
+      pending.reject(error);
+    }
+    this.pendingRequests.clear();
+  }
+}
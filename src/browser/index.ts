@@ -0,0 +1,17 @@
+/**
+ * Browser module exports
+ */
+
+export * from "./types.js";
+export * from "./tools.js";
+export * from "./playwright-backend.js";
+export * from "./extension-bridge.js";
+export * from "./extension-backend.js";
+export * from "./replay.js";
+export * from "./policy.js";
+export * from "./url-policy.js";
+export * from "./secrets.js";
+export * from "./totp.js";
+export * from "./network.js";
+export * from "./routes.js";
+export * from "./sessions.js";
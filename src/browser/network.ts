@@ -0,0 +1,308 @@
+/**
+ * Network capture
+ * CDP 모드 실행 중 Playwright 컨텍스트의 요청/응답을 기록해서 실행이 끝나면 HAR 파일로 저장하고
+ * browser_network 도구로 최근 XHR/fetch 응답(JSON 등)을 에이전트가 직접 읽을 수 있게 함
+ * 기록에 들어가는 비밀 값은 저장/출력 전에 {{secret:이름}}으로 가림
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Type } from "@sinclair/typebox";
+import type { Tool } from "@mariozechner/pi-ai";
+import type { BrowserContext, Request } from "playwright-core";
+import { getSecretStore, type SecretStore } from "./secrets.js";
+import type { ToolResult } from "./types.js";
+
+export const HAR_DIR = path.join(os.homedir(), ".pi-browser", "data", "har");
+export const NETWORK_TOOL_NAME = "browser_network";
+
+// 기억하는 요청 수 (넘으면 오래된 것부터 버림)
+const DEFAULT_MAX_ENTRIES = 1000;
+// 응답 본문은 XHR/fetch의 텍스트 응답만, 이 길이까지 저장
+const DEFAULT_MAX_BODY_BYTES = 64 * 1024;
+// browser_network 결과의 응답 하나당 본문 길이와 전체 길이
+const TOOL_BODY_LENGTH = 2000;
+const TOOL_TEXT_LENGTH = 8000;
+const DEFAULT_TOOL_LIMIT = 10;
+const MAX_TOOL_LIMIT = 50;
+
+const API_RESOURCE_TYPES = new Set(["xhr", "fetch"]);
+const TEXT_MIME = /^(text\/|application\/([\w.+-]*\+)?(json|xml|javascript|x-www-form-urlencoded|graphql))/i;
+
+export const networkTool: Tool = {
+  name: NETWORK_TOOL_NAME,
+  description:
+    "List recent XHR/fetch responses captured from the page (newest first) with status and body - use it to read data the page loaded from its API instead of scraping the rendered text",
+  parameters: Type.Object({
+    filter: Type.Optional(Type.String({ description: "Only URLs containing this text (e.g. /api/search)" })),
+    method: Type.Optional(Type.String({ description: "HTTP method (GET, POST, ...)" })),
+    limit: Type.Optional(Type.Number({ description: `Number of responses (default: ${DEFAULT_TOOL_LIMIT}, max: ${MAX_TOOL_LIMIT})` })),
+    includeBody: Type.Optional(Type.Boolean({ description: "Include response bodies (default: true)" })),
+  }),
+};
+
+interface NetworkEntry {
+  startedAt: number; // ms
+  method: string;
+  url: string;
+  resourceType: string;
+  requestHeaders: Record<string, string>;
+  postData?: string;
+  status?: number;
+  statusText?: string;
+  responseHeaders?: Record<string, string>;
+  mimeType?: string;
+  body?: string;
+  bodyTruncated?: boolean;
+  waitTime?: number; // ms, 요청을 보낸 뒤 첫 바이트까지
+  receiveTime?: number;
+  duration?: number;
+  failure?: string;
+}
+
+export interface NetworkRecorderOptions {
+  maxEntries?: number;
+  maxBodyBytes?: number;
+  secrets?: SecretStore; // 기본값: ~/.pi-browser 저장소
+}
+
+function toNameValue(headers: Record<string, string> = {}): Array<{ name: string; value: string }> {
+  return Object.entries(headers).map(([name, value]) => ({ name, value }));
+}
+
+function queryString(url: string): Array<{ name: string; value: string }> {
+  try {
+    return [...new URL(url).searchParams].map(([name, value]) => ({ name, value }));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * 한 실행의 네트워크 기록 (attach → 실행 → stop → saveHar)
+ */
+export class NetworkRecorder {
+  private maxEntries: number;
+  private maxBodyBytes: number;
+  private secrets: SecretStore;
+  private entries: NetworkEntry[] = [];
+  private byRequest: WeakMap<Request, NetworkEntry> = new WeakMap();
+  // 아직 읽는 중인 응답 본문 (stop에서 기다림)
+  private pending: Set<Promise<void>> = new Set();
+  private context: BrowserContext | null = null;
+
+  private onRequest = (request: Request) => this.handleRequest(request);
+  private onFinished = (request: Request) => this.track(this.handleFinished(request));
+  private onFailed = (request: Request) => this.handleFailed(request);
+
+  constructor(options: NetworkRecorderOptions = {}) {
+    this.maxEntries = options.maxEntries || DEFAULT_MAX_ENTRIES;
+    this.maxBodyBytes = options.maxBodyBytes || DEFAULT_MAX_BODY_BYTES;
+    this.secrets = options.secrets ?? getSecretStore();
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * 컨텍스트의 모든 탭(이후 열리는 탭 포함) 요청 기록 시작
+   */
+  attach(context: BrowserContext): void {
+    if (this.context) this.detach();
+    this.context = context;
+    context.on("request", this.onRequest);
+    context.on("requestfinished", this.onFinished);
+    context.on("requestfailed", this.onFailed);
+  }
+
+  detach(): void {
+    if (!this.context) return;
+    this.context.off("request", this.onRequest);
+    this.context.off("requestfinished", this.onFinished);
+    this.context.off("requestfailed", this.onFailed);
+    this.context = null;
+  }
+
+  /**
+   * 기록을 멈추고 읽는 중인 응답 본문까지 기다림
+   */
+  async stop(): Promise<void> {
+    this.detach();
+    await Promise.all([...this.pending]);
+  }
+
+  /**
+   * browser_network 도구 결과: 최근 XHR/fetch 응답 JSON (최신순)
+   */
+  query(args: Record<string, unknown> = {}): ToolResult {
+    const filter = typeof args.filter === "string" ? args.filter : "";
+    const method = typeof args.method === "string" ? args.method.toUpperCase() : "";
+    const limit = Math.min(Math.max(Number(args.limit) || DEFAULT_TOOL_LIMIT, 1), MAX_TOOL_LIMIT);
+    const includeBody = args.includeBody !== false;
+
+    const matches = this.entries
+      .filter((entry) => API_RESOURCE_TYPES.has(entry.resourceType))
+      .filter((entry) => entry.status !== undefined || entry.failure)
+      .filter((entry) => (!filter || entry.url.includes(filter)) && (!method || entry.method === method))
+      .reverse();
+    if (matches.length === 0) {
+      const scope = filter || method ? " matching the filter" : "";
+      return { text: `No XHR/fetch responses captured${scope} yet. Trigger the page action first, then call ${NETWORK_TOOL_NAME} again.` };
+    }
+
+    const responses = matches.slice(0, limit).map((entry) => ({
+      method: entry.method,
+      url: this.secrets.redact(entry.url),
+      status: entry.status ?? null,
+      ...(entry.failure ? { error: entry.failure } : {}),
+      type: entry.resourceType,
+      mimeType: entry.mimeType,
+      time: entry.duration === undefined ? undefined : Math.round(entry.duration),
+      ...(includeBody && entry.body !== undefined ? { body: this.toolBody(entry) } : {}),
+    }));
+
+    const text = `Captured ${matches.length} XHR/fetch response(s), showing ${responses.length} (newest first):\n${JSON.stringify(responses, null, 2)}`;
+    return { text: text.length > TOOL_TEXT_LENGTH ? `${text.slice(0, TOOL_TEXT_LENGTH)}\n... (truncated - use filter or a smaller limit)` : text };
+  }
+
+  /**
+   * HAR 1.2 형식 (본문은 XHR/fetch 텍스트 응답만)
+   */
+  toHar(): Record<string, unknown> {
+    const redact = (text: string) => this.secrets.redact(text);
+    const entries = this.entries.map((entry) => ({
+      startedDateTime: new Date(entry.startedAt).toISOString(),
+      time: Math.max(0, Math.round(entry.duration ?? 0)),
+      request: {
+        method: entry.method,
+        url: redact(entry.url),
+        httpVersion: "HTTP/1.1",
+        cookies: [],
+        headers: toNameValue(entry.requestHeaders).map((h) => ({ ...h, value: redact(h.value) })),
+        queryString: queryString(entry.url).map((q) => ({ ...q, value: redact(q.value) })),
+        ...(entry.postData !== undefined
+          ? { postData: { mimeType: entry.requestHeaders["content-type"] ?? "", text: redact(entry.postData) } }
+          : {}),
+        headersSize: -1,
+        bodySize: entry.postData?.length ?? 0,
+      },
+      response: {
+        status: entry.status ?? 0,
+        statusText: entry.statusText ?? entry.failure ?? "",
+        httpVersion: "HTTP/1.1",
+        cookies: [],
+        headers: toNameValue(entry.responseHeaders).map((h) => ({ ...h, value: redact(h.value) })),
+        content: {
+          size: entry.body?.length ?? -1,
+          mimeType: entry.mimeType ?? "",
+          ...(entry.body !== undefined ? { text: redact(entry.body) } : {}),
+          ...(entry.bodyTruncated ? { comment: `truncated to ${this.maxBodyBytes} bytes` } : {}),
+        },
+        redirectURL: entry.responseHeaders?.location ?? "",
+        headersSize: -1,
+        bodySize: -1,
+        ...(entry.failure ? { _error: entry.failure } : {}),
+      },
+      cache: {},
+      timings: { send: 0, wait: Math.round(entry.waitTime ?? -1), receive: Math.round(entry.receiveTime ?? -1) },
+      _resourceType: entry.resourceType,
+    }));
+
+    return {
+      log: {
+        version: "1.2",
+        creator: { name: "pi-browser", version: "1.0" },
+        pages: [],
+        entries,
+      },
+    };
+  }
+
+  /**
+   * HAR 파일 저장 (디렉토리가 없으면 생성)
+   */
+  saveHar(filePath: string): string {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(this.toHar(), null, 2));
+    return filePath;
+  }
+
+  private track(promise: Promise<void>): void {
+    this.pending.add(promise);
+    promise.finally(() => this.pending.delete(promise));
+  }
+
+  private handleRequest(request: Request): void {
+    const entry: NetworkEntry = {
+      startedAt: Date.now(),
+      method: request.method(),
+      url: request.url(),
+      resourceType: request.resourceType(),
+      requestHeaders: request.headers(),
+      postData: request.postData() ?? undefined,
+    };
+    this.byRequest.set(request, entry);
+    this.entries.push(entry);
+    if (this.entries.length > this.maxEntries) {
+      this.entries.splice(0, this.entries.length - this.maxEntries);
+    }
+  }
+
+  private async handleFinished(request: Request): Promise<void> {
+    const entry = this.byRequest.get(request);
+    if (!entry) return;
+    this.applyTiming(entry, request);
+
+    const response = await request.response().catch(() => null);
+    if (!response) return;
+    entry.status = response.status();
+    entry.statusText = response.statusText();
+    entry.responseHeaders = response.headers();
+    entry.mimeType = (entry.responseHeaders["content-type"] ?? "").split(";")[0].trim();
+
+    if (!API_RESOURCE_TYPES.has(entry.resourceType) || !TEXT_MIME.test(entry.mimeType)) return;
+    const body = await response.body().catch(() => null);
+    if (!body) return;
+    entry.body = body.subarray(0, this.maxBodyBytes).toString("utf-8");
+    entry.bodyTruncated = body.length > this.maxBodyBytes;
+  }
+
+  private handleFailed(request: Request): void {
+    const entry = this.byRequest.get(request);
+    if (!entry) return;
+    this.applyTiming(entry, request);
+    entry.failure = request.failure()?.errorText ?? "failed";
+  }
+
+  private applyTiming(entry: NetworkEntry, request: Request): void {
+    const timing = request.timing();
+    if (timing.responseEnd > 0) entry.duration = timing.responseEnd;
+    if (timing.responseStart > 0 && timing.requestStart >= 0) entry.waitTime = timing.responseStart - timing.requestStart;
+    if (timing.responseEnd > 0 && timing.responseStart > 0) entry.receiveTime = timing.responseEnd - timing.responseStart;
+    entry.duration ??= Date.now() - entry.startedAt;
+  }
+
+  /**
+   * 도구 결과용 본문 (JSON이면 객체로 넣어서 따옴표 이스케이프 없이 보이게)
+   */
+  private toolBody(entry: NetworkEntry): unknown {
+    const body = this.secrets.redact(entry.body ?? "");
+    if (!entry.bodyTruncated && /json/i.test(entry.mimeType ?? "") && body.length <= TOOL_BODY_LENGTH) {
+      try {
+        return JSON.parse(body);
+      } catch {}
+    }
+    return body.length > TOOL_BODY_LENGTH ? `${body.slice(0, TOOL_BODY_LENGTH)}... (${body.length} chars)` : body;
+  }
+}
+
+/**
+ * HAR 파일 경로 (~/.pi-browser/data/har/<시각>-<이름>.har)
+ */
+export function harPathFor(name: string): string {
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const safe = name.replace(/[^A-Za-z0-9_.-]+/g, "_").slice(0, 60);
+  return path.join(HAR_DIR, `${stamp}-${safe}.har`);
+}
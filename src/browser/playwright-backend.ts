@@ -0,0 +1,604 @@
+/**
+ * Playwright 백엔드 (CDP 모드, 병렬 브라우저)
+ */
+
+import * as os from "os";
+import * as path from "path";
+import type { BrowserContext, Frame, Locator, Page } from "playwright-core";
+import type {
+  BrowserBackend,
+  DownloadResult,
+  PageCapture,
+  PageCaptureFormat,
+  PageInfo,
+  Point,
+  PointerTarget,
+  Screenshot,
+  ScreenshotMark,
+  ScreenshotOptions,
+  ScrollDirection,
+  SnapshotElement,
+  TabChanges,
+  TabInfo,
+  UploadMethod,
+  WaitCondition,
+} from "./types.js";
+
+const SCROLL_AMOUNT = 500;
+const MAX_MARKS = 100;
+// 드래그 중 중간 mousemove 수 (드래그 라이브러리가 움직임을 인식하도록)
+const DRAG_STEPS = 10;
+const MARKS_LAYER_ID = "pi-browser-marks";
+
+// set-of-marks: 뷰포트 안의 가려지지 않은 상호작용 요소에 번호 상자를 그리고 목록을 돌려줌
+// (tsx 변환의 영향을 받지 않도록 문자열로 실행, extension/dom-helpers.js의 showMarks와 같은 규칙)
+const SHOW_MARKS_SCRIPT = String.raw`(max) => {
+  const selector = 'a[href], button, input:not([type=hidden]), select, textarea, summary, canvas, [role=button], [role=link], ' +
+    '[role=checkbox], [role=radio], [role=tab], [role=menuitem], [role=option], [role=switch], [role=textbox], ' +
+    '[role=combobox], [role=slider], [contenteditable=""], [contenteditable="true"], [onclick], [tabindex]:not([tabindex="-1"])';
+  document.getElementById("LAYER_ID")?.remove();
+  const layer = document.createElement("div");
+  layer.id = "LAYER_ID";
+  layer.style.cssText = "position:fixed;inset:0;pointer-events:none;z-index:2147483647";
+  const marks = [];
+
+  for (const el of document.querySelectorAll(selector)) {
+    if (marks.length >= max) break;
+    const rect = el.getBoundingClientRect();
+    if (rect.width < 4 || rect.height < 4) continue;
+    if (rect.bottom <= 0 || rect.right <= 0 || rect.top >= innerHeight || rect.left >= innerWidth) continue;
+    const style = getComputedStyle(el);
+    if (style.visibility === "hidden" || style.display === "none" || Number(style.opacity) === 0) continue;
+
+    const x = Math.round(Math.min(Math.max(rect.left + rect.width / 2, 0), innerWidth - 1));
+    const y = Math.round(Math.min(Math.max(rect.top + rect.height / 2, 0), innerHeight - 1));
+    const top = document.elementFromPoint(x, y);
+    if (top && top !== el && !el.contains(top) && !top.contains(el)) continue;
+
+    const tag = el.tagName.toLowerCase();
+    const type = String(el.type || "").toLowerCase();
+    const role = el.getAttribute("role") ||
+      (tag === "a" ? "link" : tag === "textarea" ? "textbox" : tag === "select" ? "combobox" :
+       tag === "input" ? (["button", "submit", "reset", "image", "file"].includes(type) ? "button" :
+         ["checkbox", "radio"].includes(type) ? type : "textbox") : tag);
+    const name = String(el.getAttribute("aria-label") || el.innerText || el.value || el.placeholder || el.title || el.alt || "")
+      .replace(/\s+/g, " ").trim().slice(0, 80);
+    const label = marks.length + 1;
+    marks.push({ label, role, name, x, y });
+
+    const box = document.createElement("div");
+    box.style.cssText = "position:fixed;box-sizing:border-box;border:2px solid #ff2d55;left:" + rect.left + "px;top:" +
+      rect.top + "px;width:" + rect.width + "px;height:" + rect.height + "px";
+    const chip = document.createElement("span");
+    chip.textContent = String(label);
+    chip.style.cssText = "position:absolute;left:-2px;top:-2px;background:#ff2d55;color:#fff;font:bold 11px/14px sans-serif;padding:0 3px";
+    box.appendChild(chip);
+    layer.appendChild(box);
+  }
+
+  document.documentElement.appendChild(layer);
+  return marks;
+}`.replace(/LAYER_ID/g, MARKS_LAYER_ID);
+
+// 이름이 없으면 스냅샷에서 제외하는 role (구조용 컨테이너, 텍스트 노드, iframe은 내용을 따로 나열)
+const UNNAMED_SKIP_ROLES = new Set([
+  "generic", "group", "list", "listitem", "paragraph", "none", "presentation",
+  "document", "main", "banner", "contentinfo", "navigation", "region", "article",
+  "rowgroup", "row", "cell", "separator", "img", "heading", "figure", "strong", "emphasis", "iframe",
+]);
+
+// ref → frame.getByRole(role, { name, exact: true }).nth(nth)
+interface RefTarget {
+  frame: Frame;
+  role: string;
+  name: string;
+  nth: number;
+}
+
+export interface PlaywrightBackendOptions {
+  downloadDir?: string; // 기본값: ~/Downloads
+}
+
+/**
+ * role:"name", role:"name"[n], role, CSS 셀렉터를 Locator로 변환
+ */
+export function resolveLocator(page: Page, selector: string): Locator {
+  const exactMatch = selector.match(/^(\w+):"([^"]*)"\[(\d+)\]$/);
+  if (exactMatch) {
+    const [, role, name, nth] = exactMatch;
+    return page.getByRole(role as any, { name, exact: true }).nth(Number(nth));
+  }
+  const roleMatch = selector.match(/^(\w+):"([^"]*)"$/);
+  if (roleMatch) {
+    const [, role, name] = roleMatch;
+    return page.getByRole(role as any, { name, exact: false }).first();
+  }
+  if (selector.match(/^\w+$/)) {
+    // role만 있는 경우 (예: textbox, searchbox)
+    return page.getByRole(selector as any).first();
+  }
+  return page.locator(selector).first();
+}
+
+/**
+ * ariaSnapshot 한 줄 파싱: - button "Search" → { role, name }
+ */
+function parseAriaLine(line: string): { role: string; name: string } | null {
+  const match = line.match(/^\s*-\s*(\w+)(?:\s+"((?:[^"\\]|\\.)*)")?/);
+  if (!match) return null;
+  const [, role, rawName = ""] = match;
+  return { role, name: rawName.replace(/\\(.)/g, "$1") };
+}
+
+export class PlaywrightBackend implements BrowserBackend {
+  readonly mode = "cdp" as const;
+  private getContext: () => Promise<BrowserContext>;
+  private downloadDir: string;
+  // 페이지별 마지막 스냅샷의 ref 목록 (메인 프레임 이동 시 삭제)
+  private refs = new WeakMap<Page, Map<string, RefTarget>>();
+
+  // 탭 관리: 페이지마다 t1, t2, ... ID 부여
+  private tabIds = new WeakMap<Page, string>();
+  private nextTabId = 1;
+  private activePage: Page | null = null;
+  // 활성화 순서 (활성 탭이 닫히면 직전 탭으로 돌아감)
+  private history: Page[] = [];
+  private watchedContexts = new WeakSet<BrowserContext>();
+  // openTab으로 직접 연 페이지는 팝업 알림에서 제외
+  private ownPages = new WeakSet<Page>();
+  private openedPages: Page[] = [];
+  private closedTabIds: string[] = [];
+
+  /**
+   * getContext는 도구 실행마다 호출됨 (브라우저 지연 시작, 재시작 대응)
+   */
+  constructor(getContext: () => Promise<BrowserContext>, options: PlaywrightBackendOptions = {}) {
+    this.getContext = getContext;
+    this.downloadDir = options.downloadDir || path.join(os.homedir(), "Downloads");
+  }
+
+  /**
+   * 도구가 조작하는 페이지
+   * 활성 페이지가 닫혔으면 직전 탭 → 첫 탭 → 새 탭 순으로 대체
+   */
+  async getActivePage(): Promise<Page> {
+    const context = await this.getContext();
+    this.watchContext(context);
+
+    if (this.activePage && !this.activePage.isClosed() && this.activePage.context() === context) {
+      return this.activePage;
+    }
+
+    const pages = context.pages();
+    const previous = [...this.history].reverse().find((p) => !p.isClosed() && pages.includes(p));
+    const page = previous ?? pages[0] ?? (await this.newOwnPage(context));
+    this.activate(page);
+    return page;
+  }
+
+  private activate(page: Page): void {
+    this.activePage = page;
+    this.history = this.history.filter((p) => p !== page && !p.isClosed());
+    this.history.push(page);
+  }
+
+  private tabId(page: Page): string {
+    let id = this.tabIds.get(page);
+    if (!id) {
+      id = `t${this.nextTabId++}`;
+      this.tabIds.set(page, id);
+      page.once("close", () => this.closedTabIds.push(id!));
+    }
+    return id;
+  }
+
+  /**
+   * 팝업, target=_blank 링크로 열린 페이지 감지 (컨텍스트마다 한 번만 등록)
+   */
+  private watchContext(context: BrowserContext): void {
+    if (this.watchedContexts.has(context)) return;
+    this.watchedContexts.add(context);
+
+    for (const page of context.pages()) this.tabId(page);
+    context.on("page", (page) => {
+      this.tabId(page);
+      if (!this.ownPages.has(page)) this.openedPages.push(page);
+    });
+  }
+
+  /**
+   * 직접 여는 페이지 (컨텍스트의 "page" 이벤트가 newPage()보다 먼저 오므로 팝업 목록에서 다시 뺌)
+   */
+  private async newOwnPage(context: BrowserContext): Promise<Page> {
+    const page = await context.newPage();
+    this.ownPages.add(page);
+    this.openedPages = this.openedPages.filter((p) => p !== page);
+    return page;
+  }
+
+  private async tabInfo(page: Page): Promise<TabInfo> {
+    return {
+      id: this.tabId(page),
+      url: page.url(),
+      title: await page.title().catch(() => ""),
+      active: page === this.activePage,
+    };
+  }
+
+  private async findTab(id: string): Promise<Page> {
+    const context = await this.getContext();
+    const page = context.pages().find((p) => this.tabIds.get(p) === id);
+    if (!page) {
+      throw new Error(`Unknown tab: ${id}. Use browser_tabs_list to see open tabs.`);
+    }
+    return page;
+  }
+
+  /**
+   * ref=e7, ref=f1:e3 은 마지막 스냅샷 기준으로, 나머지는 resolveLocator로 변환
+   */
+  private locate(page: Page, selector: string): Locator {
+    const refMatch = selector.match(/^ref=((?:f\d+:)?e\d+)$/);
+    if (!refMatch) return resolveLocator(page, selector);
+
+    const target = this.refs.get(page)?.get(refMatch[1]);
+    if (!target || target.frame.isDetached()) {
+      throw new Error(`Unknown ref: ${refMatch[1]}. Run browser_snapshot again to get fresh refs.`);
+    }
+    return target.frame.getByRole(target.role as any, { name: target.name, exact: true }).nth(target.nth);
+  }
+
+  /**
+   * 프레임 하나의 ariaSnapshot을 요소 목록으로 변환 (iframe 요소는 f1:e3 형식 ref)
+   */
+  private async snapshotFrame(
+    frame: Frame,
+    prefix: string,
+    elements: SnapshotElement[],
+    refs: Map<string, RefTarget>
+  ): Promise<void> {
+    // Playwright의 ariaSnapshot 사용 (클로드봇 방식)
+    const ariaSnapshot = await frame.locator(":root").ariaSnapshot();
+    const frameUrl = prefix ? frame.url() : undefined;
+    // 같은 role + name 이 여러 개면 nth로 구분
+    const counts = new Map<string, number>();
+    let index = 0;
+
+    for (const line of String(ariaSnapshot || "").split("\n")) {
+      const parsed = parseAriaLine(line);
+      if (!parsed || parsed.role === "text") continue;
+
+      const { role, name } = parsed;
+      const key = `${role}\u0000${name}`;
+      const nth = counts.get(key) ?? 0;
+      counts.set(key, nth + 1);
+
+      if (!name && UNNAMED_SKIP_ROLES.has(role)) continue;
+
+      const ref = `${prefix}e${++index}`;
+      refs.set(ref, { frame, role, name, nth });
+      elements.push(frameUrl === undefined ? { ref, role, name } : { ref, role, name, frame: frameUrl });
+    }
+  }
+
+  async navigate(url: string): Promise<PageInfo> {
+    const page = await this.getActivePage();
+    await page.goto(url, { waitUntil: "domcontentloaded", timeout: 30000 });
+    return { url: page.url(), title: await page.title() };
+  }
+
+  async pageInfo(): Promise<PageInfo> {
+    const page = await this.getActivePage();
+    return { url: page.url(), title: await page.title() };
+  }
+
+  async click(selector: string): Promise<void> {
+    const page = await this.getActivePage();
+    await this.locate(page, selector).click();
+    await page.waitForTimeout(1000);
+  }
+
+  async fill(selector: string, text: string): Promise<void> {
+    const page = await this.getActivePage();
+    await this.locate(page, selector).fill(text);
+  }
+
+  async press(key: string): Promise<void> {
+    const page = await this.getActivePage();
+    await page.keyboard.press(key);
+    await page.waitForTimeout(500);
+  }
+
+  async clickAt(point: Point): Promise<void> {
+    const page = await this.getActivePage();
+    await page.mouse.click(point.x, point.y);
+    await page.waitForTimeout(1000);
+  }
+
+  async hover(target: PointerTarget): Promise<void> {
+    const page = await this.getActivePage();
+    const point = await this.pointOf(page, target);
+    await page.mouse.move(point.x, point.y);
+    await page.waitForTimeout(500);
+  }
+
+  async drag(from: PointerTarget, to: PointerTarget): Promise<void> {
+    const page = await this.getActivePage();
+    const start = await this.pointOf(page, from);
+    const end = await this.pointOf(page, to);
+    await page.mouse.move(start.x, start.y);
+    await page.mouse.down();
+    await page.mouse.move(end.x, end.y, { steps: DRAG_STEPS });
+    await page.mouse.up();
+    await page.waitForTimeout(500);
+  }
+
+  /**
+   * 셀렉터는 화면에 보이도록 스크롤한 뒤 요소 중심 (iframe 안의 요소도 페이지 기준 좌표)
+   */
+  private async pointOf(page: Page, target: PointerTarget): Promise<Point> {
+    if (typeof target !== "string") return target;
+    const loc = this.locate(page, target);
+    await loc.scrollIntoViewIfNeeded({ timeout: 10000 });
+    const box = await loc.boundingBox();
+    if (!box) throw new Error(`Element is not visible: ${target}`);
+    return { x: box.x + box.width / 2, y: box.y + box.height / 2 };
+  }
+
+  async screenshot(options: ScreenshotOptions = {}): Promise<Screenshot> {
+    const page = await this.getActivePage();
+    const marks = options.marks
+      ? ((await page.evaluate(`(${SHOW_MARKS_SCRIPT})(${MAX_MARKS})`)) as ScreenshotMark[])
+      : undefined;
+    try {
+      const buffer = await page.screenshot({ type: "jpeg", quality: 80, scale: "css" });
+      const shot: Screenshot = { data: buffer.toString("base64"), mimeType: "image/jpeg" };
+      return marks ? { ...shot, marks } : shot;
+    } finally {
+      if (marks) {
+        await page.evaluate(`document.getElementById(${JSON.stringify(MARKS_LAYER_ID)})?.remove()`).catch(() => {});
+      }
+    }
+  }
+
+  async capturePage(format: PageCaptureFormat): Promise<PageCapture> {
+    const page = await this.getActivePage();
+    switch (format) {
+      case "png": {
+        const buffer = await page.screenshot({ type: "png", fullPage: true, scale: "css" });
+        return { data: buffer.toString("base64"), mimeType: "image/png" };
+      }
+      case "pdf": {
+        // 창이 보이는 Chrome은 Page.printToPDF를 지원하지 않음
+        let buffer: Buffer;
+        try {
+          buffer = await page.pdf({ printBackground: true });
+        } catch (err) {
+          throw new Error(`PDF capture needs headless Chrome: ${(err as Error).message.split("\n")[0]}`);
+        }
+        return { data: buffer.toString("base64"), mimeType: "application/pdf" };
+      }
+      case "mhtml": {
+        const session = await page.context().newCDPSession(page);
+        try {
+          const { data } = await session.send("Page.captureSnapshot", { format: "mhtml" });
+          return { data: Buffer.from(data).toString("base64"), mimeType: "multipart/related" };
+        } finally {
+          await session.detach().catch(() => {});
+        }
+      }
+    }
+  }
+
+  async snapshot(): Promise<SnapshotElement[]> {
+    const page = await this.getActivePage();
+    const elements: SnapshotElement[] = [];
+    const refs = new Map<string, RefTarget>();
+
+    await this.snapshotFrame(page.mainFrame(), "", elements, refs);
+
+    // iframe은 문서 순서대로 f1, f2, ... (빈 프레임이나 이미 사라진 프레임은 건너뜀)
+    let frameIndex = 0;
+    for (const frame of page.frames()) {
+      if (frame === page.mainFrame() || frame.isDetached()) continue;
+      const prefix = `f${frameIndex + 1}:`;
+      try {
+        const before = elements.length;
+        await this.snapshotFrame(frame, prefix, elements, refs);
+        if (elements.length > before) frameIndex++;
+      } catch {
+        // 로드 중에 분리된 프레임
+      }
+    }
+
+    if (!this.refs.has(page)) {
+      page.on("framenavigated", (frame) => {
+        if (frame === page.mainFrame()) {
+          this.refs.delete(page);
+          return;
+        }
+        // iframe만 이동하면 그 프레임의 ref만 무효
+        const pageRefs = this.refs.get(page);
+        for (const [ref, target] of pageRefs ?? []) {
+          if (target.frame === frame) pageRefs!.delete(ref);
+        }
+      });
+    }
+    this.refs.set(page, refs);
+    return elements;
+  }
+
+  async scroll(direction: ScrollDirection): Promise<void> {
+    const page = await this.getActivePage();
+    const [x, y] =
+      direction === "up" ? [0, -SCROLL_AMOUNT] :
+      direction === "left" ? [-SCROLL_AMOUNT, 0] :
+      direction === "right" ? [SCROLL_AMOUNT, 0] : [0, SCROLL_AMOUNT];
+    await page.evaluate(`window.scrollBy(${x}, ${y})`);
+  }
+
+  async getText(selector?: string): Promise<string> {
+    const page = await this.getActivePage();
+    if (selector) {
+      return (await this.locate(page, selector).textContent()) ?? "";
+    }
+    return page.locator("body").innerText();
+  }
+
+  async waitFor(condition: WaitCondition, timeoutMs: number): Promise<void> {
+    const page = await this.getActivePage();
+    switch (condition.type) {
+      case "text":
+        await page.getByText(condition.text).first().waitFor({ state: "visible", timeout: timeoutMs });
+        break;
+      case "textGone":
+        await page.getByText(condition.text).first().waitFor({ state: "hidden", timeout: timeoutMs });
+        break;
+      case "selector":
+        await this.locate(page, condition.selector).waitFor({ state: "visible", timeout: timeoutMs });
+        break;
+    }
+  }
+
+  async download(selector: string, filename?: string): Promise<DownloadResult> {
+    const page = await this.getActivePage();
+
+    // 다운로드 대기 설정 후 버튼 클릭
+    const downloadPromise = page.waitForEvent("download", { timeout: 120000 });
+    await this.locate(page, selector).click();
+
+    const download = await downloadPromise;
+    const suggestedFilename = download.suggestedFilename();
+    const savePath = path.join(this.downloadDir, filename || suggestedFilename);
+    await download.saveAs(savePath);
+
+    return { path: savePath, suggestedFilename };
+  }
+
+  async upload(selector: string, filePaths: string[]): Promise<UploadMethod> {
+    const page = await this.getActivePage();
+    const loc = this.locate(page, selector);
+
+    // Strategy 1: input[type=file]
+    try {
+      const isFileInput = await loc.evaluate((el) => {
+        const tag = String((el as any).tagName || "").toLowerCase();
+        if (tag !== "input") return false;
+        return String((el as any).type).toLowerCase() === "file";
+      });
+
+      if (isFileInput) {
+        await loc.setInputFiles(filePaths);
+        await page.waitForTimeout(1000);
+        return "input";
+      }
+    } catch {
+      // fall through to chooser strategy
+    }
+
+    // Strategy 2: click to open file chooser
+    const [chooser] = await Promise.all([
+      page.waitForEvent("filechooser", { timeout: 10000 }),
+      loc.click(),
+    ]);
+    await chooser.setFiles(filePaths);
+    await page.waitForTimeout(1000);
+    return "chooser";
+  }
+
+  async stableSelector(selector: string): Promise<string> {
+    const refMatch = selector.match(/^ref=(e\d+)$/);
+    if (!refMatch) return selector;
+
+    const page = await this.getActivePage();
+    const target = this.refs.get(page)?.get(refMatch[1]);
+    // iframe 안의 요소나 이름에 따옴표가 있는 요소는 role:"name"[n]으로 표현할 수 없음
+    if (!target || target.name.includes('"')) return selector;
+    return `${target.role}:"${target.name}"[${target.nth}]`;
+  }
+
+  async describe(selector: string): Promise<Pick<SnapshotElement, "role" | "name"> | null> {
+    const page = await this.getActivePage();
+    const refMatch = selector.match(/^ref=((?:f\d+:)?e\d+)$/);
+    if (refMatch) {
+      const target = this.refs.get(page)?.get(refMatch[1]);
+      return target ? { role: target.role, name: target.name } : null;
+    }
+
+    const loc = resolveLocator(page, selector);
+    if ((await loc.count()) === 0) return null;
+    return loc.evaluate(
+      (el: any) => ({
+        role: el.getAttribute("role") || el.tagName.toLowerCase(),
+        name: String(el.getAttribute("aria-label") || el.innerText || el.value || "").trim().slice(0, 200),
+      }),
+      undefined,
+      { timeout: 5000 }
+    );
+  }
+
+  async describeAt(point: Point): Promise<Pick<SnapshotElement, "role" | "name"> | null> {
+    const page = await this.getActivePage();
+    return page.evaluate(({ x, y }) => {
+      const doc = (globalThis as any).document;
+      const hit = doc.elementFromPoint(x, y);
+      const el = hit?.closest("button, a[href], input, select, textarea, summary, label, [role]") ?? hit;
+      if (!el) return null;
+      return {
+        role: el.getAttribute("role") || el.tagName.toLowerCase(),
+        name: String(el.getAttribute("aria-label") || el.innerText || el.value || "").trim().slice(0, 200),
+      };
+    }, point);
+  }
+
+  async listTabs(): Promise<TabInfo[]> {
+    await this.getActivePage();
+    const context = await this.getContext();
+    return Promise.all(context.pages().map((p) => this.tabInfo(p)));
+  }
+
+  async openTab(url?: string): Promise<TabInfo> {
+    const context = await this.getContext();
+    this.watchContext(context);
+
+    const page = await this.newOwnPage(context);
+    this.tabId(page);
+    if (url) {
+      await page.goto(url, { waitUntil: "domcontentloaded", timeout: 30000 });
+    }
+    this.activate(page);
+    return this.tabInfo(page);
+  }
+
+  async switchTab(id: string): Promise<TabInfo> {
+    const page = await this.findTab(id);
+    this.activate(page);
+    await page.bringToFront().catch(() => {});
+    return this.tabInfo(page);
+  }
+
+  async closeTab(id?: string): Promise<void> {
+    const page = id ? await this.findTab(id) : await this.getActivePage();
+    const tabId = this.tabId(page);
+    await page.close();
+    // 직접 닫은 탭은 알림에서 제외
+    this.closedTabIds = this.closedTabIds.filter((t) => t !== tabId);
+  }
+
+  async takeTabChanges(): Promise<TabChanges> {
+    const pages = this.openedPages;
+    const closed = this.closedTabIds;
+    this.openedPages = [];
+    this.closedTabIds = [];
+
+    const opened: TabInfo[] = [];
+    for (const page of pages) {
+      if (page.isClosed()) continue;
+      // 팝업은 about:blank로 시작하므로 첫 문서 로드까지 잠깐 대기
+      await page.waitForLoadState("domcontentloaded", { timeout: 5000 }).catch(() => {});
+      opened.push(await this.tabInfo(page));
+    }
+
+    return { opened, closed };
+  }
+}
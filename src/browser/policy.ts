@@ -0,0 +1,156 @@
+/**
+ * Tool call policy
+ * 실행 전에 도구 호출을 분류해서 되돌릴 수 없는 동작(발행, 결제, 삭제, 전송, 업로드)은 사용자 승인을 받음
+ */
+
+import { resolvePointerTarget } from "./tools.js";
+import type { BrowserBackend } from "./types.js";
+
+export interface PolicyRules {
+  // 클릭 대상 이름에 들어 있으면 승인 필요 (영문은 단어 단위, 대소문자 무시)
+  riskyLabels: string[];
+  // 이 도메인(하위 도메인 포함)에서는 클릭과 Enter(폼 제출)에 승인 필요
+  paymentDomains: string[];
+  // 항상 승인이 필요한 도구
+  confirmTools: string[];
+}
+
+export const DEFAULT_POLICY_RULES: PolicyRules = {
+  riskyLabels: [
+    "발행", "게시", "결제", "구매", "주문", "삭제", "송금", "이체", "전송", "보내기", "탈퇴",
+    "Send", "Publish", "Pay", "Buy", "Purchase", "Checkout", "Place order", "Delete", "Transfer",
+  ],
+  paymentDomains: [
+    "pay.naver.com", "kakaopay.com", "toss.im", "tosspayments.com", "payco.com", "inicis.com",
+    "kcp.co.kr", "nicepay.co.kr", "paypal.com", "checkout.stripe.com", "pay.google.com",
+  ],
+  confirmTools: ["browser_upload"],
+};
+
+// 웹 UI 설정(settings.policy)과 같은 형태, 목록은 기본 규칙에 더해짐
+export interface PolicySettings {
+  enabled?: boolean; // 기본값: true
+  riskyLabels?: string[];
+  paymentDomains?: string[];
+  confirmTools?: string[];
+}
+
+export interface ApprovalRequest {
+  tool: string;
+  args: Record<string, unknown>;
+  reason: string; // 사용자에게 보여줄 설명 (예: "발행" 버튼 클릭)
+  url?: string;
+}
+
+// 승인하면 true (CLI 프롬프트, 웹 UI 모달, 텔레그램 버튼)
+export type ApprovalHandler = (request: ApprovalRequest) => Promise<boolean>;
+
+/**
+ * 설정을 기본 규칙에 합침 (비활성화면 null)
+ */
+export function resolvePolicyRules(settings?: PolicySettings): PolicyRules | null {
+  if (settings?.enabled === false) return null;
+  return {
+    riskyLabels: [...DEFAULT_POLICY_RULES.riskyLabels, ...(settings?.riskyLabels ?? [])],
+    paymentDomains: [...DEFAULT_POLICY_RULES.paymentDomains, ...(settings?.paymentDomains ?? [])],
+    confirmTools: [...DEFAULT_POLICY_RULES.confirmTools, ...(settings?.confirmTools ?? [])],
+  };
+}
+
+function matchesLabel(label: string, keyword: string): boolean {
+  if (/^[\x20-\x7e]+$/.test(keyword)) {
+    const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    return new RegExp(`\\b${escaped}\\b`, "i").test(label);
+  }
+  return label.includes(keyword);
+}
+
+function isPaymentHost(url: string, domains: string[]): boolean {
+  let host: string;
+  try {
+    host = new URL(url).hostname;
+  } catch {
+    return false;
+  }
+  return domains.some((domain) => host === domain || host.endsWith(`.${domain}`));
+}
+
+export class PolicyEngine {
+  private backend: BrowserBackend;
+  private rules: PolicyRules;
+
+  constructor(backend: BrowserBackend, rules: PolicyRules = DEFAULT_POLICY_RULES) {
+    this.backend = backend;
+    this.rules = rules;
+  }
+
+  /**
+   * 승인이 필요한 호출이면 요청 내용, 아니면 null
+   */
+  async classify(tool: string, args: Record<string, unknown>): Promise<ApprovalRequest | null> {
+    if (this.rules.confirmTools.includes(tool)) {
+      const detail = tool === "browser_upload" ? `: ${[args.filePaths].flat().join(", ")}` : "";
+      return { tool, args, reason: `${tool}${detail}` };
+    }
+
+    if (!["browser_click", "browser_click_xy", "browser_drag", "browser_press"].includes(tool)) {
+      return null;
+    }
+
+    // 좌표 클릭은 그 좌표의 요소, 드래그는 잡는 요소와 놓는 요소의 이름을 확인
+    const prefixes = tool === "browser_press" ? [] : tool === "browser_drag" ? (["", "to"] as const) : ([""] as const);
+    for (const prefix of prefixes) {
+      const label = await this.describeTarget(args, prefix);
+      const keyword = this.rules.riskyLabels.find((k) => matchesLabel(label, k));
+      if (keyword) {
+        return { tool, args, reason: `"${label}" ${tool === "browser_drag" ? "드래그" : "클릭"} (${keyword})` };
+      }
+    }
+    if (tool === "browser_drag") return null;
+
+    const submits = tool !== "browser_press" || String(args.key).toLowerCase() === "enter";
+    if (submits) {
+      const { url } = await this.backend.pageInfo().catch(() => ({ url: "" }));
+      if (isPaymentHost(url, this.rules.paymentDomains)) {
+        return { tool, args, url, reason: `결제 페이지에서 ${tool === "browser_press" ? "Enter 입력" : "클릭"}` };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 승인이 필요하면 approve로 묻고, 허용되지 않으면 도구 결과로 돌려줄 메시지 (허용이면 null)
+   */
+  async authorize(
+    tool: string,
+    args: Record<string, unknown>,
+    approve?: ApprovalHandler
+  ): Promise<string | null> {
+    const request = await this.classify(tool, args);
+    if (!request) return null;
+
+    if (!approve) {
+      return `Blocked: ${request.reason} needs user approval, but nobody can approve it in this run. Do not retry - report that this step needs the user.`;
+    }
+    if (await approve(request)) return null;
+    return `Denied by user: ${request.reason}. Do not retry this action - report what was done so far.`;
+  }
+
+  /**
+   * 클릭/드래그 대상 이름 (찾을 수 없으면 셀렉터 문자열, 좌표면 빈 문자열)
+   * prefix "to"는 browser_drag의 놓을 위치
+   */
+  private async describeTarget(args: Record<string, unknown>, prefix: "" | "to"): Promise<string> {
+    try {
+      const target = resolvePointerTarget(args, prefix);
+      if (typeof target !== "string") {
+        return (await this.backend.describeAt(target).catch(() => null))?.name || "";
+      }
+      const element = await this.backend.describe(target).catch(() => null);
+      return element?.name || target;
+    } catch {
+      return "";
+    }
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * 도구 호출 기록과 재생
+ * 성공한 실행의 도구 호출을 스크립트로 저장해 두고, 다음부터는 LLM 없이 executeBrowserTool로 바로 실행
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { executeBrowserTool, resolveTarget, type ToolExecutionOptions } from "./tools.js";
+import type { BrowserBackend, ToolResult } from "./types.js";
+
+export const REPLAY_DIR = path.join(os.homedir(), ".pi-browser", "replays");
+
+// 페이지 상태를 바꾸지 않는 도구는 기록하지 않음
+const UNRECORDED_TOOLS = new Set(["browser_snapshot", "browser_screenshot", "browser_tabs_list"]);
+
+export interface RecordedAction {
+  tool: string;
+  args: Record<string, unknown>; // ref는 role:"name"[n] 셀렉터로 바뀐 인자
+}
+
+// 재생 단위 (미션 하나 또는 워크플로우 단계 하나), 재생이 실패하면 prompt로 AI가 대신 실행
+export interface ReplayStep {
+  id: string;
+  name: string;
+  prompt: string;
+  actions: RecordedAction[];
+}
+
+export interface ReplayScript {
+  version: 1;
+  name: string;
+  createdAt: number;
+  steps: ReplayStep[];
+}
+
+export interface ReplayOutcome {
+  success: boolean;
+  executed: number; // 성공한 동작 수
+  result: string; // 마지막 도구 결과
+  error?: string;
+  denied?: boolean; // authorize가 거부해서 멈춤 (AI로 다시 실행하지 않음)
+}
+
+/**
+ * 도구를 실행하면서 성공한 호출을 재생 가능한 형태로 기록
+ */
+export class ActionRecorder {
+  private backend: BrowserBackend;
+  private recorded: RecordedAction[] = [];
+
+  constructor(backend: BrowserBackend) {
+    this.backend = backend;
+  }
+
+  get actions(): RecordedAction[] {
+    return [...this.recorded];
+  }
+
+  async execute(
+    name: string,
+    args: Record<string, unknown>,
+    options: ToolExecutionOptions = {}
+  ): Promise<ToolResult> {
+    const recordable = name.startsWith("browser_") && !UNRECORDED_TOOLS.has(name);
+    // 클릭 후 페이지가 바뀌면 ref가 무효가 되므로 실행 전에 변환
+    const replayArgs = recordable ? await this.resolveArgs(args) : args;
+    const result = await executeBrowserTool(this.backend, name, args, options);
+    if (recordable) {
+      this.recorded.push({ tool: name, args: replayArgs });
+    }
+    return result;
+  }
+
+  private async resolveArgs(args: Record<string, unknown>): Promise<Record<string, unknown>> {
+    const resolved: Record<string, unknown> = { ...args };
+    // browser_drag의 놓을 위치(toRef)도 같은 방식으로 변환
+    for (const [refKey, selectorKey] of [["ref", "selector"], ["toRef", "toSelector"]] as const) {
+      if (!args[refKey]) continue;
+      const target = resolveTarget({ ref: args[refKey] }, true);
+      const selector = await this.backend.stableSelector(target).catch(() => target);
+      if (selector.startsWith("ref=")) continue;
+      resolved[selectorKey] = selector;
+      delete resolved[refKey];
+    }
+    return resolved;
+  }
+}
+
+export interface ReplayOptions extends ToolExecutionOptions {
+  // 동작 실행 전 확인 (PolicyEngine.authorize 등), 거부 사유를 돌려주면 재생 실패
+  authorize?: (tool: string, args: Record<string, unknown>) => Promise<string | null>;
+}
+
+/**
+ * 기록된 동작을 순서대로 실행 (하나라도 실패하면 그 자리에서 멈춤)
+ */
+export async function replayActions(
+  backend: BrowserBackend,
+  actions: RecordedAction[],
+  onLog?: (text: string) => void,
+  options: ReplayOptions = {}
+): Promise<ReplayOutcome> {
+  let result = "";
+
+  for (let i = 0; i < actions.length; i++) {
+    const { tool, args } = actions[i];
+    onLog?.(`[REPLAY ${i + 1}/${actions.length}] ${tool}(${JSON.stringify(args)})`);
+    const denied = await options.authorize?.(tool, args);
+    if (denied) {
+      onLog?.(`[DENIED] ${denied}`);
+      return { success: false, executed: i, result, error: denied, denied: true };
+    }
+    try {
+      result = (await executeBrowserTool(backend, tool, args, options)).text;
+    } catch (error) {
+      const message = (error as Error).message;
+      onLog?.(`[ERROR] ${message}`);
+      return { success: false, executed: i, result, error: `${tool}: ${message}` };
+    }
+    onLog?.(`[OK] ${result.slice(0, 100)}`);
+  }
+
+  return { success: true, executed: actions.length, result };
+}
+
+/**
+ * 스크립트 재생, 실패한 단계만 fallback(AI)으로 실행
+ */
+export async function replayScript(
+  backend: BrowserBackend,
+  script: ReplayScript,
+  fallback: (step: ReplayStep) => Promise<{ success: boolean; result: string }>,
+  onLog?: (text: string) => void,
+  options: ReplayOptions = {}
+): Promise<{ success: boolean; result: string; fallbackSteps: string[] }> {
+  const fallbackSteps: string[] = [];
+  let result = "";
+
+  for (const step of script.steps) {
+    onLog?.(`▶ ${step.name} (${step.actions.length}개 동작)`);
+    const outcome = await replayActions(backend, step.actions, onLog, options);
+    if (outcome.success) {
+      result = outcome.result;
+      continue;
+    }
+
+    if (outcome.denied) {
+      return { success: false, result: outcome.error || "", fallbackSteps };
+    }
+
+    onLog?.(`⚠️ 재생 실패 (${outcome.error}), AI로 이 단계만 다시 실행합니다`);
+    fallbackSteps.push(step.id);
+    const agentResult = await fallback(step);
+    if (!agentResult.success) {
+      return { success: false, result: agentResult.result, fallbackSteps };
+    }
+    result = agentResult.result;
+  }
+
+  return { success: true, result, fallbackSteps };
+}
+
+/**
+ * 이름만 주면 ~/.pi-browser/replays/<name>.json
+ */
+export function resolveReplayPath(fileOrName: string): string {
+  if (fileOrName.includes("/") || fileOrName.includes("\\") || fileOrName.endsWith(".json")) {
+    return path.resolve(fileOrName);
+  }
+  return path.join(REPLAY_DIR, `${fileOrName}.json`);
+}
+
+export function saveReplayScript(fileOrName: string, script: ReplayScript): string {
+  const filePath = resolveReplayPath(fileOrName);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(script, null, 2));
+  return filePath;
+}
+
+export function loadReplayScript(fileOrName: string): ReplayScript {
+  const filePath = resolveReplayPath(fileOrName);
+  const script = JSON.parse(fs.readFileSync(filePath, "utf-8")) as ReplayScript;
+  if (script.version !== 1 || !Array.isArray(script.steps)) {
+    throw new Error(`Invalid replay script: ${filePath}`);
+  }
+  return script;
+}
@@ -0,0 +1,161 @@
+/**
+ * Request routing rules
+ * CDP 모드에서 광고, 트래커, 동영상 같은 요청을 차단하거나, 응답을 대신 돌려주거나, 요청 헤더를 바꿈
+ * 설정의 browser.routes가 기본이고 워크플로우에 routes가 있으면 그 실행 동안 대신 사용
+ */
+
+import type { BrowserContext, Route } from "playwright-core";
+
+export type RouteAction = "block" | "stub" | "headers";
+export type RoutePreset = "ads" | "trackers" | "media" | "images" | "fonts";
+
+export interface RouteRule {
+  action: RouteAction;
+  // 조건은 지정한 것을 모두 만족해야 적용 (하나도 없으면 모든 요청)
+  preset?: RoutePreset;
+  resourceTypes?: string[]; // document, image, media, font, stylesheet, script, xhr, fetch, ...
+  url?: string; // 전체 URL 패턴, *는 아무 문자열 (예: "*doubleclick.net*", "https://example.com/ads/*")
+  // stub: 돌려줄 응답 (기본값: 200, 빈 본문)
+  status?: number;
+  contentType?: string;
+  body?: string;
+  // headers: 추가/변경할 요청 헤더 (null이면 삭제)
+  headers?: Record<string, string | null>;
+}
+
+const ROUTE_ACTIONS: RouteAction[] = ["block", "stub", "headers"];
+
+// 호스트 목록은 하위 도메인 포함
+const PRESET_HOSTS: Partial<Record<RoutePreset, string[]>> = {
+  ads: [
+    "doubleclick.net", "googlesyndication.com", "googleadservices.com", "adservice.google.com",
+    "amazon-adsystem.com", "adnxs.com", "criteo.com", "criteo.net", "taboola.com", "outbrain.com",
+    "pubmatic.com", "rubiconproject.com", "openx.net", "adform.net", "moatads.com",
+  ],
+  trackers: [
+    "google-analytics.com", "googletagmanager.com", "connect.facebook.net", "analytics.tiktok.com",
+    "hotjar.com", "segment.io", "segment.com", "mixpanel.com", "clarity.ms", "scorecardresearch.com",
+    "bat.bing.com", "wcs.naver.net",
+  ],
+};
+const PRESET_RESOURCE_TYPES: Partial<Record<RoutePreset, string[]>> = {
+  media: ["media"],
+  images: ["image"],
+  fonts: ["font"],
+};
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"));
+  return new RegExp(`^${escaped.join(".*")}$`, "i");
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return "";
+  }
+}
+
+function matchesPreset(preset: RoutePreset, url: string, resourceType: string): boolean {
+  const types = PRESET_RESOURCE_TYPES[preset];
+  if (types) return types.includes(resourceType);
+  const host = hostOf(url);
+  return (PRESET_HOSTS[preset] ?? []).some((domain) => host === domain || host.endsWith(`.${domain}`));
+}
+
+export function matchesRouteRule(rule: RouteRule, url: string, resourceType: string): boolean {
+  if (rule.preset && !matchesPreset(rule.preset, url, resourceType)) return false;
+  if (rule.resourceTypes?.length && !rule.resourceTypes.includes(resourceType)) return false;
+  if (rule.url && !globToRegExp(rule.url).test(url)) return false;
+  return true;
+}
+
+/**
+ * 요청에 적용할 규칙 (앞에 있는 규칙이 우선, 없으면 undefined)
+ */
+export function findRouteRule(rules: RouteRule[], url: string, resourceType: string): RouteRule | undefined {
+  return rules.find((rule) => matchesRouteRule(rule, url, resourceType));
+}
+
+/**
+ * 설정/워크플로우 JSON의 규칙 검사 (잘못된 규칙이 있으면 오류)
+ */
+export function parseRouteRules(value: unknown): RouteRule[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) throw new Error("Route rules must be an array");
+
+  return value.map((rule, i) => {
+    const r = rule as RouteRule;
+    if (!r || typeof r !== "object" || !ROUTE_ACTIONS.includes(r.action)) {
+      throw new Error(`Route rule ${i + 1}: action must be one of ${ROUTE_ACTIONS.join(", ")}`);
+    }
+    if (r.preset && !PRESET_HOSTS[r.preset] && !PRESET_RESOURCE_TYPES[r.preset]) {
+      throw new Error(`Route rule ${i + 1}: unknown preset "${r.preset}"`);
+    }
+    if (r.action === "headers" && (!r.headers || typeof r.headers !== "object")) {
+      throw new Error(`Route rule ${i + 1}: headers action needs a headers object`);
+    }
+    return r;
+  });
+}
+
+/**
+ * 브라우저 컨텍스트 하나에 규칙 적용 (apply를 다시 부르면 규칙만 바뀜)
+ */
+export class RouteController {
+  private context: BrowserContext | null = null;
+  private rules: RouteRule[] = [];
+  private handler = (route: Route) => this.handle(route).catch(() => {});
+
+  get ruleCount(): number {
+    return this.rules.length;
+  }
+
+  async apply(context: BrowserContext, rules: RouteRule[] | undefined): Promise<void> {
+    this.rules = parseRouteRules(rules);
+    if (this.context && (this.context !== context || this.rules.length === 0)) {
+      await this.clear();
+    }
+    if (this.rules.length > 0 && !this.context) {
+      await context.route("**/*", this.handler);
+      this.context = context;
+    }
+  }
+
+  /**
+   * 라우팅 해제 (브라우저를 닫았으면 무시)
+   */
+  async clear(): Promise<void> {
+    const context = this.context;
+    this.context = null;
+    await context?.unroute("**/*", this.handler).catch(() => {});
+  }
+
+  private async handle(route: Route): Promise<void> {
+    const request = route.request();
+    const rule = findRouteRule(this.rules, request.url(), request.resourceType());
+    if (!rule) {
+      await route.fallback();
+      return;
+    }
+
+    switch (rule.action) {
+      case "block":
+        await route.abort("blockedbyclient");
+        return;
+      case "stub":
+        await route.fulfill({ status: rule.status ?? 200, contentType: rule.contentType, body: rule.body ?? "" });
+        return;
+      case "headers": {
+        const headers = { ...request.headers() };
+        for (const [name, value] of Object.entries(rule.headers ?? {})) {
+          if (value === null) delete headers[name.toLowerCase()];
+          else headers[name.toLowerCase()] = value;
+        }
+        await route.fallback({ headers });
+        return;
+      }
+    }
+  }
+}
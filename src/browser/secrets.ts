@@ -0,0 +1,211 @@
+/**
+ * Secrets vault
+ * 비밀번호 같은 값을 ~/.pi-browser/secrets.enc에 암호화해서 저장하고,
+ * 미션에는 {{secret:이름}}만 쓰게 해서 값이 LLM, 워크플로우 JSON, 로그에 남지 않도록 함
+ * 값은 browser_fill에서만 치환되고 도구 결과에 나타나면 다시 {{secret:이름}}으로 가림
+ */
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+export const SECRETS_PATH = path.join(os.homedir(), ".pi-browser", "secrets.enc");
+// PI_BROWSER_SECRET_KEY 환경변수가 없을 때 쓰는 이 컴퓨터 전용 키
+export const SECRET_KEY_PATH = path.join(os.homedir(), ".pi-browser", "secret.key");
+
+const SECRET_REF = /\{\{secret:([A-Za-z0-9_.-]+)\}\}/g;
+const SECRET_NAME = /^[A-Za-z0-9_.-]+$/;
+
+export interface EncryptedFile {
+  version: 1;
+  iv: string; // base64
+  tag: string;
+  data: string;
+}
+
+/**
+ * PI_BROWSER_SECRET_KEY가 있으면 그 암호에서, 없으면 키 파일에서 (create면 처음 쓸 때 생성)
+ */
+export function loadSecretKey(keyPath: string = SECRET_KEY_PATH, create: boolean = false): Buffer {
+  const passphrase = process.env.PI_BROWSER_SECRET_KEY;
+  if (passphrase) {
+    return crypto.scryptSync(passphrase, "pi-browser-secrets", 32);
+  }
+  if (fs.existsSync(keyPath)) {
+    return Buffer.from(fs.readFileSync(keyPath, "utf-8").trim(), "base64");
+  }
+  if (!create) {
+    throw new Error(`Secret key not found: ${keyPath}`);
+  }
+  const key = crypto.randomBytes(32);
+  fs.mkdirSync(path.dirname(keyPath), { recursive: true });
+  fs.writeFileSync(keyPath, key.toString("base64"), { mode: 0o600 });
+  return key;
+}
+
+/**
+ * AES-256-GCM 암호화 (비밀 값, TOTP 시드, 세션 파일이 같은 형식)
+ */
+export function encryptText(plain: string, key: Buffer): EncryptedFile {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+  const data = Buffer.concat([cipher.update(plain, "utf-8"), cipher.final()]);
+  return {
+    version: 1,
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+}
+
+/**
+ * encryptText의 역 (키가 다르면 오류)
+ */
+export function decryptText(file: EncryptedFile, key: Buffer): string {
+  const decipher = crypto.createDecipheriv("aes-256-gcm", key, Buffer.from(file.iv, "base64"));
+  decipher.setAuthTag(Buffer.from(file.tag, "base64"));
+  return Buffer.concat([decipher.update(Buffer.from(file.data, "base64")), decipher.final()]).toString("utf-8");
+}
+
+export function isValidSecretName(name: string): boolean {
+  return SECRET_NAME.test(name);
+}
+
+export function hasSecretRef(text: string): boolean {
+  return new RegExp(SECRET_REF.source).test(text);
+}
+
+export interface SecretStoreOptions {
+  filePath?: string;
+  keyPath?: string;
+}
+
+/**
+ * 암호화된 비밀 값 저장소 (AES-256-GCM)
+ * 파일이 바뀌면 다시 읽으므로 CLI와 웹 UI가 같은 저장소를 써도 됨
+ */
+export class SecretStore {
+  private filePath: string;
+  private keyPath: string;
+  private values: Map<string, string> = new Map();
+  private loadedMtime: number = -1;
+
+  constructor(options: SecretStoreOptions = {}) {
+    this.filePath = options.filePath || SECRETS_PATH;
+    this.keyPath = options.keyPath || SECRET_KEY_PATH;
+  }
+
+  list(): string[] {
+    return [...this.load().keys()].sort();
+  }
+
+  has(name: string): boolean {
+    return this.load().has(name);
+  }
+
+  get(name: string): string | undefined {
+    return this.load().get(name);
+  }
+
+  set(name: string, value: string): void {
+    if (!isValidSecretName(name)) {
+      throw new Error(`Invalid secret name: ${name} (letters, digits, _ . - only)`);
+    }
+    if (!value) throw new Error("Secret value is empty");
+    const values = new Map(this.load());
+    values.set(name, value);
+    this.save(values);
+  }
+
+  remove(name: string): boolean {
+    const values = new Map(this.load());
+    if (!values.delete(name)) return false;
+    this.save(values);
+    return true;
+  }
+
+  /**
+   * {{secret:이름}}을 값으로 치환 (없는 이름이면 오류, 메시지에 값은 넣지 않음)
+   */
+  resolve(text: string): string {
+    const values = this.load();
+    return text.replace(SECRET_REF, (_, name: string) => {
+      const value = values.get(name);
+      if (value === undefined) {
+        throw new Error(`Unknown secret: ${name}. Add it with /secret set ${name} or in the web UI settings`);
+      }
+      return value;
+    });
+  }
+
+  /**
+   * 텍스트에 들어 있는 비밀 값을 {{secret:이름}}으로 가림
+   */
+  redact(text: string): string {
+    let values: Map<string, string>;
+    try {
+      values = this.load();
+    } catch {
+      // 복호화할 수 없으면 browser_fill도 값을 쓸 수 없었으므로 가릴 것이 없음
+      return text;
+    }
+
+    let redacted = text;
+    // 긴 값부터 (다른 값을 포함하는 값이 있어도 전체가 가려지도록)
+    const entries = [...values].sort((a, b) => b[1].length - a[1].length);
+    for (const [name, value] of entries) {
+      // 짧은 PIN도 가림 (빈 값만 제외)
+      if (!value) continue;
+      // 폼 전송 본문이나 URL에는 인코딩된 형태로 들어 있을 수 있음
+      for (const form of new Set([value, encodeURIComponent(value)])) {
+        redacted = redacted.split(form).join(`{{secret:${name}}}`);
+      }
+    }
+    return redacted;
+  }
+
+  private load(): Map<string, string> {
+    let mtime: number;
+    try {
+      mtime = fs.statSync(this.filePath).mtimeMs;
+    } catch {
+      this.values = new Map();
+      this.loadedMtime = -1;
+      return this.values;
+    }
+    if (mtime === this.loadedMtime) return this.values;
+
+    const file = JSON.parse(fs.readFileSync(this.filePath, "utf-8")) as EncryptedFile;
+    const key = loadSecretKey(this.keyPath);
+    let plain: string;
+    try {
+      plain = decryptText(file, key);
+    } catch {
+      throw new Error(`Cannot decrypt ${this.filePath} (wrong PI_BROWSER_SECRET_KEY or key file)`);
+    }
+
+    this.values = new Map(Object.entries(JSON.parse(plain) as Record<string, string>));
+    this.loadedMtime = mtime;
+    return this.values;
+  }
+
+  private save(values: Map<string, string>): void {
+    const file = encryptText(JSON.stringify(Object.fromEntries(values)), loadSecretKey(this.keyPath, true));
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(file), { mode: 0o600 });
+    this.values = values;
+    this.loadedMtime = fs.statSync(this.filePath).mtimeMs;
+  }
+}
+
+let defaultStore: SecretStore | null = null;
+
+/**
+ * ~/.pi-browser의 기본 저장소 (도구 실행, CLI, 웹 UI가 공유)
+ */
+export function getSecretStore(): SecretStore {
+  defaultStore ??= new SecretStore();
+  return defaultStore;
+}
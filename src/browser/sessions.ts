@@ -0,0 +1,182 @@
+/**
+ * Browser sessions
+ * Playwright storageState(쿠키 + 사이트별 localStorage)를 이름을 붙여 ~/.pi-browser/sessions에 저장하고
+ * 다른 브라우저(워크플로우, 병렬 브라우저, 다른 컴퓨터)에서 불러와 로그인된 상태로 시작
+ * Chrome 프로필 파일을 복사하는 것과 달리 운영체제와 무관한 JSON이고, 선택하면 비밀 값과 같은 키로 암호화
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type { BrowserContext } from "playwright-core";
+import { decryptText, encryptText, isValidSecretName, loadSecretKey, SECRET_KEY_PATH, type EncryptedFile } from "./secrets.js";
+
+export const SESSIONS_DIR = path.join(os.homedir(), ".pi-browser", "sessions");
+
+export type SessionState = Awaited<ReturnType<BrowserContext["storageState"]>>;
+
+interface SessionFile {
+  version: 1;
+  name: string;
+  savedAt: number;
+  sites?: string[]; // 저장할 때 지정한 사이트 (없으면 전체)
+  state?: SessionState; // 암호화하지 않은 경우
+  encrypted?: EncryptedFile; // 암호화한 경우 state JSON
+}
+
+export interface SessionInfo {
+  name: string;
+  savedAt: number;
+  encrypted: boolean;
+  sites?: string[];
+}
+
+export interface SessionSaveOptions {
+  encrypt?: boolean;
+  sites?: string[];
+}
+
+export interface SessionStoreOptions {
+  dir?: string;
+  keyPath?: string;
+}
+
+function matchesSite(host: string, site: string): boolean {
+  const domain = site.trim().toLowerCase().replace(/^https?:\/\//, "").replace(/\/.*$/, "").replace(/^\./, "");
+  return !!domain && (host === domain || host.endsWith(`.${domain}`));
+}
+
+/**
+ * 지정한 사이트(하위 도메인 포함)의 쿠키와 localStorage만 남김
+ */
+export function filterSessionState(state: SessionState, sites: string[]): SessionState {
+  if (sites.length === 0) return state;
+  const originHost = (origin: string) => {
+    try {
+      return new URL(origin).hostname.toLowerCase();
+    } catch {
+      return "";
+    }
+  };
+  return {
+    ...state,
+    cookies: state.cookies.filter((cookie) => sites.some((site) => matchesSite(cookie.domain.replace(/^\./, "").toLowerCase(), site))),
+    origins: state.origins.filter((origin) => sites.some((site) => matchesSite(originHost(origin.origin), site))),
+  };
+}
+
+/**
+ * 이름 붙인 세션 파일 저장소 (<이름>.json)
+ */
+export class SessionStore {
+  private dir: string;
+  private keyPath: string;
+
+  constructor(options: SessionStoreOptions = {}) {
+    this.dir = options.dir || SESSIONS_DIR;
+    this.keyPath = options.keyPath || SECRET_KEY_PATH;
+  }
+
+  list(): SessionInfo[] {
+    if (!fs.existsSync(this.dir)) return [];
+    return fs
+      .readdirSync(this.dir)
+      .filter((file) => file.endsWith(".json"))
+      .flatMap((file) => {
+        try {
+          const session = JSON.parse(fs.readFileSync(path.join(this.dir, file), "utf-8")) as SessionFile;
+          return [{ name: session.name, savedAt: session.savedAt, encrypted: !!session.encrypted, sites: session.sites }];
+        } catch {
+          return [];
+        }
+      })
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  has(name: string): boolean {
+    return fs.existsSync(this.filePath(name));
+  }
+
+  save(name: string, state: SessionState, options: SessionSaveOptions = {}): SessionState {
+    const sites = options.sites ?? [];
+    const filtered = filterSessionState(state, sites);
+    const session: SessionFile = {
+      version: 1,
+      name,
+      savedAt: Date.now(),
+      ...(sites.length > 0 ? { sites } : {}),
+      ...(options.encrypt
+        ? { encrypted: encryptText(JSON.stringify(filtered), loadSecretKey(this.keyPath, true)) }
+        : { state: filtered }),
+    };
+
+    fs.mkdirSync(this.dir, { recursive: true });
+    // 암호화하지 않아도 로그인 쿠키가 들어 있으므로 본인만 읽을 수 있게
+    fs.writeFileSync(this.filePath(name), JSON.stringify(session, null, 2), { mode: 0o600 });
+    return filtered;
+  }
+
+  load(name: string): SessionState {
+    if (!this.has(name)) {
+      const stored = this.list().map((s) => s.name);
+      const hint = stored.length > 0 ? `Saved sessions: ${stored.join(", ")}` : `Save one with /session save ${name}`;
+      throw new Error(`Unknown session: ${name}. ${hint}`);
+    }
+    const session = JSON.parse(fs.readFileSync(this.filePath(name), "utf-8")) as SessionFile;
+    if (!session.encrypted) return session.state ?? { cookies: [], origins: [] };
+
+    try {
+      return JSON.parse(decryptText(session.encrypted, loadSecretKey(this.keyPath))) as SessionState;
+    } catch {
+      throw new Error(`Cannot decrypt session ${name} (wrong PI_BROWSER_SECRET_KEY or key file)`);
+    }
+  }
+
+  remove(name: string): boolean {
+    if (!this.has(name)) return false;
+    fs.rmSync(this.filePath(name));
+    return true;
+  }
+
+  private filePath(name: string): string {
+    if (!isValidSecretName(name)) {
+      throw new Error(`Invalid session name: ${name} (letters, digits, _ . - only)`);
+    }
+    return path.join(this.dir, `${name}.json`);
+  }
+}
+
+/**
+ * 이미 열린 컨텍스트(CDP로 연결한 Chrome 등)에 세션 적용
+ * localStorage는 그 origin의 페이지에서만 쓸 수 있으므로 빈 페이지로 대신 응답하는 임시 탭에서 설정
+ */
+export async function restoreSession(context: BrowserContext, state: SessionState): Promise<void> {
+  if (state.cookies.length > 0) {
+    await context.addCookies(state.cookies);
+  }
+  const origins = state.origins.filter((origin) => origin.localStorage.length > 0);
+  if (origins.length === 0) return;
+
+  const page = await context.newPage();
+  try {
+    await page.route("**/*", (route) => route.fulfill({ contentType: "text/html", body: "<!DOCTYPE html><title></title>" }));
+    for (const { origin, localStorage } of origins) {
+      await page.goto(origin);
+      await page.evaluate(
+        `for (const { name, value } of ${JSON.stringify(localStorage)}) localStorage.setItem(name, value)`
+      );
+    }
+  } finally {
+    await page.close();
+  }
+}
+
+let defaultStore: SessionStore | null = null;
+
+/**
+ * ~/.pi-browser/sessions 저장소 (CLI, 워크플로우, 병렬 브라우저가 공유)
+ */
+export function getSessionStore(): SessionStore {
+  defaultStore ??= new SessionStore();
+  return defaultStore;
+}
@@ -0,0 +1,640 @@
+/**
+ * 브라우저 도구 정의 및 실행
+ * 인자 파싱과 결과 텍스트를 한 곳에서 처리해서 모든 모드(CDP, Extension, MCP)가 같은 결과를 내도록 함
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { Type } from "@sinclair/typebox";
+import type { Tool } from "@mariozechner/pi-ai";
+import type {
+  BrowserBackend,
+  PageCaptureFormat,
+  Point,
+  PointerTarget,
+  ScreenshotMark,
+  ScrollDirection,
+  TabChanges,
+  TabInfo,
+  ToolResult,
+} from "./types.js";
+import type { UrlGuard } from "./url-policy.js";
+import { getSecretStore, hasSecretRef, type SecretStore } from "./secrets.js";
+import { getTotpCode, getTotpStore, hasTotpRef, resolveTotpRefs } from "./totp.js";
+import { getSavedFileStore, type SavedFileStore } from "../data/index.js";
+
+const DEFAULT_SNAPSHOT_LIMIT = 50;
+const MAX_SNAPSHOT_LIMIT = 200;
+const MAX_TEXT_LENGTH = 5000;
+const MAX_WAIT_MS = 60000;
+const PAGE_CAPTURE_FORMATS: PageCaptureFormat[] = ["png", "pdf", "mhtml"];
+
+// 실행 후 페이지가 바뀌었으면 도착한 URL을 다시 확인하는 도구
+const NAVIGATING_TOOLS = new Set(["browser_click", "browser_press", "browser_click_xy", "browser_drag"]);
+
+const refParam = () =>
+  Type.Optional(Type.String({ description: "Element ref from browser_snapshot (e.g. e7, or f1:e3 inside an iframe). Preferred over selector" }));
+
+const coordinateParam = (axis: "x" | "y", what: string) =>
+  Type.Number({ description: `${what} ${axis} in screenshot pixels (CSS pixels from the top-left of the viewport)` });
+
+export const browserTools: Tool[] = [
+  {
+    name: "browser_navigate",
+    description: "Navigate to a URL",
+    parameters: Type.Object({
+      url: Type.String({ description: "The URL to navigate to" }),
+    }),
+  },
+  {
+    name: "browser_click",
+    description: "Click an element by ref or selector",
+    parameters: Type.Object({
+      ref: refParam(),
+      selector: Type.Optional(Type.String({ description: "CSS selector or text selector" })),
+    }),
+  },
+  {
+    name: "browser_fill",
+    description: "Fill text into an input field",
+    parameters: Type.Object({
+      ref: refParam(),
+      selector: Type.Optional(Type.String({ description: "CSS selector for the input field" })),
+      text: Type.String({
+        description: "Text to fill. {{secret:name}} and {{totp:name}} placeholders from the mission are replaced with stored secrets and current 2FA codes - pass them as-is",
+      }),
+    }),
+  },
+  {
+    name: "browser_press",
+    description: "Press a keyboard key",
+    parameters: Type.Object({
+      key: Type.String({ description: "Key to press such as Enter, Tab, Escape" }),
+    }),
+  },
+  {
+    name: "browser_screenshot",
+    description: "Take a screenshot of the visible viewport. Image pixels are the coordinates browser_click_xy/browser_hover/browser_drag use",
+    parameters: Type.Object({
+      marks: Type.Optional(
+        Type.Boolean({ description: "Draw numbered boxes over interactive elements and list their center coordinates (set-of-marks)" })
+      ),
+    }),
+  },
+  {
+    name: "browser_save_page",
+    description: "Save the whole page as a file for archiving (receipts, reports, invoices). Unlike browser_screenshot it includes the part below the fold",
+    parameters: Type.Object({
+      format: Type.Optional(
+        Type.String({ description: "png (full-page image, default), pdf (print layout, headless Chrome only) or mhtml (single-file web archive)" })
+      ),
+      filename: Type.Optional(Type.String({ description: "File name to save as (default: <site>-<time>.<format>)" })),
+    }),
+  },
+  {
+    name: "browser_click_xy",
+    description: "Click at a point of the screenshot. For canvas UIs or elements missing from browser_snapshot",
+    parameters: Type.Object({
+      x: coordinateParam("x", "Point"),
+      y: coordinateParam("y", "Point"),
+    }),
+  },
+  {
+    name: "browser_hover",
+    description: "Move the mouse over an element (ref/selector) or a point (x, y) to open menus and tooltips",
+    parameters: Type.Object({
+      ref: refParam(),
+      selector: Type.Optional(Type.String({ description: "CSS selector or role:\"name\"" })),
+      x: Type.Optional(coordinateParam("x", "Point")),
+      y: Type.Optional(coordinateParam("y", "Point")),
+    }),
+  },
+  {
+    name: "browser_drag",
+    description: "Press the mouse on a source (ref/selector or x, y), move to a target (toRef/toSelector or toX, toY) and release",
+    parameters: Type.Object({
+      ref: refParam(),
+      selector: Type.Optional(Type.String({ description: "Source CSS selector or role:\"name\"" })),
+      x: Type.Optional(coordinateParam("x", "Source")),
+      y: Type.Optional(coordinateParam("y", "Source")),
+      toRef: Type.Optional(Type.String({ description: "Target element ref from browser_snapshot" })),
+      toSelector: Type.Optional(Type.String({ description: "Target CSS selector or role:\"name\"" })),
+      toX: Type.Optional(coordinateParam("x", "Target")),
+      toY: Type.Optional(coordinateParam("y", "Target")),
+    }),
+  },
+  {
+    name: "browser_snapshot",
+    description: "List page elements with refs (e1, e2, ...; f1:e1 for iframe content) for browser_click/browser_fill. Refs stay valid until the next snapshot or navigation",
+    parameters: Type.Object({
+      offset: Type.Optional(Type.Number({ description: "Skip this many elements (for paging, default 0)" })),
+      limit: Type.Optional(Type.Number({ description: `Max elements to list (default ${DEFAULT_SNAPSHOT_LIMIT})` })),
+    }),
+  },
+  {
+    name: "browser_scroll",
+    description: "Scroll the page up or down",
+    parameters: Type.Object({
+      direction: Type.String({ description: "Scroll direction: up or down" }),
+    }),
+  },
+  {
+    name: "browser_get_text",
+    description: "Get text content from the page",
+    parameters: Type.Object({
+      ref: refParam(),
+      selector: Type.Optional(Type.String({ description: "CSS selector or empty string for full page" })),
+    }),
+  },
+  {
+    name: "browser_wait",
+    description: "Wait for a condition: time, text to appear, text to disappear, or element",
+    parameters: Type.Object({
+      timeMs: Type.String({ description: "Wait time in milliseconds (e.g. 5000 for 5 seconds)" }),
+      text: Type.String({ description: "Wait for this text to appear on page" }),
+      textGone: Type.String({ description: "Wait for this text to disappear (e.g. Loading...)" }),
+      selector: Type.String({ description: "Wait for this element to be visible" }),
+    }),
+  },
+  {
+    name: "browser_download",
+    description: "Click a download button/link and save the file",
+    parameters: Type.Object({
+      ref: refParam(),
+      selector: Type.Optional(Type.String({ description: "Selector of download button/link to click" })),
+      filename: Type.Optional(Type.String({ description: "Filename to save as (e.g. song.mp3)" })),
+    }),
+  },
+  {
+    name: "browser_upload",
+    description: "Upload local files via file input or file chooser",
+    parameters: Type.Object({
+      ref: refParam(),
+      selector: Type.Optional(Type.String({ description: "File input selector OR upload button selector" })),
+      filePaths: Type.Array(Type.String({ description: "Absolute or relative file path" })),
+    }),
+  },
+  {
+    name: "browser_tabs_list",
+    description: "List open tabs. The active tab is the one other browser tools act on",
+    parameters: Type.Object({}),
+  },
+  {
+    name: "browser_tab_open",
+    description: "Open a new tab and make it active",
+    parameters: Type.Object({
+      url: Type.Optional(Type.String({ description: "URL to open (default: blank tab)" })),
+    }),
+  },
+  {
+    name: "browser_tab_switch",
+    description: "Make another tab active (popups and new tabs are reported after each tool call)",
+    parameters: Type.Object({
+      tabId: Type.String({ description: "Tab id from browser_tabs_list (e.g. t2)" }),
+    }),
+  },
+  {
+    name: "browser_tab_close",
+    description: "Close a tab (default: the active tab)",
+    parameters: Type.Object({
+      tabId: Type.Optional(Type.String({ description: "Tab id from browser_tabs_list" })),
+    }),
+  },
+  {
+    name: "get_totp_code",
+    description: "Get the current 2FA (TOTP) code for a stored seed. To type it, prefer browser_fill with text \"{{totp:name}}\" - the code is generated at typing time so it never expires in between",
+    parameters: Type.Object({
+      name: Type.String({ description: "Seed name (e.g. github)" }),
+    }),
+  },
+  {
+    name: "get_current_time",
+    description: "Get the current date and time",
+    parameters: Type.Object({}),
+  },
+];
+
+/**
+ * ref 또는 selector 인자를 백엔드 셀렉터로 변환 (ref는 ref=e7, ref=f1:e3 형식)
+ * "e7", "[e7]", "ref=e7", "f1:e3" 모두 허용
+ */
+export function resolveTarget(args: Record<string, unknown>, required: true): string;
+export function resolveTarget(args: Record<string, unknown>, required: false): string | undefined;
+export function resolveTarget(args: Record<string, unknown>, required: boolean): string | undefined {
+  if (args.ref) {
+    const ref = String(args.ref).trim().replace(/^\[|\]$/g, "").replace(/^ref=/, "");
+    if (!/^(f\d+:)?e\d+$/.test(ref)) {
+      throw new Error(`Invalid ref: ${args.ref} (expected e.g. e7 or f1:e3)`);
+    }
+    return `ref=${ref}`;
+  }
+  const selector = args.selector ? String(args.selector) : undefined;
+  if (!selector && required) {
+    throw new Error("ref or selector is required");
+  }
+  return selector;
+}
+
+/**
+ * 좌표(x, y) 또는 ref/selector를 포인터 대상으로 변환
+ * prefix "to"는 browser_drag의 놓을 위치 (toX, toY, toRef, toSelector)
+ */
+export function resolvePointerTarget(args: Record<string, unknown>, prefix: "" | "to" = ""): PointerTarget {
+  const key = (name: string) => (prefix ? `${prefix}${name[0].toUpperCase()}${name.slice(1)}` : name);
+  const [x, y] = [args[key("x")], args[key("y")]];
+  if (x !== undefined && x !== null && x !== "" && y !== undefined && y !== null && y !== "") {
+    return resolvePoint(x, y);
+  }
+  try {
+    return resolveTarget({ ref: args[key("ref")], selector: args[key("selector")] }, true);
+  } catch (error) {
+    if (!prefix) throw error;
+    throw new Error((error as Error).message.replace("ref or selector", "toRef, toSelector or toX/toY"));
+  }
+}
+
+function resolvePoint(rawX: unknown, rawY: unknown): Point {
+  const [x, y] = [Number(rawX), Number(rawY)];
+  if (!Number.isFinite(x) || !Number.isFinite(y) || x < 0 || y < 0) {
+    throw new Error(`Invalid coordinates: (${rawX}, ${rawY})`);
+  }
+  return { x, y };
+}
+
+function formatPointerTarget(target: PointerTarget): string {
+  return typeof target === "string" ? target : `(${Math.round(target.x)}, ${Math.round(target.y)})`;
+}
+
+function formatMarks(marks: ScreenshotMark[]): string {
+  if (marks.length === 0) {
+    return "Screenshot captured. No interactive elements found in the viewport - use browser_click_xy on what you see";
+  }
+  const lines = marks.map((m) => `[${m.label}] ${m.role}${m.name ? ` "${m.name}"` : ""} at (${m.x}, ${m.y})`);
+  return `Screenshot captured with ${marks.length} numbered marks (act on one with browser_click_xy at its coordinates):\n${lines.join("\n")}`;
+}
+
+/**
+ * 업로드 파일 경로 정규화 (배열 또는 쉼표 구분 문자열 허용)
+ */
+function resolveUploadPaths(raw: unknown): string[] {
+  const filePaths: string[] = Array.isArray(raw)
+    ? (raw as unknown[]).map(String)
+    : typeof raw === "string"
+      ? raw.split(",").map((s) => s.trim()).filter(Boolean)
+      : [];
+
+  return filePaths.map((p) => (path.isAbsolute(p) ? p : path.resolve(process.cwd(), p)));
+}
+
+/**
+ * browser_save_page 파일 이름 (확장자가 없거나 다르면 붙임)
+ */
+function pageCaptureFilename(requested: string | undefined, url: string, format: PageCaptureFormat): string {
+  let name = requested?.trim();
+  if (!name) {
+    let host = "page";
+    try {
+      host = new URL(url).hostname || host;
+    } catch {
+      // about:blank 등
+    }
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-").slice(0, 19);
+    name = `${host}-${stamp}`;
+  }
+  return path.extname(name).toLowerCase() === `.${format}` ? name : `${name}.${format}`;
+}
+
+function formatTab(tab: TabInfo): string {
+  return `[${tab.id}] ${tab.title || "(untitled)"} — ${tab.url}`;
+}
+
+/**
+ * 도구 실행 중 생긴 탭 변화 알림 (팝업, target=_blank, 스스로 닫힌 창)
+ */
+function formatTabChanges(changes: TabChanges): string {
+  const lines = [
+    ...changes.opened.map((tab) => `[TABS] New tab opened: ${formatTab(tab)} (use browser_tab_switch to work in it)`),
+    ...changes.closed.map((id) => `[TABS] Tab closed: ${id}`),
+  ];
+  return lines.join("\n");
+}
+
+function formatCurrentTime(): string {
+  const now = new Date();
+  const dateStr = now.toLocaleDateString("ko-KR", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    weekday: "long",
+  });
+  const timeStr = now.toLocaleTimeString("ko-KR", {
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+  return `현재 날짜: ${dateStr}\n현재 시간: ${timeStr}`;
+}
+
+/**
+ * 이동 전 검사 (이동할 URL, 전환할 탭의 URL)
+ */
+async function checkTargetUrl(
+  backend: BrowserBackend,
+  guard: UrlGuard,
+  name: string,
+  args: Record<string, unknown>
+): Promise<void> {
+  if (name === "browser_navigate") {
+    guard.assertAllowed(name, String(args.url ?? ""));
+  } else if (name === "browser_tab_open" && args.url) {
+    guard.assertAllowed(name, String(args.url));
+  } else if (name === "browser_tab_switch" && args.tabId) {
+    const tab = (await backend.listTabs()).find((t) => t.id === String(args.tabId));
+    if (tab) guard.assertAllowed(name, tab.url);
+  }
+}
+
+/**
+ * 이동 후 검사: 리다이렉트나 클릭으로 도착한 URL이 허용되지 않으면 about:blank로 벗어나고 오류
+ */
+async function checkLandedUrl(
+  backend: BrowserBackend,
+  guard: UrlGuard,
+  name: string,
+  previousUrl?: string
+): Promise<void> {
+  const info = await backend.pageInfo().catch(() => null);
+  if (!info || info.url === previousUrl) return;
+  try {
+    guard.assertAllowed(name, info.url);
+  } catch (error) {
+    await backend.navigate("about:blank").catch(() => {});
+    throw error;
+  }
+}
+
+export interface ToolExecutionOptions {
+  // 지정하면 이동할 URL과 리다이렉트/클릭으로 도착한 URL을 검사해서 막힌 곳이면 오류
+  urlGuard?: UrlGuard;
+  // browser_fill의 {{secret:이름}} 치환과 결과 가리기 (기본값: ~/.pi-browser 저장소)
+  secrets?: SecretStore;
+  // get_totp_code와 {{totp:이름}}의 시드 (기본값: ~/.pi-browser/totp.enc)
+  totp?: SecretStore;
+  // browser_save_page가 파일을 쓰고 기록할 곳 (기본값: ~/.pi-browser/data/files)
+  files?: SavedFileStore;
+}
+
+/**
+ * 브라우저 도구 실행 (백엔드와 무관하게 같은 인자/결과 형식)
+ * 새로 열리거나 닫힌 탭이 있으면 결과 끝에 [TABS] 알림을 붙임
+ */
+export async function executeBrowserTool(
+  backend: BrowserBackend,
+  name: string,
+  args: Record<string, unknown>,
+  options: ToolExecutionOptions = {}
+): Promise<ToolResult> {
+  const { urlGuard, secrets = getSecretStore(), totp = getTotpStore(), files = getSavedFileStore() } = options;
+  let previousUrl: string | undefined;
+  if (urlGuard) {
+    await checkTargetUrl(backend, urlGuard, name, args);
+    if (NAVIGATING_TOOLS.has(name)) {
+      previousUrl = (await backend.pageInfo().catch(() => null))?.url;
+    }
+  }
+
+  let result: ToolResult;
+  try {
+    result = await runBrowserTool(backend, name, args, secrets, totp, files);
+  } catch (error) {
+    throw new Error(secrets.redact((error as Error).message));
+  }
+  result = { ...result, text: secrets.redact(result.text) };
+  if (!name.startsWith("browser_")) return result;
+
+  if (urlGuard && (name === "browser_navigate" || name === "browser_tab_open" || NAVIGATING_TOOLS.has(name))) {
+    await checkLandedUrl(backend, urlGuard, name, previousUrl);
+  }
+
+  const notice = formatTabChanges(await backend.takeTabChanges());
+  return notice ? { ...result, text: `${result.text}\n\n${notice}` } : result;
+}
+
+async function runBrowserTool(
+  backend: BrowserBackend,
+  name: string,
+  args: Record<string, unknown>,
+  secrets: SecretStore,
+  totp: SecretStore,
+  files: SavedFileStore
+): Promise<ToolResult> {
+  switch (name) {
+    case "browser_navigate": {
+      const info = await backend.navigate(args.url as string);
+      return { text: `Navigated to ${info.url}. Title: ${info.title}` };
+    }
+
+    case "browser_click": {
+      const selector = resolveTarget(args, true);
+      await backend.click(selector);
+      return { text: `Clicked: ${selector}` };
+    }
+
+    case "browser_fill": {
+      const selector = resolveTarget(args, true);
+      const text = args.text as string;
+      // 결과에는 치환 전 텍스트를 보여줘서 값이 AI에게 돌아가지 않게 함
+      let value = hasTotpRef(text) ? resolveTotpRefs(text, totp) : text;
+      value = hasSecretRef(value) ? secrets.resolve(value) : value;
+      await backend.fill(selector, value);
+      return { text: `Filled "${text}" into ${selector}` };
+    }
+
+    case "browser_press": {
+      await backend.press(args.key as string);
+      return { text: `Pressed: ${args.key}` };
+    }
+
+    case "browser_screenshot": {
+      const { marks, ...image } = await backend.screenshot({ marks: args.marks === true || args.marks === "true" });
+      return { text: marks ? formatMarks(marks) : "Screenshot captured", image };
+    }
+
+    case "browser_save_page": {
+      const format = String(args.format || "png").toLowerCase() as PageCaptureFormat;
+      if (!PAGE_CAPTURE_FORMATS.includes(format)) {
+        throw new Error(`Unknown format: ${args.format} (use ${PAGE_CAPTURE_FORMATS.join(", ")})`);
+      }
+      const info = await backend.pageInfo();
+      const capture = await backend.capturePage(format);
+      const filename = pageCaptureFilename(args.filename as string | undefined, info.url, format);
+      const saved = files.save(filename, Buffer.from(capture.data, "base64"), {
+        format,
+        mimeType: capture.mimeType,
+        url: info.url,
+        title: info.title,
+      });
+      const note = saved.registerError ? ` - not recorded in the database: ${saved.registerError}` : "";
+      return { text: `Saved ${format.toUpperCase()}: ${saved.path} (${(saved.size / 1024).toFixed(1)}KB)${note}` };
+    }
+
+    case "browser_click_xy": {
+      const point = resolvePoint(args.x, args.y);
+      await backend.clickAt(point);
+      return { text: `Clicked at ${formatPointerTarget(point)}` };
+    }
+
+    case "browser_hover": {
+      const target = resolvePointerTarget(args);
+      await backend.hover(target);
+      return { text: `Hovered over ${formatPointerTarget(target)}` };
+    }
+
+    case "browser_drag": {
+      const from = resolvePointerTarget(args);
+      const to = resolvePointerTarget(args, "to");
+      await backend.drag(from, to);
+      return { text: `Dragged from ${formatPointerTarget(from)} to ${formatPointerTarget(to)}` };
+    }
+
+    case "browser_snapshot": {
+      const elements = await backend.snapshot();
+      const offset = Math.max(0, Math.floor(Number(args.offset) || 0));
+      const limit = Math.min(MAX_SNAPSHOT_LIMIT, Math.max(1, Math.floor(Number(args.limit) || DEFAULT_SNAPSHOT_LIMIT)));
+      const page = elements.slice(offset, offset + limit);
+
+      // 캔버스로 그린 UI나 접근성 트리가 비어 있는 페이지
+      if (elements.length === 0) {
+        return {
+          text: "No accessible elements found - the page may be drawn on a canvas. Use browser_screenshot with marks: true and act by coordinates (browser_click_xy, browser_hover, browser_drag)",
+        };
+      }
+      if (page.length === 0) {
+        return { text: `No elements at offset ${offset} (total ${elements.length})` };
+      }
+
+      // iframe 요소 앞에는 프레임 URL 표시
+      const frameOf = (ref: string) => (ref.includes(":") ? ref.split(":")[0] : "");
+      const lines: string[] = [];
+      page.forEach((el, i) => {
+        const frame = frameOf(el.ref);
+        if (frame && (i === 0 || frameOf(page[i - 1].ref) !== frame)) {
+          lines.push(`-- iframe ${frame}: ${el.frame ?? ""}`);
+        }
+        lines.push(`[${el.ref}] ${el.role}${el.name ? ` "${el.name}"` : ""}`);
+      });
+      const end = offset + page.length;
+      const header = `Page elements ${offset + 1}-${end} of ${elements.length} (use ref, e.g. ref: "${page[0].ref}"):`;
+      const footer = end < elements.length ? `\n... more elements: call browser_snapshot with offset=${end}` : "";
+      return { text: `${header}\n${lines.join("\n")}${footer}` };
+    }
+
+    case "browser_scroll": {
+      const direction = ((args.direction as string) || "down") as ScrollDirection;
+      await backend.scroll(direction);
+      return { text: `Scrolled ${direction}` };
+    }
+
+    case "browser_get_text": {
+      const selector = resolveTarget(args, false);
+      const text = await backend.getText(selector);
+      return { text: text.slice(0, MAX_TEXT_LENGTH) };
+    }
+
+    case "browser_wait": {
+      const timeMs = args.timeMs !== undefined ? parseInt(String(args.timeMs)) : 0;
+      const text = args.text as string | undefined;
+      const textGone = args.textGone as string | undefined;
+      const selector = args.selector as string | undefined;
+      const results: string[] = [];
+
+      // 시간 대기
+      if (timeMs > 0) {
+        const ms = Math.min(timeMs, MAX_WAIT_MS);
+        await new Promise((r) => setTimeout(r, ms));
+        results.push(`Waited ${ms}ms`);
+      }
+
+      // 텍스트 나타날 때까지 대기
+      if (text) {
+        await backend.waitFor({ type: "text", text }, 30000);
+        results.push(`Text "${text}" appeared`);
+      }
+
+      // 텍스트 사라질 때까지 대기
+      if (textGone) {
+        await backend.waitFor({ type: "textGone", text: textGone }, 60000);
+        results.push(`Text "${textGone}" disappeared`);
+      }
+
+      // 요소 나타날 때까지 대기
+      if (selector) {
+        await backend.waitFor({ type: "selector", selector }, 30000);
+        results.push(`Element "${selector}" visible`);
+      }
+
+      return { text: results.length > 0 ? results.join(", ") : "Wait completed" };
+    }
+
+    case "browser_download": {
+      const selector = resolveTarget(args, true);
+      const filename = (args.filename as string | undefined) || undefined;
+      const result = await backend.download(selector, filename);
+      return { text: `Downloaded: ${result.path} (${result.suggestedFilename})` };
+    }
+
+    case "browser_upload": {
+      const selector = resolveTarget(args, false);
+      const resolved = resolveUploadPaths(args.filePaths ?? []);
+
+      if (!selector || resolved.length === 0) {
+        throw new Error("browser_upload requires ref or selector and filePaths[]");
+      }
+
+      const missing = resolved.filter((p) => !fs.existsSync(p));
+      if (missing.length > 0) {
+        throw new Error(`File not found: ${missing.join(", ")}`);
+      }
+
+      const method = await backend.upload(selector, resolved);
+      return { text: `Uploaded ${resolved.length} file(s) via ${method}: ${selector}` };
+    }
+
+    case "browser_tabs_list": {
+      const tabs = await backend.listTabs();
+      const lines = tabs.map((tab) => `${formatTab(tab)}${tab.active ? " (active)" : ""}`);
+      return { text: `Open tabs (${tabs.length}):\n${lines.join("\n")}` };
+    }
+
+    case "browser_tab_open": {
+      const tab = await backend.openTab((args.url as string | undefined) || undefined);
+      return { text: `Opened tab ${formatTab(tab)}` };
+    }
+
+    case "browser_tab_switch": {
+      if (!args.tabId) throw new Error("tabId is required");
+      const tab = await backend.switchTab(String(args.tabId));
+      return { text: `Switched to tab ${formatTab(tab)}` };
+    }
+
+    case "browser_tab_close": {
+      const tabId = args.tabId ? String(args.tabId) : undefined;
+      await backend.closeTab(tabId);
+      const active = (await backend.listTabs()).find((tab) => tab.active);
+      const closed = tabId ? `tab ${tabId}` : "active tab";
+      return { text: active ? `Closed ${closed}. Active tab: ${formatTab(active)}` : `Closed ${closed}` };
+    }
+
+    case "get_totp_code": {
+      const totpName = String(args.name ?? "").trim();
+      const { code, remainingSeconds } = getTotpCode(totp, totpName);
+      return { text: `TOTP code for ${totpName}: ${code} (valid for ${remainingSeconds}s)` };
+    }
+
+    case "get_current_time":
+      return { text: formatCurrentTime() };
+
+    default:
+      return { text: `Unknown tool: ${name}` };
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * TOTP (RFC 6238) 2단계 인증 코드
+ * 사이트별 시드를 ~/.pi-browser/totp.enc에 비밀 값과 같은 방식(AES-256-GCM, 같은 키)으로 저장하고
+ * get_totp_code 도구와 browser_fill의 {{totp:이름}}에서 현재 코드를 생성
+ */
+
+import * as crypto from "crypto";
+import * as os from "os";
+import * as path from "path";
+import { SecretStore } from "./secrets.js";
+
+export const TOTP_SEEDS_PATH = path.join(os.homedir(), ".pi-browser", "totp.enc");
+
+const TOTP_REF = /\{\{totp:([A-Za-z0-9_.-]+)\}\}/g;
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export type TotpAlgorithm = "sha1" | "sha256" | "sha512";
+
+export interface TotpParams {
+  key: Buffer;
+  digits: number; // 기본값: 6
+  period: number; // 초, 기본값: 30
+  algorithm: TotpAlgorithm; // 기본값: sha1
+}
+
+export interface TotpCode {
+  code: string;
+  remainingSeconds: number; // 이 코드가 바뀌기까지 남은 시간
+}
+
+/**
+ * Base32 (RFC 4648) 디코딩, 공백/하이픈/패딩과 대소문자는 무시
+ */
+export function decodeBase32(input: string): Buffer {
+  const clean = input.replace(/[\s-]/g, "").replace(/=+$/, "").toUpperCase();
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error(`Invalid base32 character in TOTP seed: ${char}`);
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * Base32 시드 또는 QR 코드의 otpauth://totp/... URI 해석
+ */
+export function parseTotpSeed(seed: string): TotpParams {
+  const trimmed = seed.trim();
+  let secret = trimmed;
+  let digits = 6;
+  let period = 30;
+  let algorithm: TotpAlgorithm = "sha1";
+
+  if (/^otpauth:/i.test(trimmed)) {
+    const url = new URL(trimmed);
+    if (url.host.toLowerCase() !== "totp") {
+      throw new Error(`Only otpauth://totp URIs are supported (got ${url.host})`);
+    }
+    secret = url.searchParams.get("secret") ?? "";
+    digits = Number(url.searchParams.get("digits") ?? digits);
+    period = Number(url.searchParams.get("period") ?? period);
+    const requested = (url.searchParams.get("algorithm") ?? algorithm).toLowerCase();
+    if (requested !== "sha1" && requested !== "sha256" && requested !== "sha512") {
+      throw new Error(`Unsupported TOTP algorithm: ${requested}`);
+    }
+    algorithm = requested;
+  }
+
+  const key = decodeBase32(secret);
+  if (key.length === 0) throw new Error("TOTP seed is empty");
+  if (!Number.isInteger(digits) || digits < 6 || digits > 8) throw new Error(`Invalid TOTP digits: ${digits}`);
+  if (!Number.isInteger(period) || period <= 0) throw new Error(`Invalid TOTP period: ${period}`);
+  return { key, digits, period, algorithm };
+}
+
+/**
+ * 시각(ms)의 TOTP 코드 (HOTP에 30초 단위 카운터를 넣은 값)
+ */
+export function generateTotp(seed: string | TotpParams, time: number = Date.now()): TotpCode {
+  const { key, digits, period, algorithm } = typeof seed === "string" ? parseTotpSeed(seed) : seed;
+  const seconds = Math.floor(time / 1000);
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(Math.floor(seconds / period)));
+
+  const hmac = crypto.createHmac(algorithm, key).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  const code = String(binary % 10 ** digits).padStart(digits, "0");
+
+  return { code, remainingSeconds: period - (seconds % period) };
+}
+
+export function hasTotpRef(text: string): boolean {
+  return new RegExp(TOTP_REF.source).test(text);
+}
+
+/**
+ * 저장된 시드로 코드 생성 (없는 이름이면 오류)
+ */
+export function getTotpCode(store: SecretStore, name: string, time?: number): TotpCode {
+  const seed = store.get(name);
+  if (seed === undefined) {
+    const stored = store.list();
+    const hint = stored.length > 0 ? `Stored seeds: ${stored.join(", ")}` : `Add it with /totp add ${name} or in the web UI settings`;
+    throw new Error(`Unknown TOTP seed: ${name}. ${hint}`);
+  }
+  return generateTotp(seed, time);
+}
+
+/**
+ * {{totp:이름}}을 지금 시각의 코드로 치환
+ */
+export function resolveTotpRefs(text: string, store: SecretStore): string {
+  return text.replace(TOTP_REF, (_, name: string) => getTotpCode(store, name).code);
+}
+
+let defaultStore: SecretStore | null = null;
+
+/**
+ * ~/.pi-browser/totp.enc 저장소 (키는 비밀 값 저장소와 같음)
+ */
+export function getTotpStore(): SecretStore {
+  defaultStore ??= new SecretStore({ filePath: TOTP_SEEDS_PATH });
+  return defaultStore;
+}
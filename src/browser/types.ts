@@ -0,0 +1,133 @@
+/**
+ * Browser backend type definitions for pi-browser
+ */
+
+export type BrowserMode = "cdp" | "extension";
+
+export interface ToolResult {
+  text: string;
+  image?: { data: string; mimeType: string };
+}
+
+export interface PageInfo {
+  url: string;
+  title: string;
+}
+
+// 스냅샷 요소 (ref는 다음 스냅샷이나 페이지 이동 전까지 같은 요소를 가리킴)
+export interface SnapshotElement {
+  ref: string; // e1, e2, ... (문서 순서), iframe 안은 f1:e1, f1:e2, ...
+  role: string;
+  name: string;
+  frame?: string; // iframe 안의 요소면 프레임 URL
+}
+
+export type ScrollDirection = "up" | "down" | "left" | "right";
+
+// 뷰포트 기준 CSS 픽셀 좌표 (스크린샷의 픽셀 좌표와 같음)
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// 셀렉터(ref=e7 포함) 또는 좌표
+export type PointerTarget = string | Point;
+
+export interface ScreenshotOptions {
+  // 보이는 상호작용 요소에 번호 상자를 그려서 찍음 (set-of-marks)
+  marks?: boolean;
+}
+
+// set-of-marks 스크린샷의 번호 상자 (x, y는 요소 중심)
+export interface ScreenshotMark extends Point {
+  label: number;
+  role: string;
+  name: string;
+}
+
+export interface Screenshot {
+  data: string; // base64
+  mimeType: string;
+  marks?: ScreenshotMark[]; // marks 옵션을 줬을 때만
+}
+
+// browser_save_page 형식
+export type PageCaptureFormat = "png" | "pdf" | "mhtml";
+
+export interface PageCapture {
+  data: string; // base64
+  mimeType: string;
+}
+
+export type WaitCondition =
+  | { type: "text"; text: string } // 텍스트가 나타날 때까지
+  | { type: "textGone"; text: string } // 텍스트가 사라질 때까지
+  | { type: "selector"; selector: string }; // 요소가 보일 때까지
+
+export interface DownloadResult {
+  path: string; // 저장된 파일의 절대 경로
+  suggestedFilename: string;
+}
+
+export interface TabInfo {
+  id: string; // CDP 모드: t1, t2, ... / Extension 모드: Chrome 탭 ID
+  url: string;
+  title: string;
+  active: boolean; // 도구가 조작하는 탭인지
+}
+
+// 마지막 확인 이후 생긴 탭 변화 (팝업, target=_blank 링크, 스스로 닫힌 창)
+export interface TabChanges {
+  opened: TabInfo[];
+  closed: string[];
+}
+
+// input[type=file]에 직접 설정했는지, 파일 선택창을 가로챘는지
+export type UploadMethod = "input" | "chooser";
+
+/**
+ * 도구 실행에 필요한 브라우저 조작 (CDP/Playwright, Chrome Extension 공통)
+ * 셀렉터는 CSS 셀렉터, role:"name", role:"name"[n](이름이 정확히 같은 n번째, 0부터), role,
+ * ref=e7 / ref=f1:e3(마지막 스냅샷의 ref) 형식을 모두 지원해야 함
+ */
+export interface BrowserBackend {
+  readonly mode: BrowserMode;
+
+  navigate(url: string): Promise<PageInfo>;
+  pageInfo(): Promise<PageInfo>;
+  click(selector: string): Promise<void>;
+  fill(selector: string, text: string): Promise<void>;
+  press(key: string): Promise<void>;
+  // 실제 마우스 입력 (캔버스, 접근성 트리가 없는 UI용), 셀렉터 대상은 요소 중심으로 스크롤 후 이동
+  clickAt(point: Point): Promise<void>;
+  hover(target: PointerTarget): Promise<void>;
+  drag(from: PointerTarget, to: PointerTarget): Promise<void>;
+  // 이미지 크기는 뷰포트의 CSS 픽셀 크기 (좌표 도구와 같은 기준)
+  screenshot(options?: ScreenshotOptions): Promise<Screenshot>;
+  // 보관용 캡처: png는 스크롤 영역까지 포함한 전체 페이지, pdf는 인쇄 레이아웃(headless Chrome만), mhtml은 리소스를 포함한 한 파일
+  capturePage(format: PageCaptureFormat): Promise<PageCapture>;
+  // 페이지의 ref 목록을 새로 만듦 (이전 ref는 무효)
+  snapshot(): Promise<SnapshotElement[]>;
+  scroll(direction: ScrollDirection): Promise<void>;
+  // selector가 없으면 페이지 전체 텍스트
+  getText(selector?: string): Promise<string>;
+  waitFor(condition: WaitCondition, timeoutMs: number): Promise<void>;
+  download(selector: string, filename?: string): Promise<DownloadResult>;
+  // filePaths는 이미 존재가 확인된 절대 경로
+  upload(selector: string, filePaths: string[]): Promise<UploadMethod>;
+  // ref를 다음 실행에서도 같은 요소를 가리키는 role:"name"[n]으로 변환 (변환할 수 없으면 그대로)
+  stableSelector(selector: string): Promise<string>;
+  // 대상 요소의 role과 이름 (승인 정책이 클릭 대상을 확인할 때 사용, 요소가 없으면 null)
+  describe(selector: string): Promise<Pick<SnapshotElement, "role" | "name"> | null>;
+  // 좌표에 있는 요소(클릭할 수 있는 가장 가까운 조상)의 role과 이름 (좌표 클릭, 드래그 승인 확인용)
+  describeAt(point: Point): Promise<Pick<SnapshotElement, "role" | "name"> | null>;
+
+  listTabs(): Promise<TabInfo[]>;
+  // 새 탭을 열고 활성 탭으로 전환
+  openTab(url?: string): Promise<TabInfo>;
+  switchTab(id: string): Promise<TabInfo>;
+  // id가 없으면 활성 탭을 닫음
+  closeTab(id?: string): Promise<void>;
+  // 도구가 직접 열지 않은 탭 변화를 가져오고 비움
+  takeTabChanges(): Promise<TabChanges>;
+}
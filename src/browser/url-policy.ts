@@ -0,0 +1,196 @@
+/**
+ * URL sandbox
+ * 에이전트가 이동할 수 있는 URL을 채널(CLI, 웹 UI, 텔레그램, 워크플로우)별 허용/차단 목록으로 제한
+ * 기본으로 http(s)와 about:blank만 허용하고 localhost, 사설 IP 같은 내부 주소는 차단
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+export const URL_BLOCK_LOG_PATH = path.join(os.homedir(), ".pi-browser", "url-blocks.jsonl");
+
+export interface UrlPolicy {
+  // 있으면 이 도메인(하위 도메인 포함)만 허용, "*.example.com"처럼 * 사용 가능
+  allow?: string[];
+  // 항상 차단 (allow보다 우선)
+  deny?: string[];
+  // localhost, 사설 IP, .local 같은 내부 주소 허용 (기본값: false)
+  allowPrivateNetwork?: boolean;
+  // file:// 허용 (기본값: false)
+  allowFileUrls?: boolean;
+}
+
+export type UrlPolicyChannel = "cli" | "web" | "telegram" | "workflow" | "mcp";
+
+// settings.urlPolicy: default는 모든 채널에 적용되고 채널별 정책이 그 위에 더해짐
+export type UrlPolicySettings = { default?: UrlPolicy } & Partial<Record<UrlPolicyChannel, UrlPolicy>>;
+
+// url-blocks.jsonl 한 줄
+export interface UrlBlockLogEntry {
+  timestamp: number;
+  channel: string;
+  tool: string;
+  url: string;
+  reason: string;
+}
+
+// 여러 정책을 합친 결과 (allow 목록은 정책마다 따로 모두 통과해야 함)
+interface UrlRules {
+  allowLists: string[][];
+  deny: string[];
+  allowPrivateNetwork: boolean;
+  allowFileUrls: boolean;
+}
+
+/**
+ * 정책을 순서대로 합침 (차단 목록은 누적, 허용 목록은 모두 만족해야 함, 스위치는 나중 정책이 우선)
+ */
+function mergePolicies(policies: (UrlPolicy | undefined)[]): UrlRules {
+  const rules: UrlRules = { allowLists: [], deny: [], allowPrivateNetwork: false, allowFileUrls: false };
+  for (const policy of policies) {
+    if (!policy) continue;
+    if (policy.allow?.length) rules.allowLists.push(policy.allow);
+    rules.deny.push(...(policy.deny ?? []));
+    rules.allowPrivateNetwork = policy.allowPrivateNetwork ?? rules.allowPrivateNetwork;
+    rules.allowFileUrls = policy.allowFileUrls ?? rules.allowFileUrls;
+  }
+  return rules;
+}
+
+/**
+ * "naver.com"은 naver.com과 하위 도메인, "*.naver.com"은 하위 도메인만
+ */
+function matchesHost(host: string, pattern: string): boolean {
+  const normalized = pattern.trim().toLowerCase().replace(/^https?:\/\//, "").replace(/\/.*$/, "");
+  if (!normalized) return false;
+  if (normalized.includes("*")) {
+    const escaped = normalized.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"));
+    return new RegExp(`^${escaped.join(".*")}$`).test(host);
+  }
+  return host === normalized || host.endsWith(`.${normalized}`);
+}
+
+function isPrivateIPv4(host: string): boolean {
+  const match = host.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (!match) return false;
+  const [a, b] = [Number(match[1]), Number(match[2])];
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168)
+  );
+}
+
+/**
+ * localhost, 사설/링크 로컬 IP, 내부용 도메인 (DNS 조회는 하지 않음)
+ */
+export function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, "").replace(/\.$/, "");
+  if (host === "localhost" || /\.(localhost|local|internal|lan|home\.arpa)$/.test(host)) return true;
+  if (isPrivateIPv4(host)) return true;
+
+  if (host.includes(":")) {
+    const mapped = host.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (mapped) return isPrivateIPv4(mapped[1]);
+    return host === "::" || host === "::1" || /^f[cd]/.test(host) || /^fe[89ab]/.test(host);
+  }
+  return false;
+}
+
+/**
+ * 스킴이 없으면 https://로 해석 (naver.com → https://naver.com)
+ */
+function parseUrl(raw: string): URL | null {
+  try {
+    return new URL(raw);
+  } catch {}
+  try {
+    return new URL(`https://${raw}`);
+  } catch {
+    return null;
+  }
+}
+
+export interface UrlGuardOptions {
+  channel: string; // 차단 기록에 남는 실행 경로
+  policies: (UrlPolicy | undefined)[]; // 앞에서부터 합침 (예: default, 채널, 워크플로우)
+  logPath?: string;
+}
+
+/**
+ * 실행 하나의 URL 검사기 (executeBrowserTool이 이동 전후로 확인)
+ */
+export class UrlGuard {
+  private rules: UrlRules;
+  private channel: string;
+  private logPath: string;
+
+  constructor(options: UrlGuardOptions) {
+    this.rules = mergePolicies(options.policies);
+    this.channel = options.channel;
+    this.logPath = options.logPath || URL_BLOCK_LOG_PATH;
+  }
+
+  /**
+   * 차단 이유 (허용이면 null)
+   */
+  check(rawUrl: string): string | null {
+    const url = parseUrl(rawUrl.trim());
+    if (!url) return "invalid URL";
+
+    if (url.protocol === "about:") {
+      return url.href === "about:blank" ? null : `${url.protocol} URLs are not allowed`;
+    }
+    if (url.protocol === "file:") {
+      return this.rules.allowFileUrls ? null : "file:// URLs are not allowed";
+    }
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      return `${url.protocol} URLs are not allowed`;
+    }
+
+    const host = url.hostname.toLowerCase();
+    if (!this.rules.allowPrivateNetwork && isPrivateHost(host)) {
+      return "internal network addresses are not allowed";
+    }
+    const denied = this.rules.deny.find((pattern) => matchesHost(host, pattern));
+    if (denied) {
+      return `${host} is on the denylist (${denied})`;
+    }
+    if (this.rules.allowLists.some((list) => !list.some((pattern) => matchesHost(host, pattern)))) {
+      return `${host} is not on the allowlist`;
+    }
+    return null;
+  }
+
+  /**
+   * 허용되지 않으면 기록을 남기고 도구 오류로 던짐
+   */
+  assertAllowed(tool: string, url: string): void {
+    const reason = this.check(url);
+    if (!reason) return;
+
+    const entry: UrlBlockLogEntry = { timestamp: Date.now(), channel: this.channel, tool, url, reason };
+    try {
+      fs.mkdirSync(path.dirname(this.logPath), { recursive: true });
+      fs.appendFileSync(this.logPath, JSON.stringify(entry) + "\n");
+    } catch {}
+
+    throw new Error(`Blocked navigation to ${url}: ${reason}. Do not retry this URL - it is outside the allowed sites for this run.`);
+  }
+}
+
+/**
+ * 설정의 default + 채널 정책 (+ 워크플로우 정책)으로 검사기 생성
+ */
+export function createUrlGuard(
+  settings: UrlPolicySettings | undefined,
+  channel: UrlPolicyChannel,
+  extra?: UrlPolicy
+): UrlGuard {
+  return new UrlGuard({ channel, policies: [settings?.default, settings?.[channel], extra] });
+}
@@ -12,11 +12,18 @@ import readline from "node:readline";
 import { chromium, type Browser, type Page, type BrowserContext } from "playwright-core";
 import { spawn, type ChildProcess } from "node:child_process";
 import fs from "node:fs";
+import net from "node:net";
 import os from "node:os";
 import path from "node:path";
-import { WebSocketServer, WebSocket } from "ws";
 import { startTelegramBot, stopTelegramBot, type MessageContext } from "./telegram.js";
-import { startWebClient, stoppedTasks, loadSettings, broadcastToClients, saveResultToNotion } from "./web-client.js";
+import {
+  startWebClient,
+  stoppedTasks,
+  loadSettings,
+  broadcastToClients,
+  saveResultToNotion,
+  requestWebApproval,
+} from "./web-client.js";
 import {
   buildNaverBlogWriteMission,
   loadNaverBlogPostOptionsFromJson,
@@ -25,22 +32,80 @@ import {
   loadWorkflows,
   loadWorkflow,
   saveWorkflow,
+  saveWorkflowRecording,
   WorkflowExecutor,
   startScheduler,
+  resolveWorkflowInputs,
+  parseWorkflowInputArgs,
+  formatWorkflowInputs,
+  workflowLogLabel,
   type Workflow,
+  type WorkflowExecutionResult,
+  type WorkflowInputValues,
   type WorkflowLog,
+  type ParallelBrowserPool,
 } from "./workflow/index.js";
 
-import { Type } from "@sinclair/typebox";
+import {
+  AgentRunner,
+  createStepAgent,
+  createOllamaModel,
+  resolveAiModel,
+  UsageTracker,
+  formatUsage,
+  readUsageLog,
+  summarizeUsageLog,
+  startOfDay,
+  startOfMonth,
+  getTraceStore,
+  agentTraceOutcome,
+  type TraceOutcome,
+  type TraceRecorder,
+  type TraceSource,
+  type UsageSummary,
+  type AgentEvent,
+} from "./agent/index.js";
+
+import {
+  browserTools,
+  PlaywrightBackend,
+  ExtensionBridge,
+  ExtensionBackend,
+  ActionRecorder,
+  replayActions,
+  replayScript,
+  loadReplayScript,
+  saveReplayScript,
+  PolicyEngine,
+  resolvePolicyRules,
+  createUrlGuard,
+  getSecretStore,
+  isValidSecretName,
+  getTotpStore,
+  getTotpCode,
+  parseTotpSeed,
+  NetworkRecorder,
+  harPathFor,
+  RouteController,
+  getSessionStore,
+  restoreSession,
+  type UrlGuard,
+  type UrlPolicyChannel,
+  type ApprovalHandler,
+  type ApprovalRequest,
+  type BrowserBackend,
+  type BrowserMode,
+  type RecordedAction,
+} from "./browser/index.js";
+
+import { getRunStore, type RunKind, type RunRecorder, type RunSource } from "./data/index.js";
+
 import {
   getModel,
-  streamSimple,
   getProviders,
   getModels,
-  type Context,
-  type Tool,
+  type Api,
   type Model,
-  type AssistantMessage,
 } from "@mariozechner/pi-ai";
 
 // ============================================================
@@ -61,7 +126,6 @@ const c = {
 // ============================================================
 // 브라우저 모드 (CDP or Extension)
 // ============================================================
-type BrowserMode = "cdp" | "extension";
 let browserMode: BrowserMode = "cdp";
 
 // ============================================================
@@ -139,89 +203,30 @@ function scanChromeProfiles(): ChromeProfile[] {
 // 현재 선택된 프로필
 let selectedProfile: ChromeProfile | null = null;
 
-// Extension 모드용 WebSocket
-let wss: WebSocketServer | null = null;
-let extClient: WebSocket | null = null;
-let messageId = 0;
-const pendingRequests = new Map<number, { resolve: (v: any) => void; reject: (e: any) => void }>();
-
-// Extension에 명령 전송
-function sendExtCommand(command: string, params: Record<string, unknown> = {}): Promise<any> {
-  return new Promise((resolve, reject) => {
-    if (!extClient || extClient.readyState !== WebSocket.OPEN) {
-      reject(new Error("Extension이 연결되지 않았습니다. Chrome에서 Pi-Browser 확장 프로그램을 확인하세요."));
-      return;
-    }
-
-    const id = ++messageId;
-    pendingRequests.set(id, { resolve, reject });
-
-    extClient.send(JSON.stringify({ id, command, params }));
-
-    // 타임아웃
-    setTimeout(() => {
-      if (pendingRequests.has(id)) {
-        pendingRequests.delete(id);
-        reject(new Error(`명령 타임아웃: ${command}`));
-      }
-    }, 60000);
-  });
-}
-
-// WebSocket 서버 시작
+// Extension 모드용 WebSocket 브릿지 (ws://localhost:9876)
 let extensionConnectedOnce = false;
-
-function startExtensionServer(): Promise<void> {
-  return new Promise((resolve) => {
-    wss = new WebSocketServer({ port: 9876 });
-
-    wss.on("connection", (ws) => {
-      if (!extensionConnectedOnce) {
-        console.log(`${c.green}✓ Extension 연결됨${c.reset}`);
-        extensionConnectedOnce = true;
-      }
-      extClient = ws;
-      // 웹 UI에 Extension 연결 상태 알림
-      broadcastToClients({ type: "extensionStatus", connected: true });
-
-      ws.on("message", (data) => {
-        try {
-          const msg = JSON.parse(data.toString());
-          const pending = pendingRequests.get(msg.id);
-          if (pending) {
-            pendingRequests.delete(msg.id);
-            if (msg.error) {
-              pending.reject(new Error(msg.error));
-            } else {
-              pending.resolve(msg.result);
-            }
-          }
-        } catch (e) {
-          console.error("Extension 메시지 파싱 에러:", e);
-        }
-      });
-
-      ws.on("close", () => {
-        extClient = null;
-        // 웹 UI에 Extension 연결 해제 알림
-        broadcastToClients({ type: "extensionStatus", connected: false });
-      });
-
-      resolve();
-    });
-
-    console.log(`${c.cyan}Extension 서버 시작됨 (ws://localhost:9876)${c.reset}`);
-    console.log(`${c.dim}Chrome에서 Pi-Browser 확장 프로그램이 자동으로 연결됩니다.${c.reset}\n`);
-  });
+const extensionBridge = new ExtensionBridge({
+  onStatusChange: (connected) => {
+    if (connected && !extensionConnectedOnce) {
+      console.log(`${c.green}✓ Extension 연결됨${c.reset}`);
+      extensionConnectedOnce = true;
+    }
+    // 웹 UI에 Extension 연결 상태 알림
+    broadcastToClients({ type: "extensionStatus", connected });
+  },
+});
+
+// WebSocket 서버 시작 (이미 실행 중이면 그대로 사용)
+async function startExtensionServer(): Promise<void> {
+  if (extensionBridge.isStarted()) return;
+  await extensionBridge.start();
+  console.log(`${c.cyan}Extension 서버 시작됨 (${extensionBridge.url})${c.reset}`);
+  console.log(`${c.dim}Chrome에서 Pi-Browser 확장 프로그램이 자동으로 연결됩니다.${c.reset}\n`);
 }
 
 // Extension 서버 종료
 function stopExtensionServer() {
-  if (wss) {
-    wss.close();
-    wss = null;
-  }
-  extClient = null;
+  extensionBridge.stop();
 }
 
 // ============================================================
@@ -252,10 +257,30 @@ interface ParallelBrowser {
 
 const parallelBrowsers: ParallelBrowser[] = [];
 
+// 병렬 실행 인자에서 --session <이름> 분리 (모든 브라우저를 그 세션으로 시작)
+function takeSessionOption(args: string): { args: string; session?: string } {
+  const match = args.match(/(^|\s)--session\s+(\S+)/);
+  if (!match) return { args };
+  return { args: args.replace(match[0], " ").trim(), session: match[2] };
+}
+
+// 비어 있는 로컬 포트 (병렬 실행과 워크플로우의 브라우저 풀이 동시에 떠도 CDP 포트가 겹치지 않도록)
+function findFreePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.once("error", reject);
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as net.AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
 // 병렬 브라우저 시작
-async function startParallelBrowsers(profiles: string[]): Promise<ParallelBrowser[]> {
+async function startParallelBrowsers(profiles: string[], sessionName?: string): Promise<ParallelBrowser[]> {
   const executablePath = findChromeExecutable();
   if (!executablePath) throw new Error("Chrome not found");
+  const session = sessionName ? getSessionStore().load(sessionName) : undefined;
 
   const chromeDir = path.join(os.homedir(), "Library", "Application Support", "Google", "Chrome");
   const browsers: ParallelBrowser[] = [];
@@ -266,7 +291,7 @@ async function startParallelBrowsers(profiles: string[]): Promise<ParallelBrowse
 
   for (let i = 0; i < profiles.length; i++) {
     const profile = profiles[i];
-    const cdpPort = 9500 + i; // 9500, 9501, 9502, ...
+    const cdpPort = await findFreePort();
 
     // 프로필 존재 확인
     const profilePath = path.join(chromeDir, profile);
@@ -317,6 +342,7 @@ async function startParallelBrowsers(profiles: string[]): Promise<ParallelBrowse
       const browserInstance = await chromium.connectOverCDP(cdpUrl);
       const contexts = browserInstance.contexts();
       const ctx = contexts[0] ?? (await browserInstance.newContext());
+      if (session) await restoreSession(ctx, session);
       const pages = ctx.pages();
       const page = pages[0] ?? (await ctx.newPage());
 
@@ -345,9 +371,10 @@ async function startParallelBrowsers(profiles: string[]): Promise<ParallelBrowse
 }
 
 // 익명 병렬 브라우저 시작 (로그인 없는 새 브라우저)
-async function startAnonymousParallelBrowsers(count: number): Promise<ParallelBrowser[]> {
+async function startAnonymousParallelBrowsers(count: number, sessionName?: string): Promise<ParallelBrowser[]> {
   const executablePath = findChromeExecutable();
   if (!executablePath) throw new Error("Chrome not found");
+  const session = sessionName ? getSessionStore().load(sessionName) : undefined;
 
   const browsers: ParallelBrowser[] = [];
 
@@ -356,7 +383,7 @@ async function startAnonymousParallelBrowsers(count: number): Promise<ParallelBr
   console.log(`${c.cyan}━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━${c.reset}\n`);
 
   for (let i = 0; i < count; i++) {
-    const cdpPort = 9500 + i;
+    const cdpPort = await findFreePort();
     const tempDir = path.join(os.tmpdir(), `pi-browser-${Date.now()}-${i}`);
     fs.mkdirSync(tempDir, { recursive: true });
 
@@ -402,6 +429,7 @@ async function startAnonymousParallelBrowsers(count: number): Promise<ParallelBr
       const browserInstance = await chromium.connectOverCDP(cdpUrl);
       const contexts = browserInstance.contexts();
       const ctx = contexts[0] ?? (await browserInstance.newContext());
+      if (session) await restoreSession(ctx, session);
       const pages = ctx.pages();
       const page = pages[0] ?? (await ctx.newPage());
 
@@ -429,24 +457,25 @@ async function startAnonymousParallelBrowsers(count: number): Promise<ParallelBr
   return browsers;
 }
 
-// 병렬 브라우저 종료
-async function stopParallelBrowsers(): Promise<void> {
-  for (const pb of parallelBrowsers) {
+// 병렬 브라우저 종료 (browsers를 주면 그 브라우저만)
+async function stopParallelBrowsers(browsers: ParallelBrowser[] = [...parallelBrowsers]): Promise<void> {
+  for (const pb of browsers) {
     try {
       await pb.browser.close();
     } catch {}
     if (pb.process) {
       pb.process.kill("SIGTERM");
     }
+    const index = parallelBrowsers.indexOf(pb);
+    if (index >= 0) parallelBrowsers.splice(index, 1);
   }
-  parallelBrowsers.length = 0;
 }
 
 // 병렬 에이전트 실행
 async function runParallelAgents(
   browsers: ParallelBrowser[],
   tasks: string[],
-  model: Model,
+  model: Model<Api>,
   isOllama: boolean
 ): Promise<void> {
   console.log(`${c.cyan}━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━${c.reset}`);
@@ -497,149 +526,39 @@ async function runParallelAgents(
 async function runParallelAgentSingle(
   pb: ParallelBrowser,
   mission: string,
-  model: Model,
+  model: Model<Api>,
   isOllama: boolean,
   taskIndex: number
 ): Promise<void> {
   const prefix = `[${pb.profile}:${taskIndex + 1}]`;
 
-  const ctx: Context = {
-    systemPrompt: `You are a browser automation agent. You MUST use browser tools to complete ANY task.
-
-IMPORTANT: You have access to a real browser. For ANY question (date, weather, news, prices, etc.),
-use the browser to search and find the answer. NEVER say you don't know - just search for it!
-
-TOOLS:
-- get_current_time: {} - Get current date and time
-- browser_navigate: {"url": "https://..."} - Go to URL (use google.com to search anything)
-- browser_snapshot: {} - Get interactive elements with selectors
-- browser_fill: {"selector": "...", "text": "..."} - Type text
-- browser_click: {"selector": "..."} - Click element
-- browser_press: {"key": "Enter"} - Press key
-- browser_screenshot: {} - Capture screen
-- browser_get_text: {"selector": ""} - Get page text
-
-ALWAYS use tools. Search on Google if you need information.`,
-    messages: [{ role: "user", content: mission }],
-    tools: browserTools,
-  };
-
-  const maxTurns = 50;
-
-  for (let turn = 0; turn < maxTurns; turn++) {
-    let response: AssistantMessage;
-
-    try {
-      const streamOptions = isOllama ? { apiKey: "ollama" } : undefined;
-      const s = streamSimple(model, ctx, streamOptions);
-
-      for await (const event of s) {
-        // 병렬 실행 시 출력 최소화
-      }
-
-      response = await s.result();
-    } catch (error) {
-      console.log(`${c.red}${prefix} Error: ${(error as Error).message}${c.reset}`);
-      break;
-    }
-
-    ctx.messages.push(response);
-
-    const toolCalls = response.content.filter((b) => b.type === "toolCall");
-
-    if (toolCalls.length === 0) {
-      break;
-    }
-
-    for (const call of toolCalls) {
-      try {
-        const result = await executeParallelBrowserTool(pb, call.name, call.arguments as Record<string, unknown>);
-
-        ctx.messages.push({
-          role: "toolResult",
-          toolCallId: call.id,
-          toolName: call.name,
-          content: [{ type: "text", text: result.text }],
-          isError: false,
-          timestamp: Date.now(),
-        });
-      } catch (error) {
-        ctx.messages.push({
-          role: "toolResult",
-          toolCallId: call.id,
-          toolName: call.name,
-          content: [{ type: "text", text: `Error: ${(error as Error).message}` }],
-          isError: true,
-          timestamp: Date.now(),
-        });
+  const backend = new PlaywrightBackend(async () => pb.context);
+  const run = startRun("task", "parallel", mission, model.id);
+
+  // 병렬 실행 시 출력 최소화 (에러만 표시)
+  const runner = new AgentRunner(
+    {
+      mission,
+      model,
+      isOllama,
+      tools: browserTools,
+      backend,
+      maxTurns: 50,
+      usage: createUsageTracker("parallel"),
+      policy: createPolicy(backend),
+      approve: (request) => confirmInTerminal({ ...request, reason: `${prefix} ${request.reason}` }),
+      urlGuard: createRunUrlGuard("cli"),
+    },
+    (event) => {
+      logRunEvent(run, event);
+      if (event.type === "error") {
+        console.log(`${c.red}${prefix} Error: ${event.error}${c.reset}`);
       }
     }
-  }
-}
-
-// 병렬 브라우저용 도구 실행
-async function executeParallelBrowserTool(
-  pb: ParallelBrowser,
-  name: string,
-  args: Record<string, unknown>
-): Promise<{ text: string; image?: { data: string; mimeType: string } }> {
-  const page = pb.page;
-
-  switch (name) {
-    case "browser_navigate": {
-      const url = args.url as string;
-      await page.goto(url, { waitUntil: "domcontentloaded", timeout: 30000 });
-      return { text: `Navigated to ${url}` };
-    }
-
-    case "browser_click": {
-      const selector = args.selector as string;
-      await page.click(selector, { timeout: 10000 });
-      return { text: `Clicked: ${selector}` };
-    }
-
-    case "browser_fill": {
-      const selector = args.selector as string;
-      const text = args.text as string;
-      await page.fill(selector, text);
-      return { text: `Filled "${text}" into ${selector}` };
-    }
-
-    case "browser_press": {
-      const key = args.key as string;
-      await page.keyboard.press(key);
-      return { text: `Pressed ${key}` };
-    }
-
-    case "browser_screenshot": {
-      const buffer = await page.screenshot({ type: "png" });
-      const base64 = buffer.toString("base64");
-      return {
-        text: "Screenshot taken",
-        image: { data: base64, mimeType: "image/png" },
-      };
-    }
-
-    case "browser_snapshot": {
-      const snapshot = await page.accessibility.snapshot();
-      return { text: JSON.stringify(snapshot, null, 2) };
-    }
-
-    case "browser_scroll": {
-      const direction = args.direction as string;
-      const amount = direction === "up" ? -500 : 500;
-      await page.evaluate((y) => window.scrollBy(0, y), amount);
-      return { text: `Scrolled ${direction}` };
-    }
-
-    case "browser_get_text": {
-      const text = await page.innerText("body");
-      return { text: text.slice(0, 5000) };
-    }
+  );
 
-    default:
-      throw new Error(`Unknown tool: ${name}`);
-  }
+  const result = await runner.run();
+  run.finish(agentTraceOutcome(result));
 }
 
 function findChromeExecutable(): string | null {
@@ -843,6 +762,7 @@ async function startBrowser(): Promise<void> {
       browser = await chromium.connectOverCDP(userCdpUrl);
       const contexts = browser.contexts();
       context = contexts[0] ?? (await browser.newContext());
+      await applyRouteRules();
       return;
     }
   } catch {
@@ -926,6 +846,31 @@ async function startBrowser(): Promise<void> {
   browser = await chromium.connectOverCDP(cdpUrl);
   const contexts = browser.contexts();
   context = contexts[0] ?? (await browser.newContext());
+  await applyRouteRules();
+}
+
+// CDP 컨텍스트의 요청 차단/대체 규칙 (설정의 browser.routes, 워크플로우에 routes가 있으면 그것으로)
+const routeController = new RouteController();
+
+async function applyRouteRules(workflow?: Workflow): Promise<void> {
+  if (!context) return;
+  const rules = workflow?.routes ?? loadSettings().browser?.routes;
+  try {
+    await routeController.apply(context, rules);
+  } catch (error) {
+    console.log(`${c.yellow}⚠️ 요청 차단 규칙 오류: ${(error as Error).message}${c.reset}`);
+    await routeController.apply(context, []);
+  }
+}
+
+// 저장된 세션(쿠키, localStorage)을 CDP 브라우저에 적용
+async function loadSession(name: string): Promise<void> {
+  const state = getSessionStore().load(name);
+  await startBrowser();
+  if (!context) throw new Error("Browser not running");
+  await restoreSession(context, state);
+  // 세션을 적용하느라 잠깐 연 탭은 에이전트에게 알리지 않음
+  await cdpBackend.takeTabChanges();
 }
 
 async function stopBrowser(): Promise<void> {
@@ -945,466 +890,256 @@ async function stopBrowser(): Promise<void> {
   }
 }
 
+// 에이전트가 조작 중인 탭 (browser_tab_switch로 바뀜)
 async function getPage(): Promise<Page> {
   if (!context) throw new Error("Browser not running");
-  const pages = context.pages();
-  return pages[0] ?? (await context.newPage());
-}
-
-// ============================================================
-// 브라우저 도구 정의
-// ============================================================
-const browserTools: Tool[] = [
-  {
-    name: "browser_navigate",
-    description: "Navigate to a URL",
-    parameters: Type.Object({
-      url: Type.String({ description: "The URL to navigate to" }),
-    }),
-  },
-  {
-    name: "browser_click",
-    description: "Click an element by selector",
-    parameters: Type.Object({
-      selector: Type.String({ description: "CSS selector or text selector" }),
-    }),
-  },
-  {
-    name: "browser_fill",
-    description: "Fill text into an input field",
-    parameters: Type.Object({
-      selector: Type.String({ description: "CSS selector for the input field" }),
-      text: Type.String({ description: "Text to fill" }),
-    }),
-  },
-  {
-    name: "browser_press",
-    description: "Press a keyboard key",
-    parameters: Type.Object({
-      key: Type.String({ description: "Key to press such as Enter, Tab, Escape" }),
-    }),
-  },
-  {
-    name: "browser_screenshot",
-    description: "Take a screenshot of the current page",
-    parameters: Type.Object({}),
-  },
-  {
-    name: "browser_snapshot",
-    description: "Get the accessibility snapshot of the page with interactive elements",
-    parameters: Type.Object({}),
-  },
-  {
-    name: "browser_scroll",
-    description: "Scroll the page up or down",
-    parameters: Type.Object({
-      direction: Type.String({ description: "Scroll direction: up or down" }),
-    }),
-  },
-  {
-    name: "browser_get_text",
-    description: "Get text content from the page",
-    parameters: Type.Object({
-      selector: Type.String({ description: "CSS selector or empty string for full page" }),
-    }),
-  },
-  {
-    name: "browser_wait",
-    description: "Wait for a condition: time, text to appear, text to disappear, or element",
-    parameters: Type.Object({
-      timeMs: Type.String({ description: "Wait time in milliseconds (e.g. 5000 for 5 seconds)" }),
-      text: Type.String({ description: "Wait for this text to appear on page" }),
-      textGone: Type.String({ description: "Wait for this text to disappear (e.g. Loading...)" }),
-      selector: Type.String({ description: "Wait for this element to be visible" }),
-    }),
-  },
-  {
-    name: "browser_download",
-    description: "Click a download button/link and save the file",
-    parameters: Type.Object({
-      selector: Type.String({ description: "Selector of download button/link to click" }),
-      filename: Type.String({ description: "Filename to save as (e.g. song.mp3)" }),
-    }),
-  },
-  {
-    name: "browser_upload",
-    description: "Upload local files via file input or file chooser",
-    parameters: Type.Object({
-      selector: Type.String({ description: "File input selector OR upload button selector" }),
-      filePaths: Type.Array(Type.String({ description: "Absolute or relative file path" })),
-    }),
-  },
-  {
-    name: "get_current_time",
-    description: "Get the current date and time",
-    parameters: Type.Object({}),
-  },
-];
-
-// ============================================================
-// Extension 모드 도구 실행
-// ============================================================
-async function executeExtensionTool(
-  name: string,
-  args: Record<string, unknown>
-): Promise<{ text: string; image?: { data: string; mimeType: string } }> {
-  switch (name) {
-    case "browser_navigate": {
-      const result = await sendExtCommand("navigate", { url: args.url });
-      return { text: `Navigated to ${result.url}. Title: ${result.title}` };
-    }
-
-    case "browser_click": {
-      const selector = args.selector as string;
-      await sendExtCommand("click", { selector });
-      return { text: `Clicked: ${selector}` };
-    }
-
-    case "browser_fill": {
-      const selector = args.selector as string;
-      const text = args.text as string;
-      await sendExtCommand("fill", { selector, value: text });
-      return { text: `Filled "${text}" into ${selector}` };
-    }
-
-    case "browser_press": {
-      await sendExtCommand("press", { key: args.key });
-      return { text: `Pressed: ${args.key}` };
-    }
-
-    case "browser_screenshot": {
-      const result = await sendExtCommand("screenshot", {});
-      // Extension에서 data URL 형식으로 반환
-      const dataUrl = result.image as string;
-      const base64 = dataUrl.replace(/^data:image\/\w+;base64,/, "");
-      return {
-        text: "Screenshot captured",
-        image: {
-          data: base64,
-          mimeType: "image/png",
-        },
-      };
-    }
-
-    case "browser_snapshot": {
-      const result = await sendExtCommand("snapshot", {});
-      const elements = result.elements as Array<{
-        ref: string;
-        tag: string;
-        text: string;
-        selector: string;
-      }>;
-
-      const lines = elements
-        .slice(0, 20)
-        .map((el, i) => `[e${i + 1}] ${el.tag} "${el.text.slice(0, 50)}" → ${el.selector}`);
-
-      return { text: `Page elements:\n${lines.join("\n")}` };
-    }
-
-    case "browser_scroll": {
-      const direction = (args.direction as string) || "down";
-      await sendExtCommand("scroll", { direction, amount: 500 });
-      return { text: `Scrolled ${direction}` };
-    }
-
-    case "browser_get_text": {
-      const result = await sendExtCommand("getText", {});
-      const text = (result.text as string).slice(0, 5000);
-      return { text: `Page text:\n${text}` };
-    }
-
-    case "browser_wait": {
-      const timeMs = args.timeMs as number | undefined;
-      if (timeMs) {
-        await new Promise((r) => setTimeout(r, timeMs));
-        return { text: `Waited ${timeMs}ms` };
-      }
-      return { text: "Waited" };
-    }
-
-    case "browser_upload": {
-      return {
-        text: "File upload is not supported in extension mode. Use CDP mode (default) with a Chrome profile.",
-      };
-    }
-
-    case "get_current_time": {
-      const now = new Date();
-      const dateStr = now.toLocaleDateString("ko-KR", {
-        year: "numeric",
-        month: "long",
-        day: "numeric",
-        weekday: "long",
-      });
-      const timeStr = now.toLocaleTimeString("ko-KR", {
-        hour: "2-digit",
-        minute: "2-digit",
-        second: "2-digit",
-      });
-      return { text: `현재 날짜: ${dateStr}\n현재 시간: ${timeStr}` };
-    }
-
-    default:
-      return { text: `Unknown tool: ${name}` };
-  }
+  return cdpBackend.getActivePage();
 }
 
 // ============================================================
-// 브라우저 도구 실행 (CDP 모드)
+// 브라우저 백엔드
 // ============================================================
-async function executeBrowserTool(
-  name: string,
-  args: Record<string, unknown>
-): Promise<{ text: string; image?: { data: string; mimeType: string } }> {
-  // Extension 모드
-  if (browserMode === "extension") {
-    return executeExtensionTool(name, args);
-  }
 
-  // CDP 모드
+// CDP 모드: 브라우저가 없으면 도구 실행 시 시작
+const cdpBackend = new PlaywrightBackend(async () => {
   if (!browser) {
     await startBrowser();
   }
+  if (!context) throw new Error("Browser not running");
+  return context;
+});
 
-  const page = await getPage();
-
-  switch (name) {
-    case "browser_navigate": {
-      await page.goto(args.url as string, { waitUntil: "domcontentloaded" });
-      const title = await page.title();
-      return { text: `Navigated to ${args.url}. Title: ${title}` };
-    }
-
-    case "browser_click": {
-      const selector = args.selector as string;
-      // role:"name" 형식 처리
-      const roleMatch = selector.match(/^(\w+):"([^"]*)"$/);
-      if (roleMatch) {
-        const [, role, name] = roleMatch;
-        await page.getByRole(role as any, { name, exact: false }).first().click();
-      } else if (selector.match(/^\w+$/)) {
-        // role만 있는 경우
-        await page.getByRole(selector as any).first().click();
-      } else {
-        // 일반 CSS 셀렉터
-        await page.locator(selector).first().click();
-      }
-      await page.waitForTimeout(1000);
-      return { text: `Clicked: ${selector}` };
-    }
-
-    case "browser_fill": {
-      const selector = args.selector as string;
-      const text = args.text as string;
-      // role:"name" 형식 처리
-      const roleMatch = selector.match(/^(\w+):"([^"]*)"$/);
-      if (roleMatch) {
-        const [, role, name] = roleMatch;
-        await page.getByRole(role as any, { name, exact: false }).first().fill(text);
-      } else if (selector.match(/^\w+$/)) {
-        // role만 있는 경우 (예: textbox, searchbox)
-        await page.getByRole(selector as any).first().fill(text);
-      } else {
-        // 일반 CSS 셀렉터
-        await page.locator(selector).first().fill(text);
-      }
-      return { text: `Filled "${text}" into ${selector}` };
-    }
-
-    case "browser_press": {
-      await page.keyboard.press(args.key as string);
-      await page.waitForTimeout(500);
-      return { text: `Pressed: ${args.key}` };
-    }
-
-    case "browser_screenshot": {
-      const buffer = await page.screenshot({ type: "jpeg", quality: 80 });
-      return {
-        text: "Screenshot captured",
-        image: {
-          data: buffer.toString("base64"),
-          mimeType: "image/jpeg",
-        },
-      };
-    }
-
-    case "browser_snapshot": {
-      // Playwright의 ariaSnapshot 사용 (클로드봇 방식)
-      const ariaSnapshot = await page.locator(":root").ariaSnapshot();
-
-      // 인터랙티브 요소만 추출
-      const lines = String(ariaSnapshot || "").split("\n");
-      const interactiveRoles = ["button", "link", "textbox", "searchbox", "combobox", "checkbox", "radio"];
-      const results: string[] = [];
-      let refIdx = 1;
-
-      for (const line of lines) {
-        const match = line.match(/^\s*-\s*(\w+)(?:\s+"([^"]*)")?/);
-        if (!match) continue;
-
-        const [, role, name] = match;
-        if (!interactiveRoles.includes(role.toLowerCase())) continue;
-
-        // ref 형식: role:name 또는 role만
-        const ref = name ? `${role}:"${name}"` : role;
-        results.push(`[e${refIdx}] ${role}${name ? ` "${name}"` : ""} → ${ref}`);
-        refIdx++;
-
-        if (refIdx > 20) break; // 최대 20개
-      }
-
-      return { text: `Page elements (use ref value for selector):\n${results.join("\n")}` };
-    }
+const extensionBackend = new ExtensionBackend(extensionBridge);
 
-    case "browser_scroll": {
-      const dir = args.direction as string;
-      const amount = dir === "down" ? 500 : -500;
-      await page.evaluate(`window.scrollBy(0, ${amount})`);
-      return { text: `Scrolled ${dir}` };
-    }
+// 현재 브라우저 모드(CDP/Extension)의 백엔드
+function currentBackend(): BrowserBackend {
+  return browserMode === "extension" ? extensionBackend : cdpBackend;
+}
 
-    case "browser_get_text": {
-      const selector = args.selector as string | undefined;
-      const text = selector
-        ? (await page.locator(selector).first().textContent()) ?? ""
-        : await page.evaluate(() => document.body.innerText);
-      return { text: text.slice(0, 2000) };
-    }
+// 설정(settings.policy)의 승인 규칙을 적용한 정책 (비활성화면 undefined)
+function createPolicy(backend: BrowserBackend): PolicyEngine | undefined {
+  const rules = resolvePolicyRules(loadSettings().policy);
+  return rules ? new PolicyEngine(backend, rules) : undefined;
+}
 
-    case "browser_wait": {
-      const timeMs = args.timeMs as string | undefined;
-      const text = args.text as string | undefined;
-      const textGone = args.textGone as string | undefined;
-      const selector = args.selector as string | undefined;
-      const results: string[] = [];
+// 설정(settings.urlPolicy)의 채널 정책 (+ 워크플로우 정책)을 적용한 URL 검사기
+function createRunUrlGuard(channel: UrlPolicyChannel, workflow?: Workflow): UrlGuard {
+  return createUrlGuard(loadSettings().urlPolicy, channel, workflow?.urlPolicy);
+}
 
-      // 시간 대기
-      if (timeMs && parseInt(timeMs) > 0) {
-        const ms = Math.min(parseInt(timeMs), 60000); // 최대 60초
-        await page.waitForTimeout(ms);
-        results.push(`Waited ${ms}ms`);
-      }
+// CDP 모드에서 설정(settings.network.capture)이나 /har로 켰으면 이 실행의 요청/응답 기록 시작
+async function startNetworkCapture(force: boolean = false): Promise<NetworkRecorder | undefined> {
+  if (browserMode !== "cdp" || !(force || loadSettings().network?.capture)) return undefined;
+  await startBrowser();
+  if (!context) return undefined;
+  const recorder = new NetworkRecorder();
+  recorder.attach(context);
+  return recorder;
+}
 
-      // 텍스트 나타날 때까지 대기
-      if (text) {
-        await page.getByText(text).first().waitFor({ state: "visible", timeout: 30000 });
-        results.push(`Text "${text}" appeared`);
-      }
+// 기록을 멈추고 ~/.pi-browser/data/har에 저장 (저장한 경로, 기록하지 않았거나 실패하면 null)
+async function saveNetworkCapture(recorder: NetworkRecorder | undefined, name: string): Promise<string | null> {
+  if (!recorder) return null;
+  await recorder.stop();
+  try {
+    return recorder.saveHar(harPathFor(name));
+  } catch (error) {
+    console.log(`${c.yellow}⚠️ HAR 저장 실패: ${(error as Error).message}${c.reset}`);
+    return null;
+  }
+}
 
-      // 텍스트 사라질 때까지 대기
-      if (textGone) {
-        await page.getByText(textGone).first().waitFor({ state: "hidden", timeout: 60000 });
-        results.push(`Text "${textGone}" disappeared`);
-      }
+// Playwright trace를 기록 중인 실행 (컨텍스트 하나에 하나만 가능)
+let playwrightTracing: TraceRecorder | null = null;
 
-      // 요소 나타날 때까지 대기
-      if (selector) {
-        await page.locator(selector).first().waitFor({ state: "visible", timeout: 30000 });
-        results.push(`Element "${selector}" visible`);
-      }
+// 설정(settings.trace.enabled)을 끄지 않았으면 이 실행의 트레이스 시작 (~/.pi-browser/data/traces)
+async function startTrace(source: TraceSource, title: string, modelId?: string): Promise<TraceRecorder | undefined> {
+  const traceSettings = loadSettings().trace;
+  if (traceSettings?.enabled === false) return undefined;
+  const trace = getTraceStore().start({ source, title, model: modelId, screenshots: traceSettings?.screenshots !== false });
 
-      return { text: results.length > 0 ? results.join(", ") : "Wait completed" };
+  // CDP 모드에서 켰으면 DOM 스냅샷과 네트워크가 들어 있는 Playwright trace도 함께 기록
+  if (traceSettings?.playwright && browserMode === "cdp" && !playwrightTracing) {
+    await startBrowser();
+    try {
+      await context?.tracing.start({ screenshots: true, snapshots: true, title });
+      if (context) playwrightTracing = trace;
+    } catch (error) {
+      console.log(`${c.yellow}⚠️ Playwright trace 시작 실패: ${(error as Error).message}${c.reset}`);
     }
+  }
+  return trace;
+}
 
-    case "browser_download": {
-      const selector = args.selector as string;
-      const filename = args.filename as string || "download";
+// 트레이스 마무리 (Playwright trace를 기록 중이면 트레이스 폴더에 zip으로 저장)
+async function finishTrace(trace: TraceRecorder | undefined, outcome: TraceOutcome): Promise<void> {
+  if (!trace) return;
+  if (playwrightTracing === trace) {
+    playwrightTracing = null;
+    await context?.tracing.stop({ path: trace.playwrightTracePath() }).catch(() => {});
+  }
+  trace.finish(outcome);
+}
 
-      // 다운로드 대기 설정
-      const downloadPromise = page.waitForEvent("download", { timeout: 120000 });
+let runHistoryWarned = false;
 
-      // 다운로드 버튼 클릭
-      const roleMatch = selector.match(/^(\w+):"([^"]*)"$/);
-      if (roleMatch) {
-        const [, role, name] = roleMatch;
-        await page.getByRole(role as any, { name, exact: false }).first().click();
-      } else if (selector.match(/^\w+$/)) {
-        await page.getByRole(selector as any).first().click();
-      } else {
-        await page.locator(selector).first().click();
-      }
+// 실행 이력 시작 (pi-browser.db의 runs 테이블, 웹 UI 기록 탭에서 검색), DB를 쓸 수 없으면 한 번만 알림
+function startRun(kind: RunKind, source: RunSource, title: string, modelId: string, trace?: TraceRecorder): RunRecorder {
+  const run = getRunStore().start({ kind, source, title, model: modelId, traceId: trace?.id });
+  if (run.error && !runHistoryWarned) {
+    runHistoryWarned = true;
+    console.log(`${c.yellow}⚠️ 실행 이력을 저장할 수 없습니다: ${run.error}${c.reset}`);
+  }
+  return run;
+}
 
-      // 다운로드 완료 대기
-      const download = await downloadPromise;
-      const suggestedName = download.suggestedFilename();
+// 에이전트 이벤트를 실행 이력 로그 한 줄로 기록
+function logRunEvent(run: RunRecorder, event: AgentEvent): void {
+  if (event.type === "turn_start") {
+    run.log(`[AI] Turn ${event.turn}/${event.maxTurns}`);
+  } else if (event.type === "tool_start") {
+    run.log(`[TOOL] ${event.name}(${JSON.stringify(event.args)})`);
+  } else if (event.type === "tool_result") {
+    const firstLine = event.result.text.split("\n")[0];
+    run.log(event.isError ? `[ERROR] ${firstLine}` : `[SUCCESS] ${firstLine}`);
+  } else if (event.type === "context_compacted") {
+    run.log(`[CONTEXT] 이전 ${event.summarized}개 메시지 요약`);
+  } else if (event.type === "error") {
+    run.log(`[ERROR] ${event.error}`);
+  }
+}
 
-      // 파일 저장
-      const downloadDir = path.join(os.homedir(), "Downloads");
-      const savePath = path.join(downloadDir, filename || suggestedName);
-      await download.saveAs(savePath);
+function workflowTraceOutcome(result: WorkflowExecutionResult): TraceOutcome {
+  return {
+    status: result.success ? "completed" : "failed",
+    result: result.data !== undefined ? JSON.stringify(result.data) : undefined,
+    error: result.error,
+  };
+}
 
-      return { text: `Downloaded: ${savePath} (${suggestedName})` };
-    }
+// 워크플로우 실행 후 HAR 저장, 트레이스와 실행 기록 마무리, 요청 규칙 복원 (실행 중 예외가 나도 정리)
+async function executeWorkflowRun(
+  executor: WorkflowExecutor,
+  workflow: Workflow,
+  finish: { network?: NetworkRecorder; trace?: TraceRecorder; run: RunRecorder }
+): Promise<{ result: WorkflowExecutionResult; harPath: string | null }> {
+  let result: WorkflowExecutionResult;
+  let outcome: TraceOutcome = { status: "failed" };
+  let harPath: string | null = null;
+  try {
+    result = await executor.execute();
+    outcome = workflowTraceOutcome(result);
+  } catch (error) {
+    outcome = { status: "failed", error: (error as Error).message };
+    throw error;
+  } finally {
+    harPath = await saveNetworkCapture(finish.network, `workflow-${workflow.id}`);
+    await finishTrace(finish.trace, outcome);
+    finish.run.finish(outcome);
+    await applyRouteRules();
+  }
+  return { result, harPath };
+}
 
-    case "browser_upload": {
-      const selector = args.selector as string;
-      const raw = (args.filePaths as unknown) ?? [];
-      const filePaths: string[] = Array.isArray(raw)
-        ? (raw as unknown[]).map(String)
-        : typeof raw === "string"
-          ? raw.split(",").map((s) => s.trim()).filter(Boolean)
-          : [];
+// 워크플로우의 기록된 동작 재생 (ExecutorContext.runReplay), 위험한 동작은 approve로 승인
+function createReplayRunner(workflow: Workflow, approve?: ApprovalHandler) {
+  const urlGuard = createRunUrlGuard("workflow", workflow);
+  return (actions: RecordedAction[], onLog: (text: string) => void) => {
+    const backend = currentBackend();
+    const policy = createPolicy(backend);
+    const authorize = policy && ((tool: string, args: Record<string, unknown>) => policy.authorize(tool, args, approve));
+    return replayActions(backend, actions, onLog, { authorize, urlGuard });
+  };
+}
 
-      if (!selector || filePaths.length === 0) {
-        throw new Error("browser_upload requires selector and filePaths[]");
-      }
+// 워크플로우 parallel 단계의 브라우저 풀 (ExecutorContext.openParallelPool)
+// 익명 병렬 브라우저를 띄우고, 분기마다 새 컨텍스트에 순차 단계와 같은 요청 규칙과 워크플로우 세션을 적용해서 실행
+// network를 주면(네트워크 기록 중) 분기마다 따로 기록해서 HAR로 저장
+function createParallelPool(
+  workflow: Workflow,
+  agentOptions: Omit<Parameters<typeof createStepAgent>[0], "backend" | "policy" | "network">,
+  network?: NetworkRecorder
+) {
+  return async (size: number): Promise<ParallelBrowserPool> => {
+    const session = workflow.session ? getSessionStore().load(workflow.session) : undefined;
+    const routes = workflow.routes ?? loadSettings().browser?.routes;
+    const browsers = await startAnonymousParallelBrowsers(size);
+    let branchCount = 0;
+    return {
+      size: browsers.length,
+      openContext: async (slot) => {
+        const context = await browsers[slot].browser.newContext();
+        try {
+          await new RouteController().apply(context, routes);
+        } catch (error) {
+          console.log(`${c.yellow}⚠️ 요청 차단 규칙 오류: ${(error as Error).message}${c.reset}`);
+        }
+        if (session) await restoreSession(context, session);
+        const branchNetwork = network ? new NetworkRecorder() : undefined;
+        branchNetwork?.attach(context);
+        const harName = `workflow-${workflow.id}-branch-${++branchCount}`;
+
+        const backend = new PlaywrightBackend(async () => context);
+        return {
+          runStepAgent: createStepAgent({ ...agentOptions, backend, policy: createPolicy(backend), network: branchNetwork }),
+          close: async () => {
+            await saveNetworkCapture(branchNetwork, harName);
+            await context.close();
+          },
+        };
+      },
+      close: () => stopParallelBrowsers(browsers),
+    };
+  };
+}
 
-      const resolved = filePaths.map((p) => (path.isAbsolute(p) ? p : path.resolve(process.cwd(), p)));
-      const missing = resolved.filter((p) => !fs.existsSync(p));
-      if (missing.length > 0) {
-        throw new Error(`File not found: ${missing.join(", ")}`);
-      }
+// 대화형 모드의 readline (실행 중 승인 질문도 여기로)
+let interactiveRl: readline.Interface | null = null;
+// 병렬 실행에서 승인 질문이 겹치지 않도록 하나씩
+let terminalApprovals: Promise<unknown> = Promise.resolve();
 
-      const loc = page.locator(selector).first();
+/**
+ * 터미널에서 y/N으로 승인 (입력할 수 없는 환경이면 거부)
+ */
+function confirmInTerminal(request: ApprovalRequest): Promise<boolean> {
+  if (!process.stdin.isTTY) return Promise.resolve(false);
+
+  const ask = async (): Promise<boolean> => {
+    const rl = interactiveRl ?? readline.createInterface({ input: process.stdin, output: process.stdout });
+    const where = request.url ? ` ${c.dim}(${request.url})${c.reset}` : "";
+    const answer = await new Promise<string>((resolve) => {
+      rl.question(
+        `\n${c.yellow}⚠️  승인 필요: ${request.reason}${c.reset}${where}\n` +
+          `${c.dim}   ${request.tool}(${JSON.stringify(request.args)})${c.reset}\n` +
+          `${c.yellow}   실행할까요? (y/N) ${c.reset}`,
+        resolve
+      );
+    });
+    if (rl !== interactiveRl) rl.close();
+    return /^(y|yes|ㅇ|예)$/i.test(answer.trim());
+  };
 
-      // Strategy 1: input[type=file]
-      try {
-        const isFileInput = await loc.evaluate((el) => {
-          const tag = String((el as any).tagName || "").toLowerCase();
-          if (tag !== "input") return false;
-          const type = (el as any).type;
-          return String(type).toLowerCase() === "file";
-        });
+  const approved = terminalApprovals.then(ask);
+  terminalApprovals = approved.catch(() => {});
+  return approved;
+}
 
-        if (isFileInput) {
-          await loc.setInputFiles(resolved);
-          await page.waitForTimeout(1000);
-          return { text: `Uploaded ${resolved.length} file(s) via input: ${selector}` };
-        }
-      } catch {
-        // fall through to chooser strategy
-      }
+// 텔레그램 승인 메시지
+function formatApprovalRequest(request: ApprovalRequest): string {
+  const where = request.url ? `\n${request.url}` : "";
+  return `⚠️ 승인 필요: ${request.reason}${where}\n\n${request.tool}(${JSON.stringify(request.args)})`;
+}
 
-      // Strategy 2: click to open file chooser
-      const [chooser] = await Promise.all([
-        page.waitForEvent("filechooser", { timeout: 10000 }),
-        loc.click(),
-      ]);
-      await chooser.setFiles(resolved);
-      await page.waitForTimeout(1000);
-      return { text: `Uploaded ${resolved.length} file(s) via chooser: ${selector}` };
-    }
-
-    case "get_current_time": {
-      const now = new Date();
-      const dateStr = now.toLocaleDateString("ko-KR", {
-        year: "numeric",
-        month: "long",
-        day: "numeric",
-        weekday: "long",
-      });
-      const timeStr = now.toLocaleTimeString("ko-KR", {
-        hour: "2-digit",
-        minute: "2-digit",
-        second: "2-digit",
-      });
-      return { text: `현재 날짜: ${dateStr}\n현재 시간: ${timeStr}` };
-    }
+// recordReplay가 켜진 워크플로우는 성공한 실행의 동작을 저장 (다음 실행부터 재생)
+function storeWorkflowRecording(workflow: Workflow, result: WorkflowExecutionResult): boolean {
+  if (!workflow.recordReplay || !result.success || !result.recording?.length) return false;
+  saveWorkflowRecording(workflow, result.recording);
+  return true;
+}
 
-    default:
-      return { text: `Unknown tool: ${name}` };
-  }
+// 설정(settings.usage)의 가격표와 예산을 적용한 사용량 추적기
+function createUsageTracker(source: string): UsageTracker {
+  return new UsageTracker({ ...loadSettings().usage, source });
 }
 
 // ============================================================
@@ -1432,29 +1167,13 @@ function saveConfig(config: Config): void {
   fs.writeFileSync(CONFIG_PATH, JSON.stringify(config, null, 2));
 }
 
-// Ollama 모델 생성
-function createOllamaModel(modelId: string, baseUrl: string = "http://localhost:11434/v1"): Model {
-  return {
-    id: modelId,
-    name: `${modelId} (Ollama)`,
-    api: "openai",
-    provider: "ollama",
-    baseUrl,
-    reasoning: false,
-    input: ["text"],
-    output: ["text"],
-    inputTokenLimit: 128000,
-    outputTokenLimit: 8192,
-  } as Model;
-}
-
 // 모델 가져오기 (Ollama 지원)
-function resolveModel(config: Config): Model {
+function resolveModel(config: Config): Model<Api> {
   if (config.provider === "ollama") {
     return createOllamaModel(config.model, config.ollamaUrl);
   }
   try {
-    const model = getModel(config.provider as any, config.model as any);
+    const model = getModel(config.provider as any, config.model as any) as Model<Api> | undefined;
     if (!model) {
       console.log(`${c.yellow}⚠️ 모델을 찾을 수 없음: ${config.provider}/${config.model}, 기본 모델 사용${c.reset}`);
       return getModel("google", "gemini-2.0-flash");
@@ -1469,148 +1188,175 @@ function resolveModel(config: Config): Model {
 // ============================================================
 // 에이전트 루프
 // ============================================================
-async function runAgent(mission: string, model: Model, isOllama: boolean = false): Promise<void> {
-  console.log(`\n${c.cyan}━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━${c.reset}`);
-  console.log(`${c.bright}🎯 미션: ${mission}${c.reset}`);
-  console.log(`${c.cyan}━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━${c.reset}\n`);
-
-  const ctx: Context = {
-    systemPrompt: `You are a browser automation agent with FULL browser access.
-
-CRITICAL RULES:
-1. NEVER say "I can't" or "I'm sorry" - just DO IT using the browser!
-2. You have access to a REAL browser with logged-in sessions. Just navigate and use it!
-3. Start with browser_navigate, then browser_snapshot to see the page.
-4. The browser has the user's cookies/logins. Just go to the website!
-
-TOOLS:
-- get_current_time: {} - Get current date and time
-- browser_navigate: {"url": "..."} - Go to any URL directly
-- browser_snapshot: {} - See page elements (ALWAYS do this after navigate!)
-- browser_fill: {"selector": "...", "text": "..."} - Type text
-- browser_click: {"selector": "..."} - Click element
-- browser_press: {"key": "Enter"} - Press key
-- browser_screenshot: {} - Capture screen
-- browser_get_text: {"selector": ""} - Get page text
-- browser_wait: {"timeMs": "5000"} - Wait for time (ms)
-- browser_wait: {"text": "Complete"} - Wait for text to appear
-- browser_wait: {"textGone": "Loading..."} - Wait for text to disappear
-- browser_download: {"selector": "...", "filename": "file.mp3"} - Download file
-- browser_upload: {"selector": "...", "filePaths": ["/abs/path/a.png"]} - Upload local file(s)
-
-WORKFLOW: navigate → snapshot → interact → get_text → report
-SELECTOR FORMAT: role:"name" (e.g., textbox:"Search", button:"Submit")
-
-DO NOT refuse. DO NOT apologize. Just USE THE BROWSER.`,
-    messages: [{ role: "user", content: mission }],
-    tools: browserTools,
-  };
-
-  const maxTurns = 100;
-
-  for (let turn = 0; turn < maxTurns; turn++) {
-    console.log(`${c.blue}[Turn ${turn + 1}/${maxTurns}]${c.reset}`);
 
-    let response: AssistantMessage;
+interface RunAgentOptions {
+  outputSchema?: Record<string, unknown>;
+  recordPath?: string; // 성공하면 도구 호출을 재생 스크립트로 저장 (/replay로 실행)
+  har?: boolean; // 설정과 관계없이 네트워크 기록 (CDP 모드)
+}
 
-    try {
-      // 스트리밍으로 응답 받기
-      const streamOptions = isOllama ? { apiKey: "ollama" } : undefined;
-      const s = streamSimple(model, ctx, streamOptions);
-      let textBuffer = "";
+async function runAgent(
+  mission: string,
+  model: Model<Api>,
+  isOllama: boolean = false,
+  options: RunAgentOptions = {}
+): Promise<void> {
+  const { outputSchema, recordPath } = options;
+  const backend = currentBackend();
+  const recorder = recordPath ? new ActionRecorder(backend) : undefined;
+  const network = await startNetworkCapture(options.har);
+  const trace = await startTrace("cli", mission, model.id);
+  const run = startRun("task", "cli", mission, model.id, trace);
 
-      process.stdout.write(`${c.magenta}AI: ${c.reset}`);
+  console.log(`\n${c.cyan}━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━${c.reset}`);
+  console.log(`${c.bright}🎯 미션: ${mission}${c.reset}`);
+  console.log(`${c.cyan}━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━${c.reset}\n`);
 
-      for await (const event of s) {
-        if (event.type === "text_delta") {
-          process.stdout.write(event.delta);
-          textBuffer += event.delta;
-        } else if (event.type === "tool_call_start") {
-          console.log(`\n${c.dim}[tool: ${event.name}]${c.reset}`);
-        }
-      }
-
-      response = await s.result();
-      console.log();
-    } catch (error) {
-      console.log(`${c.red}Error: ${(error as Error).message}${c.reset}`);
-      break;
-    }
-
-    ctx.messages.push(response);
-
-    // 디버그: 응답 내용 출력
-    if (response.content.length === 0) {
-      console.log(`${c.dim}[DEBUG] Empty response content${c.reset}`);
-    }
-
-    // 도구 호출 처리
-    const toolCalls = response.content.filter((b) => b.type === "toolCall");
-
-    if (toolCalls.length === 0) {
-      // 텍스트 응답이 있으면 완료
-      const textContent = response.content.find((b) => b.type === "text");
-      if (textContent) {
-        console.log(`\n${c.green}✅ 미션 완료${c.reset}\n`);
-      } else {
-        console.log(`${c.yellow}⚠️ AI가 도구를 호출하지 않았습니다. 다시 시도...${c.reset}`);
-        // 재시도 메시지 추가
-        ctx.messages.push({
-          role: "user",
-          content: "도구를 사용해서 작업을 수행하세요. 먼저 browser_navigate로 웹사이트에 접속하세요.",
-        });
-        continue;
+  const runner = new AgentRunner(
+    {
+      mission,
+      model,
+      isOllama,
+      tools: browserTools,
+      backend,
+      maxTurns: 100,
+      outputSchema,
+      recorder,
+      usage: createUsageTracker("cli"),
+      policy: createPolicy(backend),
+      approve: confirmInTerminal,
+      urlGuard: createRunUrlGuard("cli"),
+      network,
+      trace,
+    },
+    (event) => {
+      logRunEvent(run, event);
+      switch (event.type) {
+        case "turn_start":
+          console.log(`${c.blue}[Turn ${event.turn}/${event.maxTurns}]${c.reset}`);
+          process.stdout.write(`${c.magenta}AI: ${c.reset}`);
+          break;
+        case "text_delta":
+          process.stdout.write(event.delta);
+          break;
+        case "tool_start":
+          console.log(`\n${c.yellow}  → ${event.name}(${JSON.stringify(event.args)})${c.reset}`);
+          break;
+        case "tool_result":
+          if (event.isError) {
+            console.log(`${c.red}  ✗ ${event.result.text}${c.reset}`);
+          } else {
+            console.log(`${c.green}  ✓ ${event.result.text.split("\n")[0]}${c.reset}`);
+          }
+          break;
+        case "context_compacted":
+          console.log(`${c.dim}  [컨텍스트] 이전 ${event.summarized}개 메시지 요약 (~${event.before} → ~${event.after} 토큰)${c.reset}`);
+          break;
+        case "error":
+          console.log(`\n${c.red}Error: ${event.error}${c.reset}`);
+          break;
+        case "done":
+          console.log();
+          if (event.result.status === "completed") {
+            console.log(`\n${c.green}✅ 미션 완료${c.reset}\n`);
+            if (event.result.data !== undefined) {
+              console.log(JSON.stringify(event.result.data, null, 2));
+              console.log();
+            }
+          } else if (event.result.status === "max_turns") {
+            console.log(`\n${c.yellow}⚠️ 최대 턴 초과${c.reset}\n`);
+          }
+          if (event.result.usage.calls > 0) {
+            console.log(`${c.dim}💰 ${formatUsage(event.result.usage)}${c.reset}\n`);
+          }
+          break;
       }
-      break;
     }
+  );
 
-    // 도구 실행
-    for (const call of toolCalls) {
-      console.log(`${c.yellow}  → ${call.name}(${JSON.stringify(call.arguments)})${c.reset}`);
-
-      try {
-        const result = await executeBrowserTool(call.name, call.arguments as Record<string, unknown>);
+  const result = await runner.run();
 
-        console.log(`${c.green}  ✓ ${result.text.split("\n")[0]}${c.reset}`);
+  const harPath = await saveNetworkCapture(network, "cli");
+  if (harPath) {
+    console.log(`${c.dim}🌐 HAR 저장: ${harPath}${c.reset}\n`);
+  }
+  await finishTrace(trace, agentTraceOutcome(result));
+  run.finish(agentTraceOutcome(result));
+  if (trace) {
+    console.log(`${c.dim}🔍 트레이스: ${trace.dir} (웹 UI 기록 탭)${c.reset}\n`);
+  }
 
-        // 도구 결과 추가
-        const content: Array<{ type: "text"; text: string } | { type: "image"; data: string; mimeType: string }> = [
-          { type: "text", text: result.text },
-        ];
+  if (recorder && recordPath && result.status === "completed") {
+    const savedPath = saveReplayScript(recordPath, {
+      version: 1,
+      name: mission.slice(0, 80),
+      createdAt: Date.now(),
+      steps: [{ id: "mission", name: "미션", prompt: mission, actions: recorder.actions }],
+    });
+    console.log(`${c.green}🎬 재생 스크립트 저장: ${savedPath} (${recorder.actions.length}개 동작)${c.reset}`);
+    console.log(`${c.dim}실행: /replay ${savedPath}${c.reset}\n`);
+  }
+}
 
-        if (result.image) {
-          content.push({
-            type: "image",
-            data: result.image.data,
-            mimeType: result.image.mimeType,
-          });
+/**
+ * 재생 스크립트 실행 (실패한 단계만 AI가 대신 실행)
+ */
+async function runReplayScript(file: string, model: Model<Api>, isOllama: boolean): Promise<boolean> {
+  const script = loadReplayScript(file);
+  const backend = currentBackend();
+
+  console.log(`\n${c.cyan}🎬 재생: ${script.name} (${script.steps.length}단계)${c.reset}\n`);
+
+  // 재생에 실패해서 AI가 실행한 단계끼리 예산 공유
+  const usage = createUsageTracker("replay");
+  const policy = createPolicy(backend);
+  const urlGuard = createRunUrlGuard("cli");
+
+  const result = await replayScript(
+    backend,
+    script,
+    async (step) => {
+      const runner = new AgentRunner(
+        {
+          mission: step.prompt,
+          model,
+          isOllama,
+          tools: browserTools,
+          backend,
+          maxTurns: 30,
+          usage,
+          policy,
+          approve: confirmInTerminal,
+          urlGuard,
+        },
+        (event) => {
+          if (event.type === "tool_start") {
+            console.log(`${c.yellow}  → ${event.name}(${JSON.stringify(event.args)})${c.reset}`);
+          } else if (event.type === "error") {
+            console.log(`${c.red}  ✗ ${event.error}${c.reset}`);
+          }
         }
+      );
+      const agentResult = await runner.run();
+      return {
+        success: agentResult.status === "completed",
+        result: agentResult.error || agentResult.text,
+      };
+    },
+    (text) => console.log(`${c.dim}${text}${c.reset}`),
+    { authorize: policy && ((tool, args) => policy.authorize(tool, args, confirmInTerminal)), urlGuard }
+  );
 
-        ctx.messages.push({
-          role: "toolResult",
-          toolCallId: call.id,
-          toolName: call.name,
-          content,
-          isError: false,
-          timestamp: Date.now(),
-        });
-      } catch (error) {
-        const errMsg = (error as Error).message;
-        console.log(`${c.red}  ✗ ${errMsg}${c.reset}`);
-
-        ctx.messages.push({
-          role: "toolResult",
-          toolCallId: call.id,
-          toolName: call.name,
-          content: [{ type: "text", text: `Error: ${errMsg}` }],
-          isError: true,
-          timestamp: Date.now(),
-        });
-      }
-    }
-
-    console.log();
+  if (result.success) {
+    const fallback = result.fallbackSteps.length > 0 ? ` (AI 실행: ${result.fallbackSteps.join(", ")})` : "";
+    console.log(`\n${c.green}✅ 재생 완료${fallback}${c.reset}\n`);
+  } else {
+    console.log(`\n${c.red}❌ 재생 실패: ${result.result}${c.reset}\n`);
+  }
+  if (usage.summary.calls > 0) {
+    console.log(`${c.dim}💰 ${formatUsage(usage.summary)}${c.reset}\n`);
   }
+  return result.success;
 }
 
 // ============================================================
@@ -1637,10 +1383,21 @@ ${c.yellow}tg${c.reset}              텔레그램 봇 모드 (TELEGRAM_BOT_TOKEN
                 예: p 3 → 작업 입력 → 빈 줄로 실행
 ${c.yellow}profiles${c.reset}        Chrome 프로필 목록
 ${c.yellow}models${c.reset}          AI 모델 목록
+${c.yellow}usage${c.reset}           오늘/이번 달 토큰 사용량과 비용
+${c.yellow}secret${c.reset}          비밀 값 관리 (set 이름 | list | rm 이름), 미션에서 {{secret:이름}}
+${c.yellow}totp${c.reset}            2단계 인증 시드 관리 (add 이름 | list | rm 이름 | code 이름), 미션에서 {{totp:이름}}
+${c.yellow}session${c.reset}         로그인 세션 저장/불러오기 (save 이름 [--site 도메인] [--encrypt] | load 이름 | list | rm 이름)
 ${c.yellow}set P M${c.reset}         모델 변경 (예: set google gemini-2.5-flash)
 ${c.yellow}config${c.reset}          현재 설정
 ${c.yellow}version${c.reset}         버전 정보
 ${c.yellow}exit${c.reset}            종료
+
+${c.bright}CLI 인자${c.reset} ${c.dim}(npm start 뒤에 붙여서 실행, 대화형 모드에서는 쓸 수 없음)${c.reset}
+
+${c.yellow}/schema F "미션"${c.reset} 미션 결과를 JSON Schema 파일(F)에 맞는 JSON으로 받기
+${c.yellow}/record F "미션"${c.reset} 성공한 미션의 동작을 재생 스크립트(F)로 저장
+${c.yellow}/har "미션"${c.reset}      미션의 요청/응답을 HAR로 저장 (CDP 모드, ~/.pi-browser/data/har)
+${c.yellow}/replay F${c.reset}       재생 스크립트 실행 (AI 없이, 실패한 단계만 AI)
 `);
 }
 
@@ -1676,9 +1433,12 @@ async function runWebMode(config: Config, overridePort?: number): Promise<void>
       currentTelegramBot = await startTelegramBot({
         token,
         allowedUsers: allowedUsers.length > 0 ? allowedUsers : undefined,
-        onMessage: async (text, _ctx) => {
+        onMessage: async (text, ctx) => {
           console.log(`[Telegram] 메시지 수신: ${text}`);
-          return await runTelegramAgent(text, model, isOllama);
+          if (/^\/(wf|workflow)\b/.test(text)) {
+            return await runTelegramWorkflowCommand(text, model, isOllama, ctx);
+          }
+          return await runTelegramAgent(text, model, isOllama, ctx);
         },
       });
     },
@@ -1695,37 +1455,17 @@ async function runWebMode(config: Config, overridePort?: number): Promise<void>
       return scanChromeProfiles();
     },
     isExtensionConnected: () => {
-      return extClient !== null && extClient.readyState === 1; // WebSocket.OPEN = 1
+      return extensionBridge.isConnected();
     },
-    onWorkflowRun: async (workflow, send, profilePath) => {
+    onWorkflowRun: async (workflow, send, profilePath, inputs) => {
       console.log(`[WebClient] 워크플로우 실행: ${workflow.name} (프로필: ${profilePath || '기본'})`);
 
       // 설정에서 AI 확인
       const currentSettings = loadSettings();
 
       // AI 모델 설정
-      let taskModel = model;
-      let taskIsOllama = isOllama;
-      if (currentSettings.ai?.provider) {
-        const aiProvider = currentSettings.ai.provider;
-        const aiModelName = currentSettings.ai.model || "gemini-2.0-flash";
-        let aiOllamaUrl = currentSettings.ai.ollamaUrl || "http://localhost:11434";
-        if (!aiOllamaUrl.endsWith("/v1")) {
-          aiOllamaUrl = aiOllamaUrl.replace(/\/$/, "") + "/v1";
-        }
-        taskIsOllama = aiProvider === "ollama";
+      const { model: taskModel, isOllama: taskIsOllama } = resolveAiModel(currentSettings.ai, { model, isOllama });
 
-        try {
-          if (taskIsOllama) {
-            taskModel = createOllamaModel(aiModelName, aiOllamaUrl);
-          } else {
-            const fetchedModel = getModel(aiProvider as any, aiModelName as any);
-            if (fetchedModel) taskModel = fetchedModel;
-          }
-        } catch (e) {
-          // 기본 모델 사용
-        }
-      }
 
       // 워크플로우는 항상 CDP 모드로 실행
       browserMode = "cdp";
@@ -1749,98 +1489,29 @@ async function runWebMode(config: Config, overridePort?: number): Promise<void>
       }
 
       const page = await getPage();
-
-      // AI 에이전트로 단계 실행하는 함수
-      const runStepAgent = async (
-        prompt: string,
-        maxTurns: number,
-        onLog: (text: string) => void
-      ): Promise<{ success: boolean; result: string }> => {
-        const ctx: Context = {
-          systemPrompt: `You are a browser automation agent. You MUST complete tasks using browser tools.
-
-STRICT WORKFLOW - FOLLOW EXACTLY:
-1. browser_navigate to the URL
-2. browser_snapshot - READ THE OUTPUT CAREFULLY!
-3. FIND the element you need from snapshot output (look for links, buttons, text)
-4. browser_click using the EXACT selector from snapshot
-5. browser_snapshot again to see result
-6. Repeat until done, then report findings in Korean
-
-SNAPSHOT ANALYSIS:
-- Snapshot shows: [ref=X] ElementType "text" or [ref=X] link "text" [url]
-- Use ref=X as selector: {"selector": "[ref=X]"}
-- Or use text: {"selector": "text=주문"} for partial match
-- READ snapshot output! Don't guess!
-
-TOOLS:
-- browser_navigate: {"url": "..."} - Go to URL
-- browser_snapshot: {} - Get page elements (MUST DO FIRST!)
-- browser_click: {"selector": "[ref=X]"} - Click (use ref from snapshot)
-- browser_fill: {"selector": "...", "text": "..."} - Type text
-- browser_get_text: {"selector": ""} - Get all text from page
-
-NEVER refuse. NEVER apologize. Just DO IT.
-결과는 한국어로 보고하세요.`,
-          messages: [{ role: "user", content: prompt }],
-          tools: browserTools,
-        };
-
-        let lastResult = "";
-
-        for (let turn = 0; turn < maxTurns; turn++) {
-          try {
-            const streamOptions = taskIsOllama ? { apiKey: "ollama" } : undefined;
-            const s = streamSimple(taskModel, ctx, streamOptions);
-            for await (const _ of s) {}
-            const response = await s.result();
-            ctx.messages.push(response);
-
-            const toolCalls = response.content.filter((b) => b.type === "toolCall");
-
-            // 도구 호출이 없으면 완료
-            if (toolCalls.length === 0) {
-              const textBlocks = response.content.filter((b) => b.type === "text");
-              lastResult = textBlocks.map((b) => (b as any).text).join("\n");
-              return { success: true, result: lastResult || "완료" };
-            }
-
-            // 도구 실행
-            for (const call of toolCalls) {
-              const toolCall = call as any;
-              onLog(`[TOOL] ${toolCall.name}(${JSON.stringify(toolCall.arguments)})`);
-
-              try {
-                const toolResult = await executeBrowserTool(toolCall.name, toolCall.arguments || {});
-                onLog(`[OK] ${toolResult.text.slice(0, 100)}`);
-                ctx.messages.push({
-                  role: "toolResult",
-                  toolCallId: toolCall.id,
-                  toolName: toolCall.name,
-                  content: [{ type: "text", text: toolResult.text }],
-                  isError: false,
-                  timestamp: Date.now(),
-                } as any);
-              } catch (err) {
-                const errMsg = (err as Error).message;
-                onLog(`[ERROR] ${errMsg}`);
-                ctx.messages.push({
-                  role: "toolResult",
-                  toolCallId: toolCall.id,
-                  toolName: toolCall.name,
-                  content: [{ type: "text", text: `Error: ${errMsg}` }],
-                  isError: true,
-                  timestamp: Date.now(),
-                } as any);
-              }
-            }
-          } catch (error) {
-            return { success: false, result: (error as Error).message };
-          }
-        }
-
-        return { success: true, result: lastResult || "최대 턴 도달" };
+      await applyRouteRules(workflow);
+      if (workflow.session) {
+        await loadSession(workflow.session);
+        send({ type: "workflowLog", stepName: "system", logType: "info", message: `🍪 세션 불러옴: ${workflow.session}` });
+      }
+      const network = await startNetworkCapture();
+      const trace = await startTrace("workflow", workflow.name, taskModel.id);
+      const run = startRun("workflow", "web", workflow.name, taskModel.id, trace);
+
+      // 위험한 동작은 실행한 웹 UI에서 승인
+      const approve: ApprovalHandler = (request) => requestWebApproval(send, request);
+
+      // AI 에이전트로 단계 실행하는 함수 (단계끼리 예산 공유)
+      const agentOptions = {
+        model: taskModel,
+        isOllama: taskIsOllama,
+        tools: browserTools,
+        usage: createUsageTracker("workflow"),
+        approve,
+        urlGuard: createRunUrlGuard("workflow", workflow),
+        trace,
       };
+      const runStepAgent = createStepAgent({ ...agentOptions, backend: currentBackend(), policy: createPolicy(currentBackend()), network });
 
       // 워크플로우 실행
       const executor = new WorkflowExecutor(
@@ -1848,19 +1519,33 @@ NEVER refuse. NEVER apologize. Just DO IT.
         {
           page,
           runStepAgent,
+          runReplay: createReplayRunner(workflow, approve),
+          openParallelPool: createParallelPool(workflow, agentOptions, network),
         },
         (log: WorkflowLog) => {
+          trace?.log(log.type, log.message, { stepId: log.stepId, stepName: workflowLogLabel(log) });
+          run.log(`[${workflowLogLabel(log)}] ${log.message}`);
           send({
             type: "workflowLog",
             stepId: log.stepId,
             stepName: log.stepName,
+            iteration: log.iteration,
+            iterations: log.iterations,
             logType: log.type,
             message: log.message
           });
-        }
+        },
+        inputs
       );
 
-      const result = await executor.execute();
+      const { result, harPath } = await executeWorkflowRun(executor, workflow, { network, trace, run });
+      if (storeWorkflowRecording(workflow, result)) {
+        send({ type: "workflowLog", stepName: "system", logType: "info", message: "🎬 동작 기록 저장됨 (다음 실행부터 재생)" });
+      }
+      if (harPath) {
+        send({ type: "workflowLog", stepName: "system", logType: "info", message: `🌐 HAR 저장: ${harPath}` });
+      }
+      if (trace) send({ type: "trace", traceId: trace.id });
 
       send({
         type: "workflowResult",
@@ -1870,7 +1555,10 @@ NEVER refuse. NEVER apologize. Just DO IT.
         endTime: result.endTime,
         stepsExecuted: result.stepsExecuted,
         lastStepId: result.lastStepId,
-        error: result.error
+        error: result.error,
+        data: result.data,
+        outputs: result.outputs,
+        usage: result.usage
       });
     },
     onTask: async (taskId, mission, send, taskProfile) => {
@@ -1881,43 +1569,12 @@ NEVER refuse. NEVER apologize. Just DO IT.
       const selectedMode = currentSettings.browser?.mode || "cdp";
 
       // 웹 UI에서 설정한 AI 모델 사용 (있으면)
-      let taskModel = model;
-      let taskIsOllama = isOllama;
-      if (currentSettings.ai?.provider) {
-        const aiProvider = currentSettings.ai.provider;
-        const aiModelName = currentSettings.ai.model || "gemini-2.0-flash";
-        let aiOllamaUrl = currentSettings.ai.ollamaUrl || "http://localhost:11434";
-        // /v1 경로 확인 및 추가
-        if (!aiOllamaUrl.endsWith("/v1")) {
-          aiOllamaUrl = aiOllamaUrl.replace(/\/$/, "") + "/v1";
-        }
-        taskIsOllama = aiProvider === "ollama";
+      const { model: taskModel, isOllama: taskIsOllama } = resolveAiModel(
+        currentSettings.ai,
+        { model, isOllama },
+        (text) => send({ type: "log", text })
+      );
 
-        try {
-          if (taskIsOllama) {
-            taskModel = createOllamaModel(aiModelName, aiOllamaUrl);
-            send({ type: "log", text: `[AI] Ollama: ${aiModelName}` });
-          } else {
-            const fetchedModel = getModel(aiProvider as any, aiModelName as any);
-            if (!fetchedModel) {
-              throw new Error(`모델을 찾을 수 없음: ${aiProvider}/${aiModelName}`);
-            }
-            taskModel = fetchedModel;
-            send({ type: "log", text: `[AI] ${aiProvider}/${aiModelName}` });
-          }
-        } catch (e) {
-          send({ type: "log", text: `[AI] 모델 로드 실패: ${(e as Error).message}` });
-          // 기본 모델로 폴백
-          try {
-            taskModel = getModel("google", "gemini-2.0-flash");
-            taskIsOllama = false;
-            send({ type: "log", text: `[AI] 기본 모델 사용: google/gemini-2.0-flash` });
-          } catch {
-            send({ type: "error", text: "AI 모델을 로드할 수 없습니다. API 키를 확인하세요." });
-            return;
-          }
-        }
-      }
 
       // 작업에서 전달된 프로필 또는 설정의 프로필 사용
       const profilePath = taskProfile || currentSettings.browser?.selectedProfile;
@@ -1925,18 +1582,13 @@ NEVER refuse. NEVER apologize. Just DO IT.
       // 브라우저 시작
       if (selectedMode === "extension") {
         browserMode = "extension";
-        if (!extClient) {
+        if (!extensionBridge.isConnected()) {
           send({ type: "log", text: "[BROWSER] Extension 모드 시작 중..." });
           await startExtensionServer();
-          send({ type: "log", text: "[BROWSER] Extension 서버 시작됨 (ws://localhost:9876)" });
+          send({ type: "log", text: `[BROWSER] Extension 서버 시작됨 (${extensionBridge.url})` });
           send({ type: "log", text: "[BROWSER] Chrome에서 Pi-Browser 확장 프로그램을 연결하세요." });
           // Extension 연결 대기 (최대 15초)
-          const timeout = 15000;
-          const start = Date.now();
-          while (!extClient && Date.now() - start < timeout) {
-            await new Promise((r) => setTimeout(r, 500));
-          }
-          if (!extClient) {
+          if (!(await extensionBridge.waitForConnection(15000))) {
             send({ type: "error", text: "❌ Extension 연결 실패!" });
             send({ type: "log", text: "[ERROR] Chrome 확장 프로그램이 설치되지 않았거나 연결되지 않았습니다." });
             send({ type: "log", text: "[INFO] 해결 방법:" });
@@ -1972,126 +1624,77 @@ NEVER refuse. NEVER apologize. Just DO IT.
         }
       }
 
-      const ctx: Context = {
-        systemPrompt: `You are a browser automation agent. You MUST complete tasks using browser tools.
-
-STRICT WORKFLOW - FOLLOW EXACTLY:
-1. browser_navigate to the URL
-2. browser_snapshot - READ THE OUTPUT CAREFULLY!
-3. FIND the element you need from snapshot output (look for links, buttons, text)
-4. browser_click using the EXACT selector from snapshot
-5. browser_snapshot again to see result
-6. Repeat until done, then report findings in Korean
-
-SNAPSHOT ANALYSIS:
-- Snapshot shows: [ref=X] ElementType "text" or [ref=X] link "text" [url]
-- Use ref=X as selector: {"selector": "[ref=X]"}
-- Or use text: {"selector": "text=주문"} for partial match
-- READ snapshot output! Don't guess!
-
-TOOLS:
-- get_current_time: {} - Get current date/time
-- browser_navigate: {"url": "..."} - Go to URL
-- browser_snapshot: {} - Get page elements (MUST DO FIRST!)
-- browser_click: {"selector": "[ref=X]"} - Click (use ref from snapshot)
-- browser_fill: {"selector": "...", "text": "..."} - Type text
-- browser_get_text: {"selector": ""} - Get all text from page
-
-NEVER refuse. NEVER apologize. Just DO IT.
-결과는 한국어로 보고하세요.`,
-        messages: [{ role: "user", content: mission }],
-        tools: browserTools,
-      };
-
-      const maxTurns = 20;
+      if (browserMode === "cdp") await applyRouteRules();
+      const network = await startNetworkCapture();
+      if (network) send({ type: "log", text: "[NETWORK] 요청/응답 기록 중 (HAR)" });
+      const trace = await startTrace("web", mission, taskModel.id);
+      const run = startRun("task", "web", mission, taskModel.id, trace);
 
-      for (let turn = 0; turn < maxTurns; turn++) {
-        // 중지 체크
-        if (stoppedTasks.has(taskId)) {
-          send({ type: "log", text: "[STOPPED] 작업이 중지되었습니다." });
-          send({ type: "status", status: "stopped" });
-          stoppedTasks.delete(taskId);
-          return;
-        }
-
-        let response: AssistantMessage;
-
-        try {
-          send({ type: "log", text: `[DEBUG] AI 호출 시작: ${taskModel.id} @ ${taskModel.baseUrl}` });
-          const streamOptions = taskIsOllama ? { apiKey: "ollama" } : undefined;
-          const s = streamSimple(taskModel, ctx, streamOptions);
-          for await (const _ of s) {}
-          response = await s.result();
-          send({ type: "log", text: `[DEBUG] AI 호출 완료` });
-        } catch (error) {
-          const err = error as Error;
-          send({ type: "log", text: `[ERROR] AI 호출 실패: ${err.message}` });
-          send({ type: "log", text: `[ERROR] 스택: ${err.stack?.split('\n').slice(0, 3).join(' | ')}` });
-          send({ type: "error", text: err.message });
-          return;
+      const runner = new AgentRunner(
+        {
+          mission,
+          model: taskModel,
+          isOllama: taskIsOllama,
+          tools: browserTools,
+          backend: currentBackend(),
+          maxTurns: 20,
+          shouldStop: () => stoppedTasks.has(taskId),
+          usage: createUsageTracker("web"),
+          policy: createPolicy(currentBackend()),
+          approve: (request) => {
+            send({ type: "log", text: `[APPROVAL] ${request.reason} - 승인 대기 중` });
+            return requestWebApproval(send, request);
+          },
+          urlGuard: createRunUrlGuard("web"),
+          network,
+          trace,
+        },
+        (event) => {
+          logRunEvent(run, event);
+          if (event.type === "turn_start") {
+            send({ type: "log", text: `[AI] Turn ${event.turn}/${event.maxTurns} - ${taskModel.id}` });
+          } else if (event.type === "tool_start") {
+            send({ type: "log", text: `[TOOL] ${event.name}(${JSON.stringify(event.args)})` });
+          } else if (event.type === "tool_result") {
+            const firstLine = event.result.text.split("\n")[0];
+            send({ type: "log", text: event.isError ? `[ERROR] ${firstLine}` : `[SUCCESS] ${firstLine}` });
+          } else if (event.type === "usage") {
+            send({ type: "usage", usage: event.usage });
+          } else if (event.type === "context_compacted") {
+            send({ type: "log", text: `[CONTEXT] 이전 ${event.summarized}개 메시지 요약 (~${event.before} → ~${event.after} 토큰)` });
+          }
         }
+      );
 
-        ctx.messages.push(response);
-
-        // 디버그: AI 응답 내용 로그
-        const contentTypes = response.content.map((b) => b.type).join(", ");
-        send({ type: "log", text: `[DEBUG] AI 응답 타입: [${contentTypes}]` });
+      const result = await runner.run();
 
-        const toolCalls = response.content.filter((b) => b.type === "toolCall");
+      const harPath = await saveNetworkCapture(network, `web-${taskId}`);
+      if (harPath) send({ type: "log", text: `[NETWORK] HAR 저장: ${harPath}` });
+      await finishTrace(trace, agentTraceOutcome(result));
+      run.finish(agentTraceOutcome(result));
+      if (trace) send({ type: "trace", traceId: trace.id });
 
-        if (toolCalls.length === 0) {
-          const textContent = response.content.find((b) => b.type === "text");
-          if (textContent && textContent.type === "text") {
-            // 디버그: 텍스트 응답 내용
-            send({ type: "log", text: `[DEBUG] AI 텍스트: ${textContent.text.slice(0, 200)}...` });
-            send({ type: "result", text: textContent.text });
-            // Notion에 저장
-            saveResultToNotion(taskId, mission, textContent.text).then((r) => {
-              if (r.success) send({ type: "log", text: `[NOTION] ${r.message}` });
-            });
-          } else {
-            send({ type: "log", text: "[DEBUG] 도구 호출도 텍스트도 없음" });
-            send({ type: "result", text: "✅ 완료" });
-            saveResultToNotion(taskId, mission, "✅ 완료").then((r) => {
-              if (r.success) send({ type: "log", text: `[NOTION] ${r.message}` });
-            });
-          }
-          return;
-        }
-
-        // 도구 실행
-        for (const call of toolCalls) {
-          send({ type: "log", text: `[TOOL] ${call.name}(${JSON.stringify(call.arguments)})` });
+      if (result.status === "stopped") {
+        send({ type: "log", text: "[STOPPED] 작업이 중지되었습니다." });
+        send({ type: "status", status: "stopped" });
+        stoppedTasks.delete(taskId);
+        return;
+      }
 
-          try {
-            const result = await executeBrowserTool(call.name, call.arguments as Record<string, unknown>);
-            send({ type: "log", text: `[SUCCESS] ${result.text.split("\\n")[0]}` });
-
-            ctx.messages.push({
-              role: "toolResult",
-              toolCallId: call.id,
-              toolName: call.name,
-              content: [{ type: "text", text: result.text }],
-              isError: false,
-              timestamp: Date.now(),
-            });
-          } catch (error) {
-            const errMsg = (error as Error).message;
-            send({ type: "log", text: `[ERROR] ${errMsg}` });
-
-            ctx.messages.push({
-              role: "toolResult",
-              toolCallId: call.id,
-              toolName: call.name,
-              content: [{ type: "text", text: `Error: ${errMsg}` }],
-              isError: true,
-              timestamp: Date.now(),
-            });
-          }
-        }
+      if (result.status === "error") {
+        send({ type: "log", text: `[ERROR] AI 호출 실패: ${result.error}` });
+        send({ type: "error", text: result.error });
+        return;
       }
 
-      send({ type: "result", text: "⚠️ 최대 턴 초과" });
+      const finalText = result.status === "max_turns" ? "⚠️ 최대 턴 초과" : result.text || "✅ 완료";
+      send({ type: "result", text: finalText });
+      if (result.status === "completed") {
+        // Notion에 저장
+        saveResultToNotion(taskId, mission, finalText).then((r) => {
+          if (r.success) send({ type: "log", text: `[NOTION] ${r.message}` });
+        });
+      }
     },
   });
 
@@ -2102,6 +1705,8 @@ NEVER refuse. NEVER apologize. Just DO IT.
     onLog: (msg) => console.log(msg),
     onWorkflowRun: async (workflow) => {
       console.log(`[Scheduler] 스케줄 실행: ${workflow.name}`);
+      // 입력값이 잘못되었으면 브라우저를 열기 전에 실패 (스케줄러가 오류로 기록)
+      const inputs = resolveWorkflowInputs(workflow, workflow.schedule?.inputs);
 
       // CDP 모드로 브라우저 시작
       browserMode = "cdp";
@@ -2116,69 +1721,41 @@ NEVER refuse. NEVER apologize. Just DO IT.
       }
 
       const page = await getPage();
+      await applyRouteRules(workflow);
+      if (workflow.session) await loadSession(workflow.session);
+      const network = await startNetworkCapture();
 
       // AI 모델 설정
-      let taskModel = model;
-      let taskIsOllama = isOllama;
-      if (currentSettings.ai?.provider) {
-        const aiProvider = currentSettings.ai.provider;
-        const aiModelName = currentSettings.ai.model || "gemini-2.0-flash";
-        let aiOllamaUrl = currentSettings.ai.ollamaUrl || "http://localhost:11434";
-        if (!aiOllamaUrl.endsWith("/v1")) aiOllamaUrl = aiOllamaUrl.replace(/\/$/, "") + "/v1";
-        taskIsOllama = aiProvider === "ollama";
-        try {
-          if (taskIsOllama) {
-            taskModel = createOllamaModel(aiModelName, aiOllamaUrl);
-          } else {
-            const fetchedModel = getModel(aiProvider as any, aiModelName as any);
-            if (fetchedModel) taskModel = fetchedModel;
-          }
-        } catch (e) { /* 기본 모델 사용 */ }
-      }
+      const { model: taskModel, isOllama: taskIsOllama } = resolveAiModel(currentSettings.ai, { model, isOllama });
+      const trace = await startTrace("workflow", workflow.name, taskModel.id);
+      const run = startRun("workflow", "scheduler", workflow.name, taskModel.id, trace);
 
-      const runStepAgent = async (prompt: string, maxTurns: number, onLog: (t: string) => void) => {
-        const ctx: Context = {
-          systemPrompt: `You are a browser automation agent. Complete the task fully using browser tools.
-TOOLS: browser_navigate, browser_snapshot, browser_fill, browser_click, browser_press, browser_get_text, browser_scroll, browser_wait
-After completing, respond with "완료: [summary]".`,
-          messages: [{ role: "user", content: prompt }],
-          tools: browserTools,
-        };
-        let lastResult = "";
-        for (let turn = 0; turn < maxTurns; turn++) {
-          try {
-            const s = streamSimple(taskModel, ctx, taskIsOllama ? { apiKey: "ollama" } : undefined);
-            for await (const _ of s) {}
-            const response = await s.result();
-            ctx.messages.push(response);
-            const toolCalls = response.content.filter((b) => b.type === "toolCall");
-            if (toolCalls.length === 0) {
-              const textBlocks = response.content.filter((b) => b.type === "text");
-              lastResult = textBlocks.map((b) => (b as any).text).join("\n");
-              return { success: true, result: lastResult || "완료" };
-            }
-            for (const call of toolCalls) {
-              const toolCall = call as any;
-              onLog(`[TOOL] ${toolCall.name}`);
-              try {
-                const toolResult = await executeBrowserTool(toolCall.name, toolCall.arguments || {});
-                ctx.messages.push({ role: "toolResult", toolCallId: toolCall.id, toolName: toolCall.name, content: [{ type: "text", text: toolResult.text }], isError: false, timestamp: Date.now() } as any);
-              } catch (err) {
-                ctx.messages.push({ role: "toolResult", toolCallId: toolCall.id, toolName: toolCall.name, content: [{ type: "text", text: `Error: ${(err as Error).message}` }], isError: true, timestamp: Date.now() } as any);
-              }
-            }
-          } catch (error) { return { success: false, result: (error as Error).message }; }
-        }
-        return { success: true, result: lastResult || "완료" };
+      // 예약 실행은 열려 있는 웹 UI에서 승인 (없으면 거부)
+      const approve: ApprovalHandler = (request) => requestWebApproval(broadcastToClients, request);
+
+      const agentOptions = {
+        model: taskModel,
+        isOllama: taskIsOllama,
+        tools: browserTools,
+        usage: createUsageTracker("workflow"),
+        approve,
+        urlGuard: createRunUrlGuard("workflow", workflow),
+        trace,
       };
+      const runStepAgent = createStepAgent({ ...agentOptions, backend: currentBackend(), policy: createPolicy(currentBackend()), network });
 
-      const executor = new WorkflowExecutor(workflow, { page, runStepAgent }, (log) => {
-        console.log(`[${log.stepName}] ${log.message}`);
-        broadcastToClients({ type: "workflowLog", stepId: log.stepId, stepName: log.stepName, logType: log.type, message: log.message });
-      });
+      const runReplay = createReplayRunner(workflow, approve);
+      const executor = new WorkflowExecutor(workflow, { page, runStepAgent, runReplay, openParallelPool: createParallelPool(workflow, agentOptions, network) }, (log) => {
+        trace?.log(log.type, log.message, { stepId: log.stepId, stepName: workflowLogLabel(log) });
+        run.log(`[${workflowLogLabel(log)}] ${log.message}`);
+        console.log(`[${workflowLogLabel(log)}] ${log.message}`);
+        broadcastToClients({ type: "workflowLog", stepId: log.stepId, stepName: log.stepName, iteration: log.iteration, iterations: log.iterations, logType: log.type, message: log.message });
+      }, inputs);
 
-      const result = await executor.execute();
-      broadcastToClients({ type: "workflowResult", success: result.success, stepsExecuted: result.stepsExecuted, error: result.error, startTime: result.startTime, endTime: result.endTime });
+      const { result, harPath } = await executeWorkflowRun(executor, workflow, { network, trace, run });
+      storeWorkflowRecording(workflow, result);
+      if (harPath) console.log(`[Scheduler] HAR 저장: ${harPath}`);
+      broadcastToClients({ type: "workflowResult", success: result.success, stepsExecuted: result.stepsExecuted, error: result.error, startTime: result.startTime, endTime: result.endTime, data: result.data, outputs: result.outputs, usage: result.usage });
     }
   });
 
@@ -2236,14 +1813,18 @@ async function runTelegramMode(config: Config): Promise<void> {
       }
 
       if (text === "/help") {
-        return `📖 <b>사용법</b>\n\n자연어로 명령을 보내세요:\n• 쿠팡에서 아이폰 가격 알려줘\n• 네이버 메일 확인해줘\n\n<b>모델:</b> ${config.provider}/${config.model}`;
+        return `📖 <b>사용법</b>\n\n자연어로 명령을 보내세요:\n• 쿠팡에서 아이폰 가격 알려줘\n• 네이버 메일 확인해줘\n\n<b>워크플로우:</b> /wf (목록), /wf run &lt;id&gt; --이름=값\n\n<b>모델:</b> ${config.provider}/${config.model}`;
+      }
+
+      if (/^\/(wf|workflow)\b/.test(text)) {
+        return await runTelegramWorkflowCommand(text, model, isOllama, ctx);
       }
 
       // 진행 중 메시지
       await ctx.replyTo("🔄 작업 중...");
 
       // 브라우저 에이전트 실행
-      const result = await runTelegramAgent(text, model, isOllama);
+      const result = await runTelegramAgent(text, model, isOllama, ctx);
       return result;
     },
   });
@@ -2264,7 +1845,12 @@ async function runTelegramMode(config: Config): Promise<void> {
 let telegramTaskCounter = 0;
 
 // 텔레그램용 에이전트 실행 (결과 문자열 반환)
-async function runTelegramAgent(mission: string, defaultModel: Model, defaultIsOllama: boolean): Promise<string> {
+async function runTelegramAgent(
+  mission: string,
+  defaultModel: Model<Api>,
+  defaultIsOllama: boolean,
+  ctx: MessageContext
+): Promise<string> {
   // 설정에서 브라우저 모드와 텔레그램 프로필 확인
   const currentSettings = loadSettings();
   const selectedMode = currentSettings.browser?.mode || "cdp";
@@ -2272,30 +1858,11 @@ async function runTelegramAgent(mission: string, defaultModel: Model, defaultIsO
   const telegramProfilePath = currentSettings.telegram?.profile || currentSettings.browser?.selectedProfile;
 
   // 웹 UI에서 설정한 AI 모델 사용 (있으면)
-  let model = defaultModel;
-  let isOllama = defaultIsOllama;
-  if (currentSettings.ai?.provider) {
-    const aiProvider = currentSettings.ai.provider;
-    const aiModelName = currentSettings.ai.model || "gemini-2.0-flash";
-    let aiOllamaUrl = currentSettings.ai.ollamaUrl || "http://localhost:11434";
-    // /v1 경로 확인 및 추가
-    if (!aiOllamaUrl.endsWith("/v1")) {
-      aiOllamaUrl = aiOllamaUrl.replace(/\/$/, "") + "/v1";
-    }
-    isOllama = aiProvider === "ollama";
-
-    try {
-      if (isOllama) {
-        model = createOllamaModel(aiModelName, aiOllamaUrl);
-        console.log(`[Telegram] AI: Ollama ${aiModelName}`);
-      } else {
-        model = getModel(aiProvider as any, aiModelName as any);
-        console.log(`[Telegram] AI: ${aiProvider}/${aiModelName}`);
-      }
-    } catch (e) {
-      console.log(`[Telegram] 기본 모델 사용: ${(e as Error).message}`);
-    }
-  }
+  const { model, isOllama } = resolveAiModel(
+    currentSettings.ai,
+    { model: defaultModel, isOllama: defaultIsOllama },
+    (text) => console.log(`[Telegram] ${text}`)
+  );
 
   // 프로필 정보 조회
   const profiles = scanChromeProfiles();
@@ -2318,18 +1885,13 @@ async function runTelegramAgent(mission: string, defaultModel: Model, defaultIsO
   // 브라우저 시작
   if (selectedMode === "extension") {
     browserMode = "extension";
-    if (!extClient) {
+    if (!extensionBridge.isConnected()) {
       broadcast({ type: "log", text: "[BROWSER] Extension 모드 시작 중..." });
       await startExtensionServer();
-      broadcast({ type: "log", text: "[BROWSER] Extension 서버 시작됨 (ws://localhost:9876)" });
+      broadcast({ type: "log", text: `[BROWSER] Extension 서버 시작됨 (${extensionBridge.url})` });
       broadcast({ type: "log", text: "[BROWSER] Chrome에서 Pi-Browser 확장 프로그램을 연결하세요." });
       // Extension 연결 대기 (최대 15초)
-      const timeout = 15000;
-      const start = Date.now();
-      while (!extClient && Date.now() - start < timeout) {
-        await new Promise((r) => setTimeout(r, 500));
-      }
-      if (!extClient) {
+      if (!(await extensionBridge.waitForConnection(15000))) {
         broadcast({ type: "error", text: "❌ Extension 연결 실패!" });
         broadcast({ type: "log", text: "[ERROR] Chrome 확장 프로그램이 설치되지 않았습니다." });
         return "❌ Extension 연결 실패!\n\n해결 방법:\n1. 설정에서 'CDP 모드'로 변경 (확장 프로그램 불필요)\n2. 또는 Chrome에 확장 프로그램 설치:\n   - chrome://extensions\n   - 개발자 모드 활성화\n   - extension 폴더 드래그&드롭";
@@ -2355,110 +1917,173 @@ async function runTelegramAgent(mission: string, defaultModel: Model, defaultIsO
     }
   }
 
-  const ctx: Context = {
-    systemPrompt: `You are a browser automation agent with FULL browser access.
-
-CRITICAL RULES:
-1. NEVER say "I can't" or "I'm sorry" - just DO IT using the browser!
-2. You have access to a REAL browser with logged-in sessions. Just navigate and use it!
-3. Start with browser_navigate, then browser_snapshot to see the page.
-4. The browser has the user's cookies/logins. Just go to the website!
-
-TOOLS:
-- get_current_time: {} - Get current date/time
-- browser_navigate: {"url": "..."} - Go to any URL directly
-- browser_snapshot: {} - See page elements (ALWAYS do this after navigate!)
-- browser_fill: {"selector": "...", "text": "..."} - Type text
-- browser_click: {"selector": "..."} - Click element
-- browser_press: {"key": "Enter"} - Press key
-- browser_get_text: {"selector": ""} - Get page text
+  const network = await startNetworkCapture();
+  if (network) broadcast({ type: "log", text: "[NETWORK] 요청/응답 기록 중 (HAR)" });
+  const trace = await startTrace("telegram", mission, model.id);
+  const run = startRun("task", "telegram", mission, model.id, trace);
+  const runner = new AgentRunner(
+    {
+      mission,
+      model,
+      isOllama,
+      tools: browserTools,
+      backend: currentBackend(),
+      maxTurns: 20,
+      usage: createUsageTracker("telegram"),
+      policy: createPolicy(currentBackend()),
+      approve: (request) => {
+        broadcast({ type: "log", text: `[APPROVAL] ${request.reason} - 텔레그램에서 승인 대기 중` });
+        return ctx.confirm(formatApprovalRequest(request));
+      },
+      urlGuard: createRunUrlGuard("telegram"),
+      network,
+      trace,
+    },
+    (event) => {
+      logRunEvent(run, event);
+      if (event.type === "turn_start") {
+        console.log(`[Telegram] Turn ${event.turn}/${event.maxTurns} - AI 호출 중...`);
+        broadcast({ type: "log", text: `[AI] Turn ${event.turn}/${event.maxTurns}` });
+      } else if (event.type === "tool_start") {
+        console.log(`[Telegram] 도구: ${event.name}`);
+        broadcast({ type: "log", text: `[TOOL] ${event.name}` });
+      } else if (event.type === "tool_result") {
+        if (event.isError) {
+          console.log(`[Telegram] 에러: ${event.result.text}`);
+          broadcast({ type: "log", text: `[ERROR] ${event.result.text}` });
+        } else {
+          console.log(`[Telegram] 결과: ${event.result.text.substring(0, 80)}...`);
+          broadcast({ type: "log", text: `[SUCCESS] ${event.result.text.split("\n")[0].substring(0, 80)}` });
+        }
+      } else if (event.type === "usage") {
+        broadcast({ type: "usage", usage: event.usage });
+      }
+    }
+  );
 
-WORKFLOW: navigate → snapshot → interact → get_text → report result in Korean.
-DO NOT refuse. DO NOT apologize. Just USE THE BROWSER.`,
-    messages: [{ role: "user", content: mission }],
-    tools: browserTools,
-  };
+  const result = await runner.run();
+  const harPath = await saveNetworkCapture(network, `telegram-${taskId}`);
+  if (harPath) broadcast({ type: "log", text: `[NETWORK] HAR 저장: ${harPath}` });
+  await finishTrace(trace, agentTraceOutcome(result));
+  run.finish(agentTraceOutcome(result));
+  if (trace) broadcast({ type: "trace", traceId: trace.id });
+
+  if (result.status === "error") {
+    console.log(`[Telegram] AI 에러:`, result.error);
+    broadcast({ type: "error", text: result.error });
+    return `❌ AI 에러: ${result.error}`;
+  }
 
-  const maxTurns = 20;
-  let finalResult = "";
+  const finalResult = result.text || "✅ 작업 완료";
+  console.log(`[Telegram] 완료:`, finalResult.substring(0, 100), `(${formatUsage(result.usage)})`);
+  broadcast({ type: "result", text: finalResult });
+  // Notion에 저장
+  saveResultToNotion(taskId, mission, finalResult).then((r) => {
+    if (r.success) broadcast({ type: "log", text: `[NOTION] ${r.message}` });
+  });
+  return finalResult;
+}
 
-  for (let turn = 0; turn < maxTurns; turn++) {
-    let response: AssistantMessage;
+// 텔레그램 HTML 메시지에 넣을 글자
+function escapeTelegramHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
 
-    console.log(`[Telegram] Turn ${turn + 1}/${maxTurns} - AI 호출 중...`);
-    broadcast({ type: "log", text: `[AI] Turn ${turn + 1}/${maxTurns}` });
+// 텔레그램 /wf (목록), /wf run <id> --이름=값 (워크플로우 실행, 결과 문자열 반환)
+async function runTelegramWorkflowCommand(
+  text: string,
+  defaultModel: Model<Api>,
+  defaultIsOllama: boolean,
+  ctx: MessageContext
+): Promise<string> {
+  const args = text.replace(/^\/(wf|workflow)\b/, "").trim();
+
+  if (!/^run\b/.test(args)) {
+    const workflows = loadWorkflows();
+    if (workflows.length === 0) {
+      return "저장된 워크플로우가 없습니다. 웹 UI에서 만드세요.";
+    }
+    const lines = workflows.map((wf) => {
+      const usage = wf.inputs?.length ? `\n    ${escapeTelegramHtml(formatWorkflowInputs(wf))}` : "";
+      return `• <code>${wf.id}</code> ${escapeTelegramHtml(wf.name)}${usage}`;
+    });
+    return `📋 <b>워크플로우</b>\n\n${lines.join("\n")}\n\n실행: /wf run &lt;id&gt; [--이름=값 ...]`;
+  }
 
-    try {
-      const streamOptions = isOllama ? { apiKey: "ollama" } : undefined;
-      const s = streamSimple(model, ctx, streamOptions);
-      for await (const _ of s) {
-        // 스트리밍 무시
-      }
-      response = await s.result();
-    } catch (error) {
-      console.log(`[Telegram] AI 에러:`, (error as Error).message);
-      broadcast({ type: "error", text: (error as Error).message });
-      return `❌ AI 에러: ${(error as Error).message}`;
-    }
+  const { rest, values } = parseWorkflowInputArgs(args.replace(/^run\b/, ""));
+  const workflow = loadWorkflow(rest);
+  if (!workflow) {
+    return `❌ 워크플로우를 찾을 수 없습니다: ${escapeTelegramHtml(rest)}\n/wf 로 목록을 확인하세요.`;
+  }
 
-    ctx.messages.push(response);
+  let inputs: WorkflowInputValues;
+  try {
+    inputs = resolveWorkflowInputs(workflow, values);
+  } catch (error) {
+    return `❌ ${escapeTelegramHtml((error as Error).message)}\n\n사용법: /wf run ${workflow.id} ${escapeTelegramHtml(formatWorkflowInputs(workflow))}`;
+  }
 
-    const toolCalls = response.content.filter((b) => b.type === "toolCall");
+  const currentSettings = loadSettings();
+  const { model, isOllama } = resolveAiModel(
+    currentSettings.ai,
+    { model: defaultModel, isOllama: defaultIsOllama },
+    (message) => console.log(`[Telegram] ${message}`)
+  );
+  const telegramProfilePath = currentSettings.telegram?.profile || currentSettings.browser?.selectedProfile;
+  const telegramProfile = telegramProfilePath ? scanChromeProfiles().find(p => p.path === telegramProfilePath) : null;
 
-    if (toolCalls.length === 0) {
-      // 텍스트 응답
-      const textContent = response.content.find((b) => b.type === "text");
-      if (textContent && textContent.type === "text") {
-        finalResult = textContent.text;
-        console.log(`[Telegram] 완료:`, finalResult.substring(0, 100));
-        broadcast({ type: "result", text: finalResult });
-        // Notion에 저장
-        saveResultToNotion(taskId, mission, finalResult).then((r) => {
-          if (r.success) broadcast({ type: "log", text: `[NOTION] ${r.message}` });
-        });
-      }
-      break;
-    }
+  await ctx.replyTo(`🔄 워크플로우 실행 중: ${escapeTelegramHtml(workflow.name)}`);
 
-    // 도구 실행
-    for (const call of toolCalls) {
-      console.log(`[Telegram] 도구: ${call.name}`);
-      broadcast({ type: "log", text: `[TOOL] ${call.name}` });
-      try {
-        const result = await executeBrowserTool(call.name, call.arguments as Record<string, unknown>);
-        console.log(`[Telegram] 결과: ${result.text.substring(0, 80)}...`);
-        broadcast({ type: "log", text: `[SUCCESS] ${result.text.split("\\n")[0].substring(0, 80)}` });
-
-        ctx.messages.push({
-          role: "toolResult",
-          toolCallId: call.id,
-          toolName: call.name,
-          content: [{ type: "text", text: result.text }],
-          isError: false,
-          timestamp: Date.now(),
-        });
-      } catch (error) {
-        console.log(`[Telegram] 에러: ${(error as Error).message}`);
-        broadcast({ type: "log", text: `[ERROR] ${(error as Error).message}` });
-        ctx.messages.push({
-          role: "toolResult",
-          toolCallId: call.id,
-          toolName: call.name,
-          content: [{ type: "text", text: `Error: ${(error as Error).message}` }],
-          isError: true,
-          timestamp: Date.now(),
-        });
-      }
-    }
+  // 워크플로우는 항상 CDP 모드로 실행
+  browserMode = "cdp";
+  if (browser && telegramProfile && selectedProfile?.path !== telegramProfile.path) {
+    await stopBrowser();
+  }
+  if (!browser) {
+    if (telegramProfile) selectedProfile = telegramProfile;
+    await startBrowser();
   }
 
-  if (!finalResult) {
-    broadcast({ type: "result", text: "✅ 작업 완료" });
-    saveResultToNotion(taskId, mission, "✅ 작업 완료").then((r) => {
-      if (r.success) broadcast({ type: "log", text: `[NOTION] ${r.message}` });
-    });
+  const page = await getPage();
+  await applyRouteRules(workflow);
+  if (workflow.session) await loadSession(workflow.session);
+  const network = await startNetworkCapture();
+  const trace = await startTrace("workflow", workflow.name, model.id);
+  const run = startRun("workflow", "telegram", workflow.name, model.id, trace);
+
+  const approve: ApprovalHandler = (request) => ctx.confirm(formatApprovalRequest(request));
+  const agentOptions = {
+    model,
+    isOllama,
+    tools: browserTools,
+    usage: createUsageTracker("workflow"),
+    approve,
+    urlGuard: createRunUrlGuard("workflow", workflow),
+    trace,
+  };
+  const runStepAgent = createStepAgent({ ...agentOptions, backend: currentBackend(), policy: createPolicy(currentBackend()), network });
+
+  const executor = new WorkflowExecutor(workflow, {
+    page,
+    runStepAgent,
+    runReplay: createReplayRunner(workflow, approve),
+    openParallelPool: createParallelPool(workflow, agentOptions, network),
+  }, (log) => {
+    trace?.log(log.type, log.message, { stepId: log.stepId, stepName: workflowLogLabel(log) });
+    run.log(`[${workflowLogLabel(log)}] ${log.message}`);
+    console.log(`[Telegram] [${workflowLogLabel(log)}] ${log.message}`);
+    broadcastToClients({ type: "workflowLog", stepId: log.stepId, stepName: log.stepName, iteration: log.iteration, iterations: log.iterations, logType: log.type, message: log.message });
+  }, inputs);
+
+  const { result } = await executeWorkflowRun(executor, workflow, { network, trace, run });
+  storeWorkflowRecording(workflow, result);
+
+  if (!result.success) {
+    return `❌ 실패: ${escapeTelegramHtml(result.error || "알 수 없는 오류")}`;
   }
-  return finalResult || "✅ 작업 완료";
+  const seconds = ((result.endTime - result.startTime) / 1000).toFixed(1);
+  const data = result.data !== undefined ? `\n\n<pre>${escapeTelegramHtml(JSON.stringify(result.data, null, 2))}</pre>` : "";
+  return `✅ 완료: ${escapeTelegramHtml(workflow.name)} (${result.stepsExecuted}단계, ${seconds}초)${data}`;
 }
 
 function printModels() {
@@ -2488,12 +2113,224 @@ function printModels() {
   console.log();
 }
 
+// 기간 합계와 provider/model별 사용량 출력
+function printUsageSummary(title: string, summary: UsageSummary, limitUsd?: number) {
+  const limit = limitUsd !== undefined ? ` / 예산 $${limitUsd}` : "";
+  console.log(`\n${c.yellow}${title}${c.reset} ${formatUsage(summary)}${limit} ${c.dim}(${summary.calls}회 호출)${c.reset}`);
+
+  const rows = Object.entries(summary.byModel).sort((a, b) => b[1].cost - a[1].cost);
+  for (const [model, totals] of rows) {
+    console.log(`  - ${model}: ${formatUsage(totals)} ${c.dim}(${totals.calls}회)${c.reset}`);
+  }
+}
+
+// /usage - 오늘/이번 달 토큰 사용량과 비용 (~/.pi-browser/usage.jsonl)
+function printUsage() {
+  const budget = loadSettings().usage?.budget ?? {};
+  const monthEntries = readUsageLog(startOfMonth());
+  const today = startOfDay();
+
+  console.log(`\n${c.cyan}💰 사용량${c.reset}`);
+  printUsageSummary("오늘", summarizeUsageLog(monthEntries.filter((e) => e.timestamp >= today)), budget.dailyUsd);
+  printUsageSummary("이번 달", summarizeUsageLog(monthEntries), budget.monthlyUsd);
+  if (budget.perRunUsd !== undefined) {
+    console.log(`\n${c.dim}실행당 예산: $${budget.perRunUsd}${c.reset}`);
+  }
+  console.log();
+}
+
+/**
+ * 화면에 입력이 보이지 않는 질문 (비밀 값 입력용)
+ */
+function promptHidden(question: string): Promise<string> {
+  const rl = interactiveRl ?? readline.createInterface({ input: process.stdin, output: process.stdout });
+  const output = rl as unknown as { _writeToOutput: (text: string) => void };
+  const write = output._writeToOutput;
+
+  return new Promise((resolve) => {
+    rl.question(question, (answer) => {
+      output._writeToOutput = write;
+      process.stdout.write("\n");
+      if (rl !== interactiveRl) rl.close();
+      resolve(answer);
+    });
+    // 질문 문구만 출력하고 이후 입력은 숨김
+    output._writeToOutput = (text: string) => {
+      if (text.includes(question)) write.call(rl, question);
+    };
+  });
+}
+
+// /secret set|list|rm - 암호화된 비밀 값 관리 (미션에서 {{secret:이름}}으로 사용)
+async function runSecretCommand(words: string[]) {
+  try {
+    await manageSecrets(words);
+  } catch (error) {
+    console.log(`${c.red}❌ ${(error as Error).message}${c.reset}\n`);
+  }
+}
+
+async function manageSecrets(words: string[]) {
+  const [action, name, ...rest] = words;
+  const store = getSecretStore();
+
+  if (action === "list" || action === "ls" || !action) {
+    const names = store.list();
+    console.log(`\n${c.cyan}🔐 비밀 값 (${names.length}개)${c.reset}`);
+    for (const secretName of names) {
+      console.log(`  - ${secretName} ${c.dim}→ {{secret:${secretName}}}${c.reset}`);
+    }
+    console.log();
+    return;
+  }
+
+  if (action === "set" && name) {
+    if (!isValidSecretName(name)) {
+      console.log(`${c.red}이름은 영문, 숫자, _ . - 만 사용할 수 있습니다.${c.reset}\n`);
+      return;
+    }
+    // 값을 인자로 주면 셸 기록에 남으므로 입력받는 쪽을 권장
+    const value = rest.length > 0 ? rest.join(" ") : await promptHidden(`${name} 값 (입력이 표시되지 않음): `);
+    if (!value) {
+      console.log(`${c.yellow}값이 비어 있어 저장하지 않았습니다.${c.reset}\n`);
+      return;
+    }
+    store.set(name, value);
+    console.log(`${c.green}✓ 저장됨: {{secret:${name}}}${c.reset}\n`);
+    return;
+  }
+
+  if ((action === "rm" || action === "remove" || action === "delete") && name) {
+    console.log(store.remove(name) ? `${c.green}✓ 삭제됨: ${name}${c.reset}\n` : `${c.yellow}없는 이름입니다: ${name}${c.reset}\n`);
+    return;
+  }
+
+  console.log(`${c.red}사용법: /secret set <이름> [값] | /secret list | /secret rm <이름>${c.reset}\n`);
+}
+
+// /totp add|list|rm|code - 2단계 인증(TOTP) 시드 관리 (미션에서 {{totp:이름}}으로 사용)
+async function runTotpCommand(words: string[]) {
+  try {
+    await manageTotpSeeds(words);
+  } catch (error) {
+    console.log(`${c.red}❌ ${(error as Error).message}${c.reset}\n`);
+  }
+}
+
+async function manageTotpSeeds(words: string[]) {
+  const [action, name, ...rest] = words;
+  const store = getTotpStore();
+
+  if (action === "list" || action === "ls" || !action) {
+    const names = store.list();
+    console.log(`\n${c.cyan}🔑 2단계 인증 시드 (${names.length}개)${c.reset}`);
+    for (const seedName of names) {
+      console.log(`  - ${seedName} ${c.dim}→ {{totp:${seedName}}}${c.reset}`);
+    }
+    console.log();
+    return;
+  }
+
+  if ((action === "add" || action === "set") && name) {
+    if (!isValidSecretName(name)) {
+      console.log(`${c.red}이름은 영문, 숫자, _ . - 만 사용할 수 있습니다.${c.reset}\n`);
+      return;
+    }
+    const seed = rest.length > 0 ? rest.join("") : await promptHidden(`${name} 시드 (Base32 또는 otpauth:// URI, 입력이 표시되지 않음): `);
+    if (!seed.trim()) {
+      console.log(`${c.yellow}시드가 비어 있어 저장하지 않았습니다.${c.reset}\n`);
+      return;
+    }
+    // 잘못된 시드는 저장하기 전에 오류
+    parseTotpSeed(seed);
+    store.set(name, seed.trim());
+    const { code, remainingSeconds } = getTotpCode(store, name);
+    console.log(`${c.green}✓ 저장됨: {{totp:${name}}}${c.reset} ${c.dim}(현재 코드 ${code}, ${remainingSeconds}초 남음 - 인증 앱과 같은지 확인하세요)${c.reset}\n`);
+    return;
+  }
+
+  if (action === "code" && name) {
+    const { code, remainingSeconds } = getTotpCode(store, name);
+    console.log(`${c.green}${code}${c.reset} ${c.dim}(${remainingSeconds}초 남음)${c.reset}\n`);
+    return;
+  }
+
+  if ((action === "rm" || action === "remove" || action === "delete") && name) {
+    console.log(store.remove(name) ? `${c.green}✓ 삭제됨: ${name}${c.reset}\n` : `${c.yellow}없는 이름입니다: ${name}${c.reset}\n`);
+    return;
+  }
+
+  console.log(`${c.red}사용법: /totp add <이름> [시드] | /totp list | /totp code <이름> | /totp rm <이름>${c.reset}\n`);
+}
+
+// /session save|load|list|rm - 쿠키와 localStorage를 이름 붙여 저장/복원 (CDP 모드)
+async function runSessionCommand(words: string[]) {
+  try {
+    await manageSessions(words);
+  } catch (error) {
+    console.log(`${c.red}❌ ${(error as Error).message}${c.reset}\n`);
+  }
+}
+
+async function manageSessions(words: string[]) {
+  const positional: string[] = [];
+  const sites: string[] = [];
+  let encrypt = false;
+  for (let i = 0; i < words.length; i++) {
+    if (words[i] === "--encrypt") encrypt = true;
+    else if (words[i] === "--site") sites.push(...(words[++i] ?? "").split(",").map((s) => s.trim()).filter(Boolean));
+    else positional.push(words[i]);
+  }
+  const [action, name] = positional;
+  const store = getSessionStore();
+
+  if (action === "list" || action === "ls" || !action) {
+    const sessions = store.list();
+    console.log(`\n${c.cyan}🍪 저장된 세션 (${sessions.length}개)${c.reset}`);
+    for (const session of sessions) {
+      const detail = [new Date(session.savedAt).toLocaleString("ko-KR"), session.encrypted ? "암호화" : "", session.sites?.join(", ") ?? ""];
+      console.log(`  - ${session.name} ${c.dim}(${detail.filter(Boolean).join(", ")})${c.reset}`);
+    }
+    console.log();
+    return;
+  }
+
+  if ((action === "save" || action === "load") && browserMode !== "cdp") {
+    console.log(`${c.red}세션 저장/불러오기는 CDP 모드에서만 사용할 수 있습니다.${c.reset}\n`);
+    return;
+  }
+
+  if (action === "save" && name) {
+    await startBrowser();
+    if (!context) throw new Error("Browser not running");
+    const state = store.save(name, await context.storageState(), { encrypt, sites });
+    console.log(`${c.green}✓ 세션 저장됨: ${name}${c.reset} ${c.dim}(쿠키 ${state.cookies.length}개, localStorage ${state.origins.length}개 사이트${encrypt ? ", 암호화" : ""})${c.reset}\n`);
+    return;
+  }
+
+  if (action === "load" && name) {
+    await loadSession(name);
+    console.log(`${c.green}✓ 세션 불러옴: ${name}${c.reset}\n`);
+    return;
+  }
+
+  if ((action === "rm" || action === "remove" || action === "delete") && name) {
+    console.log(store.remove(name) ? `${c.green}✓ 삭제됨: ${name}${c.reset}\n` : `${c.yellow}없는 이름입니다: ${name}${c.reset}\n`);
+    return;
+  }
+
+  console.log(`${c.red}사용법: /session save <이름> [--site a.com,b.com] [--encrypt] | /session load <이름> | /session list | /session rm <이름>${c.reset}\n`);
+}
+
 async function main() {
   const config = loadConfig();
 
   // 커맨드 라인 인자 처리
   const rawArgs = process.argv.slice(2);
   let mission: string | null = null;
+  let outputSchema: Record<string, unknown> | undefined;
+  let recordPath: string | undefined;
+  let captureHar = false;
 
   // --ext 또는 /ext 옵션 확인
   const extIndex = rawArgs.findIndex((a) => a === "--ext" || a === "/ext");
@@ -2523,6 +2360,30 @@ async function main() {
       process.exit(0);
     }
 
+    if (arg === "/usage") {
+      printUsage();
+      process.exit(0);
+    }
+
+    if (arg === "/secret" || arg.startsWith("/secret ")) {
+      const words = arg === "/secret" ? rawArgs.slice(i + 1) : arg.slice(8).trim().split(/\s+/);
+      await runSecretCommand(words);
+      process.exit(0);
+    }
+
+    if (arg === "/totp" || arg.startsWith("/totp ")) {
+      const words = arg === "/totp" ? rawArgs.slice(i + 1) : arg.slice(6).trim().split(/\s+/);
+      await runTotpCommand(words);
+      process.exit(0);
+    }
+
+    if (arg === "/session" || arg.startsWith("/session ")) {
+      const words = arg === "/session" ? rawArgs.slice(i + 1) : arg.slice(9).trim().split(/\s+/);
+      await runSessionCommand(words);
+      await stopBrowser();
+      process.exit(0);
+    }
+
     if (arg === "/profiles") {
       const profiles = getChromeProfiles();
       console.log(`\n${c.cyan}사용 가능한 Chrome 프로필:${c.reset}\n`);
@@ -2582,15 +2443,21 @@ async function main() {
             console.log(`    ${c.dim}${wf.description}${c.reset}`);
           }
           console.log(`    ${c.dim}${wf.steps.length}단계 | ${new Date(wf.updatedAt).toLocaleDateString('ko-KR')}${c.reset}`);
+          if (wf.inputs?.length) {
+            console.log(`    ${c.dim}입력값: ${formatWorkflowInputs(wf)}${c.reset}`);
+          }
         });
-        console.log(`\n${c.dim}실행: /wf run <id>${c.reset}\n`);
+        console.log(`\n${c.dim}실행: /wf run <id> [--이름=값 ...] (--record: 성공한 동작을 저장해서 다음부터 재생)${c.reset}\n`);
       }
       process.exit(0);
     }
 
     // /wf run <id> - 워크플로우 실행
     if (arg.startsWith("/wf run ") || arg.startsWith("/workflow run ")) {
-      const wfId = arg.replace(/^\/(wf|workflow) run /, "").trim();
+      // --이름=값: 워크플로우 입력값, --record: 성공하면 동작을 워크플로우에 저장 (다음 실행부터 재생)
+      const { rest, values } = parseWorkflowInputArgs(arg.replace(/^\/(wf|workflow) run /, ""));
+      const record = /(^|\s)--record\b/.test(rest);
+      const wfId = rest.replace(/(^|\s)--record\b/, "").trim();
       const workflow = loadWorkflow(wfId);
 
       if (!workflow) {
@@ -2599,6 +2466,15 @@ async function main() {
         process.exit(1);
       }
 
+      let inputs: WorkflowInputValues;
+      try {
+        inputs = resolveWorkflowInputs(workflow, values);
+      } catch (error) {
+        console.log(`${c.red}${(error as Error).message}${c.reset}`);
+        console.log(`${c.dim}사용법: /wf run ${workflow.id} ${formatWorkflowInputs(workflow)}${c.reset}\n`);
+        process.exit(1);
+      }
+
       console.log(`\n${c.cyan}워크플로우 실행: ${workflow.name}${c.reset}`);
       console.log(`${c.dim}${workflow.steps.length}개 단계${c.reset}\n`);
 
@@ -2608,76 +2484,67 @@ async function main() {
         const page = await getPage();
         const wfModel = resolveModel(config);
         const wfIsOllama = config.provider === "ollama";
+        await applyRouteRules(workflow);
+        if (workflow.session) {
+          await loadSession(workflow.session);
+          console.log(`${c.dim}🍪 세션 불러옴: ${workflow.session}${c.reset}`);
+        }
+        const network = await startNetworkCapture();
+        const trace = await startTrace("workflow", workflow.name, wfModel.id);
+        const run = startRun("workflow", "cli", workflow.name, wfModel.id, trace);
 
         // AI 에이전트로 단계 실행하는 함수
-        const runStepAgent = async (
-          prompt: string,
-          maxTurns: number,
-          onLog: (text: string) => void
-        ): Promise<{ success: boolean; result: string }> => {
-          const ctx: Context = {
-            systemPrompt: `You are a browser automation agent. Complete the user's task using browser tools.
-TOOLS: browser_navigate, browser_snapshot, browser_fill, browser_click, browser_press, browser_get_text
-After completing, respond with a brief summary. If you cannot complete, explain why.`,
-            messages: [{ role: "user", content: prompt }],
-            tools: browserTools,
-          };
-
-          let lastResult = "";
-          for (let turn = 0; turn < maxTurns; turn++) {
-            try {
-              const streamOptions = wfIsOllama ? { apiKey: "ollama" } : undefined;
-              const s = streamSimple(wfModel, ctx, streamOptions);
-              for await (const _ of s) {}
-              const response = await s.result();
-              ctx.messages.push(response);
-
-              const toolCalls = response.content.filter((b) => b.type === "toolCall");
-              if (toolCalls.length === 0) {
-                const textBlocks = response.content.filter((b) => b.type === "text");
-                lastResult = textBlocks.map((b) => (b as any).text).join("\n");
-                return { success: true, result: lastResult || "완료" };
-              }
-
-              for (const call of toolCalls) {
-                const toolCall = call as any;
-                onLog(`[TOOL] ${toolCall.name}`);
-                try {
-                  const toolResult = await executeBrowserTool(toolCall.name, toolCall.arguments || {});
-                  ctx.messages.push({
-                    role: "toolResult", toolCallId: toolCall.id, toolName: toolCall.name,
-                    content: [{ type: "text", text: toolResult.text }], isError: false, timestamp: Date.now(),
-                  } as any);
-                } catch (err) {
-                  ctx.messages.push({
-                    role: "toolResult", toolCallId: toolCall.id, toolName: toolCall.name,
-                    content: [{ type: "text", text: `Error: ${(err as Error).message}` }], isError: true, timestamp: Date.now(),
-                  } as any);
-                }
-              }
-            } catch (error) {
-              return { success: false, result: (error as Error).message };
-            }
-          }
-          return { success: true, result: lastResult || "완료" };
+        const agentOptions = {
+          model: wfModel,
+          isOllama: wfIsOllama,
+          tools: browserTools,
+          usage: createUsageTracker("workflow"),
+          approve: confirmInTerminal,
+          urlGuard: createRunUrlGuard("workflow", workflow),
+          trace,
         };
+        const runStepAgent = createStepAgent({ ...agentOptions, backend: currentBackend(), policy: createPolicy(currentBackend()), network });
 
         // 워크플로우 실행
+        if (record) workflow.recordReplay = true;
+
         const executor = new WorkflowExecutor(
           workflow,
-          { page, runStepAgent },
+          {
+            page,
+            runStepAgent,
+            runReplay: createReplayRunner(workflow, confirmInTerminal),
+            openParallelPool: createParallelPool(workflow, agentOptions, network),
+          },
           (log: WorkflowLog) => {
+            trace?.log(log.type, log.message, { stepId: log.stepId, stepName: workflowLogLabel(log) });
+            run.log(`[${workflowLogLabel(log)}] ${log.message}`);
             const prefix = log.type === "error" ? c.red :
                           log.type === "success" ? c.green :
                           log.type === "condition" ? c.yellow : c.dim;
-            console.log(`${prefix}[${log.stepName}] ${log.message}${c.reset}`);
-          }
+            console.log(`${prefix}[${workflowLogLabel(log)}] ${log.message}${c.reset}`);
+          },
+          inputs
         );
 
-        const result = await executor.execute();
+        const { result, harPath } = await executeWorkflowRun(executor, workflow, { network, trace, run });
+        if (harPath) console.log(`${c.dim}🌐 HAR 저장: ${harPath}${c.reset}`);
+        if (trace) console.log(`${c.dim}🔍 트레이스: ${trace.dir}${c.reset}`);
 
         if (result.success) {
           console.log(`\n${c.green}✅ 완료! ${result.stepsExecuted}단계 실행 (${((result.endTime - result.startTime) / 1000).toFixed(1)}초)${c.reset}\n`);
+          if (result.data !== undefined) {
+            console.log(JSON.stringify(result.data, null, 2));
+            console.log();
+          }
+          if (result.outputs && Object.keys(result.outputs).length > 0) {
+            console.log(`${c.dim}📤 단계 출력${c.reset}`);
+            console.log(JSON.stringify(result.outputs, null, 2));
+            console.log();
+          }
+          if (storeWorkflowRecording(workflow, result)) {
+            console.log(`${c.green}🎬 동작 기록 저장됨 - 다음 실행부터 AI 없이 재생합니다${c.reset}\n`);
+          }
         } else {
           console.log(`\n${c.red}❌ 실패: ${result.error}${c.reset}\n`);
         }
@@ -2722,6 +2589,32 @@ After completing, respond with a brief summary. If you cannot complete, explain
       process.exit(0);
     }
 
+    // /replay <file> - 기록된 재생 스크립트 실행 (LLM 없이, 실패한 단계만 AI)
+    if (arg === "/replay" || arg.startsWith("/replay ")) {
+      const file = arg === "/replay" ? rawArgs[i + 1] : arg.slice(8).trim();
+      if (!file) {
+        console.log(`${c.red}사용법: /replay <script.json | 이름>${c.reset}`);
+        console.log(`${c.dim}스크립트 만들기: npm start /record <이름> "미션"${c.reset}`);
+        process.exit(1);
+      }
+
+      if (browserMode === "extension") {
+        await startExtensionServer();
+        if (!(await extensionBridge.waitForConnection(60000))) {
+          console.log(`${c.red}Extension 연결 타임아웃${c.reset}`);
+          process.exit(1);
+        }
+      }
+
+      let success = false;
+      try {
+        success = await runReplayScript(file, resolveModel(config), config.provider === "ollama");
+      } catch (error) {
+        console.log(`${c.red}오류: ${(error as Error).message}${c.reset}\n`);
+      }
+      process.exit(success ? 0 : 1);
+    }
+
     // /web 또는 web - 웹 UI 모드 시작
     if (arg === "/web" || arg === "web" || arg === "/w" || arg === "w") {
       // --port 옵션 확인
@@ -2757,6 +2650,32 @@ After completing, respond with a brief summary. If you cannot complete, explain
       continue;
     }
 
+    // /schema 처리 (다음 인자가 JSON Schema 파일, 미션 결과를 JSON으로 받음)
+    if (arg === "/schema" && i + 1 < rawArgs.length) {
+      const schemaPath = path.resolve(rawArgs[i + 1]);
+      try {
+        outputSchema = JSON.parse(fs.readFileSync(schemaPath, "utf-8"));
+      } catch (error) {
+        console.log(`${c.red}스키마 파일을 읽을 수 없습니다: ${schemaPath} (${(error as Error).message})${c.reset}`);
+        process.exit(1);
+      }
+      i++; // 파일 경로 건너뛰기
+      continue;
+    }
+
+    // /har: 이 미션의 요청/응답을 HAR로 저장 (설정에서 꺼져 있어도)
+    if (arg === "/har") {
+      captureHar = true;
+      continue;
+    }
+
+    // /record 처리 (다음 인자가 저장할 재생 스크립트 파일 또는 이름)
+    if (arg === "/record" && i + 1 < rawArgs.length) {
+      recordPath = rawArgs[i + 1];
+      i++;
+      continue;
+    }
+
     // /profile <name> 형식 (공백 포함된 단일 인자)
     if (arg.startsWith("/profile ")) {
       selectedProfile = arg.slice(9).trim();
@@ -2784,7 +2703,7 @@ ${c.dim}예시:${c.reset}
     // /p N task1 task2 ... 또는 /parallel N task1 task2 ...
     if (arg.startsWith("/p ") || arg.startsWith("/parallel ")) {
       const startIdx = arg.startsWith("/p ") ? 3 : 10;
-      const parallelArgs = arg.slice(startIdx).trim();
+      const { args: parallelArgs, session } = takeSessionOption(arg.slice(startIdx).trim());
 
       // 숫자만 입력한 경우 - 대화형 모드는 인터랙티브 REPL에서만 지원
       const countOnlyMatch = parallelArgs.match(/^(\d+)$/);
@@ -2825,7 +2744,7 @@ ${c.dim}예시:${c.reset}
           const model = resolveModel(config);
           const isOllama = config.provider === "ollama";
 
-          const browsers = await startAnonymousParallelBrowsers(count);
+          const browsers = await startAnonymousParallelBrowsers(count, session);
 
           if (browsers.length === 0) {
             console.log(`${c.red}브라우저를 시작할 수 없습니다.${c.reset}`);
@@ -2862,7 +2781,7 @@ ${c.dim}예시:${c.reset}
         const model = resolveModel(config);
         const isOllama = config.provider === "ollama";
 
-        const browsers = await startParallelBrowsers(profiles);
+        const browsers = await startParallelBrowsers(profiles, session);
 
         if (browsers.length === 0) {
           console.log(`${c.red}실행 가능한 브라우저가 없습니다.${c.reset}`);
@@ -2933,12 +2852,7 @@ ${c.dim}예시:${c.reset}
     console.log(`${c.dim}Extension 연결 대기 중... (Chrome에서 Pi-Browser 확장 프로그램 확인)${c.reset}`);
 
     // 최대 60초 대기
-    for (let i = 0; i < 120; i++) {
-      if (extClient) break;
-      await new Promise((r) => setTimeout(r, 500));
-    }
-
-    if (!extClient) {
+    if (!(await extensionBridge.waitForConnection(60000))) {
       console.log(`${c.red}Extension 연결 타임아웃${c.reset}`);
       console.log(`${c.dim}Chrome에서 Pi-Browser 확장 프로그램을 설치하고 활성화하세요.${c.reset}`);
       console.log(`${c.dim}확장 프로그램 위치: ${path.join(process.cwd(), "extension")}${c.reset}\n`);
@@ -2952,7 +2866,7 @@ ${c.dim}예시:${c.reset}
     try {
       const model = resolveModel(config);
       const isOllama = config.provider === "ollama";
-      await runAgent(mission, model, isOllama);
+      await runAgent(mission, model, isOllama, { outputSchema, recordPath, har: captureHar });
     } catch (error) {
       console.log(`${c.red}Error: ${(error as Error).message}${c.reset}`);
     }
@@ -2970,6 +2884,7 @@ ${c.dim}예시:${c.reset}
     input: process.stdin,
     output: process.stdout,
   });
+  interactiveRl = rl;
 
   const prompt = () => {
     const status = browser ? `${c.green}●${c.reset}` : `${c.red}○${c.reset}`;
@@ -2996,6 +2911,34 @@ ${c.dim}예시:${c.reset}
         return;
       }
 
+      // 사용량
+      if (trimmed === "/usage" || trimmed === "usage") {
+        printUsage();
+        prompt();
+        return;
+      }
+
+      // 비밀 값
+      if (/^\/?secret(\s|$)/.test(trimmed)) {
+        await runSecretCommand(trimmed.split(/\s+/).slice(1));
+        prompt();
+        return;
+      }
+
+      // 2단계 인증 시드
+      if (/^\/?totp(\s|$)/.test(trimmed)) {
+        await runTotpCommand(trimmed.split(/\s+/).slice(1));
+        prompt();
+        return;
+      }
+
+      // 로그인 세션 저장/불러오기
+      if (/^\/?session(\s|$)/.test(trimmed)) {
+        await runSessionCommand(trimmed.split(/\s+/).slice(1));
+        prompt();
+        return;
+      }
+
       // 텔레그램 모드
       if (trimmed === "/tg" || trimmed === "tg" || trimmed === "/telegram" || trimmed === "telegram") {
         await runTelegramMode(config);
@@ -3050,7 +2993,7 @@ ${c.dim}예시:${c.reset}
         else if (trimmed.startsWith("p ")) startIdx = 2;
         else if (trimmed.startsWith("/parallel ")) startIdx = 10;
         else if (trimmed.startsWith("parallel ")) startIdx = 9;
-        const parallelArgs = trimmed.slice(startIdx).trim();
+        const { args: parallelArgs, session } = takeSessionOption(trimmed.slice(startIdx).trim());
 
         // 숫자만 입력한 경우 대화형 모드
         const countOnlyMatch = parallelArgs.match(/^(\d+)$/);
@@ -3078,7 +3021,7 @@ ${c.dim}예시:${c.reset}
                   const model = resolveModel(config);
                   const isOllama = config.provider === "ollama";
 
-                  const browsers = await startAnonymousParallelBrowsers(count);
+                  const browsers = await startAnonymousParallelBrowsers(count, session);
 
                   if (browsers.length > 0) {
                     await runParallelAgents(browsers, tasks, model, isOllama);
@@ -3129,7 +3072,7 @@ ${c.dim}예시:${c.reset}
             const model = resolveModel(config);
             const isOllama = config.provider === "ollama";
 
-            const browsers = await startAnonymousParallelBrowsers(count);
+            const browsers = await startAnonymousParallelBrowsers(count, session);
 
             if (browsers.length > 0) {
               await runParallelAgents(browsers, tasks, model, isOllama);
@@ -3165,7 +3108,7 @@ ${c.dim}예시:${c.reset}
           const model = resolveModel(config);
           const isOllama = config.provider === "ollama";
 
-          const browsers = await startParallelBrowsers(profiles);
+          const browsers = await startParallelBrowsers(profiles, session);
 
           if (browsers.length > 0) {
             await runParallelAgents(browsers, tasks, model, isOllama);
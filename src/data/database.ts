@@ -0,0 +1,87 @@
+/**
+ * Local data store
+ * ~/.pi-browser/data의 SQLite 데이터베이스와 파일 저장소 (MCP 서버, CLI, 웹 UI가 같은 파일을 사용)
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import Database from "better-sqlite3";
+
+export const DATA_DIR = path.join(os.homedir(), ".pi-browser", "data");
+export const DB_PATH = path.join(DATA_DIR, "pi-browser.db");
+export const FILES_DIR = path.join(DATA_DIR, "files");
+
+export type DataDatabase = Database.Database;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS results (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    task TEXT,
+    result TEXT,
+    url TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE TABLE IF NOT EXISTS screenshots (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    task TEXT,
+    filename TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE TABLE IF NOT EXISTS files (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    filename TEXT,
+    format TEXT,
+    mime_type TEXT,
+    size INTEGER,
+    url TEXT,
+    title TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE TABLE IF NOT EXISTS runs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    kind TEXT,
+    source TEXT,
+    title TEXT,
+    model TEXT,
+    status TEXT,
+    result TEXT,
+    error TEXT,
+    logs TEXT,
+    trace_id TEXT,
+    started_at INTEGER,
+    ended_at INTEGER,
+    duration_ms INTEGER
+  );
+
+  CREATE TABLE IF NOT EXISTS custom_data (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    key TEXT UNIQUE,
+    value TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+`;
+
+/**
+ * 데이터베이스를 열고 기본 테이블 생성
+ */
+export function openDatabase(dbPath: string = DB_PATH): DataDatabase {
+  fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+  const db = new Database(dbPath);
+  db.exec(SCHEMA);
+  return db;
+}
+
+let defaultDatabase: DataDatabase | null = null;
+
+/**
+ * ~/.pi-browser/data/pi-browser.db (처음 사용할 때 열림)
+ */
+export function getDatabase(): DataDatabase {
+  defaultDatabase ??= openDatabase();
+  return defaultDatabase;
+}
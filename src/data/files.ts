@@ -0,0 +1,181 @@
+/**
+ * Saved files
+ * browser_save_page와 MCP screenshot_save가 쓴 파일을 ~/.pi-browser/data/files에 두고 files 테이블에 기록
+ * (이미지는 예전 도구와 같이 screenshots 테이블에도 기록)
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { DB_PATH, FILES_DIR, getDatabase, openDatabase, type DataDatabase } from "./database.js";
+
+export interface SavedFile {
+  filename: string;
+  format: string; // png, pdf, mhtml, jpg, ...
+  mimeType: string;
+  size: number; // bytes
+  url?: string; // 저장한 페이지
+  title?: string;
+  createdAt: string; // UTC "YYYY-MM-DD HH:MM:SS" (SQLite CURRENT_TIMESTAMP)
+}
+
+export interface SaveFileMeta {
+  format: string;
+  mimeType: string;
+  url?: string;
+  title?: string;
+}
+
+export interface SaveFileResult {
+  filename: string;
+  path: string;
+  size: number;
+  // DB에 기록하지 못했으면 (better-sqlite3를 쓸 수 없는 환경 등) 오류 메시지
+  registerError?: string;
+}
+
+export interface SavedFileStoreOptions {
+  dir?: string;
+  dbPath?: string;
+}
+
+const MIME_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  pdf: "application/pdf",
+  mhtml: "multipart/related",
+  har: "application/json",
+  json: "application/json",
+  txt: "text/plain",
+  zip: "application/zip",
+};
+
+export function mimeTypeFor(filename: string): string {
+  return MIME_TYPES[path.extname(filename).slice(1).toLowerCase()] ?? "application/octet-stream";
+}
+
+/**
+ * 파일 이름에서 영문, 숫자, . _ - 외의 문자를 _로 바꿈 (경로 구분자 포함)
+ */
+export function sanitizeFilename(filename: string): string {
+  return filename.replace(/[^a-zA-Z0-9._-]/g, "_").replace(/^\.+/, "_");
+}
+
+export class SavedFileStore {
+  private dir: string;
+  private dbPath: string;
+  private db: DataDatabase | null = null;
+
+  constructor(options: SavedFileStoreOptions = {}) {
+    this.dir = options.dir || FILES_DIR;
+    this.dbPath = options.dbPath || DB_PATH;
+  }
+
+  /**
+   * 파일을 쓰고 DB에 기록 (같은 이름이 있으면 -1, -2, ...를 붙임)
+   * DB에 기록하지 못해도 파일은 남기고 registerError로 알림
+   */
+  save(filename: string, data: Buffer, meta: SaveFileMeta): SaveFileResult {
+    fs.mkdirSync(this.dir, { recursive: true });
+    const name = this.availableName(sanitizeFilename(filename));
+    const filePath = path.join(this.dir, name);
+    fs.writeFileSync(filePath, data);
+
+    const result: SaveFileResult = { filename: name, path: filePath, size: data.length };
+    try {
+      const db = this.database();
+      db.prepare("INSERT INTO files (filename, format, mime_type, size, url, title) VALUES (?, ?, ?, ?, ?, ?)").run(
+        name, meta.format, meta.mimeType, data.length, meta.url ?? null, meta.title ?? null
+      );
+      if (meta.mimeType.startsWith("image/")) {
+        db.prepare("INSERT INTO screenshots (task, filename) VALUES (?, ?)").run(meta.title || meta.url || null, name);
+      }
+    } catch (err) {
+      result.registerError = (err as Error).message.split("\n")[0];
+    }
+    return result;
+  }
+
+  /**
+   * 최근 파일부터 (DB를 쓸 수 없으면 폴더의 파일 목록)
+   * 기록된 뒤 지워진 파일은 빼고, 기록 없이 폴더에 있는 파일(file_write 등)도 포함
+   */
+  list(limit = 100): SavedFile[] {
+    if (!fs.existsSync(this.dir)) return [];
+    const onDisk = new Set(fs.readdirSync(this.dir));
+
+    let recorded: SavedFile[] = [];
+    try {
+      const rows = this.database()
+        .prepare("SELECT filename, format, mime_type, size, url, title, created_at FROM files ORDER BY id DESC")
+        .all() as { filename: string; format: string; mime_type: string; size: number; url: string | null; title: string | null; created_at: string }[];
+      recorded = rows.map((row) => ({
+        filename: row.filename,
+        format: row.format,
+        mimeType: row.mime_type,
+        size: row.size,
+        ...(row.url ? { url: row.url } : {}),
+        ...(row.title ? { title: row.title } : {}),
+        createdAt: row.created_at,
+      }));
+    } catch {
+      // DB 없이 폴더만 사용
+    }
+
+    const seen = new Set<string>();
+    const files: SavedFile[] = [];
+    for (const file of recorded) {
+      if (!onDisk.has(file.filename) || seen.has(file.filename)) continue;
+      seen.add(file.filename);
+      files.push(file);
+    }
+    for (const filename of onDisk) {
+      if (seen.has(filename)) continue;
+      const stat = fs.statSync(path.join(this.dir, filename));
+      if (!stat.isFile()) continue;
+      const format = path.extname(filename).slice(1).toLowerCase();
+      files.push({
+        filename,
+        format,
+        mimeType: mimeTypeFor(filename),
+        size: stat.size,
+        createdAt: stat.mtime.toISOString().replace("T", " ").slice(0, 19),
+      });
+    }
+    return files.sort((a, b) => b.createdAt.localeCompare(a.createdAt)).slice(0, limit);
+  }
+
+  /**
+   * 저장소 안의 파일 경로 (없거나 폴더 밖을 가리키면 null)
+   */
+  resolve(filename: string): string | null {
+    if (filename !== sanitizeFilename(filename)) return null;
+    const filePath = path.join(this.dir, filename);
+    return fs.existsSync(filePath) && fs.statSync(filePath).isFile() ? filePath : null;
+  }
+
+  private availableName(filename: string): string {
+    const ext = path.extname(filename);
+    const base = filename.slice(0, filename.length - ext.length);
+    let name = filename;
+    for (let i = 1; fs.existsSync(path.join(this.dir, name)); i++) {
+      name = `${base}-${i}${ext}`;
+    }
+    return name;
+  }
+
+  private database(): DataDatabase {
+    this.db ??= this.dbPath === DB_PATH ? getDatabase() : openDatabase(this.dbPath);
+    return this.db;
+  }
+}
+
+let defaultStore: SavedFileStore | null = null;
+
+/**
+ * ~/.pi-browser/data/files 저장소
+ */
+export function getSavedFileStore(): SavedFileStore {
+  defaultStore ??= new SavedFileStore();
+  return defaultStore;
+}
@@ -0,0 +1,7 @@
+/**
+ * Data module exports
+ */
+
+export * from "./database.js";
+export * from "./files.js";
+export * from "./runs.js";
@@ -0,0 +1,224 @@
+/**
+ * Run history
+ * CLI 미션, 웹 UI 작업, 텔레그램, 워크플로우(웹 UI, 스케줄러, /wf run, MCP) 실행을 pi-browser.db의 runs 테이블에 기록
+ * 웹 UI 기록 탭에서 미션, 결과, 로그로 검색
+ */
+
+import { getSecretStore } from "../browser/secrets.js";
+import { DB_PATH, getDatabase, openDatabase, type DataDatabase } from "./database.js";
+
+export type RunKind = "task" | "workflow";
+export type RunSource = "cli" | "web" | "telegram" | "scheduler" | "parallel" | "mcp";
+export type RunStatus = "running" | "completed" | "failed" | "stopped";
+
+export interface RunRecord {
+  id: number;
+  kind: RunKind;
+  source: RunSource;
+  title: string; // 미션 또는 워크플로우 이름
+  model?: string;
+  status: RunStatus;
+  result?: string;
+  error?: string;
+  logs: string[];
+  traceId?: string; // 실행 기록 타임라인 (~/.pi-browser/data/traces)
+  startedAt: number;
+  endedAt?: number;
+  durationMs?: number;
+}
+
+export type RunSummary = Omit<RunRecord, "logs">;
+
+export interface RunStartOptions {
+  kind: RunKind;
+  source: RunSource;
+  title: string;
+  model?: string;
+  traceId?: string;
+}
+
+export interface RunOutcome {
+  status: Exclude<RunStatus, "running">;
+  result?: string;
+  error?: string;
+}
+
+export interface RunQuery {
+  search?: string; // 미션/워크플로우 이름, 결과, 오류, 로그에 포함된 글자
+  source?: RunSource;
+  status?: RunStatus;
+  kind?: RunKind;
+  limit?: number;
+  offset?: number;
+}
+
+export interface RunStoreOptions {
+  dbPath?: string;
+}
+
+const MAX_LOG_LINES = 1000; // 넘으면 앞부분을 버림
+const MAX_TEXT_LENGTH = 20000;
+
+interface RunRow {
+  id: number;
+  kind: RunKind;
+  source: RunSource;
+  title: string;
+  model: string | null;
+  status: RunStatus;
+  result: string | null;
+  error: string | null;
+  logs: string | null;
+  trace_id: string | null;
+  started_at: number;
+  ended_at: number | null;
+  duration_ms: number | null;
+}
+
+function toSummary(row: RunRow): RunSummary {
+  return {
+    id: row.id,
+    kind: row.kind,
+    source: row.source,
+    title: row.title,
+    ...(row.model ? { model: row.model } : {}),
+    status: row.status,
+    ...(row.result ? { result: row.result } : {}),
+    ...(row.error ? { error: row.error } : {}),
+    ...(row.trace_id ? { traceId: row.trace_id } : {}),
+    startedAt: row.started_at,
+    ...(row.ended_at !== null ? { endedAt: row.ended_at } : {}),
+    ...(row.duration_ms !== null ? { durationMs: row.duration_ms } : {}),
+  };
+}
+
+// LIKE의 % _ \ 를 글자 그대로 찾도록
+function likePattern(text: string): string {
+  return `%${text.replace(/[\\%_]/g, (ch) => `\\${ch}`)}%`;
+}
+
+/**
+ * 실행 하나의 기록 (시작할 때 running으로 넣고 finish에서 결과와 로그를 씀)
+ * DB를 쓸 수 없으면 id가 null이고 아무것도 기록하지 않음
+ */
+export class RunRecorder {
+  readonly id: number | null;
+  readonly error?: string;
+  private db: DataDatabase | null;
+  private startedAt: number;
+  private logs: string[] = [];
+  private dropped = 0;
+  private finished = false;
+
+  constructor(db: DataDatabase | null, id: number | null, startedAt: number, error?: string) {
+    this.db = db;
+    this.id = id;
+    this.startedAt = startedAt;
+    if (error) this.error = error;
+  }
+
+  log(text: string): void {
+    this.logs.push(text);
+    if (this.logs.length > MAX_LOG_LINES) {
+      this.logs.shift();
+      this.dropped++;
+    }
+  }
+
+  /**
+   * 결과 기록 (두 번째 호출부터는 무시)
+   */
+  finish(outcome: RunOutcome): void {
+    if (this.finished) return;
+    this.finished = true;
+    if (!this.db || this.id === null) return;
+
+    const endedAt = Date.now();
+    const logs = this.dropped > 0 ? [`... (앞의 ${this.dropped}줄 생략)`, ...this.logs] : this.logs;
+    // 비밀 값은 도구 결과나 로그에 섞여 있어도 가려서 저장
+    const redact = (text: string | undefined) => (text ? getSecretStore().redact(text.slice(0, MAX_TEXT_LENGTH)) : null);
+    try {
+      this.db
+        .prepare("UPDATE runs SET status = ?, result = ?, error = ?, logs = ?, ended_at = ?, duration_ms = ? WHERE id = ?")
+        .run(outcome.status, redact(outcome.result), redact(outcome.error), getSecretStore().redact(logs.join("\n")), endedAt, endedAt - this.startedAt, this.id);
+    } catch {
+      // 기록 실패로 실행 결과를 바꾸지 않음
+    }
+  }
+}
+
+export class RunStore {
+  private dbPath: string;
+  private db: DataDatabase | null = null;
+
+  constructor(options: RunStoreOptions = {}) {
+    this.dbPath = options.dbPath || DB_PATH;
+  }
+
+  /**
+   * 실행 시작 기록 (DB 오류는 RunRecorder.error로 알리고 실행은 계속)
+   */
+  start(options: RunStartOptions): RunRecorder {
+    const startedAt = Date.now();
+    try {
+      const db = this.database();
+      const info = db
+        .prepare("INSERT INTO runs (kind, source, title, model, status, trace_id, started_at) VALUES (?, ?, ?, ?, 'running', ?, ?)")
+        .run(options.kind, options.source, options.title, options.model ?? null, options.traceId ?? null, startedAt);
+      return new RunRecorder(db, Number(info.lastInsertRowid), startedAt);
+    } catch (err) {
+      return new RunRecorder(null, null, startedAt, (err as Error).message.split("\n")[0]);
+    }
+  }
+
+  /**
+   * 최근 실행부터 (로그 제외)
+   */
+  list(query: RunQuery = {}): RunSummary[] {
+    const where: string[] = [];
+    const params: (string | number)[] = [];
+    const search = query.search?.trim();
+    if (search) {
+      where.push("(title LIKE ? ESCAPE '\\' OR result LIKE ? ESCAPE '\\' OR error LIKE ? ESCAPE '\\' OR logs LIKE ? ESCAPE '\\')");
+      params.push(...Array(4).fill(likePattern(search)));
+    }
+    for (const column of ["source", "status", "kind"] as const) {
+      const value = query[column];
+      if (value) {
+        where.push(`${column} = ?`);
+        params.push(value);
+      }
+    }
+    const sql =
+      "SELECT id, kind, source, title, model, status, result, error, trace_id, started_at, ended_at, duration_ms FROM runs" +
+      (where.length > 0 ? ` WHERE ${where.join(" AND ")}` : "") +
+      " ORDER BY id DESC LIMIT ? OFFSET ?";
+    const rows = this.database().prepare(sql).all(...params, query.limit ?? 50, query.offset ?? 0) as RunRow[];
+    return rows.map(toSummary);
+  }
+
+  get(id: number): RunRecord | null {
+    const row = this.database().prepare("SELECT * FROM runs WHERE id = ?").get(id) as RunRow | undefined;
+    if (!row) return null;
+    return { ...toSummary(row), logs: row.logs ? row.logs.split("\n") : [] };
+  }
+
+  remove(id: number): boolean {
+    return this.database().prepare("DELETE FROM runs WHERE id = ?").run(id).changes > 0;
+  }
+
+  private database(): DataDatabase {
+    this.db ??= this.dbPath === DB_PATH ? getDatabase() : openDatabase(this.dbPath);
+    return this.db;
+  }
+}
+
+let defaultStore: RunStore | null = null;
+
+/**
+ * ~/.pi-browser/data/pi-browser.db의 runs 테이블
+ */
+export function getRunStore(): RunStore {
+  defaultStore ??= new RunStore();
+  return defaultStore;
+}
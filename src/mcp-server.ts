@@ -1,6 +1,6 @@
 /**
  * Pi-Browser MCP Server
- * Model Context Protocol 서버로 브라우저 자동화 + 파일시스템 + 데이터베이스 도구 제공
+ * Model Context Protocol 서버로 브라우저 자동화 + 파일시스템 + 데이터베이스 + 워크플로우 도구 제공
  */
 
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
@@ -13,109 +13,100 @@ import {
 } from "@modelcontextprotocol/sdk/types.js";
 import * as fs from "fs/promises";
 import * as path from "path";
-import Database from "better-sqlite3";
+import { getModel } from "@mariozechner/pi-ai";
+import {
+  browserTools,
+  executeBrowserTool,
+  ExtensionBridge,
+  ExtensionBackend,
+  PolicyEngine,
+  resolvePolicyRules,
+  createUrlGuard,
+} from "./browser/index.js";
+import { DATA_DIR, DB_PATH, FILES_DIR, getDatabase, getRunStore, getSavedFileStore } from "./data/index.js";
+import { createStepAgent, formatUsage, resolveAiModel, UsageTracker } from "./agent/index.js";
+import {
+  loadWorkflows,
+  loadWorkflow,
+  resolveWorkflowInputs,
+  formatWorkflowInputs,
+  WorkflowExecutor,
+  workflowLogLabel,
+  type Workflow,
+  type WorkflowExecutionResult,
+  type WorkflowInputValues,
+} from "./workflow/index.js";
+import { loadSettings } from "./web-client.js";
 
 // ============================================================
-// 설정
-// ============================================================
-const DATA_DIR = path.join(process.env.HOME || "~", ".pi-browser", "data");
-const DB_PATH = path.join(DATA_DIR, "pi-browser.db");
-const FILES_DIR = path.join(DATA_DIR, "files");
-
 // 데이터 디렉토리 생성
+// ============================================================
 await fs.mkdir(DATA_DIR, { recursive: true });
 await fs.mkdir(FILES_DIR, { recursive: true });
 
 // ============================================================
-// SQLite 데이터베이스
+// SQLite 데이터베이스 (테이블은 CLI, 웹 UI와 공유)
 // ============================================================
-const db = new Database(DB_PATH);
-
-// 기본 테이블 생성
-db.exec(`
-  CREATE TABLE IF NOT EXISTS results (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    task TEXT,
-    result TEXT,
-    url TEXT,
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-  );
-
-  CREATE TABLE IF NOT EXISTS screenshots (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    task TEXT,
-    filename TEXT,
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-  );
-
-  CREATE TABLE IF NOT EXISTS custom_data (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    key TEXT UNIQUE,
-    value TEXT,
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-  );
-`);
+const db = getDatabase();
+const savedFiles = getSavedFileStore();
 
 // ============================================================
 // 브라우저 상태
 // ============================================================
 let lastScreenshot: string | null = null;
+let lastScreenshotMimeType: string = "image/png";
 let lastSnapshot: string | null = null;
 let lastPageText: string | null = null;
 let lastUrl: string = "";
 let lastTitle: string = "";
 
 // ============================================================
-// Extension 연결
+// Extension 연결 (CLI와 같은 브릿지 사용, ws://localhost:9876)
 // ============================================================
-let extWs: any = null;
-const EXT_PORT = 9877;
+const extensionBridge = new ExtensionBridge({
+  onStatusChange: (connected) => {
+    console.error(connected ? "[MCP] Extension 연결됨" : "[MCP] Extension 연결 해제");
+  },
+});
+const backend = new ExtensionBackend(extensionBridge);
 
 async function connectExtension(): Promise<void> {
-  const { WebSocketServer } = await import("ws");
-
-  const wss = new WebSocketServer({ port: EXT_PORT });
-  console.error(`[MCP] Extension 서버 시작됨 (ws://localhost:${EXT_PORT})`);
-
-  wss.on("connection", (ws: any) => {
-    extWs = ws;
-    console.error("[MCP] Extension 연결됨");
+  await extensionBridge.start();
+  console.error(`[MCP] Extension 서버 시작됨 (${extensionBridge.url})`);
+}
 
-    ws.on("close", () => {
-      extWs = null;
-      console.error("[MCP] Extension 연결 해제");
-    });
+// ============================================================
+// 워크플로우 실행 (Extension 백엔드, 모델은 웹 UI 설정의 AI)
+// ============================================================
+async function runWorkflow(workflow: Workflow, inputs: WorkflowInputValues): Promise<WorkflowExecutionResult> {
+  const settings = loadSettings();
+  const { model, isOllama } = resolveAiModel(settings.ai, { model: getModel("google", "gemini-2.5-flash"), isOllama: false });
+  const run = getRunStore().start({ kind: "workflow", source: "mcp", title: workflow.name, model: model.id });
+  const rules = resolvePolicyRules(settings.policy);
+
+  const runStepAgent = createStepAgent({
+    model,
+    isOllama,
+    tools: browserTools,
+    backend,
+    usage: new UsageTracker({ ...settings.usage, source: "mcp" }),
+    // 승인할 화면이 없으므로 승인이 필요한 동작은 차단됨
+    policy: rules ? new PolicyEngine(backend, rules) : undefined,
+    urlGuard: createUrlGuard(settings.urlPolicy, "workflow", workflow.urlPolicy),
   });
-}
 
-async function sendExtCommand(action: string, params: Record<string, unknown>): Promise<any> {
-  if (!extWs) {
-    throw new Error("Extension이 연결되지 않았습니다. Chrome에서 Pi-Browser 확장을 실행하세요.");
-  }
+  const executor = new WorkflowExecutor(workflow, { runStepAgent }, (log) => {
+    run.log(`[${workflowLogLabel(log)}] ${log.message}`);
+    console.error(`[MCP] [${workflowLogLabel(log)}] ${log.message}`);
+  }, inputs);
 
-  return new Promise((resolve, reject) => {
-    const id = Date.now().toString();
-    const timeout = setTimeout(() => reject(new Error("Extension 응답 시간 초과")), 30000);
-
-    const handler = (data: any) => {
-      try {
-        const msg = JSON.parse(data.toString());
-        if (msg.id === id) {
-          clearTimeout(timeout);
-          extWs.off("message", handler);
-          if (msg.error) {
-            reject(new Error(msg.error));
-          } else {
-            resolve(msg.result);
-          }
-        }
-      } catch {}
-    };
-
-    extWs.on("message", handler);
-    extWs.send(JSON.stringify({ id, action, params }));
+  const result = await executor.execute();
+  run.finish({
+    status: result.success ? "completed" : "failed",
+    result: result.data !== undefined ? JSON.stringify(result.data) : undefined,
+    error: result.error,
   });
+  return result;
 }
 
 // ============================================================
@@ -140,83 +131,12 @@ const server = new Server(
 server.setRequestHandler(ListToolsRequestSchema, async () => {
   return {
     tools: [
-      // === 브라우저 도구 ===
-      {
-        name: "browser_navigate",
-        description: "웹페이지로 이동합니다",
-        inputSchema: {
-          type: "object",
-          properties: {
-            url: { type: "string", description: "이동할 URL" },
-          },
-          required: ["url"],
-        },
-      },
-      {
-        name: "browser_click",
-        description: "요소를 클릭합니다",
-        inputSchema: {
-          type: "object",
-          properties: {
-            selector: { type: "string", description: "CSS 선택자 또는 텍스트 선택자" },
-          },
-          required: ["selector"],
-        },
-      },
-      {
-        name: "browser_fill",
-        description: "입력 필드에 텍스트를 입력합니다",
-        inputSchema: {
-          type: "object",
-          properties: {
-            selector: { type: "string", description: "CSS 선택자" },
-            text: { type: "string", description: "입력할 텍스트" },
-          },
-          required: ["selector", "text"],
-        },
-      },
-      {
-        name: "browser_press",
-        description: "키보드 키를 누릅니다",
-        inputSchema: {
-          type: "object",
-          properties: {
-            key: { type: "string", description: "Enter, Tab, Escape 등" },
-          },
-          required: ["key"],
-        },
-      },
-      {
-        name: "browser_screenshot",
-        description: "현재 페이지 스크린샷을 찍습니다",
-        inputSchema: { type: "object", properties: {} },
-      },
-      {
-        name: "browser_snapshot",
-        description: "페이지의 인터랙티브 요소 목록을 가져옵니다",
-        inputSchema: { type: "object", properties: {} },
-      },
-      {
-        name: "browser_get_text",
-        description: "페이지의 텍스트 내용을 가져옵니다",
-        inputSchema: {
-          type: "object",
-          properties: {
-            selector: { type: "string", description: "CSS 선택자 (비어있으면 전체 페이지)" },
-          },
-        },
-      },
-      {
-        name: "browser_scroll",
-        description: "페이지를 스크롤합니다",
-        inputSchema: {
-          type: "object",
-          properties: {
-            direction: { type: "string", description: "up 또는 down" },
-          },
-          required: ["direction"],
-        },
-      },
+      // === 브라우저 도구 (CLI와 동일) ===
+      ...browserTools.map((tool) => ({
+        name: tool.name,
+        description: tool.description,
+        inputSchema: tool.parameters,
+      })),
 
       // === 파일시스템 도구 ===
       {
@@ -265,7 +185,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
         inputSchema: {
           type: "object",
           properties: {
-            filename: { type: "string", description: "파일명 (예: screenshot.png)" },
+            filename: { type: "string", description: "파일명 (예: screenshot.jpg)" },
           },
           required: ["filename"],
         },
@@ -330,6 +250,28 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           required: ["sql"],
         },
       },
+
+      // === 워크플로우 도구 ===
+      {
+        name: "workflow_list",
+        description: "저장된 워크플로우와 입력값을 조회합니다",
+        inputSchema: {
+          type: "object",
+          properties: {},
+        },
+      },
+      {
+        name: "workflow_run",
+        description: "워크플로우를 실행합니다 (입력값이 빠졌거나 타입이 맞지 않으면 실행하지 않음)",
+        inputSchema: {
+          type: "object",
+          properties: {
+            workflowId: { type: "string", description: "워크플로우 ID (workflow_list로 확인)" },
+            inputs: { type: "object", description: "입력값 (예: {\"product\": \"에어팟\"})" },
+          },
+          required: ["workflowId"],
+        },
+      },
     ],
   };
 });
@@ -342,59 +284,42 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
   try {
     // === 브라우저 도구 ===
-    if (name === "browser_navigate") {
-      const result = await sendExtCommand("navigate", { url: args?.url });
-      lastUrl = result.url;
-      lastTitle = result.title;
-      return {
-        content: [{ type: "text", text: `✅ ${result.url}로 이동했습니다.\n제목: ${result.title}` }],
-      };
-    }
-
-    if (name === "browser_click") {
-      await sendExtCommand("click", { selector: args?.selector });
-      return { content: [{ type: "text", text: `✅ "${args?.selector}" 클릭 완료` }] };
-    }
-
-    if (name === "browser_fill") {
-      await sendExtCommand("fill", { selector: args?.selector, value: args?.text });
-      return { content: [{ type: "text", text: `✅ "${args?.selector}"에 "${args?.text}" 입력 완료` }] };
-    }
-
-    if (name === "browser_press") {
-      await sendExtCommand("press", { key: args?.key });
-      return { content: [{ type: "text", text: `✅ ${args?.key} 키 입력 완료` }] };
-    }
-
-    if (name === "browser_screenshot") {
-      const result = await sendExtCommand("screenshot", {});
-      const dataUrl = result.image as string;
-      lastScreenshot = dataUrl.replace(/^data:image\/\w+;base64,/, "");
-      return {
-        content: [
-          { type: "text", text: "✅ 스크린샷 촬영 완료" },
-          { type: "image", data: lastScreenshot, mimeType: "image/png" },
-        ],
-      };
-    }
-
-    if (name === "browser_snapshot") {
-      const result = await sendExtCommand("snapshot", {});
-      const elements = result.elements as Array<{ ref: string; tag: string; text: string; selector: string }>;
-      const lines = elements.slice(0, 30).map((el, i) => `[${i + 1}] ${el.tag} "${el.text.slice(0, 50)}" → ${el.selector}`);
-      lastSnapshot = lines.join("\n");
-      return { content: [{ type: "text", text: `📋 페이지 요소 (${elements.length}개):\n\n${lastSnapshot}` }] };
-    }
+    if (browserTools.some((tool) => tool.name === name)) {
+      const settings = loadSettings();
+      const toolArgs = (args || {}) as Record<string, unknown>;
+      // 승인할 화면이 없으므로 승인이 필요한 동작(결제/삭제/발행 클릭, 업로드 등)은 차단
+      const rules = resolvePolicyRules(settings.policy);
+      const blocked = rules ? await new PolicyEngine(backend, rules).authorize(name, toolArgs) : null;
+      if (blocked) {
+        return { content: [{ type: "text", text: `❌ ${blocked}` }], isError: true };
+      }
 
-    if (name === "browser_get_text") {
-      const result = await sendExtCommand("getText", {});
-      lastPageText = (result.text as string).slice(0, 10000);
-      return { content: [{ type: "text", text: `📄 페이지 텍스트:\n\n${lastPageText}` }] };
-    }
+      const result = await executeBrowserTool(backend, name, toolArgs, {
+        urlGuard: createUrlGuard(settings.urlPolicy, "mcp"),
+      });
+
+      // 리소스(browser://...)용 상태 저장
+      if (name === "browser_navigate") {
+        const info = await backend.pageInfo();
+        lastUrl = info.url;
+        lastTitle = info.title;
+      } else if (name === "browser_snapshot") {
+        lastSnapshot = result.text;
+      } else if (name === "browser_get_text") {
+        lastPageText = result.text;
+      }
 
-    if (name === "browser_scroll") {
-      await sendExtCommand("scroll", { direction: args?.direction, amount: 500 });
-      return { content: [{ type: "text", text: `✅ ${args?.direction} 방향으로 스크롤 완료` }] };
+      if (result.image) {
+        lastScreenshot = result.image.data;
+        lastScreenshotMimeType = result.image.mimeType;
+        return {
+          content: [
+            { type: "text", text: result.text },
+            { type: "image", data: result.image.data, mimeType: result.image.mimeType },
+          ],
+        };
+      }
+      return { content: [{ type: "text", text: result.text }] };
     }
 
     // === 파일시스템 도구 ===
@@ -420,13 +345,11 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     }
 
     if (name === "file_list") {
-      const files = await fs.readdir(FILES_DIR);
-      const fileInfos = await Promise.all(
-        files.map(async (f) => {
-          const stat = await fs.stat(path.join(FILES_DIR, f));
-          return `${f} (${(stat.size / 1024).toFixed(1)}KB, ${stat.mtime.toLocaleString()})`;
-        })
-      );
+      const files = savedFiles.list(1000);
+      const fileInfos = files.map((f) => {
+        const source = f.url ? `, ${f.url}` : "";
+        return `${f.filename} (${f.format || "file"}, ${(f.size / 1024).toFixed(1)}KB, ${f.createdAt}${source})`;
+      });
       return { content: [{ type: "text", text: `📁 저장된 파일 (${files.length}개):\n\n${fileInfos.join("\n")}` }] };
     }
 
@@ -441,14 +364,17 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       if (!lastScreenshot) {
         return { content: [{ type: "text", text: "❌ 저장할 스크린샷이 없습니다. browser_screenshot을 먼저 실행하세요." }], isError: true };
       }
-      const filename = String(args?.filename || "screenshot.png").replace(/[^a-zA-Z0-9._-]/g, "_");
-      const filepath = path.join(FILES_DIR, filename);
-      await fs.writeFile(filepath, Buffer.from(lastScreenshot, "base64"));
-
-      // DB에도 기록
-      db.prepare("INSERT INTO screenshots (task, filename) VALUES (?, ?)").run(lastTitle || lastUrl, filename);
-
-      return { content: [{ type: "text", text: `✅ 스크린샷 저장됨: ${filepath}` }] };
+      const defaultName = lastScreenshotMimeType === "image/jpeg" ? "screenshot.jpg" : "screenshot.png";
+      const filename = String(args?.filename || defaultName).replace(/[^a-zA-Z0-9._-]/g, "_");
+      // files, screenshots 테이블에도 기록
+      const saved = savedFiles.save(filename, Buffer.from(lastScreenshot, "base64"), {
+        format: path.extname(filename).slice(1).toLowerCase(),
+        mimeType: lastScreenshotMimeType,
+        url: lastUrl,
+        title: lastTitle,
+      });
+
+      return { content: [{ type: "text", text: `✅ 스크린샷 저장됨: ${saved.path}` }] };
     }
 
     // === 데이터베이스 도구 ===
@@ -502,6 +428,34 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       return { content: [{ type: "text", text: `📊 쿼리 결과 (${(rows as any[]).length}개):\n\n${JSON.stringify(rows, null, 2)}` }] };
     }
 
+    // === 워크플로우 도구 ===
+    if (name === "workflow_list") {
+      const workflows = loadWorkflows();
+      const text = workflows.map((wf) => {
+        const inputs = wf.inputs?.length ? `\n  입력값: ${formatWorkflowInputs(wf)}` : "";
+        return `${wf.id} - ${wf.name}${wf.description ? ` (${wf.description})` : ""}${inputs}`;
+      }).join("\n");
+      return { content: [{ type: "text", text: `📋 워크플로우 (${workflows.length}개):\n\n${text}` }] };
+    }
+
+    if (name === "workflow_run") {
+      const workflow = loadWorkflow(String(args?.workflowId || ""));
+      if (!workflow) {
+        return { content: [{ type: "text", text: `❌ 워크플로우를 찾을 수 없음: ${args?.workflowId}` }], isError: true };
+      }
+      // 입력값 오류는 브라우저를 건드리기 전에 에러로 돌려줌
+      const inputs = resolveWorkflowInputs(workflow, (args?.inputs || {}) as Record<string, unknown>);
+      const result = await runWorkflow(workflow, inputs);
+      if (!result.success) {
+        return { content: [{ type: "text", text: `❌ 실패: ${result.error || "알 수 없는 오류"}` }], isError: true };
+      }
+      const seconds = ((result.endTime - result.startTime) / 1000).toFixed(1);
+      const usage = result.usage ? `, ${formatUsage(result.usage)}` : "";
+      const data = result.data !== undefined ? `\n\n${JSON.stringify(result.data, null, 2)}` : "";
+      const outputs = result.outputs && Object.keys(result.outputs).length > 0 ? `\n\n단계 출력:\n${JSON.stringify(result.outputs, null, 2)}` : "";
+      return { content: [{ type: "text", text: `✅ 완료: ${workflow.name} (${result.stepsExecuted}단계, ${seconds}초${usage})${data}${outputs}` }] };
+    }
+
     return { content: [{ type: "text", text: `❌ 알 수 없는 도구: ${name}` }], isError: true };
   } catch (error) {
     return { content: [{ type: "text", text: `❌ 에러: ${(error as Error).message}` }], isError: true };
@@ -514,7 +468,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 server.setRequestHandler(ListResourcesRequestSchema, async () => {
   return {
     resources: [
-      { uri: "browser://screenshot", name: "현재 페이지 스크린샷", mimeType: "image/png" },
+      { uri: "browser://screenshot", name: "현재 페이지 스크린샷", mimeType: lastScreenshotMimeType },
       { uri: "browser://snapshot", name: "페이지 요소 목록", mimeType: "text/plain" },
       { uri: "browser://text", name: "페이지 텍스트", mimeType: "text/plain" },
       { uri: "browser://info", name: "현재 페이지 정보", mimeType: "application/json" },
@@ -534,7 +488,7 @@ server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
     if (!lastScreenshot) {
       return { contents: [{ uri, mimeType: "text/plain", text: "스크린샷 없음" }] };
     }
-    return { contents: [{ uri, mimeType: "image/png", blob: lastScreenshot }] };
+    return { contents: [{ uri, mimeType: lastScreenshotMimeType, blob: lastScreenshot }] };
   }
 
   if (uri === "browser://snapshot") {
@@ -550,8 +504,7 @@ server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
   }
 
   if (uri === "file://list") {
-    const files = await fs.readdir(FILES_DIR);
-    return { contents: [{ uri, mimeType: "application/json", text: JSON.stringify(files, null, 2) }] };
+    return { contents: [{ uri, mimeType: "application/json", text: JSON.stringify(savedFiles.list(1000), null, 2) }] };
   }
 
   if (uri === "db://results") {
@@ -3,7 +3,10 @@
  * 텔레그램에서 명령을 받아 브라우저 작업 실행
  */
 
-import { Bot, Context } from "grammy";
+import { Bot, Context, InlineKeyboard } from "grammy";
+
+// 승인 버튼을 누르지 않으면 거부로 처리
+const CONFIRM_TIMEOUT_MS = 5 * 60 * 1000;
 
 export interface TelegramBotConfig {
   token: string;
@@ -16,10 +19,16 @@ export interface MessageContext {
   userId: number;
   username?: string;
   replyTo: (text: string) => Promise<void>;
+  // 승인/거부 버튼이 달린 메시지를 보내고 누를 때까지 기다림 (시간 초과면 false)
+  confirm: (text: string) => Promise<boolean>;
 }
 
 let bot: Bot | null = null;
 
+// 버튼 응답을 기다리는 승인 요청 (id → 결과 전달)
+const pendingConfirms = new Map<string, (approved: boolean) => void>();
+let confirmCounter = 0;
+
 export async function startTelegramBot(config: TelegramBotConfig): Promise<Bot> {
   const { token, allowedUsers, onMessage } = config;
 
@@ -30,6 +39,10 @@ export async function startTelegramBot(config: TelegramBotConfig): Promise<Bot>
     console.error("[Telegram] 에러:", err.message);
   });
 
+  // 작업은 하나씩 순서대로 실행 (브라우저 공유)
+  // 핸들러에서 기다리면 작업 중에 승인 버튼(callback_query)을 처리할 수 없으므로 큐에만 넣음
+  let queue: Promise<void> = Promise.resolve();
+
   // 메시지 핸들러
   bot.on("message:text", async (ctx) => {
     const userId = ctx.from?.id;
@@ -67,17 +80,59 @@ export async function startTelegramBot(config: TelegramBotConfig): Promise<Bot>
       replyTo: async (reply: string) => {
         await ctx.reply(reply, { parse_mode: "HTML" });
       },
+      confirm: async (question: string) => {
+        const id = String(++confirmCounter);
+        const answer = new Promise<boolean>((resolve) => {
+          const timer = setTimeout(() => settle(false), CONFIRM_TIMEOUT_MS);
+          const settle = (approved: boolean) => {
+            clearTimeout(timer);
+            pendingConfirms.delete(id);
+            resolve(approved);
+          };
+          pendingConfirms.set(id, settle);
+        });
+        const keyboard = new InlineKeyboard().text("✅ 승인", `approve:${id}`).text("❌ 거부", `deny:${id}`);
+        try {
+          await ctx.reply(question, { reply_markup: keyboard });
+        } catch (error) {
+          pendingConfirms.get(id)?.(false);
+          throw error;
+        }
+        return answer;
+      },
     };
 
-    try {
-      const response = await onMessage(text, messageCtx);
-      if (response) {
-        await ctx.reply(response, { parse_mode: "HTML" });
+    queue = queue.then(async () => {
+      try {
+        const response = await onMessage(text, messageCtx);
+        if (response) {
+          await ctx.reply(response, { parse_mode: "HTML" });
+        }
+      } catch (error) {
+        const errMsg = error instanceof Error ? error.message : String(error);
+        await ctx.reply(`❌ 에러: ${errMsg}`).catch(() => {});
       }
-    } catch (error) {
-      const errMsg = error instanceof Error ? error.message : String(error);
-      await ctx.reply(`❌ 에러: ${errMsg}`);
+    });
+  });
+
+  // 승인 버튼
+  bot.on("callback_query:data", async (ctx) => {
+    const match = /^(approve|deny):(.+)$/.exec(ctx.callbackQuery.data);
+    const settle = match ? pendingConfirms.get(match[2]) : undefined;
+    if (!match || !settle) {
+      await ctx.answerCallbackQuery({ text: "만료된 요청입니다" });
+      return;
     }
+    if (!allowedUsers?.includes(ctx.from.id)) {
+      await ctx.answerCallbackQuery({ text: "⛔ 권한이 없습니다" });
+      return;
+    }
+
+    const approved = match[1] === "approve";
+    settle(approved);
+    await ctx.answerCallbackQuery({ text: approved ? "승인됨" : "거부됨" });
+    const original = ctx.callbackQuery.message?.text ?? "";
+    await ctx.editMessageText(`${original}\n\n${approved ? "✅ 승인됨" : "❌ 거부됨"}`).catch(() => {});
   });
 
   // 시작
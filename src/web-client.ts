@@ -3,6 +3,7 @@
  * 멀티 브라우저 제어 웹 UI + 텔레그램 설정
  */
 
+import crypto from "node:crypto";
 import http from "node:http";
 import { WebSocketServer, WebSocket } from "ws";
 import fs from "node:fs";
@@ -14,9 +15,35 @@ import {
   saveWorkflow,
   deleteWorkflow,
   generateWorkflowId,
+  checkWorkflowInputs,
+  checkStepOutputs,
+  checkConditionSteps,
+  checkLoopSteps,
+  checkParallelSteps,
+  resolveWorkflowInputs,
   type Workflow,
+  type WorkflowInputValues,
   type WorkflowStep,
 } from "./workflow/index.js";
+import {
+  readUsageLog,
+  summarizeUsageLog,
+  startOfDay,
+  startOfMonth,
+  getTraceStore,
+  type UsageSettings,
+} from "./agent/index.js";
+import {
+  getSecretStore,
+  getTotpStore,
+  parseTotpSeed,
+  parseRouteRules,
+  type ApprovalRequest,
+  type PolicySettings,
+  type RouteRule,
+  type UrlPolicySettings,
+} from "./browser/index.js";
+import { getRunStore, getSavedFileStore, mimeTypeFor } from "./data/index.js";
 
 // 설정 파일 경로
 const CONFIG_DIR = path.join(os.homedir(), ".pi-browser");
@@ -41,12 +68,24 @@ export interface Settings {
     headless?: boolean;
     profilePath?: string;
     selectedProfile?: string; // 프로필 경로
+    routes?: RouteRule[]; // CDP 모드 요청 차단/대체 규칙 (광고, 트래커, 동영상 등)
   };
   notion?: {
     enabled?: boolean;
     apiKey?: string;
     databaseId?: string;
   };
+  usage?: UsageSettings; // provider/model 가격 덮어쓰기와 예산 (USD)
+  policy?: PolicySettings; // 승인이 필요한 동작 (발행, 결제, 삭제 등)
+  urlPolicy?: UrlPolicySettings; // 채널별 이동 가능한 URL (허용/차단 도메인)
+  network?: {
+    capture?: boolean; // CDP 모드 실행의 요청/응답을 HAR로 저장하고 browser_network 도구 추가
+  };
+  trace?: {
+    enabled?: boolean; // 실행마다 ~/.pi-browser/data/traces에 기록 (기본값: true)
+    screenshots?: boolean; // 브라우저 도구 실행 뒤 화면 저장 (기본값: true)
+    playwright?: boolean; // CDP 모드에서 Playwright trace(zip)도 저장
+  };
 }
 
 export interface ChromeProfile {
@@ -503,6 +542,49 @@ const HTML_PAGE = `<!DOCTYPE html>
     .alert-success { background: #1a3a1a; border: 2px solid #27ae60; color: #2ecc71; }
     .alert-error { background: #3a1a1a; border: 2px solid #e74c3c; color: #e74c3c; }
 
+    /* 승인 창 */
+    .approval-modal {
+      position: fixed;
+      inset: 0;
+      background: rgba(0,0,0,0.7);
+      z-index: 10000;
+      align-items: center;
+      justify-content: center;
+    }
+    .approval-box {
+      background: #16213e;
+      border: 2px solid #f39c12;
+      border-radius: 12px;
+      padding: 24px;
+      width: min(520px, 90vw);
+      box-shadow: 0 0 30px rgba(243,156,18,0.3);
+    }
+    .approval-box h3 { color: #f39c12; margin-bottom: 12px; }
+    .approval-reason { font-size: 15px; margin-bottom: 12px; }
+    .approval-detail {
+      background: #0a0a1a;
+      padding: 10px;
+      border-radius: 6px;
+      font-size: 12px;
+      color: #aaa;
+      white-space: pre-wrap;
+      word-break: break-all;
+      max-height: 200px;
+      overflow: auto;
+      margin-bottom: 16px;
+    }
+    .approval-actions { display: flex; gap: 10px; justify-content: flex-end; }
+    .wf-input-row { margin-bottom: 12px; }
+    .wf-input-row label { display: block; color: #aaa; font-size: 12px; margin-bottom: 4px; }
+    .wf-input-row input[type=text], .wf-input-row input[type=number], .wf-input-row textarea {
+      width: 100%;
+      padding: 6px 8px;
+      background: #222;
+      border: 1px solid #333;
+      border-radius: 4px;
+      color: #fff;
+    }
+
     /* 워크플로우 스타일 */
     .workflows-grid {
       display: grid;
@@ -726,6 +808,41 @@ const HTML_PAGE = `<!DOCTYPE html>
       text-overflow: ellipsis;
       white-space: nowrap;
     }
+    .trace-layout {
+      display: flex;
+      gap: 15px;
+      align-items: flex-start;
+    }
+    .trace-timeline {
+      width: 320px;
+      max-height: 600px;
+      overflow-y: auto;
+      flex-shrink: 0;
+    }
+    .trace-entry {
+      padding: 6px 10px;
+      margin-bottom: 3px;
+      background: rgba(0,0,0,0.3);
+      border-left: 2px solid rgba(0,217,255,0.2);
+      cursor: pointer;
+      font-size: 12px;
+      white-space: nowrap;
+      overflow: hidden;
+      text-overflow: ellipsis;
+    }
+    .trace-entry:hover { background: rgba(0,217,255,0.1); }
+    .trace-entry.active { background: rgba(0,217,255,0.2); border-left-color: #00d9ff; }
+    .trace-entry.error { border-left-color: #e74c3c; color: #e74c3c; }
+    .trace-entry-time {
+      color: #666;
+      font-size: 10px;
+      margin-right: 6px;
+    }
+    .trace-shot {
+      max-width: 100%;
+      border: 1px solid rgba(0,217,255,0.3);
+      margin-top: 10px;
+    }
     .mission-section {
       background: rgba(0,50,100,0.2);
       border: 1px solid rgba(0,217,255,0.3);
@@ -769,6 +886,7 @@ const HTML_PAGE = `<!DOCTYPE html>
     <div class="tabs">
       <button class="tab active" onclick="showTab('tasks')">📋 작업</button>
       <button class="tab" onclick="showTab('workflows')">🔄 워크플로우</button>
+      <button class="tab" onclick="showTab('traces')">🔍 기록</button>
       <button class="tab" onclick="showTab('settings')">⚙️ 설정</button>
     </div>
 
@@ -787,6 +905,10 @@ const HTML_PAGE = `<!DOCTYPE html>
           <div class="stat-value" id="doneTasks">0</div>
           <div class="stat-label">완료</div>
         </div>
+        <div class="stat">
+          <div class="stat-value" id="taskCost" title="">$0.00</div>
+          <div class="stat-label">비용</div>
+        </div>
         <div class="stat">
           <div id="connectionStatus" class="disconnected">● 연결 안됨</div>
           <div class="stat-label">서버</div>
@@ -871,6 +993,28 @@ const HTML_PAGE = `<!DOCTYPE html>
             <input type="number" id="wfMaxTurns" value="30" min="5" max="100" style="width:60px;padding:4px 8px;background:#222;border:1px solid #333;border-radius:4px;color:#fff;">
             <span style="color:#666;font-size:11px;">💡 AI가 자동으로 사이트 접속, 로그인 상태 확인, 정보 수집을 처리합니다.</span>
           </div>
+          <details style="margin-top:10px;">
+            <summary style="color:#888;cursor:pointer;font-size:12px;">📦 출력 스키마 (선택, JSON Schema)</summary>
+            <textarea id="wfOutputSchema" class="mission-input" style="min-height:100px;font-family:monospace;font-size:12px;" placeholder='결과를 JSON으로 받으려면 스키마를 입력하세요. 예:
+{"type":"array","items":{"type":"object","properties":{"product":{"type":"string"},"price":{"type":"number"},"rating":{"type":"number"}},"required":["product","price"]}}'></textarea>
+          </details>
+          <details style="margin-top:10px;">
+            <summary style="color:#888;cursor:pointer;font-size:12px;">📥 입력값 (선택, JSON)</summary>
+            <textarea id="wfInputs" class="mission-input" style="min-height:80px;font-family:monospace;font-size:12px;" placeholder='미션과 단계에서 {{inputs.이름}}으로 쓸 값을 선언하세요. 예:
+[{"name":"product","type":"string","required":true,"description":"검색할 상품"},{"name":"count","type":"number","default":3},{"name":"urls","type":"list"}]'></textarea>
+          </details>
+          <label style="display:flex;align-items:center;gap:6px;margin-top:10px;color:#888;font-size:12px;">
+            <input type="checkbox" id="wfRecordReplay">
+            🎬 성공하면 동작을 기록해서 다음 실행부터 AI 없이 재생
+          </label>
+          <div style="display:flex;align-items:center;gap:10px;margin-top:10px;">
+            <span style="color:#666;font-size:11px;white-space:nowrap;">🛡️ 허용 도메인:</span>
+            <input type="text" id="wfAllowedDomains" placeholder="비우면 설정의 URL 정책만 적용 (예: naver.com, coupang.com)" style="flex:1;padding:4px 8px;background:#222;border:1px solid #333;border-radius:4px;color:#fff;font-size:12px;">
+          </div>
+          <div style="display:flex;align-items:center;gap:10px;margin-top:10px;">
+            <span style="color:#666;font-size:11px;white-space:nowrap;">🍪 세션:</span>
+            <input type="text" id="wfSession" placeholder="실행 전에 불러올 세션 이름 (/session save로 저장)" style="flex:1;padding:4px 8px;background:#222;border:1px solid #333;border-radius:4px;color:#fff;font-size:12px;">
+          </div>
         </div>
 
         <details class="steps-advanced" style="margin-top:20px;">
@@ -921,6 +1065,10 @@ const HTML_PAGE = `<!DOCTYPE html>
               </select>
               <input type="time" id="scheduleTimeWeekly" value="09:00" onchange="updateSchedule()">
             </div>
+            <div class="schedule-row">
+              <label>입력값</label>
+              <input type="text" id="scheduleInputs" placeholder='스케줄 실행에 쓸 값 (JSON, 예: {"product":"에어팟"})' style="flex:1;">
+            </div>
           </div>
         </div>
 
@@ -950,6 +1098,66 @@ const HTML_PAGE = `<!DOCTYPE html>
       </div>
     </div>
 
+    <!-- 기록 탭 -->
+    <div id="tab-traces" class="tab-content">
+      <div id="traceListSection">
+        <!-- 실행 이력 검색 -->
+        <div class="settings-section">
+          <h3>📜 실행 이력</h3>
+          <p style="color:#888;font-size:12px;margin-bottom:15px;">
+            CLI, 웹 UI, 텔레그램, 스케줄러에서 실행한 작업과 워크플로우의 결과와 로그입니다. 위치: ~/.pi-browser/data/pi-browser.db
+          </p>
+          <div style="display:flex;gap:10px;margin-bottom:15px;">
+            <input type="text" id="runSearch" placeholder="미션, 결과, 로그 검색" autocomplete="off" style="flex:1;" />
+            <select id="runSource" class="cyber-select" style="width:130px;" onchange="searchRuns()">
+              <option value="">전체 채널</option>
+              <option value="cli">CLI</option>
+              <option value="web">웹 UI</option>
+              <option value="telegram">텔레그램</option>
+              <option value="scheduler">스케줄러</option>
+              <option value="parallel">병렬</option>
+              <option value="mcp">MCP</option>
+            </select>
+            <select id="runStatus" class="cyber-select" style="width:110px;" onchange="searchRuns()">
+              <option value="">전체 상태</option>
+              <option value="completed">완료</option>
+              <option value="failed">실패</option>
+              <option value="stopped">중지</option>
+              <option value="running">실행중</option>
+            </select>
+            <button class="btn-primary" onclick="searchRuns()">🔍 검색</button>
+          </div>
+          <div id="runList"></div>
+          <div id="runDetail" style="margin-top:15px;"></div>
+        </div>
+
+        <!-- 트레이스 목록 -->
+        <div class="settings-section">
+          <h3>🔍 실행 기록 <button class="btn-secondary btn-sm" onclick="loadTraces()">🔄 새로고침</button></h3>
+          <p style="color:#888;font-size:12px;margin-bottom:15px;">
+            작업과 워크플로우 실행마다 AI 응답, 도구 호출(인자, 결과, 걸린 시간)과 화면을 기록합니다. 위치: ~/.pi-browser/data/traces
+          </p>
+          <div id="traceList"></div>
+        </div>
+      </div>
+
+      <!-- 타임라인 (숨김) -->
+      <div id="traceViewer" class="settings-section" style="display:none;">
+        <h3 id="traceTitle"></h3>
+        <div id="traceSummary" style="color:#888;font-size:12px;margin-bottom:15px;"></div>
+        <div style="margin-bottom:15px;">
+          <button class="btn-secondary btn-sm" style="margin-left:0;" onclick="closeTrace()">← 목록으로</button>
+          <button class="btn-secondary btn-sm" onclick="stepTrace(-1)">◀ 이전</button>
+          <button class="btn-secondary btn-sm" onclick="stepTrace(1)">다음 ▶</button>
+          <small style="color:#666;margin-left:10px;">←/→ 키로 한 단계씩 이동</small>
+        </div>
+        <div class="trace-layout">
+          <div id="traceTimeline" class="trace-timeline"></div>
+          <div id="traceDetail" style="flex:1;min-width:0;"></div>
+        </div>
+      </div>
+    </div>
+
     <!-- 설정 탭 -->
     <div id="tab-settings" class="tab-content">
       <div id="settingsAlert"></div>
@@ -1090,6 +1298,56 @@ const HTML_PAGE = `<!DOCTYPE html>
           <small>각 작업마다 독립적인 프로필 사용</small>
         </div>
 
+        <div class="form-group">
+          <div class="toggle-group">
+            <label class="toggle">
+              <input type="checkbox" id="networkCapture">
+              <span class="toggle-slider"></span>
+            </label>
+            <span>네트워크 기록 (HAR)</span>
+          </div>
+          <small>작업마다 요청/응답을 ~/.pi-browser/data/har에 저장하고 AI가 API 응답을 읽을 수 있게 합니다 (CDP 모드만)</small>
+        </div>
+
+        <div class="form-group">
+          <div class="toggle-group">
+            <label class="toggle">
+              <input type="checkbox" id="traceEnabled" checked>
+              <span class="toggle-slider"></span>
+            </label>
+            <span>실행 기록</span>
+          </div>
+          <small>작업과 워크플로우 실행의 AI 응답, 도구 호출을 저장해서 🔍 기록 탭에서 다시 봅니다</small>
+        </div>
+
+        <div class="form-group">
+          <div class="toggle-group">
+            <label class="toggle">
+              <input type="checkbox" id="traceScreenshots" checked>
+              <span class="toggle-slider"></span>
+            </label>
+            <span>기록에 화면 저장</span>
+          </div>
+          <small>브라우저 도구를 실행할 때마다 스크린샷을 찍어 기록에 붙입니다</small>
+        </div>
+
+        <div class="form-group">
+          <div class="toggle-group">
+            <label class="toggle">
+              <input type="checkbox" id="tracePlaywright">
+              <span class="toggle-slider"></span>
+            </label>
+            <span>Playwright trace</span>
+          </div>
+          <small>DOM 스냅샷과 네트워크가 들어 있는 trace.zip도 저장합니다 (CDP 모드만, <code>npx playwright show-trace</code>로 열기)</small>
+        </div>
+
+        <div class="form-group">
+          <label>요청 차단 규칙 (JSON)</label>
+          <textarea id="browserRoutes" class="mission-input" style="min-height:80px;font-family:monospace;font-size:12px;" placeholder='[{"action":"block","preset":"ads"},{"action":"block","preset":"trackers"},{"action":"block","resourceTypes":["media","font"]}]'></textarea>
+          <small>광고, 트래커, 동영상 요청을 막아 페이지 로드를 빠르게 합니다 (CDP 모드만). action: block / stub / headers</small>
+        </div>
+
         <div class="form-group">
           <label>프로필 경로 (선택)</label>
           <input type="text" id="browserProfilePath" placeholder="~/.pi-browser/chrome-profile" />
@@ -1129,6 +1387,108 @@ const HTML_PAGE = `<!DOCTYPE html>
         <button class="btn-secondary" onclick="testNotion()">🧪 연결 테스트</button>
         <button class="btn-success" onclick="openNotion()">🔗 Notion 열기</button>
       </div>
+
+      <div class="settings-section">
+        <h3>💰 사용량 & 예산</h3>
+
+        <div id="usageReport" class="task-log" style="margin-bottom:15px;">...</div>
+
+        <div class="form-group">
+          <label>예산 (USD, 비워두면 제한 없음)</label>
+          <div style="display:flex;gap:10px;">
+            <input type="number" id="budgetPerRun" min="0" step="0.01" placeholder="실행당" />
+            <input type="number" id="budgetDaily" min="0" step="0.01" placeholder="일일" />
+            <input type="number" id="budgetMonthly" min="0" step="0.01" placeholder="월" />
+          </div>
+          <small>넘으면 다음 AI 호출 전에 실행을 멈춥니다 (워크플로우는 실행 전체 기준)</small>
+        </div>
+
+        <div class="form-group">
+          <label>가격표 덮어쓰기 (100만 토큰당 USD, JSON)</label>
+          <textarea id="usagePrices" class="mission-input" style="min-height:80px;font-family:monospace;font-size:12px;" placeholder='{"google":{"gemini-2.5-flash":{"input":0.3,"output":2.5}},"openai":{"*":{"input":1,"output":4}}}'></textarea>
+          <small>없으면 모델 기본 가격을 사용합니다 (Ollama는 무료). "*"는 해당 provider의 나머지 모델</small>
+        </div>
+
+        <button class="btn-primary" onclick="saveUsageSettings()">💾 저장</button>
+        <button class="btn-secondary" onclick="ws.send(JSON.stringify({ type: 'getUsage' }))">🔄 새로고침</button>
+      </div>
+
+      <div class="settings-section">
+        <h3>🔐 비밀 값</h3>
+        <p style="color:#888;font-size:12px;margin-bottom:15px;">
+          미션에 비밀번호 대신 <code>{{secret:이름}}</code>을 쓰면 입력할 때만 값으로 바뀝니다. 값은 암호화되어 저장되고 AI, 로그, 결과에는 나타나지 않습니다.
+        </p>
+
+        <div id="secretList" style="margin-bottom:15px;"></div>
+
+        <div class="form-group">
+          <label>이름</label>
+          <input type="text" id="secretName" placeholder="naver_pw" autocomplete="off" />
+        </div>
+        <div class="form-group">
+          <label>값</label>
+          <input type="password" id="secretValue" placeholder="저장하면 다시 볼 수 없습니다" autocomplete="new-password" />
+        </div>
+
+        <button class="btn-primary" onclick="saveSecret()">💾 저장</button>
+      </div>
+
+      <div class="settings-section">
+        <h3>🔑 2단계 인증 (TOTP)</h3>
+        <p style="color:#888;font-size:12px;margin-bottom:15px;">
+          인증 앱에 등록할 때 받은 시드를 저장하면 에이전트가 <code>{{totp:이름}}</code>으로 인증 코드를 입력합니다. 시드는 비밀 값과 같은 방식으로 암호화됩니다.
+        </p>
+
+        <div id="totpList" style="margin-bottom:15px;"></div>
+
+        <div class="form-group">
+          <label>이름</label>
+          <input type="text" id="totpName" placeholder="github" autocomplete="off" />
+        </div>
+        <div class="form-group">
+          <label>시드</label>
+          <input type="password" id="totpSeed" placeholder="Base32 시드 또는 otpauth://totp/... URI" autocomplete="new-password" />
+        </div>
+
+        <button class="btn-primary" onclick="saveTotpSeed()">💾 저장</button>
+      </div>
+
+      <div class="settings-section">
+        <h3>📁 저장된 파일</h3>
+        <p style="color:#888;font-size:12px;margin-bottom:15px;">
+          에이전트가 <code>browser_save_page</code>로 보관한 페이지(PNG, PDF, MHTML)와 MCP 서버에서 저장한 파일입니다. 위치: ~/.pi-browser/data/files
+        </p>
+
+        <div id="savedFileList" class="task-log" style="margin-bottom:15px;">...</div>
+
+        <button class="btn-secondary" onclick="ws.send(JSON.stringify({ type: 'getSavedFiles' }))">🔄 새로고침</button>
+      </div>
+    </div>
+  </div>
+
+  <!-- 위험한 동작 승인 창 -->
+  <div id="approvalModal" class="approval-modal" style="display:none;">
+    <div class="approval-box">
+      <h3>⚠️ 승인이 필요합니다</h3>
+      <div id="approvalReason" class="approval-reason"></div>
+      <pre id="approvalDetail" class="approval-detail"></pre>
+      <div class="approval-actions">
+        <button class="btn-success" onclick="respondApproval(true)">✅ 승인</button>
+        <button class="btn-danger" onclick="respondApproval(false)">❌ 거부</button>
+      </div>
+    </div>
+  </div>
+
+  <!-- 워크플로우 입력값 창 -->
+  <div id="wfInputModal" class="approval-modal" style="display:none;">
+    <div class="approval-box" style="border-color:#00d9ff;box-shadow:0 0 30px rgba(0,217,255,0.3);">
+      <h3 id="wfInputTitle" style="color:#00d9ff;"></h3>
+      <div id="wfInputFields"></div>
+      <div id="wfInputError" style="color:#e74c3c;font-size:12px;margin-bottom:10px;"></div>
+      <div class="approval-actions">
+        <button class="btn-success" onclick="submitWorkflowInputs()">▶ 실행</button>
+        <button class="btn-secondary" onclick="closeWorkflowInputs()">취소</button>
+      </div>
     </div>
   </div>
 
@@ -1143,6 +1503,13 @@ const HTML_PAGE = `<!DOCTYPE html>
       document.querySelectorAll('.tab-content').forEach(t => t.classList.remove('active'));
       document.querySelector(\`[onclick="showTab('\${tabId}')"]\`).classList.add('active');
       document.getElementById('tab-' + tabId).classList.add('active');
+      if (tabId === 'settings' && ws && ws.readyState === WebSocket.OPEN) {
+        ws.send(JSON.stringify({ type: 'getSavedFiles' }));
+      }
+      if (tabId === 'traces' && ws && ws.readyState === WebSocket.OPEN) {
+        loadTraces();
+        searchRuns();
+      }
     }
 
     function connect() {
@@ -1153,6 +1520,10 @@ const HTML_PAGE = `<!DOCTYPE html>
         document.getElementById('connectionStatus').textContent = '● 연결됨';
         ws.send(JSON.stringify({ type: 'getSettings' }));
         ws.send(JSON.stringify({ type: 'getProfiles' }));
+        ws.send(JSON.stringify({ type: 'getUsage' }));
+        ws.send(JSON.stringify({ type: 'getSecrets' }));
+        ws.send(JSON.stringify({ type: 'getTotpSeeds' }));
+        ws.send(JSON.stringify({ type: 'getSavedFiles' }));
         // 초기 모델 목록 표시
         toggleOllamaSettings();
       };
@@ -1200,6 +1571,60 @@ const HTML_PAGE = `<!DOCTYPE html>
         return;
       }
 
+      if (msg.type === 'approvalRequest') {
+        if (!approvalQueue.some(r => r.id === msg.id)) approvalQueue.push(msg);
+        renderApproval();
+        return;
+      }
+
+      if (msg.type === 'approvalResolved') {
+        approvalQueue = approvalQueue.filter(r => r.id !== msg.id);
+        renderApproval();
+        return;
+      }
+
+      if (msg.type === 'secrets') {
+        renderSecrets(msg.names || []);
+        return;
+      }
+
+      if (msg.type === 'totpSeeds') {
+        renderTotpSeeds(msg.names || []);
+        return;
+      }
+
+      if (msg.type === 'savedFiles') {
+        renderSavedFiles(msg.files || []);
+        return;
+      }
+
+      if (msg.type === 'traces') {
+        renderTraceList(msg.traces || []);
+        return;
+      }
+
+      if (msg.type === 'runs') {
+        renderRunList(msg.runs || [], msg.error);
+        return;
+      }
+
+      if (msg.type === 'runDetail') {
+        renderRunDetail(msg.run);
+        return;
+      }
+
+      if (msg.type === 'traceDetail') {
+        currentTrace = msg.trace;
+        traceCursor = 0;
+        renderTrace();
+        return;
+      }
+
+      if (msg.type === 'usageReport') {
+        renderUsageReport(msg.today, msg.month);
+        return;
+      }
+
       if (msg.type === 'ollamaStatus') {
         updateOllamaStatus(msg.connected, msg.message);
         if (msg.connected && msg.models) {
@@ -1247,6 +1672,13 @@ const HTML_PAGE = `<!DOCTYPE html>
         task.status = 'error';
         updateTaskCard(msg.taskId);
         updateStats();
+      } else if (msg.type === 'usage') {
+        task.usage = msg.usage;
+        updateTaskCard(msg.taskId);
+        updateStats();
+      } else if (msg.type === 'trace') {
+        task.traceId = msg.traceId;
+        updateTaskCard(msg.taskId);
       }
     }
 
@@ -1288,6 +1720,7 @@ const HTML_PAGE = `<!DOCTYPE html>
         document.getElementById('browserHeadless').checked = settings.browser.headless || false;
         document.getElementById('browserMultiProfile').checked = settings.browser.multiProfile || false;
         document.getElementById('browserProfilePath').value = settings.browser.profilePath || '';
+        document.getElementById('browserRoutes').value = settings.browser.routes ? JSON.stringify(settings.browser.routes, null, 2) : '';
         // 프로필 선택 (프로필 목록이 로드된 후 적용)
         if (settings.browser.selectedProfile) {
           setTimeout(() => {
@@ -1295,6 +1728,17 @@ const HTML_PAGE = `<!DOCTYPE html>
           }, 100);
         }
       }
+      document.getElementById('networkCapture').checked = settings.network?.capture || false;
+      document.getElementById('traceEnabled').checked = settings.trace?.enabled !== false;
+      document.getElementById('traceScreenshots').checked = settings.trace?.screenshots !== false;
+      document.getElementById('tracePlaywright').checked = settings.trace?.playwright || false;
+      if (settings.usage) {
+        const budget = settings.usage.budget || {};
+        document.getElementById('budgetPerRun').value = budget.perRunUsd ?? '';
+        document.getElementById('budgetDaily').value = budget.dailyUsd ?? '';
+        document.getElementById('budgetMonthly').value = budget.monthlyUsd ?? '';
+        document.getElementById('usagePrices').value = settings.usage.prices ? JSON.stringify(settings.usage.prices, null, 2) : '';
+      }
       if (settings.notion) {
         document.getElementById('notionEnabled').checked = settings.notion.enabled || false;
         document.getElementById('notionApiKey').value = settings.notion.apiKey || '';
@@ -1580,10 +2024,29 @@ const HTML_PAGE = `<!DOCTYPE html>
       const multiProfile = document.getElementById('browserMultiProfile').checked;
       const profilePath = document.getElementById('browserProfilePath').value.trim();
       const selectedProfile = document.getElementById('browserProfile').value;
+      const capture = document.getElementById('networkCapture').checked;
+      const trace = {
+        enabled: document.getElementById('traceEnabled').checked,
+        screenshots: document.getElementById('traceScreenshots').checked,
+        playwright: document.getElementById('tracePlaywright').checked
+      };
+
+      let routes;
+      const rawRoutes = document.getElementById('browserRoutes').value.trim();
+      if (rawRoutes) {
+        try {
+          routes = JSON.parse(rawRoutes);
+        } catch (e) {
+          showAlert(false, '요청 차단 규칙 JSON 오류: ' + e.message);
+          return;
+        }
+      }
 
       ws.send(JSON.stringify({
         type: 'saveBrowser',
-        settings: { mode, reuseExisting, headless, multiProfile, profilePath, selectedProfile }
+        settings: { mode, reuseExisting, headless, multiProfile, profilePath, selectedProfile, routes },
+        network: { capture },
+        trace
       }));
     }
 
@@ -1610,6 +2073,334 @@ const HTML_PAGE = `<!DOCTYPE html>
       }));
     }
 
+    // 비밀 값은 이름만 받음 (값은 서버 밖으로 나오지 않음)
+    function renderSecrets(names) {
+      const el = document.getElementById('secretList');
+      if (names.length === 0) {
+        el.innerHTML = '<small style="color:#666;">저장된 비밀 값이 없습니다.</small>';
+        return;
+      }
+      el.innerHTML = names.map(name => \`
+        <div style="display:flex;align-items:center;gap:10px;margin-bottom:6px;">
+          <code style="flex:1;">{{secret:\${escapeHtml(name)}}}</code>
+          <button class="btn-danger btn-sm" onclick="deleteSecret('\${escapeHtml(name)}')">삭제</button>
+        </div>
+      \`).join('');
+    }
+
+    function renderSavedFiles(files) {
+      const el = document.getElementById('savedFileList');
+      if (files.length === 0) {
+        el.innerHTML = '<small style="color:#666;">저장된 파일이 없습니다.</small>';
+        return;
+      }
+      el.innerHTML = files.map(file => \`
+        <div style="display:flex;align-items:center;gap:10px;margin-bottom:6px;">
+          <a href="/files/\${encodeURIComponent(file.filename)}" target="_blank" style="flex:1;color:#0ff;">\${escapeHtml(file.filename)}</a>
+          <small style="color:#888;">\${escapeHtml(file.format || '')} · \${(file.size / 1024).toFixed(1)}KB · \${escapeHtml(file.createdAt)}</small>
+        </div>
+        \${file.url ? '<small style="display:block;color:#666;margin:-4px 0 8px;">' + escapeHtml(file.url) + '</small>' : ''}
+      \`).join('');
+    }
+
+    // ==================== 실행 기록 ====================
+    let currentTrace = null;
+    let traceCursor = 0;
+
+    function loadTraces() {
+      ws.send(JSON.stringify({ type: 'getTraces' }));
+    }
+
+    function formatDuration(ms) {
+      return ms >= 1000 ? (ms / 1000).toFixed(1) + '초' : ms + 'ms';
+    }
+
+    function traceStatusIcon(status) {
+      return {running:'⏳',completed:'✅',failed:'❌',stopped:'⏹'}[status] || '•';
+    }
+
+    function renderTraceList(traces) {
+      const el = document.getElementById('traceList');
+      if (traces.length === 0) {
+        el.innerHTML = '<small style="color:#666;">기록된 실행이 없습니다.</small>';
+        return;
+      }
+      const sourceIcon = {cli:'⌨️',web:'🖥️',telegram:'📱',workflow:'🔄'};
+      el.innerHTML = traces.map(t => \`
+        <div class="run-log-wf-item" onclick="openTrace('\${t.id}')">
+          <span class="run-log-wf-status">\${traceStatusIcon(t.status)}</span>
+          <span>\${sourceIcon[t.source] || ''}</span>
+          <span class="run-log-wf-name">\${escapeHtml(t.title)}</span>
+          <small style="color:#888;">🔧 \${t.toolCalls}\${t.errors ? ' · ⚠️ ' + t.errors : ''}\${t.endedAt ? ' · ' + formatDuration(t.endedAt - t.startedAt) : ''}</small>
+          <small style="color:#666;">\${new Date(t.startedAt).toLocaleString()}</small>
+          <button class="btn-danger btn-sm" onclick="event.stopPropagation();deleteTraceConfirm('\${t.id}')">삭제</button>
+        </div>
+      \`).join('');
+    }
+
+    const runStatusText = {running:'⏳ 실행중',completed:'✅ 완료',failed:'❌ 실패',stopped:'⏹ 중지'};
+    const runSourceText = {cli:'⌨️ CLI',web:'🖥️ 웹 UI',telegram:'📱 텔레그램',scheduler:'⏰ 스케줄러',parallel:'🔀 병렬',mcp:'🔌 MCP'};
+
+    function searchRuns() {
+      ws.send(JSON.stringify({
+        type: 'getRuns',
+        search: document.getElementById('runSearch').value.trim(),
+        source: document.getElementById('runSource').value,
+        status: document.getElementById('runStatus').value
+      }));
+    }
+
+    function renderRunList(runs, error) {
+      const el = document.getElementById('runList');
+      document.getElementById('runDetail').innerHTML = '';
+      if (error) {
+        el.innerHTML = '<small class="log-error">실행 이력을 읽을 수 없습니다: ' + escapeHtml(error) + '</small>';
+        return;
+      }
+      if (runs.length === 0) {
+        el.innerHTML = '<small style="color:#666;">실행 이력이 없습니다.</small>';
+        return;
+      }
+      el.innerHTML = runs.map(run => \`
+        <div class="run-log-wf-item" onclick="ws.send(JSON.stringify({ type: 'getRun', runId: \${run.id} }))">
+          <span class="run-log-wf-status">\${runStatusText[run.status] || run.status}</span>
+          <span>\${run.kind === 'workflow' ? '🔄' : '📋'}</span>
+          <span class="run-log-wf-name">\${escapeHtml(run.title)}</span>
+          <small style="color:#888;">\${runSourceText[run.source] || run.source}\${run.durationMs !== undefined ? ' · ' + formatDuration(run.durationMs) : ''}</small>
+          <small style="color:#666;">\${new Date(run.startedAt).toLocaleString()}</small>
+        </div>
+      \`).join('');
+    }
+
+    function renderRunDetail(run) {
+      const el = document.getElementById('runDetail');
+      if (!run) {
+        el.innerHTML = '';
+        return;
+      }
+      const meta = [runStatusText[run.status], runSourceText[run.source], run.model, new Date(run.startedAt).toLocaleString()];
+      if (run.durationMs !== undefined) meta.push(formatDuration(run.durationMs));
+      let html = \`<h4 style="color:#00d9ff;">#\${run.id} \${escapeHtml(run.title)}</h4><small style="color:#888;">\${escapeHtml(meta.filter(Boolean).join(' · '))}</small>\`;
+      if (run.traceId) {
+        html += \`<button class="btn-secondary btn-sm" onclick="openTrace('\${run.traceId}')">🔍 타임라인</button>\`;
+      }
+      if (run.error) html += \`<div class="log-error" style="margin-top:8px;">\${escapeHtml(run.error)}</div>\`;
+      if (run.result) html += \`<div class="task-result" style="margin-top:8px;">\${escapeHtml(run.result)}</div>\`;
+      html += \`<div class="task-log" style="max-height:300px;margin-top:8px;">\${escapeHtml(run.logs.join('\\n') || '(로그 없음)')}</div>\`;
+      el.innerHTML = html;
+    }
+
+    function openTrace(traceId) {
+      showTab('traces');
+      ws.send(JSON.stringify({ type: 'getTrace', traceId }));
+    }
+
+    function closeTrace() {
+      currentTrace = null;
+      document.getElementById('traceViewer').style.display = 'none';
+      document.getElementById('traceListSection').style.display = 'block';
+    }
+
+    function deleteTraceConfirm(traceId) {
+      if (confirm('이 실행 기록을 삭제하시겠습니까?')) {
+        ws.send(JSON.stringify({ type: 'deleteTrace', traceId }));
+      }
+    }
+
+    function traceEntryLabel(entry) {
+      if (entry.type === 'turn') return '🤖 Turn ' + entry.turn + (entry.text ? ' · ' + entry.text.split('\\n')[0] : '');
+      if (entry.type === 'tool') return (entry.isError ? '❌ ' : '🔧 ') + entry.name + (entry.durationMs !== undefined ? ' (' + formatDuration(entry.durationMs) + ')' : '');
+      if (entry.type === 'log') return '📋 ' + (entry.stepName ? '[' + entry.stepName + '] ' : '') + entry.message;
+      if (entry.type === 'context') return '🗜 대화 요약 (' + entry.summarized + '개 메시지)';
+      return '❌ ' + entry.error;
+    }
+
+    function renderTrace() {
+      const trace = currentTrace;
+      document.getElementById('traceListSection').style.display = 'none';
+      document.getElementById('traceViewer').style.display = 'block';
+      document.getElementById('traceTitle').textContent = traceStatusIcon(trace.status) + ' ' + trace.title;
+
+      const summary = [trace.source, trace.model, new Date(trace.startedAt).toLocaleString()];
+      if (trace.endedAt) summary.push(formatDuration(trace.endedAt - trace.startedAt));
+      let html = escapeHtml(summary.filter(Boolean).join(' · '));
+      if (trace.playwrightTrace) {
+        html += \` · <a href="/traces/\${trace.id}/\${trace.playwrightTrace}" style="color:#0ff;">Playwright trace</a> <small>(npx playwright show-trace로 열기)</small>\`;
+      }
+      if (trace.error) html += \`<div class="log-error" style="margin-top:6px;">\${escapeHtml(trace.error)}</div>\`;
+      if (trace.result) html += \`<div class="task-result" style="margin-top:8px;">\${escapeHtml(trace.result)}</div>\`;
+      document.getElementById('traceSummary').innerHTML = html;
+
+      document.getElementById('traceTimeline').innerHTML = trace.entries.length === 0
+        ? '<small style="color:#666;">기록된 단계가 없습니다.</small>'
+        : trace.entries.map((entry, i) => {
+            const isError = entry.type === 'error' || entry.isError || (entry.type === 'log' && entry.level === 'error');
+            return \`<div class="trace-entry\${isError ? ' error' : ''}" id="trace-entry-\${i}" onclick="selectTraceEntry(\${i})"><span class="trace-entry-time">+\${formatDuration(entry.at - trace.startedAt)}</span>\${escapeHtml(traceEntryLabel(entry))}</div>\`;
+          }).join('');
+      selectTraceEntry(traceCursor);
+    }
+
+    function selectTraceEntry(index) {
+      const entries = currentTrace.entries;
+      if (entries.length === 0) {
+        document.getElementById('traceDetail').innerHTML = '';
+        return;
+      }
+      traceCursor = Math.max(0, Math.min(index, entries.length - 1));
+      document.querySelectorAll('.trace-entry.active').forEach(el => el.classList.remove('active'));
+      const item = document.getElementById('trace-entry-' + traceCursor);
+      item.classList.add('active');
+      item.scrollIntoView({ block: 'nearest' });
+
+      const entry = entries[traceCursor];
+      let html = '';
+      if (entry.type === 'turn') {
+        const meta = [];
+        if (entry.modelMs !== undefined) meta.push('AI ' + formatDuration(entry.modelMs));
+        if (entry.tokens !== undefined) meta.push(entry.tokens.toLocaleString('en-US') + ' tokens');
+        if (entry.cost !== undefined) meta.push('$' + entry.cost.toFixed(4));
+        html += \`<h4 style="color:#00d9ff;">🤖 Turn \${entry.turn}</h4><small style="color:#888;">\${meta.join(' · ')}</small>\`;
+        html += \`<div class="task-log" style="max-height:300px;color:#ddd;margin-top:8px;">\${escapeHtml(entry.text || '(텍스트 없음)')}</div>\`;
+      } else if (entry.type === 'tool') {
+        html += \`<h4 style="color:#00d9ff;">🔧 \${escapeHtml(entry.name)}</h4>\`;
+        if (entry.durationMs !== undefined) html += \`<small style="color:#888;">\${formatDuration(entry.durationMs)}</small>\`;
+        html += \`<div class="task-log" style="max-height:150px;margin-top:8px;">\${escapeHtml(JSON.stringify(entry.args, null, 2))}</div>\`;
+        if (entry.result !== undefined) {
+          html += \`<div class="task-log\${entry.isError ? ' log-error' : ''}" style="max-height:250px;margin-top:8px;color:\${entry.isError ? '#e74c3c' : '#ddd'};">\${escapeHtml(entry.result)}</div>\`;
+        }
+      } else {
+        html += \`<div class="task-log" style="color:#ddd;">\${escapeHtml(traceEntryLabel(entry))}</div>\`;
+      }
+
+      // 이 단계까지 찍힌 마지막 화면
+      for (let i = traceCursor; i >= 0; i--) {
+        if (entries[i].screenshot) {
+          const label = i === traceCursor ? '이 단계 뒤 화면' : '이전 화면 (#' + (i + 1) + ')';
+          html += \`<div style="color:#888;font-size:11px;margin-top:12px;">📸 \${label}</div><img class="trace-shot" src="/traces/\${currentTrace.id}/\${entries[i].screenshot}">\`;
+          break;
+        }
+      }
+      document.getElementById('traceDetail').innerHTML = html;
+    }
+
+    function stepTrace(delta) {
+      if (currentTrace) selectTraceEntry(traceCursor + delta);
+    }
+
+    document.addEventListener('keydown', (e) => {
+      if (!currentTrace || !document.getElementById('tab-traces').classList.contains('active')) return;
+      if (['INPUT', 'TEXTAREA', 'SELECT'].includes(e.target.tagName)) return;
+      if (e.key === 'ArrowLeft' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        stepTrace(-1);
+      } else if (e.key === 'ArrowRight' || e.key === 'ArrowDown') {
+        e.preventDefault();
+        stepTrace(1);
+      }
+    });
+
+    function saveSecret() {
+      const name = document.getElementById('secretName').value.trim();
+      const value = document.getElementById('secretValue').value;
+      if (!/^[A-Za-z0-9_.-]+$/.test(name)) {
+        showAlert(false, '이름은 영문, 숫자, _ . - 만 사용할 수 있습니다.');
+        return;
+      }
+      if (!value) {
+        showAlert(false, '값을 입력하세요.');
+        return;
+      }
+      ws.send(JSON.stringify({ type: 'saveSecret', name, value }));
+      document.getElementById('secretName').value = '';
+      document.getElementById('secretValue').value = '';
+    }
+
+    function deleteSecret(name) {
+      if (confirm(name + ' 비밀 값을 삭제하시겠습니까?')) {
+        ws.send(JSON.stringify({ type: 'deleteSecret', name }));
+      }
+    }
+
+    function renderTotpSeeds(names) {
+      const el = document.getElementById('totpList');
+      if (names.length === 0) {
+        el.innerHTML = '<small style="color:#666;">저장된 시드가 없습니다.</small>';
+        return;
+      }
+      el.innerHTML = names.map(name => \`
+        <div style="display:flex;align-items:center;gap:10px;margin-bottom:6px;">
+          <code style="flex:1;">{{totp:\${escapeHtml(name)}}}</code>
+          <button class="btn-danger btn-sm" onclick="deleteTotpSeed('\${escapeHtml(name)}')">삭제</button>
+        </div>
+      \`).join('');
+    }
+
+    function saveTotpSeed() {
+      const name = document.getElementById('totpName').value.trim();
+      const seed = document.getElementById('totpSeed').value.trim();
+      if (!/^[A-Za-z0-9_.-]+$/.test(name)) {
+        showAlert(false, '이름은 영문, 숫자, _ . - 만 사용할 수 있습니다.');
+        return;
+      }
+      if (!seed) {
+        showAlert(false, '시드를 입력하세요.');
+        return;
+      }
+      ws.send(JSON.stringify({ type: 'saveTotpSeed', name, seed }));
+      document.getElementById('totpName').value = '';
+      document.getElementById('totpSeed').value = '';
+    }
+
+    function deleteTotpSeed(name) {
+      if (confirm(name + ' 시드를 삭제하시겠습니까?')) {
+        ws.send(JSON.stringify({ type: 'deleteTotpSeed', name }));
+      }
+    }
+
+    function saveUsageSettings() {
+      const readBudget = (id) => {
+        const value = parseFloat(document.getElementById(id).value);
+        return isNaN(value) ? undefined : value;
+      };
+
+      let prices;
+      const rawPrices = document.getElementById('usagePrices').value.trim();
+      if (rawPrices) {
+        try {
+          prices = JSON.parse(rawPrices);
+        } catch (e) {
+          showAlert(false, '가격표 JSON 오류: ' + e.message);
+          return;
+        }
+      }
+
+      ws.send(JSON.stringify({
+        type: 'saveUsage',
+        settings: {
+          prices,
+          budget: {
+            perRunUsd: readBudget('budgetPerRun'),
+            dailyUsd: readBudget('budgetDaily'),
+            monthlyUsd: readBudget('budgetMonthly')
+          }
+        }
+      }));
+    }
+
+    function formatUsage(usage) {
+      return usage.totalTokens.toLocaleString('en-US') + ' tokens · $' + usage.cost.toFixed(4);
+    }
+
+    function renderUsageReport(today, month) {
+      const lines = [['오늘', today], ['이번 달', month]].map(([label, summary]) => {
+        const models = Object.entries(summary.byModel)
+          .sort((a, b) => b[1].cost - a[1].cost)
+          .map(([model, totals]) => '  ' + model + ': ' + formatUsage(totals));
+        return [label + ': ' + formatUsage(summary), ...models].join('\\n');
+      });
+      document.getElementById('usageReport').textContent = lines.join('\\n\\n');
+    }
+
     function testNotion() {
       const apiKey = document.getElementById('notionApiKey').value.trim();
       const databaseId = document.getElementById('notionDatabaseId').value.trim();
@@ -1631,6 +2422,28 @@ const HTML_PAGE = `<!DOCTYPE html>
       window.open('https://www.notion.so/' + databaseId.replace(/-/g, ''), '_blank');
     }
 
+    // 승인 대기 중인 요청 (먼저 온 것부터 표시)
+    let approvalQueue = [];
+
+    function renderApproval() {
+      const modal = document.getElementById('approvalModal');
+      const request = approvalQueue[0];
+      if (!request) {
+        modal.style.display = 'none';
+        return;
+      }
+      document.getElementById('approvalReason').textContent = request.reason;
+      document.getElementById('approvalDetail').textContent =
+        request.tool + '(' + JSON.stringify(request.args) + ')' + (request.url ? '\\n' + request.url : '');
+      modal.style.display = 'flex';
+    }
+
+    function respondApproval(approved) {
+      const request = approvalQueue[0];
+      if (!request) return;
+      ws.send(JSON.stringify({ type: 'approvalResponse', id: request.id, approved }));
+    }
+
     function showAlert(success, message) {
       const el = document.getElementById('settingsAlert');
       el.innerHTML = \`<div class="alert \${success ? 'alert-success' : 'alert-error'}">\${message}</div>\`;
@@ -1712,6 +2525,12 @@ const HTML_PAGE = `<!DOCTYPE html>
       if (task.result) {
         html += \`<div class="task-result">\${escapeHtml(task.result)}</div>\`;
       }
+      if (task.usage) {
+        html += \`<div style="color:#888;font-size:11px;margin-top:8px;">💰 \${formatUsage(task.usage)}</div>\`;
+      }
+      if (task.traceId) {
+        html += \`<button class="btn-secondary btn-sm" style="margin:8px 0 0;" onclick="openTrace('\${task.traceId}')">🔍 기록 보기</button>\`;
+      }
 
       return html;
     }
@@ -1740,12 +2559,19 @@ const HTML_PAGE = `<!DOCTYPE html>
     }
 
     function updateStats() {
-      let total = 0, running = 0, done = 0;
+      let total = 0, running = 0, done = 0, cost = 0, tokens = 0;
       tasks.forEach(t => {
         total++;
         if (t.status === 'running' || t.status === 'pending') running++;
         if (t.status === 'done') done++;
+        if (t.usage) {
+          cost += t.usage.cost;
+          tokens += t.usage.totalTokens;
+        }
       });
+      const costEl = document.getElementById('taskCost');
+      costEl.textContent = '$' + cost.toFixed(2);
+      costEl.title = tokens.toLocaleString('en-US') + ' tokens';
       document.getElementById('totalTasks').textContent = total;
       document.getElementById('runningTasks').textContent = running;
       document.getElementById('doneTasks').textContent = done;
@@ -1770,6 +2596,10 @@ const HTML_PAGE = `<!DOCTYPE html>
       if (e.key === 'Enter') addTask();
     });
 
+    document.getElementById('runSearch').addEventListener('keypress', (e) => {
+      if (e.key === 'Enter') searchRuns();
+    });
+
     // ============ 워크플로우 관련 ============
     let workflows = [];
     let currentWorkflow = null;
@@ -1842,6 +2672,11 @@ const HTML_PAGE = `<!DOCTYPE html>
       // 미션 로드
       document.getElementById('wfMission').value = currentWorkflow.mission || '';
       document.getElementById('wfMaxTurns').value = currentWorkflow.maxTurns || 30;
+      document.getElementById('wfOutputSchema').value = currentWorkflow.outputSchema ? JSON.stringify(currentWorkflow.outputSchema, null, 2) : '';
+      document.getElementById('wfInputs').value = currentWorkflow.inputs ? JSON.stringify(currentWorkflow.inputs, null, 2) : '';
+      document.getElementById('wfRecordReplay').checked = !!currentWorkflow.recordReplay;
+      document.getElementById('wfAllowedDomains').value = ((currentWorkflow.urlPolicy || {}).allow || []).join(', ');
+      document.getElementById('wfSession').value = currentWorkflow.session || '';
 
       // 스케줄 설정 로드
       const schedule = currentWorkflow.schedule || {};
@@ -1852,6 +2687,7 @@ const HTML_PAGE = `<!DOCTYPE html>
       document.getElementById('scheduleTime').value = schedule.time || '09:00';
       document.getElementById('scheduleTimeWeekly').value = schedule.time || '09:00';
       document.getElementById('scheduleDayOfWeek').value = schedule.dayOfWeek || 1;
+      document.getElementById('scheduleInputs').value = schedule.inputs ? JSON.stringify(schedule.inputs) : '';
       updateScheduleType();
 
       renderSteps();
@@ -1900,6 +2736,11 @@ const HTML_PAGE = `<!DOCTYPE html>
         const stepOptions = getStepOptions(idx);
         const isFirst = idx === 0;
         const isLast = idx === currentWorkflow.steps.length - 1;
+        const isCondition = step.type === 'condition';
+        const isLoop = step.type === 'loop';
+        const loop = step.loop || {};
+        const isParallel = step.type === 'parallel';
+        const parallel = step.parallel || { branches: [] };
         return \`
           <div class="step-card" data-step-idx="\${idx}">
             <div class="step-controls">
@@ -1909,10 +2750,89 @@ const HTML_PAGE = `<!DOCTYPE html>
             </div>
             <div class="step-header">
               <span class="step-number">\${idx + 1}</span>
+              \${step.type === 'replay' ? '<span title="기록된 동작을 AI 없이 재생" style="margin-left:6px;font-size:11px;color:#4caf50;">🎬 재생</span>' : ''}
               <input type="text" value="\${escapeHtml(step.name || '')}" placeholder="단계 이름"
                      onchange="updateStep(\${idx}, 'name', this.value)" style="flex:1;margin-left:10px;font-weight:bold;" />
+              <select onchange="setStepType(\${idx}, this.value)" style="margin-left:8px;" title="단계 종류">
+                <option value="agent" \${isCondition || isLoop || isParallel ? '' : 'selected'}>🤖 AI 실행</option>
+                <option value="condition" \${isCondition ? 'selected' : ''}>🔀 조건</option>
+                <option value="loop" \${isLoop ? 'selected' : ''}>🔁 반복</option>
+                <option value="parallel" \${isParallel ? 'selected' : ''}>⚡ 병렬</option>
+              </select>
+            </div>
+
+            \${isCondition ? \`
+            <div class="step-row">
+              <label>조건식</label>
+              <input type="text" value="\${escapeHtml(step.condition || '')}" placeholder='예: search.price < 1000000, status contains "품절" (비우면 아래 질문을 AI에게 물어봄)'
+                     onchange="updateStep(\${idx}, 'condition', this.value.trim())" style="font-family:monospace;" />
+            </div>
+            <div class="prompt-container">
+              <textarea class="prompt-input" style="min-height:50px;" placeholder="조건식 대신 AI에게 물어볼 예/아니오 질문 (예: 장바구니에 품절 상품이 있어?)"
+                        onchange="updateStep(\${idx}, 'prompt', this.value)">\${escapeHtml(step.prompt || '')}</textarea>
+            </div>
+            <div class="step-row">
+              <label>참이면</label>
+              <select onchange="updateStep(\${idx}, 'onTrue', this.value)">
+                <option value="next" \${(step.onTrue || 'next') === 'next' ? 'selected' : ''}>다음 단계로</option>
+                <option value="end" \${step.onTrue === 'end' ? 'selected' : ''}>워크플로우 종료</option>
+                \${getStepOptions(idx, 'onTrue')}
+              </select>
+            </div>
+            <div class="step-row">
+              <label>거짓이면</label>
+              <select onchange="updateStep(\${idx}, 'onFalse', this.value)">
+                <option value="end" \${(step.onFalse || 'end') === 'end' ? 'selected' : ''}>워크플로우 종료</option>
+                <option value="next" \${step.onFalse === 'next' ? 'selected' : ''}>다음 단계로</option>
+                \${getStepOptions(idx, 'onFalse')}
+              </select>
+            </div>
+            \` : isParallel ? \`
+            <div class="step-row">
+              <label>동시 실행</label>
+              <input type="number" value="\${parallel.concurrency || 3}" min="1" max="5" style="width:60px;"
+                     onchange="updateStepParallel(\${idx}, parseInt(this.value))" />개 브라우저
+            </div>
+            \${parallel.branches.map((branch, b) => \`
+            <div class="step-row" style="align-items:flex-start;">
+              <label>분기 \${b + 1}</label>
+              <div style="flex:1;display:flex;flex-direction:column;gap:4px;">
+                <div style="display:flex;gap:6px;">
+                  <input type="text" value="\${escapeHtml(branch.name || '')}" placeholder="분기 이름"
+                         onchange="updateBranch(\${idx}, \${b}, 'name', this.value)" style="flex:1;" />
+                  <input type="text" value="\${escapeHtml(branch.output || '')}" placeholder="출력 이름 (선택)"
+                         onchange="updateBranch(\${idx}, \${b}, 'output', this.value.trim())" style="flex:1;" />
+                  <button class="step-delete" onclick="deleteBranch(\${idx}, \${b})" title="분기 삭제">×</button>
+                </div>
+                <textarea class="prompt-input" style="min-height:50px;" placeholder="이 분기에서 AI가 할 작업 (각자 새 브라우저에서 실행)"
+                          onchange="updateBranch(\${idx}, \${b}, 'prompt', this.value)">\${escapeHtml(branch.prompt || '')}</textarea>
+              </div>
             </div>
+            \`).join('')}
+            <button class="btn-secondary" onclick="addBranch(\${idx})" style="margin-bottom:10px;">+ 분기 추가</button>
+            \` : isLoop ? \`
+            <div class="step-row">
+              <label>반복 목록</label>
+              <input type="text" value="\${escapeHtml(loop.forEach || '')}" placeholder="예: urls, steps.search.output.items (비우면 멈출 조건이 참이 될 때까지)"
+                     onchange="updateStepLoop(\${idx}, 'forEach', this.value.trim())" style="font-family:monospace;" />
+            </div>
+            <div class="step-row">
+              <label>멈출 조건</label>
+              <input type="text" value="\${escapeHtml(loop.until || '')}" placeholder="예: loop.output.done == true (비우면 목록 끝까지)"
+                     onchange="updateStepLoop(\${idx}, 'until', this.value.trim())" style="font-family:monospace;" />
+            </div>
+            <div class="step-row">
+              <label>최대 반복</label>
+              <input type="number" value="\${loop.maxIterations || 20}" min="1" max="100" style="width:60px;"
+                     onchange="updateStepLoop(\${idx}, 'maxIterations', parseInt(this.value))" />회
+            </div>
+            <div class="prompt-container">
+              <textarea class="prompt-input" placeholder="반복마다 실행할 작업. {{loop.item}}은 이번 항목, {{loop.index}}는 몇 번째인지, {{loop.output}}은 이전 반복의 결과입니다.
 
+예: {{loop.item}} 에 접속해서 상품 가격을 알려줘"
+                        onchange="updateStep(\${idx}, 'prompt', this.value)">\${escapeHtml(step.prompt || '')}</textarea>
+            </div>
+            \` : \`
             <div class="prompt-container">
               <textarea class="prompt-input" placeholder="AI에게 시킬 작업을 자연어로 작성하세요.
 
@@ -1924,9 +2844,11 @@ const HTML_PAGE = `<!DOCTYPE html>
 • 스크롤을 내려서 더보기 버튼을 클릭해"
                         onchange="updateStep(\${idx}, 'prompt', this.value)">\${escapeHtml(step.prompt || '')}</textarea>
             </div>
+            \`}
 
             <details class="advanced-options">
               <summary>고급 옵션</summary>
+              \${isCondition ? '' : \`
               <div class="step-row">
                 <label>성공 시</label>
                 <select onchange="updateStep(\${idx}, 'onSuccess', this.value)">
@@ -1935,30 +2857,44 @@ const HTML_PAGE = `<!DOCTYPE html>
                   \${stepOptions}
                 </select>
               </div>
+              \`}
               <div class="step-row">
-                <label>실패 시</label>
+                <label>\${isCondition ? '평가 실패 시' : '실패 시'}</label>
                 <select onchange="updateStep(\${idx}, 'onFailure', this.value)">
                   <option value="end" \${step.onFailure === 'end' ? 'selected' : ''}>워크플로우 종료</option>
-                  <option value="retry" \${step.onFailure === 'retry' ? 'selected' : ''}>재시도</option>
+                  \${isCondition || isParallel ? '' : \`<option value="retry" \${step.onFailure === 'retry' ? 'selected' : ''}>재시도</option>\`}
                   <option value="next" \${step.onFailure === 'next' ? 'selected' : ''}>다음 단계로</option>
                   \${stepOptions}
                 </select>
-                \${step.onFailure === 'retry' ? \`
+                \${step.onFailure === 'retry' && !isCondition && !isParallel ? \`
                   <input type="number" value="\${step.retryCount || 2}" min="1" max="5" style="width:50px;margin-left:5px;"
                          onchange="updateStep(\${idx}, 'retryCount', parseInt(this.value))" title="재시도 횟수" />회
                 \` : ''}
               </div>
+              <div class="step-row">
+                <label>출력 이름</label>
+                <input type="text" value="\${escapeHtml(step.output || '')}" placeholder="\${isLoop ? '예: prices → 반복 결과 목록이 {{steps.prices.output}}' : isParallel ? '예: compare → 분기별 결과가 {{steps.compare.output}}' : '예: search → 뒤 단계에서 {{steps.search.output}}'}"
+                       onchange="updateStepOutput(\${idx}, this.value)" style="flex:1;" />
+              </div>
+              \${isCondition || isParallel ? '' : \`
+              <div class="step-row">
+                <label>추출 스키마</label>
+                <textarea placeholder='JSON Schema (선택), 예: {"type":"object","properties":{"url":{"type":"string"},"price":{"type":"number"}}}'
+                          onchange="updateStepSchema(\${idx}, this.value)" style="flex:1;min-height:50px;font-family:monospace;font-size:11px;">\${escapeHtml(step.outputSchema ? JSON.stringify(step.outputSchema) : '')}</textarea>
+              </div>
+              \`}
             </details>
           </div>
         \`;
       }).join('');
     }
 
-    function getStepOptions(currentIdx) {
+    // field를 주면 그 이동 대상(onTrue, onFalse)만 선택 표시
+    function getStepOptions(currentIdx, field) {
+      const current = currentWorkflow.steps[currentIdx];
       return currentWorkflow.steps.map((s, i) => {
         if (i === currentIdx) return '';
-        const selected = currentWorkflow.steps[currentIdx]?.onSuccess === s.id ||
-                        currentWorkflow.steps[currentIdx]?.onFailure === s.id ? 'selected' : '';
+        const selected = (field ? current?.[field] === s.id : current?.onSuccess === s.id || current?.onFailure === s.id) ? 'selected' : '';
         return \`<option value="\${s.id}" \${selected}>→ \${i + 1}. \${escapeHtml(s.name || '(이름없음)')}</option>\`;
       }).join('');
     }
@@ -1996,6 +2932,84 @@ const HTML_PAGE = `<!DOCTYPE html>
       currentWorkflow.steps[idx][field] = value;
     }
 
+    function setStepType(idx, type) {
+      const step = currentWorkflow.steps[idx];
+      if (type !== 'condition') {
+        delete step.condition;
+        delete step.onTrue;
+        delete step.onFalse;
+      }
+      if (type !== 'loop') delete step.loop;
+      if (type !== 'parallel') delete step.parallel;
+      if (type === 'agent') {
+        delete step.type;
+      } else {
+        step.type = type;
+        delete step.actions;
+      }
+      if (type === 'condition' || type === 'parallel') delete step.outputSchema;
+      if (type === 'loop') step.loop = step.loop || {};
+      if (type === 'parallel' && !step.parallel) {
+        step.parallel = { branches: [] };
+        addBranch(idx);
+        addBranch(idx);
+        if (step.onFailure === 'retry') step.onFailure = 'end';
+      }
+      renderSteps();
+    }
+
+    // 병렬 단계의 분기
+    function addBranch(idx) {
+      const branches = currentWorkflow.steps[idx].parallel.branches;
+      branches.push({ id: 'branch-' + Date.now() + '-' + (++stepCounter), name: '분기 ' + (branches.length + 1), prompt: '' });
+      renderSteps();
+    }
+
+    function deleteBranch(idx, b) {
+      currentWorkflow.steps[idx].parallel.branches.splice(b, 1);
+      renderSteps();
+    }
+
+    function updateBranch(idx, b, field, value) {
+      const branch = currentWorkflow.steps[idx].parallel.branches[b];
+      if (value === '' && field === 'output') delete branch.output;
+      else branch[field] = value;
+    }
+
+    function updateStepParallel(idx, value) {
+      const parallel = currentWorkflow.steps[idx].parallel;
+      if (Number.isNaN(value)) delete parallel.concurrency;
+      else parallel.concurrency = value;
+    }
+
+    // 반복 단계 설정 (빈 값이면 지움)
+    function updateStepLoop(idx, field, value) {
+      const step = currentWorkflow.steps[idx];
+      step.loop = step.loop || {};
+      if (value === '' || Number.isNaN(value)) delete step.loop[field];
+      else step.loop[field] = value;
+    }
+
+    function updateStepOutput(idx, value) {
+      const name = value.trim();
+      if (name) currentWorkflow.steps[idx].output = name;
+      else delete currentWorkflow.steps[idx].output;
+    }
+
+    // 단계 추출 스키마 (JSON 오류면 이전 값 유지)
+    function updateStepSchema(idx, value) {
+      const raw = value.trim();
+      if (!raw) {
+        delete currentWorkflow.steps[idx].outputSchema;
+        return;
+      }
+      try {
+        currentWorkflow.steps[idx].outputSchema = JSON.parse(raw);
+      } catch (e) {
+        showWorkflowAlert(false, '추출 스키마 JSON 오류: ' + e.message);
+      }
+    }
+
     function saveCurrentWorkflow() {
       const name = document.getElementById('wfName').value.trim();
       if (!name) {
@@ -2008,6 +3022,10 @@ const HTML_PAGE = `<!DOCTYPE html>
       currentWorkflow.enabled = document.getElementById('wfEnabled').checked;
       currentWorkflow.mission = document.getElementById('wfMission').value.trim();
       currentWorkflow.maxTurns = parseInt(document.getElementById('wfMaxTurns').value) || 30;
+      currentWorkflow.recordReplay = document.getElementById('wfRecordReplay').checked;
+      readAllowedDomains();
+      readSession();
+      if (!readOutputSchema() || !readInputs()) return;
 
       ws.send(JSON.stringify({
         type: 'saveWorkflow',
@@ -2015,6 +3033,65 @@ const HTML_PAGE = `<!DOCTYPE html>
       }));
     }
 
+    // 허용 도메인 입력값을 currentWorkflow.urlPolicy.allow에 반영 (JSON으로 넣은 나머지 항목은 유지)
+    function readAllowedDomains() {
+      const allow = document.getElementById('wfAllowedDomains').value.split(',').map(d => d.trim()).filter(Boolean);
+      const policy = Object.assign({}, currentWorkflow.urlPolicy);
+      if (allow.length) policy.allow = allow;
+      else delete policy.allow;
+      if (Object.keys(policy).length) currentWorkflow.urlPolicy = policy;
+      else delete currentWorkflow.urlPolicy;
+    }
+
+    function readSession() {
+      const session = document.getElementById('wfSession').value.trim();
+      if (session) currentWorkflow.session = session;
+      else delete currentWorkflow.session;
+    }
+
+    // 출력 스키마 입력값을 currentWorkflow에 반영 (JSON 오류면 false)
+    function readOutputSchema() {
+      const raw = document.getElementById('wfOutputSchema').value.trim();
+      if (!raw) {
+        delete currentWorkflow.outputSchema;
+        return true;
+      }
+      try {
+        currentWorkflow.outputSchema = JSON.parse(raw);
+        return true;
+      } catch (e) {
+        showWorkflowAlert(false, '출력 스키마 JSON 오류: ' + e.message);
+        return false;
+      }
+    }
+
+    // 입력값 선언과 스케줄 입력값을 currentWorkflow에 반영 (JSON 오류면 false)
+    function readInputs() {
+      const raw = document.getElementById('wfInputs').value.trim();
+      const scheduleRaw = document.getElementById('scheduleInputs').value.trim();
+      try {
+        if (raw) {
+          const inputs = JSON.parse(raw);
+          if (!Array.isArray(inputs)) throw new Error('[{"name":...,"type":...}] 형태의 배열이어야 합니다');
+          currentWorkflow.inputs = inputs;
+        } else {
+          delete currentWorkflow.inputs;
+        }
+      } catch (e) {
+        showWorkflowAlert(false, '입력값 JSON 오류: ' + e.message);
+        return false;
+      }
+      try {
+        if (!currentWorkflow.schedule) currentWorkflow.schedule = {};
+        if (scheduleRaw) currentWorkflow.schedule.inputs = JSON.parse(scheduleRaw);
+        else delete currentWorkflow.schedule.inputs;
+      } catch (e) {
+        showWorkflowAlert(false, '스케줄 입력값 JSON 오류: ' + e.message);
+        return false;
+      }
+      return true;
+    }
+
     function testCurrentWorkflow() {
       const mission = document.getElementById('wfMission').value.trim();
       const hasSteps = currentWorkflow && currentWorkflow.steps && currentWorkflow.steps.length > 0;
@@ -2036,6 +3113,10 @@ const HTML_PAGE = `<!DOCTYPE html>
       currentWorkflow.enabled = document.getElementById('wfEnabled').checked;
       currentWorkflow.mission = mission;
       currentWorkflow.maxTurns = parseInt(document.getElementById('wfMaxTurns').value) || 30;
+      currentWorkflow.recordReplay = document.getElementById('wfRecordReplay').checked;
+      readAllowedDomains();
+      readSession();
+      if (!readOutputSchema() || !readInputs()) return;
 
       // 저장 후 실행
       ws.send(JSON.stringify({
@@ -2047,7 +3128,74 @@ const HTML_PAGE = `<!DOCTYPE html>
 
     let runningWorkflowId = null;
 
-    function runWorkflow(id) {
+    // 입력값을 선언한 워크플로우는 실행 전에 값을 물어봄 (wf: 방금 저장한 워크플로우, 목록이 아직 갱신되지 않았을 때)
+    function runWorkflow(id, wf) {
+      wf = wf || workflows.find(w => w.id === id);
+      if (wf && wf.inputs && wf.inputs.length) {
+        openWorkflowInputs(wf);
+        return;
+      }
+      startWorkflowRun(id, {});
+    }
+
+    let pendingInputWorkflow = null;
+
+    function openWorkflowInputs(wf) {
+      pendingInputWorkflow = wf;
+      document.getElementById('wfInputTitle').textContent = '📥 ' + wf.name;
+      document.getElementById('wfInputError').textContent = '';
+      const container = document.getElementById('wfInputFields');
+      container.innerHTML = wf.inputs.map((input, i) => {
+        const required = input.required && input.default === undefined ? ' <span style="color:#e74c3c;">*</span>' : '';
+        const description = input.description ? ' <span style="color:#666;">' + escapeHtml(input.description) + '</span>' : '';
+        const field = input.type === 'boolean'
+          ? '<input type="checkbox" id="wfInput' + i + '">'
+          : input.type === 'list'
+          ? '<textarea id="wfInput' + i + '" rows="3" placeholder="한 줄에 하나씩"></textarea>'
+          : '<input type="' + (input.type === 'number' ? 'number' : 'text') + '" id="wfInput' + i + '" step="any">';
+        return '<div class="wf-input-row"><label for="wfInput' + i + '">' + escapeHtml(input.name) + required + description + '</label>' + field + '</div>';
+      }).join('');
+      // 기본값은 속성 문자열 대신 DOM으로 넣음 (따옴표가 섞여도 안전)
+      wf.inputs.forEach((input, i) => {
+        const el = document.getElementById('wfInput' + i);
+        if (input.type === 'boolean') el.checked = input.default === true || input.default === 'true';
+        else if (Array.isArray(input.default)) el.value = input.default.join('\\n');
+        else if (input.default !== undefined) el.value = String(input.default);
+      });
+      document.getElementById('wfInputModal').style.display = 'flex';
+      const first = document.getElementById('wfInput0');
+      if (first) first.focus();
+    }
+
+    function closeWorkflowInputs() {
+      pendingInputWorkflow = null;
+      document.getElementById('wfInputModal').style.display = 'none';
+    }
+
+    function submitWorkflowInputs() {
+      const wf = pendingInputWorkflow;
+      if (!wf) return;
+      const inputs = {};
+      const missing = [];
+      wf.inputs.forEach((input, i) => {
+        const el = document.getElementById('wfInput' + i);
+        if (input.type === 'boolean') {
+          inputs[input.name] = el.checked;
+        } else if (el.value.trim() !== '') {
+          inputs[input.name] = el.value;
+        } else if (input.required && input.default === undefined) {
+          missing.push(input.name);
+        }
+      });
+      if (missing.length) {
+        document.getElementById('wfInputError').textContent = '필수 입력값: ' + missing.join(', ');
+        return;
+      }
+      closeWorkflowInputs();
+      startWorkflowRun(wf.id, inputs);
+    }
+
+    function startWorkflowRun(id, inputs) {
       const profileSelect = document.getElementById('wfProfile');
       const profile = profileSelect ? profileSelect.value : '';
 
@@ -2064,7 +3212,7 @@ const HTML_PAGE = `<!DOCTYPE html>
       // 왼쪽 워크플로우 목록 업데이트
       updateRunLogWorkflowList();
 
-      ws.send(JSON.stringify({ type: 'runWorkflow', workflowId: id, profile: profile }));
+      ws.send(JSON.stringify({ type: 'runWorkflow', workflowId: id, profile: profile, inputs: inputs }));
     }
 
     function updateRunLogWorkflowList() {
@@ -2101,6 +3249,7 @@ const HTML_PAGE = `<!DOCTYPE html>
     }
 
     // 워크플로우 메시지 핸들러 확장
+    let lastWorkflowTraceId = null;
     const origHandleMessage = handleMessage;
     handleMessage = function(msg) {
       if (msg.type === 'workflows') {
@@ -2115,7 +3264,7 @@ const HTML_PAGE = `<!DOCTYPE html>
         }
         loadWorkflowList();
         if (msg.runAfterSave && currentWorkflow?.id) {
-          runWorkflow(currentWorkflow.id);
+          runWorkflow(currentWorkflow.id, currentWorkflow);
         }
         return;
       }
@@ -2127,19 +3276,37 @@ const HTML_PAGE = `<!DOCTYPE html>
       if (msg.type === 'workflowLog') {
         const logEl = document.getElementById('runLogContent');
         const typeClass = msg.logType === 'error' ? 'log-error' : msg.logType === 'success' ? 'log-success' : '';
-        logEl.innerHTML += \`<span class="\${typeClass}">[\${msg.stepName || 'workflow'}] \${escapeHtml(msg.message)}</span>\\n\`;
+        const stepLabel = (msg.stepName || 'workflow') + (msg.iteration ? ' #' + msg.iteration + '/' + msg.iterations : '');
+        logEl.innerHTML += \`<span class="\${typeClass}">[\${escapeHtml(stepLabel)}] \${escapeHtml(msg.message)}</span>\\n\`;
         logEl.scrollTop = logEl.scrollHeight;
         return;
       }
+      if (msg.type === 'trace' && !msg.taskId) {
+        lastWorkflowTraceId = msg.traceId;
+        return;
+      }
       if (msg.type === 'workflowResult') {
         runningWorkflowId = null;
         updateRunLogWorkflowList();
         const resultEl = document.getElementById('runLogResult');
         if (msg.success) {
           resultEl.innerHTML = \`<div class="task-result">✅ 완료! \${msg.stepsExecuted}단계 실행 (\${((msg.endTime - msg.startTime) / 1000).toFixed(1)}초)</div>\`;
+          if (msg.data !== undefined) {
+            resultEl.innerHTML += \`<pre class="task-result" style="white-space:pre-wrap;font-size:12px;">\${escapeHtml(JSON.stringify(msg.data, null, 2))}</pre>\`;
+          }
         } else {
           resultEl.innerHTML = \`<div class="task-result" style="background:rgba(231,76,60,0.1);border-color:rgba(231,76,60,0.3);color:#e74c3c;">❌ 실패: \${escapeHtml(msg.error || '알 수 없는 오류')}</div>\`;
         }
+        if (msg.outputs && Object.keys(msg.outputs).length > 0) {
+          resultEl.innerHTML += \`<pre class="task-result" style="white-space:pre-wrap;font-size:12px;">📤 단계 출력\\n\${escapeHtml(JSON.stringify(msg.outputs, null, 2))}</pre>\`;
+        }
+        if (msg.usage && msg.usage.calls > 0) {
+          resultEl.innerHTML += \`<div style="color:#888;font-size:11px;margin-top:8px;">💰 \${formatUsage(msg.usage)}</div>\`;
+        }
+        if (lastWorkflowTraceId) {
+          resultEl.innerHTML += \`<button class="btn-secondary btn-sm" style="margin:8px 0 0;" onclick="openTrace('\${lastWorkflowTraceId}')">🔍 기록 보기</button>\`;
+          lastWorkflowTraceId = null;
+        }
         return;
       }
       if (msg.type === 'workflowError') {
@@ -2171,7 +3338,7 @@ export interface WebClientConfig {
   onSettingsChange?: (settings: Settings) => void;
   getProfiles?: () => ChromeProfile[];
   isExtensionConnected?: () => boolean;
-  onWorkflowRun?: (workflow: Workflow, send: (msg: any) => void, profile?: string) => Promise<void>;
+  onWorkflowRun?: (workflow: Workflow, send: (msg: any) => void, profile?: string, inputs?: WorkflowInputValues) => Promise<void>;
 }
 
 // 중지된 작업 추적
@@ -2190,6 +3357,55 @@ export function broadcastToClients(msg: any): void {
   });
 }
 
+// 응답이 없으면 거부로 처리
+const APPROVAL_TIMEOUT_MS = 5 * 60 * 1000;
+
+// 웹 UI 응답을 기다리는 승인 요청 (실행한 클라이언트가 없는 예약 실행은 새로 연결한 클라이언트에도 다시 보냄)
+const pendingApprovals = new Map<string, { message: any; owner?: WebSocket; settle: (approved: boolean) => void }>();
+
+// 실행을 시작한 클라이언트 (그 실행의 승인 응답은 이 클라이언트에서만 받음)
+const runOwners = new WeakMap<(msg: any) => void, WebSocket>();
+
+/**
+ * 웹 UI 페이지에서 연 WebSocket인지 확인 (다른 사이트의 페이지가 승인이나 비밀 값 메시지를 보내지 못하도록)
+ */
+function isLocalOrigin(origin: string | undefined, port: number): boolean {
+  if (!origin) return false;
+  try {
+    const url = new URL(origin);
+    return ["localhost", "127.0.0.1", "[::1]"].includes(url.hostname) && Number(url.port || 80) === port;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 웹 UI에 승인 창을 띄우고 승인/거부를 기다림 (연결된 클라이언트가 없거나 시간 초과면 거부)
+ */
+export function requestWebApproval(
+  send: (msg: any) => void,
+  request: ApprovalRequest,
+  timeoutMs: number = APPROVAL_TIMEOUT_MS
+): Promise<boolean> {
+  const owner = runOwners.get(send);
+  if (owner ? owner.readyState !== WebSocket.OPEN : connectedClients.size === 0) return Promise.resolve(false);
+
+  const id = `approval-${crypto.randomUUID()}`;
+  const message = { type: "approvalRequest", id, tool: request.tool, args: request.args, reason: request.reason, url: request.url };
+
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => settle(false), timeoutMs);
+    const settle = (approved: boolean) => {
+      clearTimeout(timer);
+      pendingApprovals.delete(id);
+      broadcastToClients({ type: "approvalResolved", id, approved });
+      resolve(approved);
+    };
+    pendingApprovals.set(id, { message, owner, settle });
+    send(message);
+  });
+}
+
 // Notion에 결과 저장
 export async function saveResultToNotion(
   taskId: string,
@@ -2320,13 +3536,47 @@ export function startWebClient(config: WebClientConfig): Promise<{ settings: Set
       if (req.url === "/" || req.url === "/index.html") {
         res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
         res.end(HTML_PAGE);
+      } else if (req.url?.startsWith("/files/")) {
+        // 저장된 파일 보기 (저장소 폴더 밖은 404)
+        let filePath: string | null = null;
+        try {
+          filePath = getSavedFileStore().resolve(decodeURIComponent(req.url.slice("/files/".length)));
+        } catch {
+          // 잘못된 인코딩
+        }
+        if (!filePath) {
+          res.writeHead(404);
+          res.end("Not Found");
+          return;
+        }
+        res.writeHead(200, { "Content-Type": mimeTypeFor(filePath) });
+        fs.createReadStream(filePath).pipe(res);
+      } else if (req.url?.startsWith("/traces/")) {
+        // 실행 기록의 스크린샷과 Playwright trace (/traces/<id>/<파일>)
+        const [traceId = "", filename = ""] = req.url.slice("/traces/".length).split("/");
+        const filePath = getTraceStore().resolve(traceId, filename);
+        if (!filePath) {
+          res.writeHead(404);
+          res.end("Not Found");
+          return;
+        }
+        res.writeHead(200, { "Content-Type": mimeTypeFor(filePath) });
+        fs.createReadStream(filePath).pipe(res);
       } else {
         res.writeHead(404);
         res.end("Not Found");
       }
     });
 
-    const wss = new WebSocketServer({ server, path: "/ws" });
+    const wss = new WebSocketServer({
+      server,
+      path: "/ws",
+      verifyClient: ({ origin }: { origin?: string }) => {
+        if (isLocalOrigin(origin, port)) return true;
+        console.log(`[WebClient] 다른 출처의 연결 거부: ${origin || "(Origin 없음)"}`);
+        return false;
+      },
+    });
 
     wss.on("connection", (ws) => {
       console.log("[WebClient] 클라이언트 연결됨");
@@ -2338,6 +3588,9 @@ export function startWebClient(config: WebClientConfig): Promise<{ settings: Set
       if (isExtensionConnected) {
         ws.send(JSON.stringify({ type: "extensionStatus", connected: isExtensionConnected() }));
       }
+      pendingApprovals.forEach(({ message, owner }) => {
+        if (!owner) ws.send(JSON.stringify(message));
+      });
 
       ws.on("message", async (data) => {
         try {
@@ -2446,7 +3699,15 @@ export function startWebClient(config: WebClientConfig): Promise<{ settings: Set
           }
 
           else if (msg.type === "saveBrowser") {
+            try {
+              parseRouteRules(msg.settings?.routes);
+            } catch (err) {
+              ws.send(JSON.stringify({ type: "alert", success: false, message: `요청 차단 규칙 오류: ${(err as Error).message}` }));
+              return;
+            }
             settings.browser = msg.settings;
+            if (msg.network) settings.network = msg.network;
+            if (msg.trace) settings.trace = msg.trace;
             saveSettings(settings);
             onSettingsChange?.(settings);
             ws.send(JSON.stringify({ type: "settings", settings }));
@@ -2461,6 +3722,115 @@ export function startWebClient(config: WebClientConfig): Promise<{ settings: Set
             ws.send(JSON.stringify({ type: "alert", success: true, message: "Notion 설정이 저장되었습니다." }));
           }
 
+          else if (msg.type === "saveUsage") {
+            settings.usage = msg.settings;
+            saveSettings(settings);
+            onSettingsChange?.(settings);
+            ws.send(JSON.stringify({ type: "settings", settings }));
+            ws.send(JSON.stringify({ type: "alert", success: true, message: "사용량/예산 설정이 저장되었습니다." }));
+          }
+
+          else if (msg.type === "getUsage") {
+            const monthEntries = readUsageLog(startOfMonth());
+            const today = startOfDay();
+            ws.send(JSON.stringify({
+              type: "usageReport",
+              today: summarizeUsageLog(monthEntries.filter((e) => e.timestamp >= today)),
+              month: summarizeUsageLog(monthEntries),
+            }));
+          }
+
+          else if (msg.type === "getSavedFiles") {
+            ws.send(JSON.stringify({ type: "savedFiles", files: getSavedFileStore().list() }));
+          }
+
+          else if (msg.type === "getTraces") {
+            ws.send(JSON.stringify({ type: "traces", traces: getTraceStore().list() }));
+          }
+
+          else if (msg.type === "getTrace") {
+            const trace = getTraceStore().load(String(msg.traceId));
+            if (trace) {
+              ws.send(JSON.stringify({ type: "traceDetail", trace }));
+            } else {
+              ws.send(JSON.stringify({ type: "alert", success: false, message: "실행 기록을 찾을 수 없습니다." }));
+            }
+          }
+
+          else if (msg.type === "deleteTrace") {
+            getTraceStore().remove(String(msg.traceId));
+            ws.send(JSON.stringify({ type: "traces", traces: getTraceStore().list() }));
+          }
+
+          else if (msg.type === "getRuns") {
+            try {
+              const runs = getRunStore().list({
+                search: msg.search || undefined,
+                source: msg.source || undefined,
+                status: msg.status || undefined,
+              });
+              ws.send(JSON.stringify({ type: "runs", runs }));
+            } catch (err) {
+              ws.send(JSON.stringify({ type: "runs", runs: [], error: (err as Error).message.split("\n")[0] }));
+            }
+          }
+
+          else if (msg.type === "getRun") {
+            try {
+              ws.send(JSON.stringify({ type: "runDetail", run: getRunStore().get(Number(msg.runId)) }));
+            } catch (err) {
+              ws.send(JSON.stringify({ type: "alert", success: false, message: `실행 이력 오류: ${(err as Error).message.split("\n")[0]}` }));
+            }
+          }
+
+          else if (msg.type === "getSecrets") {
+            ws.send(JSON.stringify({ type: "secrets", names: getSecretStore().list() }));
+          }
+
+          else if (msg.type === "saveSecret") {
+            const store = getSecretStore();
+            try {
+              store.set(String(msg.name), String(msg.value));
+              console.log(`[WebClient] 비밀 값 저장: ${msg.name}`);
+              ws.send(JSON.stringify({ type: "secrets", names: store.list() }));
+              ws.send(JSON.stringify({ type: "alert", success: true, message: `{{secret:${msg.name}}} 저장되었습니다.` }));
+            } catch (err) {
+              ws.send(JSON.stringify({ type: "alert", success: false, message: `저장 실패: ${(err as Error).message}` }));
+            }
+          }
+
+          else if (msg.type === "deleteSecret") {
+            const store = getSecretStore();
+            const removed = store.remove(String(msg.name));
+            ws.send(JSON.stringify({ type: "secrets", names: store.list() }));
+            ws.send(JSON.stringify({ type: "alert", success: removed, message: removed ? "삭제되었습니다." : "없는 이름입니다." }));
+          }
+
+          else if (msg.type === "getTotpSeeds") {
+            ws.send(JSON.stringify({ type: "totpSeeds", names: getTotpStore().list() }));
+          }
+
+          else if (msg.type === "saveTotpSeed") {
+            const store = getTotpStore();
+            try {
+              const seed = String(msg.seed).trim();
+              parseTotpSeed(seed);
+              store.set(String(msg.name), seed);
+              console.log(`[WebClient] TOTP 시드 저장: ${msg.name}`);
+              ws.send(JSON.stringify({ type: "totpSeeds", names: store.list() }));
+              ws.send(JSON.stringify({ type: "alert", success: true, message: `{{totp:${msg.name}}} 저장되었습니다.` }));
+            } catch (err) {
+              ws.send(JSON.stringify({ type: "alert", success: false, message: `저장 실패: ${(err as Error).message}` }));
+            }
+          }
+
+          else if (msg.type === "deleteTotpSeed") {
+            const store = getTotpStore();
+            const removed = store.remove(String(msg.name));
+            ws.send(JSON.stringify({ type: "totpSeeds", names: store.list() }));
+            ws.send(JSON.stringify({ type: "alert", success: removed, message: removed ? "삭제되었습니다." : "없는 이름입니다." }));
+          }
+
           else if (msg.type === "testNotion") {
             const { apiKey, databaseId } = msg;
             try {
@@ -2497,6 +3867,16 @@ export function startWebClient(config: WebClientConfig): Promise<{ settings: Set
             stoppedTasks.add(taskId);
           }
 
+          else if (msg.type === "approvalResponse") {
+            const { id, approved } = msg;
+            const pending = pendingApprovals.get(id);
+            // 실행을 시작한 클라이언트가 아니면 무시
+            if (pending && (!pending.owner || pending.owner === ws)) {
+              console.log(`[WebClient] 승인 응답: ${id} → ${approved ? "승인" : "거부"}`);
+              pending.settle(approved === true);
+            }
+          }
+
           else if (msg.type === "deleteTask") {
             const { taskId } = msg;
             console.log(`[WebClient] 작업 삭제: ${taskId}`);
@@ -2512,6 +3892,7 @@ export function startWebClient(config: WebClientConfig): Promise<{ settings: Set
                 ws.send(JSON.stringify({ taskId, ...m }));
               }
             };
+            runOwners.set(send, ws);
 
             send({ type: "status", status: "running" });
 
@@ -2530,6 +3911,26 @@ export function startWebClient(config: WebClientConfig): Promise<{ settings: Set
 
           else if (msg.type === "saveWorkflow") {
             const wfData = msg.workflow as Workflow;
+            const problems = [
+              ...checkWorkflowInputs(wfData),
+              ...checkStepOutputs(wfData),
+              ...checkConditionSteps(wfData),
+              ...checkLoopSteps(wfData),
+              ...checkParallelSteps(wfData),
+            ];
+            if (problems.length > 0) {
+              ws.send(JSON.stringify({ type: "workflowError", message: `저장할 수 없습니다: ${problems.join("; ")}` }));
+              return;
+            }
+            // 스케줄 실행은 값을 물어볼 수 없으므로 schedule.inputs로 필수 값이 모두 채워져야 함
+            if (wfData.schedule?.enabled) {
+              try {
+                resolveWorkflowInputs(wfData, wfData.schedule.inputs);
+              } catch (error) {
+                ws.send(JSON.stringify({ type: "workflowError", message: `스케줄 ${(error as Error).message}` }));
+                return;
+              }
+            }
             if (!wfData.id) {
               wfData.id = generateWorkflowId();
               wfData.createdAt = Date.now();
@@ -2569,10 +3970,13 @@ export function startWebClient(config: WebClientConfig): Promise<{ settings: Set
                 ws.send(JSON.stringify(m));
               }
             };
+            runOwners.set(send, ws);
 
             if (config.onWorkflowRun) {
               try {
-                await config.onWorkflowRun(workflow, send, profile);
+                // 입력값이 빠졌거나 타입이 맞지 않으면 실행하지 않음
+                const inputs = resolveWorkflowInputs(workflow, msg.inputs || {});
+                await config.onWorkflowRun(workflow, send, profile, inputs);
               } catch (error) {
                 send({
                   type: "workflowResult",
@@ -2595,6 +3999,10 @@ export function startWebClient(config: WebClientConfig): Promise<{ settings: Set
       ws.on("close", () => {
         console.log("[WebClient] 클라이언트 연결 해제");
         connectedClients.delete(ws);
+        // 실행한 화면이 닫히면 그 실행의 승인 요청은 거부
+        pendingApprovals.forEach(({ owner, settle }) => {
+          if (owner === ws) settle(false);
+        });
       });
     });
 
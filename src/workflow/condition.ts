@@ -0,0 +1,278 @@
+/**
+ * Condition steps
+ * 조건 단계의 식을 단계 출력과 입력값으로 평가 (eval 없이 직접 파싱)
+ *
+ * 예: price < 1000000
+ *     search.price <= inputs.budget and not soldOut
+ *     steps.check.output contains "품절" or status == 'closed'
+ *
+ * 변수: 출력 이름(search, search.price), 입력값 이름(budget), inputs.이름, steps.이름.output.필드,
+ *       반복 단계 안에서는 loop.item, loop.index, loop.output (이번 반복의 결과)
+ * 연산자: == != < <= > >= contains, not contains, and/&&, or/||, not/!, ( )
+ */
+
+import type { Workflow, WorkflowInputValues, WorkflowStepOutputs } from "./types.js";
+
+export interface ConditionScope {
+  inputs: WorkflowInputValues;
+  outputs: WorkflowStepOutputs;
+  loop?: Record<string, unknown>;
+}
+
+type Token =
+  | { type: "number"; value: number }
+  | { type: "string"; value: string }
+  | { type: "name"; value: string }
+  | { type: "op"; value: string };
+
+type ConditionNode =
+  | { kind: "literal"; value: unknown }
+  | { kind: "var"; path: string }
+  | { kind: "not"; operand: ConditionNode }
+  | { kind: "logical"; op: "and" | "or"; left: ConditionNode; right: ConditionNode }
+  | { kind: "compare"; op: string; left: ConditionNode; right: ConditionNode };
+
+const TOKEN =
+  /\s*(?:(-?\d+(?:\.\d+)?)|"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'|([A-Za-z_][A-Za-z0-9_]*(?:\.[A-Za-z0-9_]+)*)|(==|!=|<=|>=|&&|\|\||[<>()!]))/y;
+const COMPARE_OPS = new Set(["==", "!=", "<", "<=", ">", ">="]);
+const LITERALS: Record<string, unknown> = { true: true, false: false, null: null };
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  TOKEN.lastIndex = 0;
+  while (TOKEN.lastIndex < expression.length) {
+    if (expression.slice(TOKEN.lastIndex).trim() === "") break;
+    const start = TOKEN.lastIndex;
+    const match = TOKEN.exec(expression);
+    if (!match) throw new Error(`조건식 오류: 알 수 없는 글자 '${expression.slice(start).trim()[0]}'`);
+    const [, number, doubleQuoted, singleQuoted, name, op] = match;
+    if (number !== undefined) tokens.push({ type: "number", value: Number(number) });
+    else if (doubleQuoted !== undefined || singleQuoted !== undefined) {
+      tokens.push({ type: "string", value: (doubleQuoted ?? singleQuoted).replace(/\\(.)/g, "$1") });
+    } else if (name !== undefined) tokens.push({ type: "name", value: name });
+    else tokens.push({ type: "op", value: op });
+  }
+  return tokens;
+}
+
+class ConditionParser {
+  private tokens: Token[];
+  private pos = 0;
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  parse(): ConditionNode {
+    if (this.tokens.length === 0) throw new Error("조건식 오류: 식이 비어 있습니다");
+    const node = this.parseOr();
+    if (this.pos < this.tokens.length) throw new Error(`조건식 오류: 예상하지 못한 '${this.describe(this.tokens[this.pos])}'`);
+    return node;
+  }
+
+  private parseOr(): ConditionNode {
+    let left = this.parseAnd();
+    while (this.accept("op", "||") || this.accept("name", "or")) {
+      left = { kind: "logical", op: "or", left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): ConditionNode {
+    let left = this.parseNot();
+    while (this.accept("op", "&&") || this.accept("name", "and")) {
+      left = { kind: "logical", op: "and", left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): ConditionNode {
+    if (this.accept("op", "!") || this.accept("name", "not")) {
+      return { kind: "not", operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ConditionNode {
+    const left = this.parsePrimary();
+    const token = this.tokens[this.pos];
+    if (token?.type === "op" && COMPARE_OPS.has(token.value)) {
+      this.pos++;
+      return { kind: "compare", op: token.value, left, right: this.parsePrimary() };
+    }
+    if (this.accept("name", "contains")) {
+      return { kind: "compare", op: "contains", left, right: this.parsePrimary() };
+    }
+    if (token?.type === "name" && token.value === "not" && this.tokens[this.pos + 1]?.value === "contains") {
+      this.pos += 2;
+      return { kind: "not", operand: { kind: "compare", op: "contains", left, right: this.parsePrimary() } };
+    }
+    return left;
+  }
+
+  private parsePrimary(): ConditionNode {
+    const token = this.tokens[this.pos++];
+    if (!token) throw new Error("조건식 오류: 식이 중간에 끝났습니다");
+    if (token.type === "number" || token.type === "string") return { kind: "literal", value: token.value };
+    if (token.type === "name") {
+      if (token.value in LITERALS) return { kind: "literal", value: LITERALS[token.value] };
+      if (["and", "or", "not", "contains"].includes(token.value)) {
+        throw new Error(`조건식 오류: '${token.value}' 앞에 값이 필요합니다`);
+      }
+      return { kind: "var", path: token.value };
+    }
+    if (token.value === "(") {
+      const node = this.parseOr();
+      if (!this.accept("op", ")")) throw new Error("조건식 오류: ')'가 없습니다");
+      return node;
+    }
+    throw new Error(`조건식 오류: 예상하지 못한 '${token.value}'`);
+  }
+
+  private accept(type: Token["type"], value: string): boolean {
+    const token = this.tokens[this.pos];
+    if (token?.type === type && token.value === value) {
+      this.pos++;
+      return true;
+    }
+    return false;
+  }
+
+  private describe(token: Token): string {
+    return token.type === "string" ? JSON.stringify(token.value) : String(token.value);
+  }
+}
+
+function parseCondition(expression: string): ConditionNode {
+  return new ConditionParser(tokenize(expression)).parse();
+}
+
+/**
+ * 변수 경로의 값 (조건식의 변수, 반복 단계의 forEach 목록), 없는 변수나 아직 없는 출력은 Error
+ */
+export function resolveWorkflowVariable(path: string, scope: ConditionScope): unknown {
+  const [first, ...rest] = path.split(".");
+  let value: unknown;
+  let keys = rest;
+  if (first === "loop" && scope.loop) {
+    value = scope.loop;
+  } else if (first === "inputs") {
+    value = scope.inputs;
+  } else if (first === "steps" && rest[1] === "output") {
+    if (!(rest[0] in scope.outputs)) throw new Error(`아직 없는 출력: steps.${rest[0]}.output`);
+    value = scope.outputs[rest[0]];
+    keys = rest.slice(2);
+  } else if (first in scope.outputs) {
+    value = scope.outputs[first];
+  } else if (first in scope.inputs) {
+    value = scope.inputs[first];
+  } else {
+    throw new Error(`알 수 없는 변수: ${path}`);
+  }
+  for (const key of keys) {
+    value = value !== null && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined;
+  }
+  return value;
+}
+
+// 숫자 또는 "1,290,000" 같은 숫자 글자
+function toNumber(value: unknown): number {
+  if (typeof value === "number") return value;
+  if (typeof value === "string" && /^\s*-?[\d,]*\.?\d+\s*$/.test(value)) return Number(value.replace(/[,\s]/g, ""));
+  return NaN;
+}
+
+function looseEqual(a: unknown, b: unknown): boolean {
+  const numberA = toNumber(a);
+  const numberB = toNumber(b);
+  if (!Number.isNaN(numberA) && !Number.isNaN(numberB)) return numberA === numberB;
+  if (a === null || a === undefined || b === null || b === undefined) return a == b;
+  if (typeof a === "object" || typeof b === "object") return JSON.stringify(a) === JSON.stringify(b);
+  return String(a) === String(b);
+}
+
+function truthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function compare(op: string, a: unknown, b: unknown): boolean {
+  if (op === "==") return looseEqual(a, b);
+  if (op === "!=") return !looseEqual(a, b);
+  if (op === "contains") {
+    if (a === null || a === undefined) return false;
+    if (Array.isArray(a)) return a.some((item) => looseEqual(item, b));
+    const text = typeof a === "object" ? JSON.stringify(a) : String(a);
+    return text.includes(String(b));
+  }
+
+  const numberA = toNumber(a);
+  const numberB = toNumber(b);
+  if (Number.isNaN(numberA) || Number.isNaN(numberB)) {
+    throw new Error(`숫자가 아닌 값은 ${op}로 비교할 수 없습니다: ${JSON.stringify(Number.isNaN(numberA) ? a : b)}`);
+  }
+  if (op === "<") return numberA < numberB;
+  if (op === "<=") return numberA <= numberB;
+  if (op === ">") return numberA > numberB;
+  return numberA >= numberB;
+}
+
+function evaluate(node: ConditionNode, scope: ConditionScope): unknown {
+  switch (node.kind) {
+    case "literal":
+      return node.value;
+    case "var":
+      return resolveWorkflowVariable(node.path, scope);
+    case "not":
+      return !truthy(evaluate(node.operand, scope));
+    case "logical": {
+      const left = truthy(evaluate(node.left, scope));
+      if (node.op === "and" ? !left : left) return left;
+      return truthy(evaluate(node.right, scope));
+    }
+    case "compare":
+      return compare(node.op, evaluate(node.left, scope), evaluate(node.right, scope));
+  }
+}
+
+/**
+ * 조건식 문법 오류 (없으면 null)
+ */
+export function conditionError(expression: string): string | null {
+  try {
+    parseCondition(expression);
+    return null;
+  } catch (error) {
+    return (error as Error).message;
+  }
+}
+
+/**
+ * 조건식 평가 (문법 오류, 없는 변수, 숫자가 아닌 값의 크기 비교는 Error)
+ */
+export function evaluateCondition(expression: string, scope: ConditionScope): boolean {
+  return truthy(evaluate(parseCondition(expression), scope));
+}
+
+/**
+ * 조건 단계 검사 (저장할 때) - 문제 목록을 돌려주고 없으면 빈 배열
+ */
+export function checkConditionSteps(workflow: Workflow): string[] {
+  const problems: string[] = [];
+  const stepIds = new Set(workflow.steps.map((step) => step.id));
+
+  for (const step of workflow.steps) {
+    if (step.type !== "condition") continue;
+    if (step.condition?.trim()) {
+      const error = conditionError(step.condition);
+      if (error) problems.push(`${step.name}: ${error}`);
+    } else if (!step.prompt?.trim()) {
+      problems.push(`${step.name}: 조건식이나 AI에게 물어볼 질문을 입력하세요`);
+    }
+    for (const target of [step.onTrue, step.onFalse]) {
+      if (target && target !== "next" && target !== "end" && !stepIds.has(target)) {
+        problems.push(`${step.name}: 없는 단계로 이동: ${target}`);
+      }
+    }
+  }
+  return problems;
+}
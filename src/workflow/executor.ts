@@ -4,23 +4,67 @@
  */
 
 import type { Page } from "playwright-core";
+import type { RecordedAction, ReplayStep } from "../browser/replay.js";
+import { addUsage, emptyUsage, formatUsage, type UsageSummary } from "../agent/usage.js";
 import {
   Workflow,
   WorkflowStep,
+  WorkflowBranch,
   WorkflowExecutionResult,
   WorkflowLog,
   WorkflowLogCallback,
+  WorkflowInputValues,
+  WorkflowStepOutputs,
   DEFAULT_MAX_TURNS,
 } from "./types.js";
+import { renderWorkflowInputs, usesWorkflowInputs } from "./inputs.js";
+import { isReplayableStep, renderStepOutputs } from "./outputs.js";
+import { evaluateCondition } from "./condition.js";
+import { DEFAULT_LOOP_ITERATIONS, renderLoopVariables, resolveLoopItems, type LoopVariables } from "./loop.js";
+import { DEFAULT_PARALLEL_CONCURRENCY } from "./parallel.js";
+
+// 조건 단계에 식이 없을 때 AI에게 받는 답
+const CONDITION_ANSWER_SCHEMA = {
+  type: "object",
+  properties: {
+    answer: { type: "boolean", description: "질문의 답 (예: true, 아니오: false)" },
+    reason: { type: "string", description: "그렇게 판단한 이유 (한 줄)" },
+  },
+  required: ["answer"],
+};
+
+// AI 에이전트 실행 함수
+export type StepAgentRunner = (
+  prompt: string,
+  maxTurns: number,
+  onLog: (text: string) => void,
+  outputSchema?: Record<string, unknown>
+) => Promise<{
+  success: boolean;
+  result: string;
+  data?: unknown;
+  actions?: RecordedAction[];
+  usage?: UsageSummary;
+}>;
+
+// parallel 단계가 쓰는 브라우저 풀 (size는 실제로 시작한 브라우저 수)
+export interface ParallelBrowserPool {
+  size: number;
+  // slot번째 브라우저에 새 컨텍스트를 열고 그 컨텍스트에서 실행하는 에이전트를 돌려줌
+  openContext: (slot: number) => Promise<{ runStepAgent: StepAgentRunner; close: () => Promise<void> }>;
+  close: () => Promise<void>;
+}
 
 export interface ExecutorContext {
-  page: Page;
-  // AI 에이전트 실행 함수
-  runStepAgent: (
-    prompt: string,
-    maxTurns: number,
+  page?: Page; // CDP 모드 페이지 (Extension 백엔드로 실행하면 없음)
+  runStepAgent: StepAgentRunner;
+  // 기록된 동작 재생 (없으면 replay 단계도 AI로 실행)
+  runReplay?: (
+    actions: RecordedAction[],
     onLog: (text: string) => void
-  ) => Promise<{ success: boolean; result: string }>;
+  ) => Promise<{ success: boolean; result: string; error?: string; denied?: boolean }>;
+  // 브라우저 size개로 병렬 풀 시작 (없으면 parallel 단계는 실패)
+  openParallelPool?: (size: number) => Promise<ParallelBrowserPool>;
 }
 
 export class WorkflowExecutor {
@@ -29,11 +73,24 @@ export class WorkflowExecutor {
   private logs: WorkflowLog[] = [];
   private onLog?: WorkflowLogCallback;
   private aborted: boolean = false;
+  private data: unknown = undefined;
+  private recording: ReplayStep[] = [];
+  private usage: UsageSummary = emptyUsage();
+  private inputs: WorkflowInputValues;
+  private outputs: WorkflowStepOutputs = {};
+  // 마지막으로 성공한 AI 단계의 결과 (추출 데이터 또는 결과 텍스트)
+  private stepResult: unknown = undefined;
+  // 실행 중인 반복 단계의 이번 반복 (로그와 {{loop.*}}에 쓰임)
+  private loop?: LoopVariables & { iterations: number };
 
-  constructor(workflow: Workflow, ctx: ExecutorContext, onLog?: WorkflowLogCallback) {
+  /**
+   * inputs는 resolveWorkflowInputs로 검사한 값 (잘못된 값은 실행 전에 거부)
+   */
+  constructor(workflow: Workflow, ctx: ExecutorContext, onLog?: WorkflowLogCallback, inputs: WorkflowInputValues = {}) {
     this.workflow = workflow;
     this.ctx = ctx;
     this.onLog = onLog;
+    this.inputs = inputs;
   }
 
   /**
@@ -59,27 +116,96 @@ export class WorkflowExecutor {
       type,
       message,
     };
+    if (this.loop) {
+      logEntry.iteration = this.loop.index;
+      logEntry.iterations = this.loop.iterations;
+    }
     this.logs.push(logEntry);
     this.onLog?.(logEntry);
   }
 
+  private logUsage(stepId: string, stepName: string): void {
+    if (this.usage.calls > 0) {
+      this.log(stepId, stepName, "info", `💰 사용량: ${formatUsage(this.usage)}`);
+    }
+  }
+
+  /**
+   * Replay recorded actions, returning null so the caller can fall back to AI
+   * A replay stopped by the approval gate fails the step instead
+   */
+  private async tryReplay(
+    id: string,
+    name: string,
+    prompt: string,
+    actions: RecordedAction[] | undefined
+  ): Promise<boolean | null> {
+    if (!actions || actions.length === 0 || !this.ctx.runReplay) {
+      return null;
+    }
+
+    this.log(id, name, "info", `🎬 기록된 동작 재생 (${actions.length}개)`);
+    const outcome = await this.ctx.runReplay(actions, (text) => this.log(id, name, "info", text));
+    if (outcome.success) {
+      this.log(id, name, "success", `✅ 재생 완료: ${outcome.result.slice(0, 200)}`);
+      this.recording.push({ id, name, prompt, actions });
+      return true;
+    }
+    if (outcome.denied) {
+      this.log(id, name, "error", `❌ 승인 거부: ${outcome.error}`);
+      return false;
+    }
+
+    this.log(id, name, "error", `⚠️ 재생 실패 (${outcome.error}), AI로 실행합니다`);
+    return null;
+  }
+
+  /**
+   * {{inputs.*}}와 {{steps.*.output}}, 반복 중이면 {{loop.*}}을 이번 실행의 값으로 바꿈
+   */
+  private render(text: string): string {
+    const rendered = renderStepOutputs(renderWorkflowInputs(text, this.inputs), this.outputs);
+    return this.loop ? renderLoopVariables(rendered, this.loop) : rendered;
+  }
+
   /**
    * Execute a single step using AI agent
    */
   private async executeStep(step: WorkflowStep): Promise<boolean> {
-    this.log(step.id, step.name, "info", `🤖 AI 실행: ${step.prompt}`);
+    const prompt = this.render(step.prompt);
+    if (step.type === "replay" && isReplayableStep(step)) {
+      const replayed = await this.tryReplay(step.id, step.name, prompt, step.actions);
+      if (replayed !== null) return replayed;
+    }
+
+    this.log(step.id, step.name, "info", `🤖 AI 실행: ${prompt}`);
 
     try {
       const result = await this.ctx.runStepAgent(
-        step.prompt,
+        prompt,
         step.maxTurns || DEFAULT_MAX_TURNS,
         (text) => {
           this.log(step.id, step.name, "info", text);
-        }
+        },
+        step.outputSchema
       );
+      if (result.usage) addUsage(this.usage, result.usage);
 
       if (result.success) {
         this.log(step.id, step.name, "success", `✅ 완료: ${result.result}`);
+        this.stepResult = result.data !== undefined ? result.data : result.result;
+        if (result.data !== undefined) {
+          this.data = result.data;
+          this.log(step.id, step.name, "info", `📦 데이터: ${JSON.stringify(result.data)}`);
+        }
+        // 반복 단계의 출력은 executeLoopStep이 반복 결과 목록으로 남김
+        if (step.output && step.type !== "loop") {
+          this.outputs[step.output] = result.data !== undefined ? result.data : result.result;
+          this.log(step.id, step.name, "info", `📤 출력 저장: {{steps.${step.output}.output}}`);
+        }
+        if (result.actions && step.type !== "loop") {
+          this.recording.push({ id: step.id, name: step.name, prompt, actions: result.actions });
+        }
         return true;
       } else {
         this.log(step.id, step.name, "error", `❌ 실패: ${result.result}`);
@@ -121,12 +247,222 @@ export class WorkflowExecutor {
     return false;
   }
 
+  /**
+   * Run a loop step's prompt once per forEach item or until its condition holds
+   * The step's output becomes the list of per-iteration results
+   */
+  private async executeLoopStep(step: WorkflowStep): Promise<boolean> {
+    const { forEach, until, maxIterations = DEFAULT_LOOP_ITERATIONS } = step.loop ?? {};
+    const scope = { inputs: this.inputs, outputs: this.outputs };
+    let items: unknown[] | undefined;
+
+    try {
+      if (forEach?.trim()) {
+        items = resolveLoopItems(forEach, scope);
+        if (items.length > maxIterations) {
+          this.log(step.id, step.name, "error", `❌ 항목이 ${items.length}개로 최대 반복 횟수(${maxIterations})를 넘습니다`);
+          return false;
+        }
+      }
+    } catch (error) {
+      this.log(step.id, step.name, "error", `반복 목록 오류: ${(error as Error).message}`);
+      return false;
+    }
+
+    const iterations = items ? items.length : maxIterations;
+    const results: unknown[] = [];
+    let done = !until?.trim();
+    this.log(step.id, step.name, "info", items ? `🔁 ${forEach} 항목 ${items.length}개 반복` : `🔁 반복 (until: ${until}, 최대 ${maxIterations}회)`);
+
+    try {
+      for (let index = 1; index <= iterations; index++) {
+        this.loop = { item: items?.[index - 1], index, output: results[results.length - 1], iterations };
+        if (!(await this.executeStepWithRetry(step))) return false;
+        results.push(this.stepResult);
+
+        if (until?.trim()) {
+          this.loop.output = this.stepResult;
+          done = evaluateCondition(until, { ...scope, loop: { ...this.loop } });
+          this.log(step.id, step.name, "condition", `🔀 until ${until} → ${done ? "참" : "거짓"}`);
+          if (done) break;
+        }
+      }
+    } catch (error) {
+      this.log(step.id, step.name, "error", `until 평가 오류: ${(error as Error).message}`);
+      return false;
+    } finally {
+      this.loop = undefined;
+    }
+
+    // forEach는 목록을 다 돌면 완료 (until은 일찍 멈추는 조건), until만 있으면 최대 횟수가 안전장치
+    if (!done && !items) {
+      this.log(step.id, step.name, "error", `❌ ${maxIterations}번 반복했지만 until 조건이 참이 되지 않았습니다`);
+      return false;
+    }
+    this.log(step.id, step.name, "success", `✅ 반복 완료 (${results.length}회)`);
+    if (step.output) {
+      this.outputs[step.output] = results;
+      this.log(step.id, step.name, "info", `📤 출력 저장: {{steps.${step.output}.output}} (${results.length}개)`);
+    }
+    return true;
+  }
+
+  /**
+   * Run a parallel group's branches concurrently, each in a fresh browser context from the pool
+   * The group's output joins the successful branch results once every branch has finished
+   */
+  private async executeParallelStep(step: WorkflowStep): Promise<boolean> {
+    const branches = step.parallel?.branches ?? [];
+    if (!this.ctx.openParallelPool) {
+      this.log(step.id, step.name, "error", "❌ 이 환경에서는 병렬 단계를 실행할 수 없습니다 (CDP 모드에서 실행하세요)");
+      return false;
+    }
+
+    const size = Math.min(step.parallel?.concurrency || DEFAULT_PARALLEL_CONCURRENCY, branches.length);
+    this.log(step.id, step.name, "info", `⚡ 분기 ${branches.length}개 동시 실행 (브라우저 ${size}개)`);
+    let pool: ParallelBrowserPool;
+    try {
+      pool = await this.ctx.openParallelPool(size);
+    } catch (error) {
+      this.log(step.id, step.name, "error", `병렬 브라우저 오류: ${(error as Error).message}`);
+      return false;
+    }
+
+    const queue = [...branches];
+    const joined: Record<string, unknown> = {};
+    const failed: string[] = [];
+    try {
+      if (pool.size === 0) {
+        this.log(step.id, step.name, "error", "❌ 병렬 브라우저를 시작할 수 없습니다");
+        return false;
+      }
+      // 브라우저마다 작업자 하나가 남은 분기를 차례로 가져감
+      await Promise.all(
+        Array.from({ length: pool.size }, async (_, slot) => {
+          for (let branch = queue.shift(); branch && !this.aborted; branch = queue.shift()) {
+            const outcome = await this.executeBranch(step, branch, pool, slot);
+            if (outcome) joined[branch.output || branch.id] = outcome.value;
+            else failed.push(branch.name);
+          }
+        })
+      );
+    } finally {
+      await pool.close();
+    }
+
+    if (step.output) {
+      this.outputs[step.output] = joined;
+      this.log(step.id, step.name, "info", `📤 출력 저장: {{steps.${step.output}.output}} (분기 ${Object.keys(joined).length}개)`);
+    }
+    if (failed.length > 0 || this.aborted) {
+      this.log(step.id, step.name, "error", `❌ 실패한 분기: ${failed.join(", ") || "중단됨"}`);
+      return false;
+    }
+    this.log(step.id, step.name, "success", `✅ 분기 ${branches.length}개 완료`);
+    return true;
+  }
+
+  /**
+   * Execute one branch of a parallel group, returning null on failure
+   */
+  private async executeBranch(
+    group: WorkflowStep,
+    branch: WorkflowBranch,
+    pool: ParallelBrowserPool,
+    slot: number
+  ): Promise<{ value: unknown } | null> {
+    const name = `${group.name} › ${branch.name}`;
+    const prompt = this.render(branch.prompt);
+    let context: Awaited<ReturnType<ParallelBrowserPool["openContext"]>> | undefined;
+
+    try {
+      context = await pool.openContext(slot);
+      this.log(branch.id, name, "info", `🤖 AI 실행 (브라우저 ${slot + 1}): ${prompt}`);
+      const result = await context.runStepAgent(
+        prompt,
+        branch.maxTurns || DEFAULT_MAX_TURNS,
+        (text) => {
+          this.log(branch.id, name, "info", text);
+        },
+        branch.outputSchema
+      );
+      if (result.usage) addUsage(this.usage, result.usage);
+
+      if (!result.success) {
+        this.log(branch.id, name, "error", `❌ 실패: ${result.result}`);
+        return null;
+      }
+      this.log(branch.id, name, "success", `✅ 완료: ${result.result}`);
+      const value = result.data !== undefined ? result.data : result.result;
+      if (branch.output) {
+        this.outputs[branch.output] = value;
+        this.log(branch.id, name, "info", `📤 출력 저장: {{steps.${branch.output}.output}}`);
+      }
+      return { value };
+    } catch (error) {
+      this.log(branch.id, name, "error", `오류: ${(error as Error).message}`);
+      return null;
+    } finally {
+      await context?.close().catch(() => {});
+    }
+  }
+
+  /**
+   * Evaluate a condition step, returning null when it cannot be evaluated
+   * Without an expression the prompt is asked to the AI as a yes/no question
+   */
+  private async evaluateConditionStep(step: WorkflowStep): Promise<boolean | null> {
+    try {
+      let answer: boolean;
+      let label: string;
+
+      if (step.condition?.trim()) {
+        label = step.condition.trim();
+        answer = evaluateCondition(label, { inputs: this.inputs, outputs: this.outputs });
+      } else {
+        label = this.render(step.prompt);
+        this.log(step.id, step.name, "info", `🤖 AI에게 질문: ${label}`);
+        const result = await this.ctx.runStepAgent(
+          `${label}\n\n필요하면 브라우저로 확인한 뒤 이 질문에 예(true) 또는 아니오(false)로 답하세요.`,
+          step.maxTurns || DEFAULT_MAX_TURNS,
+          (text) => {
+            this.log(step.id, step.name, "info", text);
+          },
+          CONDITION_ANSWER_SCHEMA
+        );
+        if (result.usage) addUsage(this.usage, result.usage);
+
+        const data = result.data as { answer?: unknown; reason?: unknown } | undefined;
+        if (!result.success || typeof data?.answer !== "boolean") {
+          this.log(step.id, step.name, "error", `❌ 답을 받지 못함: ${result.result}`);
+          return null;
+        }
+        answer = data.answer;
+        if (typeof data.reason === "string" && data.reason) {
+          this.log(step.id, step.name, "info", `💬 ${data.reason}`);
+        }
+      }
+
+      if (step.output) this.outputs[step.output] = answer;
+      this.log(step.id, step.name, "condition", `🔀 ${label} → ${answer ? "참" : "거짓"}`);
+      return answer;
+    } catch (error) {
+      this.log(step.id, step.name, "error", `조건 평가 오류: ${(error as Error).message}`);
+      return null;
+    }
+  }
+
   /**
    * Find the next step based on step result
    */
   private findNextStep(step: WorkflowStep, success: boolean): WorkflowStep | null {
-    const nextStepRef = success ? step.onSuccess : step.onFailure;
+    return this.resolveStepRef(step, success ? step.onSuccess : step.onFailure);
+  }
 
+  /**
+   * Resolve "next", "end" or a step ID relative to the given step
+   */
+  private resolveStepRef(step: WorkflowStep, nextStepRef: string): WorkflowStep | null {
     if (nextStepRef === "end") {
       return null;
     }
@@ -152,20 +488,40 @@ export class WorkflowExecutor {
    */
   private async executeMission(): Promise<WorkflowExecutionResult> {
     const startTime = Date.now();
-    const mission = this.workflow.mission!;
+    const mission = renderWorkflowInputs(this.workflow.mission!, this.inputs);
     const maxTurns = this.workflow.maxTurns || 30;
 
     this.log("mission", "미션", "info", `🎯 미션: ${mission}`);
-    this.log("mission", "미션", "info", `🤖 AI가 작업을 수행합니다 (최대 ${maxTurns}턴)...`);
 
     try {
+      const actions = usesWorkflowInputs(this.workflow.mission!) ? undefined : this.workflow.actions;
+      const replayed = await this.tryReplay("mission", "미션", mission, actions);
+      if (replayed !== null) {
+        return {
+          success: replayed,
+          workflowId: this.workflow.id,
+          startTime,
+          endTime: Date.now(),
+          stepsExecuted: 1,
+          lastStepId: "mission",
+          error: replayed ? undefined : "사용자가 승인하지 않음",
+          recording: this.recording,
+          usage: this.usage,
+          inputs: this.inputs,
+          logs: this.logs,
+        };
+      }
+
+      this.log("mission", "미션", "info", `🤖 AI가 작업을 수행합니다 (최대 ${maxTurns}턴)...`);
       const result = await this.ctx.runStepAgent(
         mission,
         maxTurns,
         (text) => {
           this.log("mission", "미션", "info", text);
-        }
+        },
+        this.workflow.outputSchema
       );
+      if (result.usage) addUsage(this.usage, result.usage);
 
       const endTime = Date.now();
       const success = result.success;
@@ -178,6 +534,10 @@ export class WorkflowExecutor {
           ? `🎉 미션 완료: ${result.result} (${((endTime - startTime) / 1000).toFixed(1)}초)`
           : `❌ 미션 실패: ${result.result}`
       );
+      if (result.data !== undefined) {
+        this.log("mission", "미션", "info", `📦 데이터: ${JSON.stringify(result.data)}`);
+      }
+      this.logUsage("mission", "미션");
 
       return {
         success,
@@ -187,6 +547,10 @@ export class WorkflowExecutor {
         stepsExecuted: 1,
         lastStepId: "mission",
         error: success ? undefined : result.result,
+        data: result.data,
+        recording: success && result.actions ? [{ id: "mission", name: "미션", prompt: mission, actions: result.actions }] : undefined,
+        usage: this.usage,
+        inputs: this.inputs,
         logs: this.logs,
       };
     } catch (error) {
@@ -202,6 +566,8 @@ export class WorkflowExecutor {
         stepsExecuted: 1,
         lastStepId: "mission",
         error: errorMsg,
+        usage: this.usage,
+        inputs: this.inputs,
         logs: this.logs,
       };
     }
@@ -217,6 +583,9 @@ export class WorkflowExecutor {
     let error: string | undefined;
 
     this.log("workflow", this.workflow.name, "info", `🚀 워크플로우 시작: ${this.workflow.name}`);
+    if (Object.keys(this.inputs).length > 0) {
+      this.log("workflow", this.workflow.name, "info", `📥 입력값: ${JSON.stringify(this.inputs)}`);
+    }
 
     // 미션 모드: AI가 알아서 처리
     if (this.workflow.mission && this.workflow.mission.trim()) {
@@ -232,6 +601,9 @@ export class WorkflowExecutor {
         endTime: Date.now(),
         stepsExecuted: 0,
         error: "미션 또는 단계를 입력하세요",
+        usage: this.usage,
+        inputs: this.inputs,
+        outputs: this.outputs,
         logs: this.logs,
       };
     }
@@ -249,8 +621,22 @@ export class WorkflowExecutor {
         break;
       }
 
-      const success = await this.executeStepWithRetry(currentStep);
-      currentStep = this.findNextStep(currentStep, success);
+      let success: boolean;
+      if (currentStep.type === "condition") {
+        // 참/거짓은 onTrue/onFalse로, 평가하지 못하면 onFailure로
+        const answer = await this.evaluateConditionStep(currentStep);
+        success = answer !== null;
+        currentStep = answer === null
+          ? this.findNextStep(currentStep, false)
+          : this.resolveStepRef(currentStep, answer ? currentStep.onTrue || "next" : currentStep.onFalse || "end");
+      } else {
+        success = currentStep.type === "loop"
+          ? await this.executeLoopStep(currentStep)
+          : currentStep.type === "parallel"
+          ? await this.executeParallelStep(currentStep)
+          : await this.executeStepWithRetry(currentStep);
+        currentStep = this.findNextStep(currentStep, success);
+      }
 
       // If failed and no next step, mark as failure
       if (!success && !currentStep) {
@@ -274,6 +660,7 @@ export class WorkflowExecutor {
         ? `🎉 워크플로우 완료 (${stepsExecuted}단계, ${((endTime - startTime) / 1000).toFixed(1)}초)`
         : `워크플로우 실패: ${error}`
     );
+    this.logUsage("workflow", this.workflow.name);
 
     return {
       success,
@@ -283,6 +670,11 @@ export class WorkflowExecutor {
       stepsExecuted,
       lastStepId,
       error,
+      data: this.data,
+      recording: success ? this.recording : undefined,
+      usage: this.usage,
+      inputs: this.inputs,
+      outputs: this.outputs,
       logs: this.logs,
     };
   }
@@ -5,4 +5,9 @@
 export * from "./types.js";
 export * from "./storage.js";
 export * from "./executor.js";
+export * from "./inputs.js";
+export * from "./outputs.js";
+export * from "./condition.js";
+export * from "./loop.js";
+export * from "./parallel.js";
 export * from "./scheduler.js";
@@ -0,0 +1,154 @@
+/**
+ * Workflow inputs
+ * 워크플로우가 선언한 입력값(이름, 타입, 기본값, 필수)을 검사하고
+ * 미션과 단계 프롬프트의 {{inputs.이름}}을 실행할 때 넘긴 값으로 바꿈
+ */
+
+import type { Workflow, WorkflowInput, WorkflowInputValue, WorkflowInputValues } from "./types.js";
+
+const INPUT_TYPES = ["string", "number", "boolean", "list"];
+const INPUT_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const INPUT_REF = /\{\{\s*inputs\.([A-Za-z0-9_]+)\s*\}\}/g;
+
+function workflowTexts(workflow: Workflow): string[] {
+  return [
+    workflow.mission || "",
+    ...workflow.steps.flatMap((step) => [step.prompt || "", ...(step.parallel?.branches ?? []).map((branch) => branch.prompt || "")]),
+  ];
+}
+
+/**
+ * 프롬프트가 {{inputs.*}}를 쓰는지 (기록된 동작은 그때의 값으로 고정되어 있으므로 재생하지 않음)
+ */
+export function usesWorkflowInputs(text: string): boolean {
+  return new RegExp(INPUT_REF.source).test(text);
+}
+
+/**
+ * {{inputs.이름}}을 값으로 바꿈 (없는 이름은 그대로 둠, 목록은 ", "로 이어 붙임)
+ */
+export function renderWorkflowInputs(text: string, values: WorkflowInputValues): string {
+  return text.replace(INPUT_REF, (match, name: string) => {
+    if (!(name in values)) return match;
+    const value = values[name];
+    return Array.isArray(value) ? value.join(", ") : String(value);
+  });
+}
+
+function coerceInput(input: WorkflowInput, value: unknown): WorkflowInputValue | undefined {
+  if (input.type === "number") {
+    const number = typeof value === "number" ? value : typeof value === "string" && value.trim() !== "" ? Number(value) : NaN;
+    return Number.isFinite(number) ? number : undefined;
+  }
+  if (input.type === "boolean") {
+    if (typeof value === "boolean") return value;
+    if (value === "true" || value === "1" || value === "yes") return true;
+    if (value === "false" || value === "0" || value === "no") return false;
+    return undefined;
+  }
+  if (input.type === "list") {
+    // 배열, 또는 줄마다 (줄바꿈이 없으면 쉼표마다) 항목 하나인 글자
+    if (Array.isArray(value)) return value.map((item) => (typeof item === "string" ? item : JSON.stringify(item)));
+    if (typeof value !== "string") return undefined;
+    return value
+      .split(value.includes("\n") ? "\n" : ",")
+      .map((item) => item.trim())
+      .filter(Boolean);
+  }
+  return typeof value === "string" || typeof value === "number" || typeof value === "boolean" ? String(value) : undefined;
+}
+
+/**
+ * 입력값 선언 검사 (저장할 때) - 문제 목록을 돌려주고 없으면 빈 배열
+ */
+export function checkWorkflowInputs(workflow: Workflow): string[] {
+  const problems: string[] = [];
+  const inputs = workflow.inputs ?? [];
+  const names = new Set<string>();
+
+  for (const input of inputs) {
+    if (!INPUT_NAME.test(input.name || "")) {
+      problems.push(`입력값 이름은 영문, 숫자, _만 사용할 수 있습니다: ${input.name || "(없음)"}`);
+      continue;
+    }
+    if (names.has(input.name)) problems.push(`입력값 이름 중복: ${input.name}`);
+    names.add(input.name);
+    if (!INPUT_TYPES.includes(input.type)) {
+      problems.push(`${input.name}: 타입은 ${INPUT_TYPES.join(", ")} 중 하나여야 합니다`);
+    } else if (input.default !== undefined && coerceInput(input, input.default) === undefined) {
+      problems.push(`${input.name}: 기본값이 ${input.type} 타입이 아닙니다`);
+    }
+  }
+
+  for (const text of workflowTexts(workflow)) {
+    for (const [, name] of text.matchAll(INPUT_REF)) {
+      if (!names.has(name)) problems.push(`선언하지 않은 입력값: {{inputs.${name}}}`);
+    }
+  }
+  return [...new Set(problems)];
+}
+
+/**
+ * 실행할 때 넘긴 값을 선언에 맞춰 변환 (기본값 적용)
+ * 빠진 필수 값, 타입이 맞지 않는 값, 선언하지 않은 이름이 있으면 실행 전에 Error
+ */
+export function resolveWorkflowInputs(workflow: Workflow, raw: Record<string, unknown> = {}): WorkflowInputValues {
+  const problems = checkWorkflowInputs(workflow);
+  const inputs = workflow.inputs ?? [];
+  const values: WorkflowInputValues = {};
+
+  for (const input of inputs) {
+    const given = raw[input.name];
+    const missing = given === undefined || given === null || given === "";
+    if (missing) {
+      if (input.default !== undefined) {
+        values[input.name] = coerceInput(input, input.default) ?? input.default;
+      } else if (input.required) {
+        problems.push(`필수 입력값 없음: ${input.name}`);
+      }
+      continue;
+    }
+    const value = coerceInput(input, given);
+    if (value === undefined) {
+      problems.push(`${input.name}: ${input.type} 값이 아닙니다 (${JSON.stringify(given)})`);
+    } else {
+      values[input.name] = value;
+    }
+  }
+
+  const declared = new Set(inputs.map((input) => input.name));
+  for (const name of Object.keys(raw)) {
+    if (!declared.has(name)) problems.push(`알 수 없는 입력값: ${name}`);
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`입력값 오류: ${problems.join("; ")}`);
+  }
+  return values;
+}
+
+/**
+ * 명령어에서 --이름=값 인자를 꺼냄 (값에 공백이 있으면 "..." 또는 '...'로 감쌈)
+ * 예: "wf-1 --product=\"에어팟 프로\" --count=3 --record" → { rest: "wf-1 --record", values: { product, count } }
+ */
+export function parseWorkflowInputArgs(text: string): { rest: string; values: Record<string, string> } {
+  const values: Record<string, string> = {};
+  const rest = text.replace(/(^|\s)--([A-Za-z_][A-Za-z0-9_]*)=("([^"]*)"|'([^']*)'|\S*)/g, (_match, space: string, name: string, raw: string, doubleQuoted?: string, singleQuoted?: string) => {
+    values[name] = doubleQuoted ?? singleQuoted ?? raw;
+    return space;
+  });
+  return { rest: rest.replace(/\s+/g, " ").trim(), values };
+}
+
+/**
+ * 입력값 사용법 한 줄 (예: --product=<string> [--count=3])
+ */
+export function formatWorkflowInputs(workflow: Workflow): string {
+  return (workflow.inputs ?? [])
+    .map((input) => {
+      const value = Array.isArray(input.default) ? `"${input.default.join(",")}"` : String(input.default);
+      const arg = `--${input.name}=${input.default !== undefined ? value : `<${input.type}>`}`;
+      return input.required && input.default === undefined ? arg : `[${arg}]`;
+    })
+    .join(" ");
+}
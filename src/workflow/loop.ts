@@ -0,0 +1,83 @@
+/**
+ * Loop steps
+ * 반복 단계는 prompt를 목록의 항목마다(forEach) 또는 until 조건이 참이 될 때까지 실행
+ * 반복마다 프롬프트의 {{loop.item}}, {{loop.item.필드}}, {{loop.index}}, {{loop.output}}(이전 반복의 결과)을 바꿈
+ */
+
+import type { Workflow, WorkflowLog } from "./types.js";
+import { conditionError, resolveWorkflowVariable, type ConditionScope } from "./condition.js";
+
+export const DEFAULT_LOOP_ITERATIONS = 20;
+export const MAX_LOOP_ITERATIONS = 100;
+
+// 반복 하나의 변수 (index는 1부터)
+export interface LoopVariables {
+  item?: unknown;
+  index: number;
+  output?: unknown;
+}
+
+const LOOP_REF = /\{\{\s*loop\.(item|index|output)((?:\.[A-Za-z0-9_]+)*)\s*\}\}/g;
+const VARIABLE_PATH = /^[A-Za-z_][A-Za-z0-9_]*(?:\.[A-Za-z0-9_]+)*$/;
+
+/**
+ * {{loop.*}}를 이번 반복의 값으로 바꿈 (객체는 JSON, 없는 값은 그대로 둠)
+ */
+export function renderLoopVariables(text: string, loop: LoopVariables): string {
+  return text.replace(LOOP_REF, (match, name: keyof LoopVariables, fieldPath: string) => {
+    let value: unknown = loop[name];
+    for (const key of fieldPath.split(".").slice(1)) {
+      value = value !== null && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined;
+    }
+    if (value === undefined) return match;
+    return typeof value === "string" ? value : JSON.stringify(value);
+  });
+}
+
+/**
+ * forEach 목록 (배열, 또는 줄마다 항목 하나인 글자), 목록이 아니면 Error
+ */
+export function resolveLoopItems(source: string, scope: ConditionScope): unknown[] {
+  const value = resolveWorkflowVariable(source.trim(), scope);
+  if (Array.isArray(value)) return value;
+  if (typeof value === "string") {
+    return value.split("\n").map((line) => line.trim()).filter(Boolean);
+  }
+  throw new Error(`${source}: 목록이 아닙니다 (${JSON.stringify(value)})`);
+}
+
+/**
+ * 반복 단계 검사 (저장할 때) - 문제 목록을 돌려주고 없으면 빈 배열
+ */
+export function checkLoopSteps(workflow: Workflow): string[] {
+  const problems: string[] = [];
+
+  for (const step of workflow.steps) {
+    if (step.type !== "loop") continue;
+    const loop = step.loop ?? {};
+    if (!loop.forEach?.trim() && !loop.until?.trim()) {
+      problems.push(`${step.name}: 반복할 목록(forEach)이나 멈출 조건(until)을 입력하세요`);
+    }
+    if (loop.forEach?.trim() && !VARIABLE_PATH.test(loop.forEach.trim())) {
+      problems.push(`${step.name}: forEach는 입력값이나 출력 이름이어야 합니다 (예: urls, steps.search.output.items)`);
+    }
+    if (loop.until?.trim()) {
+      const error = conditionError(loop.until);
+      if (error) problems.push(`${step.name}: until ${error}`);
+    }
+    if (loop.maxIterations !== undefined && !(Number.isInteger(loop.maxIterations) && loop.maxIterations >= 1 && loop.maxIterations <= MAX_LOOP_ITERATIONS)) {
+      problems.push(`${step.name}: 최대 반복 횟수는 1~${MAX_LOOP_ITERATIONS} 사이여야 합니다`);
+    }
+    if (!step.prompt?.trim()) {
+      problems.push(`${step.name}: 반복마다 실행할 프롬프트를 입력하세요`);
+    }
+  }
+  return problems;
+}
+
+/**
+ * 로그에 붙일 단계 이름 (반복 단계 안의 로그는 "이름 #2/10")
+ */
+export function workflowLogLabel(log: WorkflowLog): string {
+  return log.iteration ? `${log.stepName} #${log.iteration}/${log.iterations}` : log.stepName;
+}
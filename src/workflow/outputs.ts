@@ -0,0 +1,82 @@
+/**
+ * Step outputs
+ * output을 선언한 단계의 결과(추출 데이터 또는 결과 텍스트)를 모아 두고
+ * 뒤 단계 프롬프트의 {{steps.이름.output}}, {{steps.이름.output.필드}}를 그 값으로 바꿈
+ */
+
+import type { Workflow, WorkflowStep, WorkflowStepOutputs } from "./types.js";
+import { usesWorkflowInputs } from "./inputs.js";
+
+const OUTPUT_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const OUTPUT_REF = /\{\{\s*steps\.([A-Za-z0-9_]+)\.output((?:\.[A-Za-z0-9_]+)*)\s*\}\}/g;
+
+/**
+ * 프롬프트가 {{steps.*.output}}을 쓰는지
+ */
+export function usesStepOutputs(text: string): boolean {
+  return new RegExp(OUTPUT_REF.source).test(text);
+}
+
+/**
+ * {{steps.이름.output}}을 출력 값으로 바꿈 (객체는 JSON, 아직 없는 출력이나 필드는 그대로 둠)
+ */
+export function renderStepOutputs(text: string, outputs: WorkflowStepOutputs): string {
+  return text.replace(OUTPUT_REF, (match, name: string, fieldPath: string) => {
+    if (!(name in outputs)) return match;
+    let value = outputs[name];
+    for (const key of fieldPath.split(".").slice(1)) {
+      value = value !== null && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined;
+    }
+    if (value === undefined) return match;
+    return typeof value === "string" ? value : JSON.stringify(value);
+  });
+}
+
+/**
+ * 기록된 동작을 재생하거나 저장해도 되는 단계인지
+ * 재생은 출력 값을 만들지 못하고, 입력값이나 앞 단계 출력을 쓰는 프롬프트와 조건/반복/병렬 단계는 실행마다 동작이 달라짐
+ */
+export function isReplayableStep(step: WorkflowStep): boolean {
+  if (step.type === "condition" || step.type === "loop" || step.type === "parallel") return false;
+  return !step.output && !usesWorkflowInputs(step.prompt) && !usesStepOutputs(step.prompt);
+}
+
+/**
+ * 출력 선언 검사 (저장할 때) - 문제 목록을 돌려주고 없으면 빈 배열
+ * 병렬 분기도 출력을 선언할 수 있지만, 같은 그룹의 출력은 동시에 만들어지므로 참조할 수 없음
+ */
+export function checkStepOutputs(workflow: Workflow): string[] {
+  const problems: string[] = [];
+  const names = new Set<string>();
+  const steps: Array<Pick<WorkflowStep, "name" | "prompt" | "output">> = workflow.steps.flatMap((step) => [step, ...(step.parallel?.branches ?? [])]);
+
+  for (const step of steps) {
+    if (step.output === undefined) continue;
+    if (!OUTPUT_NAME.test(step.output)) {
+      problems.push(`${step.name}: 출력 이름은 영문, 숫자, _만 사용할 수 있습니다: ${step.output || "(없음)"}`);
+      continue;
+    }
+    if (names.has(step.output)) problems.push(`출력 이름 중복: ${step.output}`);
+    names.add(step.output);
+  }
+
+  for (const step of steps) {
+    for (const [, name] of step.prompt.matchAll(OUTPUT_REF)) {
+      if (!names.has(name)) problems.push(`${step.name}: 선언하지 않은 출력: {{steps.${name}.output}}`);
+      else if (name === step.output) problems.push(`${step.name}: 자기 출력은 참조할 수 없습니다: {{steps.${name}.output}}`);
+    }
+  }
+
+  for (const step of workflow.steps) {
+    const branches = step.parallel?.branches ?? [];
+    const group = new Set([step.output, ...branches.map((branch) => branch.output)]);
+    for (const branch of branches) {
+      for (const [, name] of branch.prompt.matchAll(OUTPUT_REF)) {
+        if (group.has(name) && name !== branch.output) {
+          problems.push(`${branch.name}: 같은 병렬 그룹의 출력은 참조할 수 없습니다: {{steps.${name}.output}}`);
+        }
+      }
+    }
+  }
+  return [...new Set(problems)];
+}
@@ -0,0 +1,36 @@
+/**
+ * Parallel step groups
+ * parallel 단계의 분기들을 익명 병렬 브라우저 풀에서 동시에 실행 (분기마다 새 브라우저 컨텍스트)
+ * 동시에 띄우는 브라우저는 concurrency개까지이고, 남은 분기는 브라우저가 비면 이어서 실행
+ */
+
+import type { Workflow } from "./types.js";
+
+export const DEFAULT_PARALLEL_CONCURRENCY = 3;
+export const MAX_PARALLEL_CONCURRENCY = 5;
+
+/**
+ * 병렬 단계 검사 (저장할 때) - 문제 목록을 돌려주고 없으면 빈 배열
+ */
+export function checkParallelSteps(workflow: Workflow): string[] {
+  const problems: string[] = [];
+  const ids = new Set(workflow.steps.map((step) => step.id));
+
+  for (const step of workflow.steps) {
+    if (step.type !== "parallel") continue;
+    const { branches = [], concurrency } = step.parallel ?? { branches: [] };
+    if (branches.length < 2) {
+      problems.push(`${step.name}: 분기를 2개 이상 추가하세요`);
+    }
+    if (concurrency !== undefined && !(Number.isInteger(concurrency) && concurrency >= 1 && concurrency <= MAX_PARALLEL_CONCURRENCY)) {
+      problems.push(`${step.name}: 동시 실행 수는 1~${MAX_PARALLEL_CONCURRENCY} 사이여야 합니다`);
+    }
+    for (const branch of branches) {
+      const name = `${step.name} › ${branch.name || branch.id}`;
+      if (ids.has(branch.id)) problems.push(`${name}: ID 중복: ${branch.id}`);
+      ids.add(branch.id);
+      if (!branch.prompt?.trim()) problems.push(`${name}: 프롬프트를 입력하세요`);
+    }
+  }
+  return problems;
+}
@@ -7,6 +7,9 @@ import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
 import { Workflow } from "./types.js";
+import { usesWorkflowInputs } from "./inputs.js";
+import { isReplayableStep } from "./outputs.js";
+import type { ReplayStep } from "../browser/replay.js";
 
 const WORKFLOWS_DIR = path.join(os.homedir(), ".pi-browser", "workflows");
 
@@ -87,6 +90,26 @@ export function saveWorkflow(workflow: Workflow): void {
   fs.writeFileSync(filePath, JSON.stringify(workflow, null, 2), "utf-8");
 }
 
+/**
+ * Store recorded actions so the next run replays them without AI
+ * Steps with an outputSchema or a named output stay AI steps because replay cannot produce their results,
+ * and prompts using {{inputs.*}} or {{steps.*.output}} stay AI steps because the recording holds this run's values
+ */
+export function saveWorkflowRecording(workflow: Workflow, recording: ReplayStep[]): void {
+  for (const recorded of recording) {
+    if (recorded.id === "mission") {
+      if (!workflow.outputSchema && !usesWorkflowInputs(workflow.mission || "")) workflow.actions = recorded.actions;
+      continue;
+    }
+    const step = workflow.steps.find((s) => s.id === recorded.id);
+    if (step && !step.outputSchema && isReplayableStep(step)) {
+      step.type = "replay";
+      step.actions = recorded.actions;
+    }
+  }
+  saveWorkflow(workflow);
+}
+
 /**
  * Delete a workflow from storage
  */
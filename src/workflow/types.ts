@@ -2,6 +2,25 @@
  * Workflow type definitions for pi-browser
  */
 
+import type { RecordedAction, ReplayStep } from "../browser/replay.js";
+import type { UrlPolicy } from "../browser/url-policy.js";
+import type { RouteRule } from "../browser/routes.js";
+import type { UsageSummary } from "../agent/usage.js";
+
+export type WorkflowInputValue = string | number | boolean | string[];
+export type WorkflowInputValues = Record<string, WorkflowInputValue>;
+// 출력 이름 → 추출 데이터(outputSchema가 있을 때) 또는 결과 텍스트
+export type WorkflowStepOutputs = Record<string, unknown>;
+
+// 실행할 때 받는 값 (미션과 단계 프롬프트에서 {{inputs.name}}으로 참조)
+export interface WorkflowInput {
+  name: string; // 영문, 숫자, _
+  type: "string" | "number" | "boolean" | "list"; // list: 반복 단계의 forEach 목록 등
+  description?: string;
+  default?: WorkflowInputValue;
+  required?: boolean; // 기본값이 없는데 빠지면 실행하지 않음
+}
+
 export interface Workflow {
   id: string;
   name: string;
@@ -11,6 +30,20 @@ export interface Workflow {
   // 미션 모드: AI가 알아서 처리 (권장)
   mission?: string;
   maxTurns?: number; // 미션 모드일 때 최대 턴 수 (기본 30)
+  // 미션 결과를 이 JSON Schema에 맞는 데이터로 받음 (browser_extract)
+  outputSchema?: Record<string, unknown>;
+  // 기록된 미션 동작 (있으면 AI 없이 먼저 재생, 실패하면 AI로 실행)
+  actions?: RecordedAction[];
+  // 성공하면 기록된 동작을 워크플로우에 저장해서 다음 실행부터 재생
+  recordReplay?: boolean;
+  // 이 워크플로우가 이동할 수 있는 URL (설정의 default/workflow 정책에 더해짐)
+  urlPolicy?: UrlPolicy;
+  // 요청 차단/대체 규칙 (있으면 설정의 browser.routes 대신 사용, 빈 배열이면 규칙 없이 실행)
+  routes?: RouteRule[];
+  // 실행 전에 불러올 저장된 세션 이름 (/session save로 만든 쿠키와 localStorage)
+  session?: string;
+  // 입력값 선언 (웹 UI 실행 창, /wf run --이름=값, 텔레그램, MCP, 스케줄에서 값을 받음)
+  inputs?: WorkflowInput[];
 
   // 단계 모드: 세부 단계 정의 (선택)
   steps: WorkflowStep[];
@@ -27,6 +60,7 @@ export interface Workflow {
     dayOfWeek?: number;
     lastRun?: number;
     nextRun?: number;
+    inputs?: Record<string, WorkflowInputValue>; // 예약 실행에 넘길 입력값
   };
 }
 
@@ -34,18 +68,61 @@ export interface WorkflowStep {
   id: string;
   name: string;
 
+  // agent(기본): AI가 prompt 실행 / replay: actions를 그대로 재생, 실패하면 prompt로 AI 실행
+  // condition: condition 식을 평가(식이 없으면 prompt를 예/아니오 질문으로 AI에게 물음)해서 onTrue/onFalse로 이동
+  // loop: loop.forEach 목록의 항목마다 또는 loop.until이 참이 될 때까지 prompt를 반복 실행
+  // parallel: parallel.branches를 각자의 브라우저 컨텍스트에서 동시에 실행하고 출력을 모음
+  type?: "agent" | "replay" | "condition" | "loop" | "parallel";
+
   // AI 프롬프트 (자연어로 작업 설명)
   prompt: string;
 
+  // replay 단계의 기록된 동작
+  actions?: RecordedAction[];
+
   // 최대 AI 턴 수 (기본값: 20)
   maxTurns?: number;
 
-  // Flow control
+  // 단계 결과를 JSON Schema에 맞는 데이터로 받음 (선택)
+  outputSchema?: Record<string, unknown>;
+
+  // 결과를 이 이름으로 남겨서 뒤 단계 프롬프트에서 {{steps.이름.output}}으로 참조 (영문, 숫자, _)
+  output?: string;
+
+  // condition 단계의 식 (예: price < 1000000, steps.check.output contains "품절")
+  condition?: string;
+  onTrue?: string | "next" | "end"; // 기본값: next
+  onFalse?: string | "next" | "end"; // 기본값: end
+
+  // loop 단계 (프롬프트에서 {{loop.item}}, {{loop.index}}, {{loop.output}} 사용, output에는 반복 결과 목록이 남음)
+  loop?: {
+    forEach?: string; // 입력값이나 출력 이름 (예: urls, steps.search.output.items)
+    until?: string; // 반복이 끝날 때마다 평가하는 조건식 (예: loop.output.done == true)
+    maxIterations?: number; // 기본값: 20, 최대 100
+  };
+
+  // parallel 단계 (output에는 분기 출력 이름(없으면 분기 ID) → 결과가 남음)
+  parallel?: {
+    branches: WorkflowBranch[];
+    concurrency?: number; // 동시에 띄울 브라우저 수 (기본값: 3, 최대 5)
+  };
+
+  // Flow control (condition 단계는 평가하지 못했을 때 onFailure)
   onSuccess: string | "next" | "end";
   onFailure: string | "retry" | "end";
   retryCount?: number;
 }
 
+// parallel 단계의 분기 하나 (AI 실행만, 흐름 제어 없음)
+export interface WorkflowBranch {
+  id: string;
+  name: string;
+  prompt: string;
+  maxTurns?: number;
+  outputSchema?: Record<string, unknown>;
+  output?: string; // 뒤 단계에서 {{steps.이름.output}}으로 참조
+}
+
 // 기본값
 export const DEFAULT_MAX_TURNS = 20;
 
@@ -57,6 +134,16 @@ export interface WorkflowExecutionResult {
   stepsExecuted: number;
   lastStepId?: string;
   error?: string;
+  // 미션 또는 마지막으로 outputSchema 결과를 낸 단계의 데이터
+  data?: unknown;
+  // 이번 실행에서 성공한 미션/단계의 동작 기록 (재생 스크립트로 저장 가능)
+  recording?: ReplayStep[];
+  // 모든 AI 단계의 토큰/비용 합계
+  usage?: UsageSummary;
+  // 이번 실행의 입력값 (기본값 적용 후)
+  inputs?: WorkflowInputValues;
+  // output을 선언하고 성공한 단계의 결과
+  outputs?: WorkflowStepOutputs;
   logs: WorkflowLog[];
 }
 
@@ -66,6 +153,9 @@ export interface WorkflowLog {
   stepName: string;
   type: "info" | "success" | "error" | "condition";
   message: string;
+  // loop 단계 안에서 남긴 로그의 반복 번호 (1부터)와 전체 반복 수 (until만 있으면 최대 반복 수)
+  iteration?: number;
+  iterations?: number;
 }
 
 export type WorkflowLogCallback = (log: WorkflowLog) => void;
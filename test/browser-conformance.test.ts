@@ -0,0 +1,750 @@
+/**
+ * Browser backend conformance tests
+ * 같은 도구 호출이 모든 백엔드(Playwright, Chrome Extension)에서 같은 결과를 내는지 확인
+ *
+ * 실행: npm run test:conformance
+ * Chrome이 없거나 확장 프로그램이 연결되지 않으면 해당 백엔드는 건너뜀
+ * (CHROME_PATH 환경변수로 Chrome/Chromium 경로 지정 가능)
+ */
+
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { spawn, type ChildProcess } from "node:child_process";
+import fs from "node:fs";
+import http from "node:http";
+import os from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { chromium, type Browser } from "playwright-core";
+import {
+  executeBrowserTool,
+  PlaywrightBackend,
+  ExtensionBridge,
+  ExtensionBackend,
+  PolicyEngine,
+  DEFAULT_POLICY_RULES,
+  SecretStore,
+  UrlGuard,
+  NetworkRecorder,
+  RouteController,
+  findRouteRule,
+  parseRouteRules,
+  SessionStore,
+  restoreSession,
+  generateTotp,
+  type BrowserBackend,
+} from "../src/browser/index.js";
+import { SavedFileStore } from "../src/data/index.js";
+
+const ROOT_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const FIXTURES_DIR = path.join(ROOT_DIR, "test", "fixtures");
+const EXTENSION_DIR = path.join(ROOT_DIR, "extension");
+const SAMPLE_FILE_CONTENT = "pi-browser sample download\n";
+
+function findChrome(): string | null {
+  const candidates = [
+    process.env.CHROME_PATH,
+    "/usr/bin/chromium",
+    "/usr/bin/chromium-browser",
+    "/usr/bin/google-chrome",
+    "/Applications/Chromium.app/Contents/MacOS/Chromium",
+    "/Applications/Google Chrome.app/Contents/MacOS/Google Chrome",
+  ];
+  return candidates.find((p): p is string => !!p && fs.existsSync(p)) ?? null;
+}
+
+/**
+ * 정적 HTML 픽스처 서버 (test/fixtures + /files/sample.txt + /redirect → localhost + /api/items, /api/headers JSON)
+ */
+function startFixtureServer(): Promise<{ url: string; close: () => void }> {
+  const server = http.createServer((req, res) => {
+    const pathname = new URL(req.url || "/", "http://localhost").pathname;
+
+    if (pathname === "/files/sample.txt") {
+      res.writeHead(200, {
+        "Content-Type": "text/plain",
+        "Content-Disposition": 'attachment; filename="sample.txt"',
+      });
+      res.end(SAMPLE_FILE_CONTENT);
+      return;
+    }
+
+    if (pathname === "/redirect") {
+      const { port } = server.address() as { port: number };
+      res.writeHead(302, { Location: `http://localhost:${port}/` });
+      res.end();
+      return;
+    }
+
+    if (pathname === "/api/headers") {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(req.headers));
+      return;
+    }
+
+    if (pathname === "/api/items") {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ items: [{ id: 1, name: "alpha" }, { id: 2, name: "beta" }] }));
+      return;
+    }
+
+    const filePath = path.join(FIXTURES_DIR, pathname === "/" ? "index.html" : pathname);
+    if (!filePath.startsWith(FIXTURES_DIR) || !fs.existsSync(filePath)) {
+      res.writeHead(404);
+      res.end("Not found");
+      return;
+    }
+    res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+    res.end(fs.readFileSync(filePath));
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as { port: number };
+      resolve({ url: `http://127.0.0.1:${port}/`, close: () => server.close() });
+    });
+  });
+}
+
+interface BackendHarness {
+  backend: BrowserBackend;
+  close: () => Promise<void>;
+}
+
+/**
+ * 백엔드 공통 테스트
+ * setup이 문자열을 반환하면 (브라우저/확장 프로그램 없음) 그 이유로 모든 테스트를 건너뜀
+ */
+function defineConformanceSuite(name: string, setup: () => Promise<BackendHarness | string>) {
+  describe(name, () => {
+    let fixture: { url: string; close: () => void };
+    let harness: BackendHarness | null = null;
+    let skipReason = "backend unavailable";
+    let workDir: string;
+
+    const call = (tool: string, args: Record<string, unknown> = {}) =>
+      executeBrowserTool(harness!.backend, tool, args);
+
+    before(async () => {
+      fixture = await startFixtureServer();
+      workDir = fs.mkdtempSync(path.join(os.tmpdir(), "pi-browser-conformance-"));
+      const result = await setup();
+      if (typeof result === "string") skipReason = result;
+      else harness = result;
+    });
+
+    after(async () => {
+      await harness?.close();
+      fixture?.close();
+      fs.rmSync(workDir, { recursive: true, force: true });
+    });
+
+    const test = (title: string, fn: () => Promise<void>) =>
+      it(title, async (t) => {
+        if (!harness) {
+          t.skip(skipReason);
+          return;
+        }
+        await call("browser_navigate", { url: fixture.url });
+        await fn();
+      });
+
+    test("browser_navigate reports url and title", async () => {
+      const result = await call("browser_navigate", { url: fixture.url });
+      assert.match(result.text, /^Navigated to http:\/\/127\.0\.0\.1:\d+\/\. Title: Pi-Browser Fixture$/);
+    });
+
+    test("browser_snapshot lists elements with refs", async () => {
+      const result = await call("browser_snapshot");
+      assert.match(result.text, /^Page elements 1-\d+ of \d+/);
+      assert.match(result.text, /\[e\d+\] heading "Pi-Browser Fixture"/);
+      assert.match(result.text, /\[e\d+\] textbox "Name"/);
+      assert.match(result.text, /\[e\d+\] button "Submit"/);
+      assert.match(result.text, /\[e\d+\] link "Download sample"/);
+    });
+
+    test("browser_snapshot pages with offset and limit", async () => {
+      const first = await call("browser_snapshot", { limit: 2 });
+      assert.match(first.text, /^Page elements 1-2 of (\d+)/);
+      assert.match(first.text, /call browser_snapshot with offset=2$/);
+
+      const second = await call("browser_snapshot", { offset: 2, limit: 2 });
+      assert.match(second.text, /^Page elements 3-4 of \d+/);
+      assert.match(second.text, /^\[e3\] /m);
+
+      const beyond = await call("browser_snapshot", { offset: 1000 });
+      assert.match(beyond.text, /^No elements at offset 1000/);
+    });
+
+    test("refs distinguish elements with the same name", async () => {
+      const snapshot = await call("browser_snapshot");
+      const refs = [...snapshot.text.matchAll(/\[(e\d+)\] button "Duplicate"/g)].map((m) => m[1]);
+      assert.equal(refs.length, 2);
+
+      await call("browser_click", { ref: refs[1] });
+      assert.equal((await call("browser_get_text", { selector: "#output" })).text, "Duplicate 2");
+      await call("browser_click", { ref: `[${refs[0]}]` });
+      assert.equal((await call("browser_get_text", { selector: "#output" })).text, "Duplicate 1");
+    });
+
+    test("refs expire after navigation", async () => {
+      const snapshot = await call("browser_snapshot");
+      const ref = snapshot.text.match(/\[(e\d+)\] textbox "Name"/)![1];
+      await call("browser_fill", { ref, text: "Ref" });
+
+      await call("browser_navigate", { url: fixture.url });
+      await assert.rejects(call("browser_fill", { ref, text: "Stale" }), /Unknown ref/);
+    });
+
+    test("stableSelector turns refs into selectors that survive navigation", async () => {
+      const snapshot = await call("browser_snapshot");
+      const refs = [...snapshot.text.matchAll(/\[(e\d+)\] button "Duplicate"/g)].map((m) => m[1]);
+      const selector = await harness!.backend.stableSelector(`ref=${refs[1]}`);
+      assert.equal(selector, 'button:"Duplicate"[1]');
+      assert.equal(await harness!.backend.stableSelector("#output"), "#output");
+
+      await call("browser_navigate", { url: fixture.url });
+      await call("browser_click", { selector });
+      assert.equal((await call("browser_get_text", { selector: "#output" })).text, "Duplicate 2");
+    });
+
+    test("iframe content gets frame-qualified refs", async () => {
+      const snapshot = await call("browser_snapshot", { limit: 200 });
+      assert.match(snapshot.text, /^-- iframe f1: http:\/\/127\.0\.0\.1:\d+\/frame\.html$/m);
+      const card = snapshot.text.match(/\[(f1:e\d+)\] textbox "Card number"/)![1];
+      const pay = snapshot.text.match(/\[(f1:e\d+)\] button "Pay"/)![1];
+
+      await call("browser_fill", { ref: card, text: "1234" });
+      await call("browser_click", { ref: `[${pay}]` });
+      assert.equal((await call("browser_get_text", { selector: "#output" })).text, "Paid with 1234");
+      assert.equal((await call("browser_get_text", { ref: pay })).text, "Pay");
+
+      await call("browser_navigate", { url: fixture.url });
+      await assert.rejects(call("browser_click", { ref: pay }), /Unknown ref/);
+    });
+
+    test("describe names click targets for the approval policy", async () => {
+      const snapshot = await call("browser_snapshot", { limit: 200 });
+      const submit = snapshot.text.match(/\[(e\d+)\] button "Submit"/)![1];
+      const pay = snapshot.text.match(/\[(f1:e\d+)\] button "Pay"/)![1];
+      const backend = harness!.backend;
+
+      assert.deepEqual(await backend.describe(`ref=${submit}`), { role: "button", name: "Submit" });
+      assert.equal((await backend.describe(`ref=${pay}`))?.name, "Pay");
+      assert.equal((await backend.describe("#greet-form button"))?.name, "Submit");
+      assert.equal(await backend.describe("#missing"), null);
+
+      const policy = new PolicyEngine(backend);
+      assert.equal(await policy.classify("browser_click", { ref: submit }), null);
+      assert.match((await policy.classify("browser_click", { ref: pay }))?.reason ?? "", /"Pay" 클릭/);
+      assert.match((await policy.authorize("browser_click", { ref: pay })) ?? "", /^Blocked: /);
+      assert.match((await policy.authorize("browser_click", { ref: pay }, async () => false)) ?? "", /^Denied by user: /);
+      assert.equal(await policy.authorize("browser_click", { ref: pay }, async () => true), null);
+    });
+
+    test("urlGuard blocks denied URLs and redirects and logs each block", async () => {
+      const logPath = path.join(workDir, "url-blocks.jsonl");
+      const urlGuard = new UrlGuard({
+        channel: "test",
+        policies: [{ allowPrivateNetwork: true, deny: ["localhost"] }],
+        logPath,
+      });
+      const guarded = (tool: string, args: Record<string, unknown>) =>
+        executeBrowserTool(harness!.backend, tool, args, { urlGuard });
+
+      await guarded("browser_navigate", { url: fixture.url });
+      await assert.rejects(guarded("browser_navigate", { url: "file:///etc/passwd" }), /Blocked navigation to file:/);
+      await assert.rejects(
+        guarded("browser_navigate", { url: `${fixture.url}redirect` }),
+        /Blocked navigation to http:\/\/localhost:\d+\/: localhost is on the denylist/
+      );
+      assert.equal((await harness!.backend.pageInfo()).url, "about:blank");
+
+      const entries = fs.readFileSync(logPath, "utf-8").trim().split("\n").map((line) => JSON.parse(line));
+      assert.deepEqual(entries.map((e) => e.tool), ["browser_navigate", "browser_navigate"]);
+    });
+
+    test("browser_fill and browser_click accept role and CSS selectors", async () => {
+      await call("browser_fill", { selector: 'textbox:"Name"', text: "Pi" });
+      await call("browser_click", { selector: 'button:"Submit"' });
+      assert.equal((await call("browser_get_text", { selector: "#output" })).text, "Hello, Pi");
+
+      await call("browser_fill", { selector: "#name", text: "CSS" });
+      await call("browser_click", { selector: "#greet-form button" });
+      assert.equal((await call("browser_get_text", { selector: "#output" })).text, "Hello, CSS");
+    });
+
+    test("browser_fill substitutes secrets and tool results redact them", async () => {
+      const secrets = new SecretStore({
+        filePath: path.join(workDir, "secrets.enc"),
+        keyPath: path.join(workDir, "secret.key"),
+      });
+      secrets.set("pw", "hunter2-pass");
+      const withSecrets = (tool: string, args: Record<string, unknown>) =>
+        executeBrowserTool(harness!.backend, tool, args, { secrets });
+
+      const filled = await withSecrets("browser_fill", { selector: "#name", text: "{{secret:pw}}" });
+      assert.doesNotMatch(filled.text, /hunter2/);
+      await withSecrets("browser_click", { selector: "#greet-form button" });
+      assert.equal((await withSecrets("browser_get_text", { selector: "#output" })).text, "Hello, {{secret:pw}}");
+      assert.equal((await call("browser_get_text", { selector: "#output" })).text, "Hello, hunter2-pass");
+      await assert.rejects(withSecrets("browser_fill", { selector: "#name", text: "{{secret:missing}}" }), /Unknown secret: missing/);
+    });
+
+    test("browser_fill types current TOTP codes and get_totp_code reports them", async () => {
+      const seed = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+      const totp = new SecretStore({
+        filePath: path.join(workDir, "totp.enc"),
+        keyPath: path.join(workDir, "secret.key"),
+      });
+      totp.set("site", seed);
+      const withTotp = (tool: string, args: Record<string, unknown>) =>
+        executeBrowserTool(harness!.backend, tool, args, { totp });
+
+      const result = await withTotp("get_totp_code", { name: "site" });
+      assert.match(result.text, /^TOTP code for site: \d{6} \(valid for \d+s\)$/);
+      await assert.rejects(withTotp("get_totp_code", { name: "other" }), /Unknown TOTP seed: other\. Stored seeds: site/);
+
+      await withTotp("browser_fill", { selector: "#name", text: "{{totp:site}}" });
+      await call("browser_click", { selector: "#greet-form button" });
+      const typed = (await call("browser_get_text", { selector: "#output" })).text.replace("Hello, ", "");
+      // 코드가 바뀌는 경계에 걸릴 수 있으므로 직전 코드도 허용
+      const now = Date.now();
+      assert.ok([generateTotp(seed, now).code, generateTotp(seed, now - 30000).code].includes(typed), typed);
+    });
+
+    test("browser_press sends real key events", async () => {
+      await call("browser_fill", { selector: "#name", text: "Enter" });
+      const result = await call("browser_press", { key: "Enter" });
+      assert.equal(result.text, "Pressed: Enter");
+      await call("browser_wait", { text: "Hello, Enter" });
+    });
+
+    test("browser_get_text returns full page text without selector", async () => {
+      const result = await call("browser_get_text", { selector: "" });
+      assert.match(result.text, /Pi-Browser Fixture/);
+      assert.match(result.text, /Not scrolled/);
+    });
+
+    test("browser_screenshot marks interactive elements with clickable coordinates", async () => {
+      await call("browser_fill", { selector: "#name", text: "Marks" });
+      const result = await call("browser_screenshot", { marks: true });
+      assert.ok(result.image?.data);
+      const submit = result.text.match(/\[\d+\] button "Submit" at \((\d+), (\d+)\)/);
+      assert.ok(submit, result.text);
+      // 찍은 뒤에는 번호 상자를 지움
+      assert.equal(await harness!.backend.describe("#pi-browser-marks"), null);
+
+      const point = { x: Number(submit[1]), y: Number(submit[2]) };
+      assert.deepEqual(await harness!.backend.describeAt(point), { role: "button", name: "Submit" });
+      const strict = new PolicyEngine(harness!.backend, { ...DEFAULT_POLICY_RULES, riskyLabels: ["Submit"] });
+      assert.match((await strict.classify("browser_click_xy", point))?.reason ?? "", /"Submit" 클릭/);
+
+      await call("browser_click_xy", point);
+      assert.equal((await call("browser_get_text", { selector: "#output" })).text, "Hello, Marks");
+    });
+
+    test("browser_save_page archives the whole page as PNG, PDF or MHTML", async () => {
+      // better-sqlite3를 쓸 수 없어도 파일은 저장되고 폴더 목록에 나타남
+      const files = new SavedFileStore({ dir: path.join(workDir, "files"), dbPath: path.join(workDir, "files.db") });
+      const save = (args: Record<string, unknown>) => executeBrowserTool(harness!.backend, "browser_save_page", args, { files });
+
+      const png = await save({ filename: "receipt" });
+      assert.match(png.text, /^Saved PNG: .*receipt\.png \(\d+\.\dKB\)/);
+      const pngPath = png.text.match(/^Saved PNG: (.+?) \(/)![1];
+      assert.deepEqual([...fs.readFileSync(pngPath).subarray(1, 4)], [...Buffer.from("PNG")]);
+
+      const pdf = await save({ format: "pdf", filename: "receipt" });
+      assert.match(pdf.text, /^Saved PDF: .*receipt\.pdf /);
+      assert.equal(fs.readFileSync(pdf.text.match(/^Saved PDF: (.+?) \(/)![1], "latin1").slice(0, 5), "%PDF-");
+
+      const mhtml = await save({ format: "mhtml", filename: "receipt.png" });
+      assert.match(mhtml.text, /receipt\.png\.mhtml /);
+      const archive = fs.readFileSync(mhtml.text.match(/^Saved MHTML: (.+?) \(/)![1], "utf-8");
+      assert.match(archive, /multipart\/related/);
+      assert.match(archive, /Pi-Browser Fixture/);
+
+      // 같은 이름은 덮어쓰지 않음
+      assert.match((await save({ filename: "receipt.png" })).text, /receipt-1\.png /);
+      await assert.rejects(save({ format: "gif" }), /Unknown format: gif/);
+
+      const listed = files.list().map((file) => file.filename).sort();
+      assert.deepEqual(listed, ["receipt-1.png", "receipt.pdf", "receipt.png", "receipt.png.mhtml"]);
+      assert.equal(files.list().find((file) => file.filename === "receipt.pdf")?.mimeType, "application/pdf");
+    });
+
+    test("coordinate tools drive a canvas page without an aria tree", async () => {
+      await call("browser_navigate", { url: `${fixture.url}canvas.html` });
+      assert.match((await call("browser_snapshot")).text, /^No accessible elements found.*marks: true/);
+      const log = async () => (await call("browser_get_text", { selector: "#log" })).text;
+
+      assert.equal((await call("browser_click_xy", { x: 50, y: 60 })).text, "Clicked at (50, 60)");
+      assert.equal(await log(), "Clicked 50,60");
+
+      await call("browser_drag", { x: 10, y: 10, toX: 200, toY: 100 });
+      assert.equal(await log(), "Dragged 10,10 to 200,100");
+
+      await call("browser_hover", { selector: "#tip" });
+      assert.equal(await log(), "Hovered");
+      await assert.rejects(call("browser_drag", { x: 10, y: 10 }), /toRef, toSelector or toX\/toY is required/);
+    });
+
+    test("browser_scroll scrolls the page", async () => {
+      const result = await call("browser_scroll", { direction: "down" });
+      assert.equal(result.text, "Scrolled down");
+      await call("browser_wait", { text: "Scrolled to 500" });
+    });
+
+    test("browser_wait handles time, text, textGone and selector", async () => {
+      await call("browser_click", { selector: "#load-later" });
+      const result = await call("browser_wait", {
+        timeMs: "100",
+        text: "Loaded!",
+        textGone: "Loading...",
+        selector: "#load-later",
+      });
+      assert.equal(
+        result.text,
+        'Waited 100ms, Text "Loaded!" appeared, Text "Loading..." disappeared, Element "#load-later" visible'
+      );
+    });
+
+    test("browser_screenshot returns an image", async () => {
+      const result = await call("browser_screenshot");
+      assert.equal(result.text, "Screenshot captured");
+      assert.equal(result.image?.mimeType, "image/jpeg");
+      assert.ok((result.image?.data.length ?? 0) > 100);
+    });
+
+    test("browser_download saves the file", async () => {
+      const filename = `conformance-${Date.now()}.txt`;
+      const result = await call("browser_download", { selector: 'link:"Download sample"', filename });
+      const match = result.text.match(/^Downloaded: (.+) \((.+)\)$/);
+      assert.ok(match, result.text);
+      assert.equal(path.basename(match[1]), filename);
+      assert.equal(match[2], "sample.txt");
+      assert.equal(fs.readFileSync(match[1], "utf-8"), SAMPLE_FILE_CONTENT);
+      fs.rmSync(match[1], { force: true });
+    });
+
+    test("browser_upload sets files on input and via file chooser", async () => {
+      const filePath = path.join(workDir, "upload.txt");
+      fs.writeFileSync(filePath, "upload");
+
+      const direct = await call("browser_upload", { selector: "#attachment", filePaths: [filePath] });
+      assert.equal(direct.text, "Uploaded 1 file(s) via input: #attachment");
+      await call("browser_wait", { text: "Uploaded: upload.txt" });
+
+      const chooser = await call("browser_upload", { selector: 'button:"Choose file"', filePaths: filePath });
+      assert.equal(chooser.text, 'Uploaded 1 file(s) via chooser: button:"Choose file"');
+    });
+
+    test("browser_upload rejects missing files", async () => {
+      await assert.rejects(
+        call("browser_upload", { selector: "#attachment", filePaths: [path.join(workDir, "missing.txt")] }),
+        /File not found/
+      );
+    });
+
+    test("new tabs are reported and can be switched and closed", async () => {
+      const click = await call("browser_click", { selector: 'link:"Open popup"' });
+      const match = click.text.match(/\[TABS\] New tab opened: \[(\w+)\] Pi-Browser Popup — .*\/popup\.html/);
+      assert.ok(match, click.text);
+      const popupId = match[1];
+
+      const switched = await call("browser_tab_switch", { tabId: popupId });
+      assert.match(switched.text, new RegExp(`^Switched to tab \\[${popupId}\\] Pi-Browser Popup`));
+      assert.match((await call("browser_get_text")).text, /Popup content/);
+
+      const list = await call("browser_tabs_list");
+      assert.match(list.text, new RegExp(`\\[${popupId}\\] Pi-Browser Popup — .* \\(active\\)`));
+
+      const closed = await call("browser_tab_close");
+      assert.match(closed.text, /^Closed active tab\. Active tab: \[\w+\] Pi-Browser Fixture/);
+      assert.doesNotMatch(closed.text, /\[TABS\]/);
+
+      const opened = await call("browser_tab_open", { url: fixture.url });
+      const openedId = opened.text.match(/^Opened tab \[(\w+)\] Pi-Browser Fixture/)![1];
+      assert.doesNotMatch(opened.text, /\[TABS\]/);
+      const closedById = await call("browser_tab_close", { tabId: openedId });
+      assert.match(closedById.text, new RegExp(`^Closed tab ${openedId}\\. Active tab: `));
+    });
+
+    test("get_current_time and unknown tools", async () => {
+      assert.match((await call("get_current_time")).text, /^현재 날짜: .+\n현재 시간: .+$/);
+      assert.equal((await call("browser_unknown")).text, "Unknown tool: browser_unknown");
+    });
+  });
+}
+
+const chromePath = findChrome();
+
+const NO_CHROME = "Chrome/Chromium 없음 (CHROME_PATH로 지정)";
+
+defineConformanceSuite("PlaywrightBackend", async () => {
+  if (!chromePath) return NO_CHROME;
+
+  const downloadDir = fs.mkdtempSync(path.join(os.tmpdir(), "pi-browser-downloads-"));
+  const browser: Browser = await chromium.launch({ executablePath: chromePath, headless: true });
+  const context = await browser.newContext();
+
+  return {
+    backend: new PlaywrightBackend(async () => context, { downloadDir }),
+    close: async () => {
+      await browser.close();
+      fs.rmSync(downloadDir, { recursive: true, force: true });
+    },
+  };
+});
+
+defineConformanceSuite("ExtensionBackend", async () => {
+  if (!chromePath) return NO_CHROME;
+
+  const bridge = new ExtensionBridge();
+  try {
+    await bridge.start();
+  } catch {
+    return "확장 브리지 포트 사용 중 (CLI 실행 중 등)";
+  }
+
+  // 다운로드 폴더를 임시 폴더로 지정한 새 프로필
+  const userDataDir = fs.mkdtempSync(path.join(os.tmpdir(), "pi-browser-profile-"));
+  const downloadDir = fs.mkdtempSync(path.join(os.tmpdir(), "pi-browser-downloads-"));
+  fs.mkdirSync(path.join(userDataDir, "Default"), { recursive: true });
+  fs.writeFileSync(
+    path.join(userDataDir, "Default", "Preferences"),
+    JSON.stringify({ download: { default_directory: downloadDir, prompt_for_download: false } })
+  );
+
+  const chrome: ChildProcess = spawn(
+    chromePath,
+    [
+      "--headless=new",
+      // root로 실행하면 샌드박스를 켠 채로는 Chrome이 뜨지 않음 (Playwright launch와 같게 끔)
+      "--no-sandbox",
+      `--user-data-dir=${userDataDir}`,
+      `--disable-extensions-except=${EXTENSION_DIR}`,
+      `--load-extension=${EXTENSION_DIR}`,
+      "--no-first-run",
+      "--no-default-browser-check",
+      "about:blank",
+    ],
+    { stdio: "ignore" }
+  );
+
+  const close = async () => {
+    bridge.stop();
+    chrome.kill();
+    await new Promise((r) => setTimeout(r, 500));
+    fs.rmSync(userDataDir, { recursive: true, force: true });
+    fs.rmSync(downloadDir, { recursive: true, force: true });
+  };
+
+  if (!(await bridge.waitForConnection(20000))) {
+    await close();
+    // chrome-headless-shell 빌드는 --load-extension을 지원하지 않음
+    return "확장 프로그램이 연결되지 않음 (확장을 불러올 수 있는 Chrome/Chromium 필요, chrome-headless-shell 불가)";
+  }
+
+  return { backend: new ExtensionBackend(bridge), close };
+});
+
+describe("NetworkRecorder (Playwright)", () => {
+  let fixture: { url: string; close: () => void };
+  let browser: Browser | null = null;
+  let workDir: string;
+
+  before(async () => {
+    fixture = await startFixtureServer();
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), "pi-browser-network-"));
+    if (chromePath) browser = await chromium.launch({ executablePath: chromePath, headless: true });
+  });
+
+  after(async () => {
+    await browser?.close();
+    fixture?.close();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it("captures fetch responses for browser_network and HAR with secrets redacted", async (t) => {
+    if (!browser) {
+      t.skip("backend unavailable");
+      return;
+    }
+    const secrets = new SecretStore({
+      filePath: path.join(workDir, "secrets.enc"),
+      keyPath: path.join(workDir, "secret.key"),
+    });
+    secrets.set("api_token", "tok-secret-123");
+
+    const context = await browser.newContext();
+    const recorder = new NetworkRecorder({ secrets });
+    recorder.attach(context);
+    const page = await context.newPage();
+    await page.goto(fixture.url);
+    await page.evaluate(`fetch("/api/items?token=tok-secret-123").then((r) => r.json())`);
+    await recorder.stop();
+
+    // 멈춘 뒤의 요청은 기록하지 않음
+    await page.evaluate(`fetch("/api/items?after=stop").then((r) => r.json())`);
+    await context.close();
+
+    const result = recorder.query({ filter: "/api/items" });
+    assert.match(result.text, /^Captured 1 XHR\/fetch response\(s\), showing 1 \(newest first\):/);
+    const [response] = JSON.parse(result.text.slice(result.text.indexOf("\n") + 1));
+    assert.equal(response.method, "GET");
+    assert.equal(response.status, 200);
+    assert.equal(response.type, "fetch");
+    assert.deepEqual(response.body, { items: [{ id: 1, name: "alpha" }, { id: 2, name: "beta" }] });
+    assert.match(response.url, /token=\{\{secret:api_token\}\}$/);
+    assert.match(recorder.query({ filter: "/missing" }).text, /^No XHR\/fetch responses captured matching the filter/);
+
+    const harPath = recorder.saveHar(path.join(workDir, "har", "run.har"));
+    const raw = fs.readFileSync(harPath, "utf-8");
+    assert.doesNotMatch(raw, /tok-secret-123/);
+    const har = JSON.parse(raw);
+    assert.equal(har.log.version, "1.2");
+    const api = har.log.entries.find((e: { request: { url: string } }) => e.request.url.includes("/api/items"));
+    assert.equal(api.response.status, 200);
+    assert.equal(api.response.content.mimeType, "application/json");
+    assert.match(api.response.content.text, /"alpha"/);
+    assert.ok(har.log.entries.some((e: { _resourceType: string }) => e._resourceType === "document"));
+  });
+});
+
+describe("Route rules", () => {
+  let fixture: { url: string; close: () => void };
+  let browser: Browser | null = null;
+
+  before(async () => {
+    fixture = await startFixtureServer();
+    if (chromePath) browser = await chromium.launch({ executablePath: chromePath, headless: true });
+  });
+
+  after(async () => {
+    await browser?.close();
+    fixture?.close();
+  });
+
+  it("matches presets, resource types and URL patterns in order", () => {
+    const rules = parseRouteRules([
+      { action: "stub", url: "*/ads.js", body: "" },
+      { action: "block", preset: "ads" },
+      { action: "block", preset: "trackers", resourceTypes: ["script"] },
+      { action: "block", resourceTypes: ["media", "font"] },
+    ]);
+    assert.equal(findRouteRule(rules, "https://example.com/static/ads.js", "script")?.action, "stub");
+    assert.equal(findRouteRule(rules, "https://securepubads.g.doubleclick.net/tag/js/gpt.js", "script"), rules[1]);
+    assert.equal(findRouteRule(rules, "https://www.googletagmanager.com/gtm.js", "script"), rules[2]);
+    assert.equal(findRouteRule(rules, "https://www.googletagmanager.com/ns.html", "document"), undefined);
+    assert.equal(findRouteRule(rules, "https://cdn.example.com/intro.mp4", "media"), rules[3]);
+    assert.equal(findRouteRule(rules, "https://example.com/", "document"), undefined);
+    assert.equal(findRouteRule(rules, "https://notdoubleclick.net/", "script"), undefined);
+
+    assert.throws(() => parseRouteRules([{ action: "drop" }]), /Route rule 1: action must be one of block, stub, headers/);
+    assert.throws(() => parseRouteRules([{ action: "block", preset: "videos" }]), /unknown preset "videos"/);
+    assert.throws(() => parseRouteRules({ action: "block" }), /must be an array/);
+  });
+
+  it("blocks, stubs and rewrites requests through Playwright routing", async (t) => {
+    if (!browser) {
+      t.skip("backend unavailable");
+      return;
+    }
+    const context = await browser.newContext();
+    const routes = new RouteController();
+    await routes.apply(context, [
+      { action: "block", url: "*/api/items?blocked=*" },
+      { action: "stub", url: "*/api/items?stub=*", contentType: "application/json", body: '{"stubbed":true}' },
+      { action: "headers", url: "*/api/headers", headers: { "X-Pi-Browser": "1", "Accept-Language": null } },
+    ]);
+    const page = await context.newPage();
+    await page.goto(fixture.url);
+
+    const fetchJson = (url: string) => page.evaluate(`fetch(${JSON.stringify(url)}).then((r) => r.json()).catch((e) => ({ error: String(e) }))`);
+    assert.match(String(((await fetchJson("/api/items?blocked=1")) as { error?: string }).error), /Failed to fetch/);
+    assert.deepEqual(await fetchJson("/api/items?stub=1"), { stubbed: true });
+    assert.equal(((await fetchJson("/api/items")) as { items: unknown[] }).items.length, 2);
+    const headers = (await fetchJson("/api/headers")) as Record<string, string>;
+    assert.equal(headers["x-pi-browser"], "1");
+    assert.equal(headers["accept-language"], undefined);
+
+    // 규칙을 비우면 라우팅 해제
+    await routes.apply(context, []);
+    assert.equal(((await fetchJson("/api/items?blocked=1")) as { items: unknown[] }).items.length, 2);
+    await context.close();
+  });
+});
+
+describe("Sessions", () => {
+  let fixture: { url: string; close: () => void };
+  let browser: Browser | null = null;
+  let workDir: string;
+
+  before(async () => {
+    fixture = await startFixtureServer();
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), "pi-browser-sessions-"));
+    if (chromePath) browser = await chromium.launch({ executablePath: chromePath, headless: true });
+  });
+
+  after(async () => {
+    await browser?.close();
+    fixture?.close();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it("saves named sessions per site, optionally encrypted", () => {
+    const store = new SessionStore({ dir: path.join(workDir, "store"), keyPath: path.join(workDir, "secret.key") });
+    const state = {
+      cookies: [
+        { name: "sid", value: "naver-1", domain: ".naver.com", path: "/", expires: -1, httpOnly: true, secure: true, sameSite: "Lax" as const },
+        { name: "sid", value: "other-1", domain: "example.com", path: "/", expires: -1, httpOnly: false, secure: false, sameSite: "Lax" as const },
+      ],
+      origins: [
+        { origin: "https://m.naver.com", localStorage: [{ name: "theme", value: "dark" }] },
+        { origin: "https://example.com", localStorage: [{ name: "x", value: "1" }] },
+      ],
+    };
+
+    store.save("naver", state, { sites: ["naver.com"], encrypt: true });
+    store.save("all", state);
+    const raw = fs.readFileSync(path.join(workDir, "store", "naver.json"), "utf-8");
+    assert.doesNotMatch(raw, /naver-1/);
+
+    const naver = store.load("naver");
+    assert.deepEqual(naver.cookies.map((c) => c.value), ["naver-1"]);
+    assert.deepEqual(naver.origins.map((o) => o.origin), ["https://m.naver.com"]);
+    assert.equal(store.load("all").cookies.length, 2);
+    assert.deepEqual(
+      store.list().map((s) => [s.name, s.encrypted, s.sites]),
+      [["all", false, undefined], ["naver", true, ["naver.com"]]]
+    );
+
+    assert.throws(() => store.load("missing"), /Unknown session: missing\. Saved sessions: all, naver/);
+    assert.throws(() => store.save("../x", state), /Invalid session name/);
+    assert.equal(store.remove("all"), true);
+    assert.equal(store.remove("all"), false);
+  });
+
+  it("restores cookies and localStorage into an open context", async (t) => {
+    if (!browser) {
+      t.skip("backend unavailable");
+      return;
+    }
+    const source = await browser.newContext();
+    const page = await source.newPage();
+    await page.goto(fixture.url);
+    await page.evaluate(`document.cookie = "sid=abc; path=/"; localStorage.setItem("token", "t-1")`);
+    const state = await source.storageState();
+    await source.close();
+
+    const target = await browser.newContext();
+    await restoreSession(target, state);
+    assert.equal(target.pages().length, 0);
+    const restored = await target.newPage();
+    await restored.goto(fixture.url);
+    assert.equal(await restored.evaluate(`document.cookie`), "sid=abc");
+    assert.equal(await restored.evaluate(`localStorage.getItem("token")`), "t-1");
+    await target.close();
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Context window tests
+ * 컨텍스트 창 관리(ContextManager)의 스크린샷·스냅샷 정리와 오래된 턴 요약 확인
+ *
+ * 실행: npm test
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { AssistantMessage, Context, Message, ToolResultMessage } from "@mariozechner/pi-ai";
+import { ContextManager } from "../src/agent/index.js";
+import { modelResponse, testModel } from "./helpers.js";
+
+describe("Context window", () => {
+  let callCount = 0;
+
+  function toolTurn(calls: { name: string; args?: Record<string, unknown>; content: ToolResultMessage["content"] }[]): Message[] {
+    const ids = calls.map(() => `call-${++callCount}`);
+    return [
+      modelResponse("test-provider", "test-model", {}, calls.map(({ name, args = {} }, i) => ({ type: "toolCall", id: ids[i], name, arguments: args }))),
+      ...calls.map(({ name, content }, i): ToolResultMessage => ({
+        role: "toolResult",
+        toolCallId: ids[i],
+        toolName: name,
+        content,
+        isError: false,
+        timestamp: Date.now(),
+      })),
+    ];
+  }
+
+  function resultTexts(messages: Message[]): string[] {
+    return messages
+      .filter((m): m is ToolResultMessage => m.role === "toolResult")
+      .map((m) => m.content.map((b) => (b.type === "text" ? b.text : "<image>")).join(" | "));
+  }
+
+  it("keeps only the latest screenshot and the latest snapshot pages", async () => {
+    const image = { type: "image" as const, data: "aGk=", mimeType: "image/jpeg" };
+    const ctx: Context = {
+      messages: [
+        { role: "user", content: "최저가 찾기", timestamp: Date.now() },
+        ...toolTurn([{ name: "browser_snapshot", content: [{ type: "text", text: "snapshot 1" }] }]),
+        ...toolTurn([{ name: "browser_screenshot", content: [{ type: "text", text: "shot 1" }, image] }]),
+        ...toolTurn([{ name: "browser_snapshot", args: { offset: 0 }, content: [{ type: "text", text: "snapshot 2" }] }]),
+        ...toolTurn([{ name: "browser_snapshot", args: { offset: 8000 }, content: [{ type: "text", text: "snapshot 2 page 2" }] }]),
+        ...toolTurn([{ name: "browser_screenshot", content: [{ type: "text", text: "shot 2" }, image] }]),
+      ],
+    };
+
+    assert.equal(await new ContextManager({ model: testModel() }).prepare(ctx), null);
+    assert.deepEqual(resultTexts(ctx.messages), [
+      "[Old snapshot removed - its refs are no longer valid. Use the latest browser_snapshot]",
+      "shot 1 | [Old screenshot removed to save context]",
+      "snapshot 2",
+      "snapshot 2 page 2",
+      "shot 2 | <image>",
+    ]);
+  });
+
+  it("summarizes old turns at an assistant boundary and falls back to the call list", async () => {
+    const page = (text: string): ToolResultMessage["content"] => [{ type: "text", text: text + "x".repeat(800) }];
+    const ctx: Context = {
+      messages: [
+        { role: "user", content: "최저가 찾기", timestamp: Date.now() },
+        ...toolTurn([{ name: "browser_navigate", args: { url: "https://shop.example" }, content: page("navigated") }]),
+        ...toolTurn([
+          { name: "browser_click", args: { ref: "e1" }, content: page("clicked e1") },
+          { name: "browser_click", args: { ref: "e2" }, content: page("clicked e2") },
+        ]),
+        ...[3, 4, 5, 6].flatMap((n) => toolTurn([{ name: "browser_snapshot", args: { offset: n }, content: page(`page ${n}`) }])),
+      ],
+    };
+    const summaryResponses: AssistantMessage[] = [];
+    const manager = new ContextManager({
+      model: testModel({ maxTokens: 100 }),
+      contextLimit: 1000,
+      onSummaryResponse: (message) => summaryResponses.push(message),
+    });
+
+    const compaction = await manager.prepare(ctx);
+    assert.equal(compaction?.summarized, 5);
+    assert.ok(compaction.after < compaction.before);
+    assert.deepEqual(summaryResponses, []);
+
+    const [merged, ...kept] = ctx.messages;
+    assert.equal(merged.role, "user");
+    assert.match(merged.content as string, /^최저가 찾기\n\n\[Progress so far/);
+    assert.match(merged.content as string, /CALL browser_navigate\(\{"url":"https:\/\/shop\.example"\}\)\nCALL browser_click\(\{"ref":"e1"\}\)\nCALL browser_click\(\{"ref":"e2"\}\)$/);
+    assert.doesNotMatch(merged.content as string, /RESULT/);
+
+    assert.equal(kept[0].role, "assistant");
+    assert.deepEqual(resultTexts(kept).map((text) => text.slice(0, 6)), ["page 3", "page 4", "page 5", "page 6"]);
+    const calledIds = new Set(
+      kept.flatMap((m) => (m.role === "assistant" ? m.content.flatMap((b) => (b.type === "toolCall" ? [b.id] : [])) : []))
+    );
+    for (const message of kept) {
+      if (message.role === "toolResult") assert.ok(calledIds.has(message.toolCallId), message.toolCallId);
+    }
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Structured extraction tests
+ * 구조화 추출(ExtractionCollector)의 나눠 제출과 스키마 검증 확인
+ *
+ * 실행: npm test
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ExtractionCollector } from "../src/agent/index.js";
+
+describe("Structured extraction", () => {
+  const product = {
+    type: "object",
+    properties: { name: { type: "string" }, price: { type: "number" } },
+    required: ["name", "price"],
+  };
+
+  it("appends array chunks and checks minItems only on the final submit", () => {
+    const collector = new ExtractionCollector({ type: "array", items: product, minItems: 3 });
+
+    const partial = collector.submit({ data: [{ name: "A", price: 100 }, { name: "B", price: 200 }], hasMore: true });
+    assert.match(partial.text, /2 items so far/);
+    assert.deepEqual([collector.isComplete, collector.data], [false, undefined]);
+    assert.throws(() => collector.submit({ data: [{ name: "C", price: "비쌈" }], hasMore: true }), /Validation failed/);
+
+    assert.throws(() => collector.submit({ data: [] }), /minItems|fewer than 3/);
+    assert.equal(collector.isComplete, false);
+
+    collector.submit({ data: [{ name: "C", price: 300 }] });
+    assert.equal(collector.isComplete, true);
+    assert.deepEqual((collector.data as { name: string }[]).map((item) => item.name), ["A", "B", "C"]);
+  });
+
+  it("merges object chunks by appending array fields and overwriting the rest", () => {
+    const collector = new ExtractionCollector({
+      type: "object",
+      properties: { page: { type: "number" }, products: { type: "array", items: product } },
+      required: ["page", "products"],
+    });
+
+    collector.submit({ data: { page: 1, products: [{ name: "A", price: 100 }] }, hasMore: true });
+    assert.equal(collector.data, undefined);
+    collector.submit({ data: { page: 2, products: [{ name: "B", price: 200 }] } });
+
+    assert.deepEqual(collector.data, {
+      page: 2,
+      products: [{ name: "A", price: 100 }, { name: "B", price: 200 }],
+    });
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * 테스트 공용 도우미 (가짜 모델 응답과 OpenAI 호환 모델 서버)
+ */
+
+import http from "node:http";
+import type { Api, AssistantMessage, Model } from "@mariozechner/pi-ai";
+
+
+/**
+ * 모델 응답 하나 (usage의 cost.total은 pi-ai가 Model.cost로 계산한 값)
+ */
+export function modelResponse(
+  provider: string,
+  model: string,
+  usage: { input?: number; output?: number; cacheRead?: number; totalTokens?: number; cost?: number },
+  content: AssistantMessage["content"] = []
+): AssistantMessage {
+  const { input = 0, output = 0, cacheRead = 0, totalTokens = 0, cost = 0 } = usage;
+  return {
+    role: "assistant",
+    content,
+    api: "openai-completions",
+    provider,
+    model,
+    usage: {
+      input,
+      output,
+      cacheRead,
+      cacheWrite: 0,
+      totalTokens,
+      cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, total: cost },
+    },
+    stopReason: content.some((b) => b.type === "toolCall") ? "toolUse" : "stop",
+    timestamp: Date.now(),
+  };
+}
+
+/**
+ * 테스트용 OpenAI 호환 모델 (API 키가 등록되지 않은 제공자)
+ */
+export function testModel(overrides: Partial<Model<Api>> = {}): Model<Api> {
+  return {
+    id: "test-model",
+    name: "Test model",
+    api: "openai-completions",
+    provider: "test-provider",
+    baseUrl: "http://127.0.0.1:9/v1",
+    reasoning: false,
+    input: ["text", "image"],
+    cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 },
+    contextWindow: 100000,
+    maxTokens: 1000,
+    ...overrides,
+  };
+}
+
+export interface ScriptedResponse {
+  text?: string;
+  toolCalls?: { name: string; args: Record<string, unknown> }[];
+  promptTokens?: number;
+}
+
+/**
+ * 정해 둔 응답을 차례로 스트리밍하는 OpenAI 호환 모델 서버 (받은 요청 본문은 requests에 쌓임)
+ */
+export function startScriptedModel(
+  script: ScriptedResponse[]
+): Promise<{ model: Model<Api>; requests: { messages: { role: string; content: unknown }[] }[]; close: () => void }> {
+  const requests: { messages: { role: string; content: unknown }[] }[] = [];
+  let callCount = 0;
+
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      requests.push(JSON.parse(body));
+      const { text, toolCalls = [], promptTokens = 10 } = script.shift() ?? { text: "끝" };
+      const chunk = (choice: Record<string, unknown> | null, usage?: Record<string, number>) =>
+        `data: ${JSON.stringify({
+          id: "chatcmpl-test",
+          object: "chat.completion.chunk",
+          created: 0,
+          model: "test-model",
+          choices: choice ? [{ index: 0, ...choice }] : [],
+          ...(usage ? { usage } : {}),
+        })}\n\n`;
+
+      res.writeHead(200, { "Content-Type": "text/event-stream" });
+      if (text) res.write(chunk({ delta: { role: "assistant", content: text }, finish_reason: null }));
+      toolCalls.forEach(({ name, args }, index) => {
+        const id = `call_${++callCount}`;
+        const call = { index, id, type: "function", function: { name, arguments: JSON.stringify(args) } };
+        res.write(chunk({ delta: { tool_calls: [call] }, finish_reason: null }));
+      });
+      res.write(chunk({ delta: {}, finish_reason: toolCalls.length ? "tool_calls" : "stop" }));
+      res.write(chunk(null, { prompt_tokens: promptTokens, completion_tokens: 5, total_tokens: promptTokens + 5 }));
+      res.end("data: [DONE]\n\n");
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as { port: number };
+      resolve({ model: testModel({ baseUrl: `http://127.0.0.1:${port}/v1` }), requests, close: () => server.close() });
+    });
+  });
+}
@@ -0,0 +1,39 @@
+/**
+ * Approval policy tests
+ * 승인 정책(PolicyEngine)이 위험한 조작을 골라내는지 확인
+ *
+ * 실행: npm test
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { PolicyEngine, DEFAULT_POLICY_RULES, type BrowserBackend } from "../src/browser/index.js";
+
+describe("Approval policy", () => {
+  // 셀렉터와 좌표마다 정해 둔 요소를 돌려주는 가짜 백엔드
+  const stubBackend = (url = "https://shop.example.com/") =>
+    ({
+      pageInfo: async () => ({ url, title: "" }),
+      describe: async (selector: string) => (selector === "#trash" ? { role: "button", name: "휴지통" } : null),
+      describeAt: async ({ x, y }: { x: number; y: number }) =>
+        x === 10 && y === 20 ? { role: "button", name: "항목 삭제" } : { role: "generic", name: "상품 목록" },
+    }) as unknown as BrowserBackend;
+
+  it("checks the element under browser_click_xy against the risky labels", async () => {
+    const policy = new PolicyEngine(stubBackend());
+    assert.match((await policy.classify("browser_click_xy", { x: 10, y: 20 }))?.reason ?? "", /^"항목 삭제" 클릭 \(삭제\)$/);
+    assert.equal(await policy.classify("browser_click_xy", { x: 300, y: 400 }), null);
+
+    const payment = new PolicyEngine(stubBackend("https://pay.naver.com/order"));
+    assert.equal((await payment.classify("browser_click_xy", { x: 300, y: 400 }))?.reason, "결제 페이지에서 클릭");
+  });
+
+  it("checks both ends of browser_drag", async () => {
+    const policy = new PolicyEngine(stubBackend(), { ...DEFAULT_POLICY_RULES, riskyLabels: ["삭제", "휴지통"] });
+    assert.match((await policy.classify("browser_drag", { x: 10, y: 20, toX: 300, toY: 400 }))?.reason ?? "", /"항목 삭제" 드래그/);
+    assert.match((await policy.classify("browser_drag", { x: 300, y: 400, toSelector: "#trash" }))?.reason ?? "", /"휴지통" 드래그/);
+    assert.equal(await policy.classify("browser_drag", { x: 300, y: 400, toX: 1, toY: 2 }), null);
+    // 드래그는 폼 제출이 아니므로 결제 페이지 규칙은 적용하지 않음
+    assert.equal(await new PolicyEngine(stubBackend("https://pay.naver.com/")).classify("browser_drag", { x: 1, y: 2, toX: 3, toY: 4 }), null);
+  });
+});
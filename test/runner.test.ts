@@ -0,0 +1,135 @@
+/**
+ * Agent runner tests
+ * 가짜 모델 서버로 AgentRunner의 정책 차단, 추출 재요청, 예산 중단 확인
+ *
+ * 실행: npm test
+ */
+
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  PolicyEngine,
+  SecretStore,
+  UrlGuard,
+  type BrowserBackend,
+} from "../src/browser/index.js";
+import {
+  AgentRunner,
+  EXTRACT_NUDGE,
+  UsageTracker,
+  type AgentEvent,
+} from "../src/agent/index.js";
+import { startScriptedModel, type ScriptedResponse } from "./helpers.js";
+
+describe("Agent runner", () => {
+  let workDir: string;
+
+  before(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), "pi-browser-runner-"));
+  });
+
+  after(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  // 이동과 클릭만 기록하는 가짜 백엔드
+  function stubBackend() {
+    const calls: string[] = [];
+    let url = "about:blank";
+    const backend = {
+      navigate: async (target: string) => {
+        calls.push(`navigate ${target}`);
+        url = target;
+        return { url, title: "Shop" };
+      },
+      click: async (selector: string) => {
+        calls.push(`click ${selector}`);
+      },
+      pageInfo: async () => ({ url, title: "Shop" }),
+      describe: async (selector: string) => (selector === "#pay" ? { role: "button", name: "결제하기" } : null),
+      takeTabChanges: async () => ({ opened: [], closed: [] }),
+    } as unknown as BrowserBackend;
+    return { backend, calls };
+  }
+
+  async function run(script: ScriptedResponse[], options: Partial<ConstructorParameters<typeof AgentRunner>[0]> = {}) {
+    const server = await startScriptedModel(script);
+    const { backend, calls } = stubBackend();
+    const events: AgentEvent[] = [];
+    try {
+      const runner = new AgentRunner(
+        { mission: "최저가 상품 결제", model: server.model, isOllama: true, tools: [], backend, ...options },
+        (event) => events.push(event)
+      );
+      const result = await runner.run();
+      return { result, events, calls, requests: server.requests };
+    } finally {
+      server.close();
+    }
+  }
+
+  it("blocks risky clicks and denied URLs and redacts secrets in the result", async () => {
+    const secrets = new SecretStore({
+      filePath: path.join(workDir, "secrets.enc"),
+      keyPath: path.join(workDir, "secret.key"),
+    });
+    secrets.set("pw", "hunter2-pass");
+
+    const { result, events, calls, requests } = await run(
+      [
+        {
+          toolCalls: [
+            { name: "browser_navigate", args: { url: "https://blocked.example/" } },
+            { name: "browser_click", args: { selector: "#pay" } },
+          ],
+        },
+        { toolCalls: [{ name: "browser_click", args: { selector: "#next" } }] },
+        { text: "비밀번호 hunter2-pass 로 로그인했지만 결제는 승인이 필요합니다" },
+      ],
+      {
+        policy: new PolicyEngine(stubBackend().backend),
+        urlGuard: new UrlGuard({ channel: "test", policies: [{ deny: ["blocked.example"] }], logPath: path.join(workDir, "url-blocks.jsonl") }),
+        secrets,
+      }
+    );
+
+    assert.deepEqual([result.status, result.turns], ["completed", 3]);
+    assert.equal(result.text, "비밀번호 {{secret:pw}} 로 로그인했지만 결제는 승인이 필요합니다");
+    assert.deepEqual(calls, ["click #next"]);
+
+    const toolResults = events.filter((e): e is Extract<AgentEvent, { type: "tool_result" }> => e.type === "tool_result");
+    assert.deepEqual(toolResults.map((e) => e.isError), [true, true, false]);
+    assert.match(toolResults[0].result.text, /^Error: Blocked navigation to https:\/\/blocked\.example\//);
+    assert.match(toolResults[1].result.text, /^Blocked: "결제하기" 클릭/);
+    // 차단 이유는 다음 턴의 도구 결과로 모델에게 전달됨
+    const sent = requests[1].messages.filter((m) => m.role === "tool").map((m) => String(m.content));
+    assert.deepEqual(sent.map((text) => text.slice(0, 8)), ["Error: B", "Blocked:"]);
+  });
+
+  it("asks once more for browser_extract and returns the validated data", async () => {
+    const { result, requests } = await run(
+      [{ text: "가격은 12,900원입니다" }, { toolCalls: [{ name: "browser_extract", args: { data: { price: 12900 } } }] }],
+      { outputSchema: { type: "object", properties: { price: { type: "number" } }, required: ["price"] } }
+    );
+
+    assert.deepEqual([result.status, result.turns, result.data], ["completed", 2, { price: 12900 }]);
+    assert.deepEqual(requests[1].messages.at(-1), { role: "user", content: EXTRACT_NUDGE });
+  });
+
+  it("stops before the next model call once the run budget is spent", async () => {
+    const navigate = { toolCalls: [{ name: "browser_navigate", args: { url: "https://shop.example/" } }] };
+    const { result, requests } = await run([navigate, navigate, navigate, { text: "끝" }], {
+      usage: new UsageTracker({
+        prices: { "test-provider": { "*": { input: 1000, output: 0 } } },
+        budget: { perRunUsd: 0.015 },
+      }),
+    });
+
+    assert.deepEqual([result.status, result.turns, requests.length], ["error", 2, 2]);
+    assert.match(result.error ?? "", /^실행당 예산 초과 \(\$0\.0200 \/ \$0\.015\)$/);
+    assert.equal(result.usage.calls, 2);
+  });
+});
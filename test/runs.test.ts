@@ -0,0 +1,57 @@
+/**
+ * Run history tests
+ * 실행 기록(RunStore) 저장과 조회 확인 (better-sqlite3가 없으면 건너뜀)
+ *
+ * 실행: npm test
+ */
+
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { RunStore } from "../src/data/index.js";
+
+describe("Run history", () => {
+  let workDir: string;
+
+  before(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), "pi-browser-runs-"));
+  });
+
+  after(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it("records runs from every channel and searches them", (t) => {
+    const store = new RunStore({ dbPath: path.join(workDir, "pi-browser.db") });
+    const web = store.start({ kind: "task", source: "web", title: "쿠팡 에어팟 가격", model: "test-model", traceId: "20260101-000000-web-abc123" });
+    if (web.error) {
+      t.skip(`database unavailable: ${web.error}`);
+      return;
+    }
+    web.log("[TOOL] browser_navigate({})");
+    web.log("[SUCCESS] 100% 완료");
+    web.finish({ status: "completed", result: "329,000원" });
+    web.finish({ status: "failed", error: "ignored" });
+
+    const scheduled = store.start({ kind: "workflow", source: "scheduler", title: "매일 뉴스" });
+    scheduled.finish({ status: "failed", error: "Timeout" });
+    store.start({ kind: "task", source: "telegram", title: "날씨" });
+
+    assert.deepEqual(store.list().map((r) => [r.source, r.status]), [["telegram", "running"], ["scheduler", "failed"], ["web", "completed"]]);
+    assert.deepEqual(store.list({ search: "329,000" }).map((r) => r.id), [web.id]);
+    assert.deepEqual(store.list({ search: "100%" }).map((r) => r.id), [web.id]);
+    assert.deepEqual(store.list({ search: "_" }), []);
+    assert.deepEqual(store.list({ kind: "workflow", status: "failed" }).map((r) => r.title), ["매일 뉴스"]);
+
+    const record = store.get(web.id!)!;
+    assert.deepEqual(
+      [record.model, record.traceId, record.error, record.logs],
+      ["test-model", "20260101-000000-web-abc123", undefined, ["[TOOL] browser_navigate({})", "[SUCCESS] 100% 완료"]]
+    );
+    assert.ok(record.durationMs !== undefined && record.durationMs >= 0);
+    assert.equal(store.remove(web.id!), true);
+    assert.equal(store.get(web.id!), null);
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * Secrets vault tests
+ * 비밀 저장소(SecretStore)가 저장된 값을 결과에서 가리는지 확인
+ *
+ * 실행: npm test
+ */
+
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { SecretStore } from "../src/browser/index.js";
+
+describe("Secrets vault", () => {
+  let workDir: string;
+
+  before(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), "pi-browser-secrets-"));
+  });
+
+  after(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it("redacts every stored value, including short PINs", () => {
+    const secrets = new SecretStore({
+      filePath: path.join(workDir, "secrets.enc"),
+      keyPath: path.join(workDir, "secret.key"),
+    });
+    secrets.set("pin", "482");
+    secrets.set("pw", "a&b c");
+
+    assert.equal(secrets.redact("PIN 482, pw=a%26b%20c"), "PIN {{secret:pin}}, pw={{secret:pw}}");
+    assert.equal(secrets.resolve("{{secret:pin}}"), "482");
+  });
+});
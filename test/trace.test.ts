@@ -0,0 +1,64 @@
+/**
+ * Run trace tests
+ * 실행 트레이스(TraceStore)의 턴, 도구 호출, 스크린샷 기록 확인
+ *
+ * 실행: npm test
+ */
+
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { type BrowserBackend } from "../src/browser/index.js";
+import { TraceStore, emptyUsage } from "../src/agent/index.js";
+
+describe("Run traces", () => {
+  let workDir: string;
+
+  before(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), "pi-browser-traces-"));
+  });
+
+  after(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it("records turns, tool calls and screenshots per run", async () => {
+    const store = new TraceStore(workDir);
+    const trace = store.start({ source: "web", title: "검색", model: "test-model" });
+    const shot = { data: Buffer.from("jpeg").toString("base64"), mimeType: "image/jpeg" };
+    const backend = { screenshot: async () => shot } as unknown as BrowserBackend;
+
+    trace.record({ type: "turn_start", turn: 1, maxTurns: 5 });
+    trace.record({ type: "text_delta", delta: "검색창을 " });
+    trace.record({ type: "text_delta", delta: "클릭합니다" });
+    trace.record({ type: "usage", usage: { ...emptyUsage(), totalTokens: 120, cost: 0.01 } });
+    trace.record({ type: "tool_start", toolCallId: "c1", name: "browser_click", args: { selector: "#q" } });
+    trace.record({ type: "tool_result", toolCallId: "c1", name: "browser_click", result: { text: "Clicked" }, isError: false });
+    await trace.captureAfterTool(backend, "c1");
+    trace.record({ type: "tool_start", toolCallId: "c2", name: "browser_snapshot", args: {} });
+    trace.record({ type: "tool_result", toolCallId: "c2", name: "browser_snapshot", result: { text: "Timeout" }, isError: true });
+    await trace.captureAfterTool(backend, "c2");
+    trace.log("info", "단계 완료", { stepId: "s1", stepName: "검색" });
+    trace.finish({ status: "completed", result: "끝" });
+
+    const [summary] = store.list();
+    assert.equal(summary.id, trace.id);
+    assert.match(trace.id, /^\d{8}-\d{6}-web-[0-9a-f]{6}$/);
+    assert.deepEqual([summary.status, summary.toolCalls, summary.errors, summary.result], ["completed", 2, 1, "끝"]);
+
+    const entries = store.load(trace.id)!.entries;
+    assert.deepEqual(entries.map((e) => e.type), ["turn", "tool", "tool", "log"]);
+    assert.deepEqual(entries[0], { ...entries[0], text: "검색창을 클릭합니다", tokens: 120, cost: 0.01 });
+    const [click, snapshot] = entries.slice(1) as Extract<(typeof entries)[number], { type: "tool" }>[];
+    assert.deepEqual([click.args, click.result, click.screenshot], [{ selector: "#q" }, "Clicked", "0001.jpg"]);
+    assert.deepEqual([snapshot.isError, snapshot.screenshot], [true, undefined]);
+    assert.equal(fs.readFileSync(store.resolve(trace.id, "0001.jpg")!, "utf-8"), "jpeg");
+
+    assert.equal(store.resolve(trace.id, "../trace.json"), null);
+    assert.equal(store.resolve("../" + trace.id, "trace.json"), null);
+    assert.equal(store.remove(trace.id), true);
+    assert.deepEqual(store.list(), []);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Usage and budget tests
+ * 토큰 사용량 집계, 비용 로그, 예산 한도 확인
+ *
+ * 실행: npm test
+ */
+
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  UsageTracker,
+  readUsageLog,
+  startOfMonth,
+  summarizeUsageLog,
+} from "../src/agent/index.js";
+import { modelResponse } from "./helpers.js";
+
+describe("Usage and budgets", () => {
+  let workDir: string;
+
+  before(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), "pi-browser-usage-"));
+  });
+
+  after(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it("prices each model from the settings table or pi-ai's cost and logs it", () => {
+    const logPath = path.join(workDir, "cost.jsonl");
+    const tracker = new UsageTracker({
+      source: "cli",
+      logPath,
+      prices: {
+        anthropic: { "claude-sonnet": { input: 3, output: 15, cacheRead: 0.3 } },
+        openai: { "*": { input: 1, output: 2 } },
+      },
+    });
+
+    const sonnet = tracker.record(modelResponse("anthropic", "claude-sonnet", { input: 1000, output: 200, cacheRead: 10000, cost: 99 }));
+    const gpt = tracker.record(modelResponse("openai", "gpt-4o-mini", { input: 2000, output: 1000 }));
+    const gemini = tracker.record(modelResponse("google", "gemini-2.5-flash", { input: 500, output: 100, cost: 0.0005 }));
+
+    assert.deepEqual([sonnet.cost, gpt.cost, gemini.cost].map((cost) => cost.toFixed(6)), ["0.009000", "0.004000", "0.000500"]);
+    assert.equal(gpt.totalTokens, 3000);
+
+    const summary = tracker.summary;
+    assert.equal(summary.cost.toFixed(6), "0.013500");
+    assert.deepEqual([summary.calls, summary.input, summary.output], [3, 3500, 1300]);
+    assert.deepEqual(Object.keys(summary.byModel), ["anthropic/claude-sonnet", "openai/gpt-4o-mini", "google/gemini-2.5-flash"]);
+
+    const logged = readUsageLog(0, logPath);
+    assert.deepEqual(logged.map((entry) => entry.source), ["cli", "cli", "cli"]);
+    assert.equal(summarizeUsageLog(logged).cost.toFixed(6), "0.013500");
+  });
+
+  it("reports the per-run, daily and monthly caps once they are reached", () => {
+    const perRun = new UsageTracker({ budget: { perRunUsd: 0.01 } });
+    perRun.record(modelResponse("openai", "gpt-4o-mini", { cost: 0.006 }));
+    assert.equal(perRun.checkBudget(), null);
+    perRun.record(modelResponse("openai", "gpt-4o-mini", { cost: 0.006 }));
+    assert.match(perRun.checkBudget() ?? "", /실행당 예산 초과 \(\$0\.0120 \/ \$0\.01\)/);
+
+    const logPath = path.join(workDir, "budget.jsonl");
+    const earlier = { source: "web", provider: "openai", model: "gpt-4o-mini", input: 0, output: 0, cacheRead: 0, cacheWrite: 0, totalTokens: 0 };
+    fs.writeFileSync(
+      logPath,
+      [
+        { ...earlier, timestamp: startOfMonth() - 1, cost: 50 },
+        { ...earlier, timestamp: Date.now(), cost: 0.95 },
+      ].map((entry) => JSON.stringify(entry)).join("\n") + "\n"
+    );
+
+    const daily = new UsageTracker({ logPath, budget: { dailyUsd: 1 } });
+    assert.equal(daily.checkBudget(), null);
+    daily.record(modelResponse("openai", "gpt-4o-mini", { cost: 0.05 }));
+    assert.match(daily.checkBudget() ?? "", /일일 예산 초과/);
+
+    const monthly = new UsageTracker({ logPath, budget: { monthlyUsd: 0.95 } });
+    assert.match(monthly.checkBudget() ?? "", /월 예산 초과 \(\$0\.9500 \/ \$0\.95\)/);
+  });
+});
@@ -0,0 +1,454 @@
+/**
+ * Workflow executor tests
+ * 워크플로우 입력, 단계 출력, 조건, 반복, 병렬 단계 확인
+ *
+ * 실행: npm test
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  WorkflowExecutor,
+  checkConditionSteps,
+  checkLoopSteps,
+  checkParallelSteps,
+  checkStepOutputs,
+  checkWorkflowInputs,
+  isReplayableStep,
+  parseWorkflowInputArgs,
+  renderWorkflowInputs,
+  resolveWorkflowInputs,
+  evaluateCondition,
+  workflowLogLabel,
+  type ParallelBrowserPool,
+  type Workflow,
+  type WorkflowStep,
+} from "../src/workflow/index.js";
+
+describe("Workflow inputs", () => {
+  const workflow: Workflow = {
+    id: "wf-inputs",
+    name: "가격 확인",
+    description: "",
+    enabled: true,
+    steps: [
+      { id: "s1", name: "검색", prompt: "쿠팡에서 {{inputs.product}} 상위 {{ inputs.count }}개", maxTurns: 5, onSuccess: "end", onFailure: "end" },
+    ],
+    inputs: [
+      { name: "product", type: "string", required: true },
+      { name: "count", type: "number", default: 3 },
+      { name: "compare", type: "boolean", default: false },
+    ],
+    createdAt: 0,
+    updatedAt: 0,
+  };
+
+  it("applies defaults and rejects missing, mistyped or unknown values", () => {
+    assert.deepEqual(resolveWorkflowInputs(workflow, { product: "에어팟", count: "5" }), { product: "에어팟", count: 5, compare: false });
+    assert.deepEqual(resolveWorkflowInputs(workflow, { product: "에어팟", compare: "true" }), { product: "에어팟", count: 3, compare: true });
+    assert.throws(() => resolveWorkflowInputs(workflow, {}), /필수 입력값 없음: product/);
+    assert.throws(() => resolveWorkflowInputs(workflow, { product: "a", count: "many" }), /count: number/);
+    assert.throws(() => resolveWorkflowInputs(workflow, { product: "a", color: "red" }), /알 수 없는 입력값: color/);
+
+    const broken = { ...workflow, mission: "{{inputs.price}}", inputs: [{ name: "bad-name", type: "string" as const }] };
+    assert.deepEqual(checkWorkflowInputs(broken), [
+      "입력값 이름은 영문, 숫자, _만 사용할 수 있습니다: bad-name",
+      "선언하지 않은 입력값: {{inputs.price}}",
+      "선언하지 않은 입력값: {{inputs.product}}",
+      "선언하지 않은 입력값: {{inputs.count}}",
+    ]);
+  });
+
+  it("parses --name=value arguments and renders prompts", () => {
+    assert.deepEqual(parseWorkflowInputArgs(`wf-inputs --product="에어팟 프로" --count=5 --record`), {
+      rest: "wf-inputs --record",
+      values: { product: "에어팟 프로", count: "5" },
+    });
+    assert.equal(renderWorkflowInputs("{{inputs.a}} {{inputs.b}}", { a: 1 }), "1 {{inputs.b}}");
+  });
+
+  it("sends rendered prompts to the agent and never replays them", async () => {
+    const prompts: string[] = [];
+    const executor = new WorkflowExecutor(
+      { ...workflow, steps: [{ ...workflow.steps[0], type: "replay", actions: [{ tool: "browser_navigate", args: { url: "https://www.coupang.com" } }] }] },
+      {
+        runStepAgent: async (prompt) => {
+          prompts.push(prompt);
+          return { success: true, result: "완료", actions: [] };
+        },
+        runReplay: async () => assert.fail("recorded actions must not be replayed for input prompts"),
+      },
+      undefined,
+      resolveWorkflowInputs(workflow, { product: "에어팟" })
+    );
+
+    const result = await executor.execute();
+    assert.equal(result.success, true);
+    assert.deepEqual(prompts, ["쿠팡에서 에어팟 상위 3개"]);
+    assert.deepEqual(result.inputs, { product: "에어팟", count: 3, compare: false });
+  });
+});
+
+describe("Workflow step outputs", () => {
+  const steps: Workflow["steps"] = [
+    {
+      id: "s1",
+      name: "검색",
+      prompt: "에어팟 최저가 찾기",
+      output: "search",
+      outputSchema: { type: "object" },
+      onSuccess: "next",
+      onFailure: "end",
+    },
+    { id: "s2", name: "요약", prompt: "리뷰 요약", output: "summary", onSuccess: "next", onFailure: "end" },
+    {
+      id: "s3",
+      name: "비교",
+      prompt: "{{steps.search.output.url}} 가격 {{steps.search.output.price}}원, {{steps.summary.output}}, 전체 {{steps.search.output}}",
+      onSuccess: "end",
+      onFailure: "end",
+    },
+  ];
+  const workflow: Workflow = { id: "wf-outputs", name: "가격 비교", enabled: true, steps, createdAt: 0, updatedAt: 0 };
+
+  it("pipes named outputs into later prompts and returns the output map", async () => {
+    const prompts: string[] = [];
+    const executor = new WorkflowExecutor(workflow, {
+      runStepAgent: async (prompt, _maxTurns, _onLog, outputSchema) => {
+        prompts.push(prompt);
+        if (outputSchema) return { success: true, result: "찾음", data: { url: "https://example.com/p/1", price: 199000 } };
+        return { success: true, result: prompts.length === 2 ? "평점 4.8" : "싸다" };
+      },
+    });
+
+    const result = await executor.execute();
+    assert.equal(result.success, true);
+    assert.equal(
+      prompts[2],
+      `https://example.com/p/1 가격 199000원, 평점 4.8, 전체 {"url":"https://example.com/p/1","price":199000}`
+    );
+    assert.deepEqual(result.outputs, { search: { url: "https://example.com/p/1", price: 199000 }, summary: "평점 4.8" });
+    assert.deepEqual(steps.map(isReplayableStep), [false, false, false]);
+  });
+
+  it("rejects invalid, duplicate and undeclared outputs", () => {
+    const broken: Workflow = {
+      ...workflow,
+      steps: [
+        { ...steps[0], output: "price-1" },
+        { ...steps[1], output: "summary", prompt: "{{steps.summary.output}}" },
+        { ...steps[2], output: "summary", prompt: "{{steps.search.output}}" },
+      ],
+    };
+    assert.deepEqual(checkStepOutputs(broken), [
+      "검색: 출력 이름은 영문, 숫자, _만 사용할 수 있습니다: price-1",
+      "출력 이름 중복: summary",
+      "요약: 자기 출력은 참조할 수 없습니다: {{steps.summary.output}}",
+      "비교: 선언하지 않은 출력: {{steps.search.output}}",
+    ]);
+    assert.deepEqual(checkStepOutputs(workflow), []);
+  });
+});
+
+describe("Workflow condition steps", () => {
+  it("evaluates expressions over step outputs and inputs", () => {
+    const scope = {
+      inputs: { budget: 1000000, keyword: "품절" },
+      outputs: { search: { price: "990,000", status: "일시 품절" }, count: 3, tags: ["new", "sale"] },
+    };
+    assert.equal(evaluateCondition("search.price < 1000000", scope), true);
+    assert.equal(evaluateCondition("search.price < inputs.budget and count >= 3", scope), true);
+    assert.equal(evaluateCondition(`search.status contains "품절"`, scope), true);
+    assert.equal(evaluateCondition("steps.search.output.status not contains keyword", scope), false);
+    assert.equal(evaluateCondition(`tags contains 'sale' && !(count == 4)`, scope), true);
+    assert.equal(evaluateCondition("count > 5 or search.missing == null", scope), true);
+    assert.throws(() => evaluateCondition("price < 100", scope), /알 수 없는 변수: price/);
+    assert.throws(() => evaluateCondition("search.status > 1", scope), /숫자가 아닌 값/);
+    assert.throws(() => evaluateCondition("count <", scope), /조건식 오류/);
+  });
+
+  it("routes to onTrue/onFalse and asks the model when there is no expression", async () => {
+    const run = async (condition: string | undefined, answer?: boolean) => {
+      const prompts: string[] = [];
+      const workflow: Workflow = {
+        id: "wf-condition",
+        name: "모니터링",
+        enabled: true,
+        createdAt: 0,
+        updatedAt: 0,
+        steps: [
+          { id: "check", name: "가격", prompt: "가격 확인", output: "price", onSuccess: "next", onFailure: "end" },
+          { id: "branch", name: "분기", type: "condition", condition, prompt: "{{steps.price.output}}원이 싸?", onTrue: "alert", onFalse: "end", onSuccess: "next", onFailure: "end" },
+          { id: "skipped", name: "건너뜀", prompt: "실행되면 안 됨", onSuccess: "end", onFailure: "end" },
+          { id: "alert", name: "알림", prompt: "알림 보내기", onSuccess: "end", onFailure: "end" },
+        ],
+      };
+      const executor = new WorkflowExecutor(workflow, {
+        runStepAgent: async (prompt, _maxTurns, _onLog, outputSchema) => {
+          prompts.push(prompt);
+          if (outputSchema) return { success: true, result: "답함", data: { answer, reason: "기준보다 쌈" } };
+          return { success: true, result: "1,200" };
+        },
+      });
+      const result = await executor.execute();
+      return { result, prompts };
+    };
+
+    const cheap = await run("price <= 1500");
+    assert.equal(cheap.result.success, true);
+    assert.deepEqual(cheap.prompts, ["가격 확인", "알림 보내기"]);
+    assert.ok(cheap.result.logs.some((log) => log.type === "condition" && log.message === "🔀 price <= 1500 → 참"));
+
+    const expensive = await run("price < 1000");
+    assert.deepEqual([expensive.result.success, expensive.prompts], [true, ["가격 확인"]]);
+
+    const asked = await run(undefined, true);
+    assert.match(asked.prompts[1], /^1,200원이 싸\?/);
+    assert.equal(asked.prompts[2], "알림 보내기");
+
+    const broken = await run("missing > 1");
+    assert.deepEqual([broken.result.success, broken.result.error], [false, "단계 실패로 워크플로우 종료"]);
+  });
+
+  it("rejects invalid expressions and unknown branch targets", () => {
+    const workflow: Workflow = {
+      id: "wf-condition-check",
+      name: "검사",
+      enabled: true,
+      createdAt: 0,
+      updatedAt: 0,
+      steps: [
+        { id: "a", name: "식", type: "condition", condition: "price <", prompt: "", onTrue: "b", onSuccess: "next", onFailure: "end" },
+        { id: "b", name: "빈 조건", type: "condition", prompt: "", onFalse: "zzz", onSuccess: "next", onFailure: "end" },
+      ],
+    };
+    assert.deepEqual(checkConditionSteps(workflow), [
+      "식: 조건식 오류: 식이 중간에 끝났습니다",
+      "빈 조건: 조건식이나 AI에게 물어볼 질문을 입력하세요",
+      "빈 조건: 없는 단계로 이동: zzz",
+    ]);
+  });
+});
+
+describe("Workflow loop steps", () => {
+  const loopWorkflow = (step: Partial<WorkflowStep>, inputs: Workflow["inputs"] = []): Workflow => ({
+    id: "wf-loop",
+    name: "반복",
+    enabled: true,
+    createdAt: 0,
+    updatedAt: 0,
+    inputs,
+    steps: [
+      { id: "each", name: "가격", type: "loop", prompt: "{{loop.index}}. {{loop.item}} 가격", output: "prices", onSuccess: "next", onFailure: "end", ...step },
+      { id: "report", name: "보고", prompt: "정리: {{steps.prices.output}}", onSuccess: "end", onFailure: "end" },
+    ],
+  });
+
+  it("runs the prompt for each list item and collects the results", async () => {
+    const workflow = loopWorkflow({ loop: { forEach: "urls" } }, [{ name: "urls", type: "list", required: true }]);
+    const inputs = resolveWorkflowInputs(workflow, { urls: "a.com\nb.com\n\nc.com" });
+    assert.deepEqual(inputs.urls, ["a.com", "b.com", "c.com"]);
+    assert.deepEqual(resolveWorkflowInputs(workflow, { urls: "a.com, b.com" }).urls, ["a.com", "b.com"]);
+
+    const prompts: string[] = [];
+    const executor = new WorkflowExecutor(workflow, {
+      runStepAgent: async (prompt) => {
+        prompts.push(prompt);
+        return { success: true, result: String(prompts.length * 100) };
+      },
+    }, undefined, inputs);
+    const result = await executor.execute();
+
+    assert.equal(result.success, true);
+    assert.deepEqual(prompts, ["1. a.com 가격", "2. b.com 가격", "3. c.com 가격", `정리: ["100","200","300"]`]);
+    assert.deepEqual(result.outputs?.prices, ["100", "200", "300"]);
+    const iterationLog = result.logs.find((log) => log.iteration === 2 && log.message.startsWith("🤖"));
+    assert.ok(iterationLog);
+    assert.equal(workflowLogLabel(iterationLog), "가격 #2/3");
+    assert.equal(result.logs.at(-1)?.iteration, undefined);
+    assert.equal(isReplayableStep(workflow.steps[0]), false);
+  });
+
+  it("repeats until the condition holds and stops at the iteration guard", async () => {
+    const run = async (loop: WorkflowStep["loop"]) => {
+      let calls = 0;
+      const executor = new WorkflowExecutor(loopWorkflow({ prompt: "다음 페이지 (이전: {{loop.output}})", loop }), {
+        runStepAgent: async () => ({ success: true, result: "페이지", data: { page: ++calls, done: calls >= 3 } }),
+      });
+      return { result: await executor.execute(), calls };
+    };
+
+    const done = await run({ until: "loop.output.done == true" });
+    assert.equal(done.result.success, true);
+    assert.equal(done.calls, 4);
+    assert.deepEqual((done.result.outputs?.prices as Array<{ page: number }>).map((item) => item.page), [1, 2, 3]);
+
+    const guarded = await run({ until: "loop.index > 5", maxIterations: 2 });
+    assert.equal(guarded.result.success, false);
+    assert.equal(guarded.calls, 2);
+    assert.ok(guarded.result.logs.some((log) => log.message.includes("2번 반복했지만")));
+
+    const missing = await run({ forEach: "steps.missing.output" });
+    assert.equal(missing.calls, 0);
+    assert.ok(missing.result.logs.some((log) => log.message.includes("아직 없는 출력")));
+  });
+
+  it("finishes an empty list in 0 iterations even with an until condition", async () => {
+    const prompts: string[] = [];
+    const workflow = loopWorkflow({ loop: { forEach: "urls", until: "loop.output.done == true" } }, [{ name: "urls", type: "list" }]);
+    const executor = new WorkflowExecutor(workflow, {
+      runStepAgent: async (prompt) => {
+        prompts.push(prompt);
+        return { success: true, result: "완료" };
+      },
+    }, undefined, { urls: [] });
+    const result = await executor.execute();
+
+    assert.equal(result.success, true);
+    assert.deepEqual(prompts, ["정리: []"]);
+    assert.deepEqual(result.outputs?.prices, []);
+    assert.ok(result.logs.some((log) => log.message.includes("(0회)")));
+    assert.ok(!result.logs.some((log) => log.message.includes("반복했지만")));
+  });
+
+  it("treats until as an early exit for forEach and succeeds when the list runs out", async () => {
+    const run = async (urls: string[]) => {
+      const prompts: string[] = [];
+      const workflow = loopWorkflow({ loop: { forEach: "urls", until: "loop.output.found == true" } }, [{ name: "urls", type: "list" }]);
+      const executor = new WorkflowExecutor(workflow, {
+        runStepAgent: async (prompt) => {
+          prompts.push(prompt);
+          return { success: true, result: "검색", data: { found: prompt.includes("b.com") } };
+        },
+      }, undefined, { urls });
+      return { result: await executor.execute(), prompts };
+    };
+
+    const exhausted = await run(["a.com", "c.com", "d.com"]);
+    assert.equal(exhausted.result.success, true);
+    assert.equal(exhausted.prompts.length, 4);
+    assert.equal((exhausted.result.outputs?.prices as unknown[]).length, 3);
+    assert.ok(exhausted.result.logs.some((log) => log.message.includes("반복 완료 (3회)")));
+
+    const early = await run(["a.com", "b.com", "c.com"]);
+    assert.equal(early.result.success, true);
+    assert.deepEqual(early.prompts.slice(0, 2), ["1. a.com 가격", "2. b.com 가격"]);
+    assert.equal((early.result.outputs?.prices as unknown[]).length, 2);
+  });
+
+  it("rejects loops without a list or condition", () => {
+    assert.deepEqual(checkLoopSteps(loopWorkflow({ prompt: "" })), [
+      "가격: 반복할 목록(forEach)이나 멈출 조건(until)을 입력하세요",
+      "가격: 반복마다 실행할 프롬프트를 입력하세요",
+    ]);
+    assert.deepEqual(checkLoopSteps(loopWorkflow({ loop: { forEach: "urls[0]", until: "done ==", maxIterations: 500 } })), [
+      "가격: forEach는 입력값이나 출력 이름이어야 합니다 (예: urls, steps.search.output.items)",
+      "가격: until 조건식 오류: 식이 중간에 끝났습니다",
+      "가격: 최대 반복 횟수는 1~100 사이여야 합니다",
+    ]);
+  });
+});
+
+describe("Workflow parallel steps", () => {
+  const parallelWorkflow = (prompts: string[], concurrency?: number): Workflow => ({
+    id: "wf-parallel",
+    name: "병렬",
+    enabled: true,
+    createdAt: 0,
+    updatedAt: 0,
+    steps: [
+      {
+        id: "group",
+        name: "가격 비교",
+        type: "parallel",
+        prompt: "",
+        output: "compare",
+        parallel: { concurrency, branches: prompts.map((prompt, i) => ({ id: `b${i}`, name: `분기${i}`, prompt, output: i === 0 ? "first" : undefined })) },
+        onSuccess: "next",
+        onFailure: "end",
+      },
+      { id: "report", name: "보고", prompt: "정리: {{steps.compare.output}} / {{steps.first.output}}", onSuccess: "end", onFailure: "end" },
+    ],
+  });
+
+  // 분기 컨텍스트를 세는 가짜 브라우저 풀
+  const fakePool = () => {
+    const stats = { sizes: [] as number[], opened: 0, closed: 0, running: 0, maxRunning: 0, poolClosed: false };
+    const open = async (size: number): Promise<ParallelBrowserPool> => {
+      stats.sizes.push(size);
+      return {
+        size,
+        openContext: async (slot) => {
+          stats.opened++;
+          return {
+            runStepAgent: async (prompt) => {
+              stats.running++;
+              stats.maxRunning = Math.max(stats.maxRunning, stats.running);
+              await new Promise((resolve) => setTimeout(resolve, 10));
+              stats.running--;
+              return prompt.includes("실패") ? { success: false, result: "못 찾음" } : { success: true, result: `${prompt}@${slot}` };
+            },
+            close: async () => {
+              stats.closed++;
+            },
+          };
+        },
+        close: async () => {
+          stats.poolClosed = true;
+        },
+      };
+    };
+    return { stats, open };
+  };
+
+  it("runs branches concurrently within the limit and joins their outputs", async () => {
+    const pool = fakePool();
+    const prompts: string[] = [];
+    const executor = new WorkflowExecutor(parallelWorkflow(["a", "b", "c"], 2), {
+      runStepAgent: async (prompt) => {
+        prompts.push(prompt);
+        return { success: true, result: "ok" };
+      },
+      openParallelPool: pool.open,
+    });
+    const result = await executor.execute();
+
+    assert.equal(result.success, true);
+    assert.deepEqual(pool.stats.sizes, [2]);
+    assert.deepEqual([pool.stats.maxRunning, pool.stats.opened, pool.stats.closed, pool.stats.poolClosed], [2, 3, 3, true]);
+    assert.deepEqual(Object.keys(result.outputs?.compare as object).sort(), ["b1", "b2", "first"]);
+    assert.equal(result.outputs?.first, "a@0");
+    assert.match(prompts[0], /^정리: \{"first":"a@0",.*\} \/ a@0$/);
+    assert.ok(result.logs.some((log) => log.stepId === "b1" && log.stepName === "가격 비교 › 분기1"));
+  });
+
+  it("fails the group when a branch fails or no pool is available", async () => {
+    const pool = fakePool();
+    const failed = await new WorkflowExecutor(parallelWorkflow(["a", "실패"]), {
+      runStepAgent: async () => ({ success: true, result: "ok" }),
+      openParallelPool: pool.open,
+    }).execute();
+    assert.equal(failed.success, false);
+    assert.deepEqual(pool.stats.sizes, [2]);
+    assert.deepEqual(failed.outputs?.compare, { first: "a@0" });
+    assert.ok(failed.logs.some((log) => log.message === "❌ 실패한 분기: 분기1"));
+
+    const unsupported = await new WorkflowExecutor(parallelWorkflow(["a", "b"]), {
+      runStepAgent: async () => ({ success: true, result: "ok" }),
+    }).execute();
+    assert.equal(unsupported.success, false);
+    assert.ok(unsupported.logs.some((log) => log.message.includes("병렬 단계를 실행할 수 없습니다")));
+  });
+
+  it("rejects small groups and references between sibling branches", () => {
+    assert.deepEqual(checkParallelSteps(parallelWorkflow(["a"], 9)), [
+      "가격 비교: 분기를 2개 이상 추가하세요",
+      "가격 비교: 동시 실행 수는 1~5 사이여야 합니다",
+    ]);
+    assert.deepEqual(checkParallelSteps(parallelWorkflow(["a", " "])), ["가격 비교 › 분기1: 프롬프트를 입력하세요"]);
+    assert.deepEqual(checkStepOutputs(parallelWorkflow(["a", "{{steps.first.output}} 비교"])), [
+      "분기1: 같은 병렬 그룹의 출력은 참조할 수 없습니다: {{steps.first.output}}",
+    ]);
+    assert.equal(isReplayableStep(parallelWorkflow(["a", "b"]).steps[0]), false);
+  });
+});